@@ -0,0 +1,37 @@
+import { Controller, Param, Sse, Query, UnauthorizedException } from '@nestjs/common';
+import { Observable, filter, map } from 'rxjs';
+import { AuthService } from '../auth/auth.service';
+import { Public } from '../common/decorators/public.decorator';
+import { AuthMessage } from '../libs/enums';
+import { AdRecreationService } from './ad-recreation.service';
+
+@Controller('ad-recreation')
+export class AdRecreationEventsController {
+	constructor(
+		private readonly adRecreationService: AdRecreationService,
+		private readonly authService: AuthService,
+	) {}
+
+	/**
+	 * GET /api/ad-recreation/:id/stream?token=JWT
+	 * SSE stream of status changes and per-variation progress.
+	 */
+	@Sse(':id/stream')
+	@Public() // EventSource cannot send headers - token is validated from the query string
+	async streamAdRecreation(@Param('id') adRecreationId: string, @Query('token') token: string): Promise<Observable<any>> {
+		if (!token) {
+			throw new UnauthorizedException(AuthMessage.UNAUTHORIZED);
+		}
+
+		// Same checks as the guard, including session revocation (throws UnauthorizedException)
+		const userId = await this.authService.verifyAccessToken(token);
+
+		// Only the owner may follow the project (throws NotFound otherwise)
+		await this.adRecreationService.findOne(adRecreationId, userId);
+
+		return this.adRecreationService.getEventStream().pipe(
+			filter((event) => event.adRecreationId === adRecreationId && event.userId === userId),
+			map((event) => ({ data: JSON.stringify(event) })),
+		);
+	}
+}
@@ -0,0 +1,50 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { AdRecreation, AdRecreationStatus } from '../database/entities/ad-recreation.entity';
+import { QueueMessage } from '../libs/enums';
+import { AdRecreationRecoveryService } from './ad-recreation-recovery.service';
+import { AD_RECREATION_QUEUE } from './ad-recreation.queue';
+
+describe('AdRecreationRecoveryService', () => {
+	let service: AdRecreationRecoveryService;
+	let repository: { find: jest.Mock; save: jest.Mock };
+	let queue: { getJobs: jest.Mock };
+
+	beforeEach(async () => {
+		repository = {
+			find: jest.fn().mockResolvedValue([]),
+			save: jest.fn((adRecreation: AdRecreation) => Promise.resolve(adRecreation)),
+		};
+		queue = { getJobs: jest.fn().mockResolvedValue([]) };
+
+		const moduleRef = await Test.createTestingModule({
+			providers: [
+				AdRecreationRecoveryService,
+				{ provide: getRepositoryToken(AdRecreation), useValue: repository },
+				{ provide: getQueueToken(AD_RECREATION_QUEUE), useValue: queue },
+			],
+		}).compile();
+
+		service = moduleRef.get(AdRecreationRecoveryService);
+	});
+
+	it('fails in-progress recreations whose job is gone and leaves live ones to Bull', async () => {
+		const lost = { id: 'ad-1', status: AdRecreationStatus.GENERATING } as AdRecreation;
+		const queued = { id: 'ad-2', status: AdRecreationStatus.ANALYZING } as AdRecreation;
+		repository.find.mockResolvedValue([lost, queued]);
+		queue.getJobs.mockResolvedValue([{ data: { adRecreationId: 'ad-2' } }]);
+
+		await service.failInterruptedRecreations();
+
+		expect(repository.save).toHaveBeenCalledTimes(1);
+		expect(lost).toMatchObject({ status: AdRecreationStatus.FAILED, error_message: QueueMessage.JOB_INTERRUPTED });
+		expect(queued.status).toBe(AdRecreationStatus.ANALYZING);
+	});
+
+	it('does not read the queue when nothing is in progress', async () => {
+		await service.failInterruptedRecreations();
+
+		expect(queue.getJobs).not.toHaveBeenCalled();
+	});
+});
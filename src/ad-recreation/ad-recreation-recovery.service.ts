@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { In, Repository } from 'typeorm';
+
+import { AdRecreation, AdRecreationStatus } from '../database/entities/ad-recreation.entity';
+import { QueueMessage } from '../libs/enums';
+import { AD_RECREATION_QUEUE } from './ad-recreation.queue';
+import { AdRecreationAnalyzeJobData, AdRecreationGenerateJobData } from './ad-recreation.processor';
+
+/** Bull states in which the job will still run (an `active` job of a dead worker is picked up as stalled) */
+const LIVE_JOB_STATES = ['waiting', 'active', 'delayed', 'paused'] as const;
+
+/**
+ * Startup sweep for ad recreations left in ANALYZING / GENERATING by a restart.
+ *
+ * Jobs run with a single attempt (a retry would re-bill every variation), so
+ * a project whose job is gone will never leave its in-progress status. It is
+ * marked FAILED with an explanatory error instead; projects whose job is
+ * still live are left to Bull.
+ */
+@Injectable()
+export class AdRecreationRecoveryService implements OnApplicationBootstrap {
+	private readonly logger = new Logger(AdRecreationRecoveryService.name);
+
+	constructor(
+		@InjectRepository(AdRecreation)
+		private readonly adRecreationRepository: Repository<AdRecreation>,
+
+		@InjectQueue(AD_RECREATION_QUEUE)
+		private readonly adRecreationQueue: Queue<AdRecreationAnalyzeJobData | AdRecreationGenerateJobData>,
+	) {}
+
+	onApplicationBootstrap(): void {
+		// Do not hold up startup; the queue may still be connecting
+		this.failInterruptedRecreations().catch((err: Error) =>
+			this.logger.error(`❌ Ad recreation startup sweep failed: ${err.message}`, err.stack),
+		);
+	}
+
+	async failInterruptedRecreations(): Promise<void> {
+		const adRecreations = await this.adRecreationRepository.find({
+			where: { status: In([AdRecreationStatus.ANALYZING, AdRecreationStatus.GENERATING]) },
+		});
+		if (!adRecreations.length) return;
+
+		const liveJobs = await this.adRecreationQueue.getJobs([...LIVE_JOB_STATES]);
+		const live = new Set(liveJobs.filter(Boolean).map((job) => job.data.adRecreationId));
+
+		let failed = 0;
+		for (const adRecreation of adRecreations) {
+			if (live.has(adRecreation.id)) continue;
+
+			adRecreation.status = AdRecreationStatus.FAILED;
+			adRecreation.error_message = QueueMessage.JOB_INTERRUPTED;
+			await this.adRecreationRepository.save(adRecreation);
+			failed++;
+		}
+
+		this.logger.log(`🧹 Ad recreation startup sweep: ${adRecreations.length} in progress, ${failed} marked failed`);
+	}
+}
@@ -19,6 +19,7 @@ import {
 import { AdRecreationService } from './ad-recreation.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { NoBrandScopedTokens } from '../common/decorators/access-tokens.decorator';
 import { User } from '../database/entities/user.entity';
 import { AdRecreation } from '../database/entities/ad-recreation.entity';
 import {
@@ -31,6 +32,7 @@ import {
 @ApiBearerAuth('JWT-auth')
 @Controller('ad-recreation')
 @UseGuards(JwtAuthGuard)
+@NoBrandScopedTokens()
 export class AdRecreationController {
 	constructor(private readonly adRecreationService: AdRecreationService) {}
 
@@ -143,7 +145,7 @@ export class AdRecreationController {
 
 	@ApiOperation({
 		summary: 'Analyze competitor ad',
-		description: 'Analyze the competitor ad using Claude AI to extract visual elements, messaging, and composition insights.',
+		description: 'Queue analysis of the competitor ad with Claude AI (visual elements, messaging, composition). Returns immediately with status "analyzing"; follow progress on the /ad-recreations socket namespace or GET /ad-recreation/:id/stream.',
 	})
 	@ApiParam({
 		name: 'id',
@@ -156,26 +158,12 @@ export class AdRecreationController {
 	})
 	@ApiResponse({
 		status: 200,
-		description: 'Ad analysis completed successfully',
+		description: 'Ad analysis queued',
 		schema: {
 			example: {
 				id: '123e4567-e89b-12d3-a456-426614174000',
-				status: 'analyzed',
-				analysis_result: {
-					visual_elements: {
-						color_scheme: ['#FF6B35', '#004E64', '#FFFFFF'],
-						typography: 'Modern sans-serif, bold headers',
-						layout: 'Center-aligned with hero image',
-					},
-					messaging: {
-						headline: 'Discover Your Style',
-						tone: 'Confident and aspirational',
-					},
-					recommendations: [
-						'Use similar color palette but adapt to brand colors',
-						'Maintain clean, modern typography approach',
-					],
-				},
+				status: 'analyzing',
+				job_id: 'ad-analyze-123e4567-e89b-12d3-a456-426614174000-1737733328300',
 			},
 		},
 	})
@@ -192,13 +180,13 @@ export class AdRecreationController {
 		@Param('id') id: string,
 		@CurrentUser() user: User,
 		@Body() dto: AnalyzeAdDto,
-	): Promise<AdRecreation> {
+	): Promise<AdRecreation & { job_id: string }> {
 		return this.adRecreationService.analyzeAd(id, user.id, dto);
 	}
 
 	@ApiOperation({
 		summary: 'Generate ad variations',
-		description: 'Generate multiple ad variations using Gemini AI based on the analysis results and your specifications.',
+		description: 'Queue generation of ad variations with the configured image provider. Returns immediately with status "generating"; variations are emitted one by one (variation_processing / variation_completed / progress) over the /ad-recreations socket namespace and GET /ad-recreation/:id/stream, and saved on the project as they land.',
 	})
 	@ApiParam({
 		name: 'id',
@@ -211,7 +199,7 @@ export class AdRecreationController {
 	})
 	@ApiResponse({
 		status: 200,
-		description: 'Ad variations generated successfully',
+		description: 'Ad variation generation queued. Example shows the project once the job has completed.',
 		schema: {
 			example: {
 				id: '123e4567-e89b-12d3-a456-426614174000',
@@ -221,14 +209,19 @@ export class AdRecreationController {
 						{
 							variation_id: 'variation_1',
 							style: 'similar',
-							image_url: 'https://example.com/generated_variation_1.png',
-							prompt_used: 'Create a similar style advertisement...',
+							status: 'completed',
+							image_url: 'https://api.example.com/uploads/generated_variation_1.png',
+							prompt_used: 'Create a new, original advertising image inspired by...',
+							provider: 'gemini',
+							model: 'gemini-3-pro-image-preview',
 						},
 					],
 					generation_metadata: {
 						total_variations: 3,
-						generation_time: '3.2s',
-						model_used: 'gemini-2.5-flash-image',
+						completed_variations: 3,
+						generation_time: '41.2s',
+						provider: 'gemini',
+						model_used: 'gemini-3-pro-image-preview',
 					},
 				},
 			},
@@ -247,7 +240,7 @@ export class AdRecreationController {
 		@Param('id') id: string,
 		@CurrentUser() user: User,
 		@Body() dto: GenerateVariationsDto,
-	): Promise<AdRecreation> {
+	): Promise<AdRecreation & { job_id: string }> {
 		return this.adRecreationService.generateVariations(id, user.id, dto);
 	}
 
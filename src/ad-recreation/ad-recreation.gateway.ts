@@ -0,0 +1,102 @@
+import {
+	WebSocketGateway,
+	WebSocketServer,
+	SubscribeMessage,
+	OnGatewayConnection,
+	OnGatewayInit,
+} from '@nestjs/websockets';
+import { Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { Server } from 'socket.io';
+import { AuthService } from '../auth/auth.service';
+import { AdRecreation } from '../database/entities/ad-recreation.entity';
+import { AuthMessage, PermissionMessage } from '../libs/enums';
+
+const ROOM_PREFIX = 'ad:';
+
+/**
+ * Sibling of GenerationGateway for ad recreation projects.
+ * Clients connect to /ad-recreations with an access token (`auth: { token }` or
+ * `?token=`) and `subscribe` with { adRecreationId } of a project they own.
+ */
+@WebSocketGateway({
+	cors: { origin: '*' },
+	namespace: '/ad-recreations',
+})
+export class AdRecreationGateway implements OnGatewayConnection, OnGatewayInit {
+	@WebSocketServer()
+	server!: Server;
+
+	private readonly logger = new Logger(AdRecreationGateway.name);
+
+	// Repository rather than AdRecreationService: the service depends on this gateway
+	constructor(
+		private readonly authService: AuthService,
+		@InjectRepository(AdRecreation)
+		private readonly adRecreationRepository: Repository<AdRecreation>,
+	) { }
+
+	afterInit(server: Server) {
+		this.server = server;
+		this.logger.log(`✅ [Socket] Gateway initialized for namespace /ad-recreations`);
+	}
+
+	/**
+	 * Authenticate the handshake; clients without a valid access token are disconnected
+	 */
+	async handleConnection(client: any) {
+		const token = client.handshake?.auth?.token || client.handshake?.query?.token;
+		try {
+			if (!token) throw new Error('No token');
+			client.data.userId = await this.authService.verifyAccessToken(token);
+		} catch {
+			this.logger.warn(`⚠️ [Socket] Rejected unauthenticated client ${client.id}`);
+			client.emit('error', { message: AuthMessage.UNAUTHORIZED });
+			client.disconnect(true);
+		}
+	}
+
+	@SubscribeMessage('subscribe')
+	async handleSubscribe(client: any, payload: { adRecreationId: string }) {
+		const { adRecreationId } = payload || {};
+		const userId: string | undefined = client.data?.userId;
+		if (!adRecreationId || !userId) {
+			this.logger.warn(`⚠️ [Socket] Subscribe without adRecreationId or authentication from ${client.id}`);
+			return;
+		}
+
+		const owned = isUUID(adRecreationId)
+			&& (await this.adRecreationRepository.exists({ where: { id: adRecreationId, user_id: userId } }));
+		if (!owned) {
+			this.logger.warn(`⚠️ [Socket] Client ${client.id} (user ${userId}) denied room ${ROOM_PREFIX + adRecreationId}`);
+			client.emit('error', { message: PermissionMessage.NOT_OWNER });
+			return;
+		}
+
+		client.join(ROOM_PREFIX + adRecreationId);
+		this.logger.log(`✅ [Socket] Client ${client.id} joined room ${ROOM_PREFIX + adRecreationId}`);
+	}
+
+	@SubscribeMessage('unsubscribe')
+	handleUnsubscribe(client: any, payload: { adRecreationId: string }) {
+		const { adRecreationId } = payload || {};
+		if (!adRecreationId) return;
+		client.leave(ROOM_PREFIX + adRecreationId);
+	}
+
+	/** Emit to all clients watching this ad recreation. Never throws. */
+	emitToAdRecreation(adRecreationId: string, event: string, data: any) {
+		if (!this.server) {
+			this.logger.warn(`⚠️ [Socket] Cannot emit '${event}': server not available`);
+			return;
+		}
+
+		try {
+			this.server.to(ROOM_PREFIX + adRecreationId).emit(event, data);
+		} catch (error: any) {
+			this.logger.error(`❌ [Socket] Failed to emit '${event}' to ${ROOM_PREFIX + adRecreationId}:`, error?.message || error);
+		}
+	}
+}
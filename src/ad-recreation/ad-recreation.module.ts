@@ -1,14 +1,28 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AdRecreationController } from './ad-recreation.controller';
+import { AdRecreationEventsController } from './ad-recreation-events.controller';
 import { AdRecreationService } from './ad-recreation.service';
+import { AdRecreationProcessor } from './ad-recreation.processor';
+import { AdRecreationRecoveryService } from './ad-recreation-recovery.service';
+import { AdRecreationGateway } from './ad-recreation.gateway';
+import { AdRecreationQueueModule } from './ad-recreation.queue';
 import { AdRecreation } from '../database/entities/ad-recreation.entity';
 import { User } from '../database/entities/user.entity';
+import { AiModule } from '../ai/ai.module';
+import { AuthModule } from '../auth/auth.module';
+import { FilesModule } from '../files/files.module';
 
 @Module({
-	imports: [TypeOrmModule.forFeature([AdRecreation, User])],
-	controllers: [AdRecreationController],
-	providers: [AdRecreationService],
+	imports: [
+		TypeOrmModule.forFeature([AdRecreation, User]),
+		AuthModule,
+		AiModule,
+		FilesModule,
+		AdRecreationQueueModule,
+	],
+	controllers: [AdRecreationController, AdRecreationEventsController],
+	providers: [AdRecreationService, AdRecreationProcessor, AdRecreationRecoveryService, AdRecreationGateway],
 	exports: [AdRecreationService],
 })
-export class AdRecreationModule {}
\ No newline at end of file
+export class AdRecreationModule {}
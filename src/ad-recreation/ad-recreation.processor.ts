@@ -0,0 +1,46 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { AdRecreationService } from './ad-recreation.service';
+import { AD_RECREATION_ANALYZE_JOB, AD_RECREATION_GENERATE_JOB, AD_RECREATION_QUEUE } from './ad-recreation.queue';
+import { AnalyzeAdDto, GenerateVariationsDto } from '../libs/dto';
+import { UsageContext } from '../usage/usage-context';
+
+export interface AdRecreationAnalyzeJobData {
+	adRecreationId: string;
+	dto: AnalyzeAdDto;
+}
+
+export interface AdRecreationGenerateJobData {
+	adRecreationId: string;
+	dto: GenerateVariationsDto;
+}
+
+@Processor(AD_RECREATION_QUEUE)
+export class AdRecreationProcessor {
+	private readonly logger = new Logger(AdRecreationProcessor.name);
+
+	constructor(private readonly adRecreationService: AdRecreationService) { }
+
+	@Process(AD_RECREATION_ANALYZE_JOB)
+	async processAnalyze(job: Job<AdRecreationAnalyzeJobData>): Promise<void> {
+		this.logger.log(`🔍 [PROCESSOR] Analyze job ${job.id} for ad recreation ${job.data.adRecreationId}`);
+		await UsageContext.run({}, () => this.adRecreationService.runAnalysis(job.data.adRecreationId, job.data.dto));
+		await job.progress(100);
+	}
+
+	@Process(AD_RECREATION_GENERATE_JOB)
+	async processGenerate(job: Job<AdRecreationGenerateJobData>): Promise<void> {
+		this.logger.log(`🎨 [PROCESSOR] Generate job ${job.id} for ad recreation ${job.data.adRecreationId}`);
+		await UsageContext.run({}, () =>
+			this.adRecreationService.runVariationGeneration(job.data.adRecreationId, job.data.dto, (percent) =>
+				job.progress(percent),
+			),
+		);
+	}
+
+	@OnQueueFailed()
+	onFailed(job: Job, error: Error) {
+		this.logger.error(`Job ${job.id} (${job.name}) failed: ${error.message}`, error.stack);
+	}
+}
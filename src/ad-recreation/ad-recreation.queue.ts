@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+export const AD_RECREATION_QUEUE = 'ad-recreation';
+export const AD_RECREATION_ANALYZE_JOB = 'analyze';
+export const AD_RECREATION_GENERATE_JOB = 'generate';
+
+@Module({
+	imports: [
+		BullModule.registerQueue({
+			name: AD_RECREATION_QUEUE,
+			// Same long-running settings as the generation queue (Claude + image calls)
+			settings: {
+				stalledInterval: 300000, // 5 minutes
+				maxStalledCount: 3,
+				lockDuration: 600000, // 10 minutes
+				lockRenewTime: 300000, // 5 minutes
+			},
+			defaultJobOptions: {
+				attempts: 1, // No automatic retries - a retry would re-bill every variation
+				timeout: 900000, // 15 minutes timeout per job
+				removeOnComplete: {
+					age: 3600,
+					count: 100,
+				},
+				removeOnFail: {
+					age: 86400,
+				},
+			},
+		}),
+	],
+	exports: [BullModule],
+})
+export class AdRecreationQueueModule {}
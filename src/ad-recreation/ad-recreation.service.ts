@@ -7,6 +7,9 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Subject } from 'rxjs';
 import { AdRecreation, AdRecreationStatus } from '../database/entities/ad-recreation.entity';
 import { User } from '../database/entities/user.entity';
 import {
@@ -14,7 +17,15 @@ import {
 	AnalyzeAdDto,
 	GenerateVariationsDto,
 } from '../libs/dto';
+import { VariationStyle } from '../libs/dto/generate-variations.dto';
 import { AIMessage, ErrorMessage, NotFoundMessage } from '../libs/enums';
+import { ClaudeService } from '../ai/claude.service';
+import { VertexImagenService } from '../ai/vertex-imagen.service';
+import { FilesService } from '../files/files.service';
+import { AdRecreationGateway } from './ad-recreation.gateway';
+import { AD_RECREATION_ANALYZE_JOB, AD_RECREATION_GENERATE_JOB, AD_RECREATION_QUEUE } from './ad-recreation.queue';
+import { AdRecreationEvent } from '../common/interfaces/ad-recreation-event.interface';
+import { UsageContext } from '../usage/usage-context';
 
 type AdRecreationFilters = {
 	status?: string;
@@ -22,15 +33,34 @@ type AdRecreationFilters = {
 	limit?: number;
 };
 
+/** Art direction injected into the image prompt for each variation style */
+const VARIATION_STYLE_DIRECTIONS: Record<VariationStyle, string> = {
+	[VariationStyle.SIMILAR]: 'Keep the composition, framing and energy of the reference ad, re-expressed in our brand identity.',
+	[VariationStyle.CONTRASTING]: 'Deliberately flip the reference: opposite color temperature, different framing and a contrasting mood.',
+	[VariationStyle.MODERN]: 'Contemporary editorial look: clean geometry, crisp lighting, current social-ad aesthetics.',
+	[VariationStyle.MINIMAL]: 'Minimal layout: generous negative space, one focal subject, restrained palette, no clutter.',
+	[VariationStyle.BOLD]: 'Bold and high-impact: saturated colors, strong contrast, dynamic angle, oversized focal subject.',
+	[VariationStyle.ELEGANT]: 'Elegant premium feel: soft refined lighting, muted luxurious palette, graceful composition.',
+};
+
 @Injectable()
 export class AdRecreationService {
 	private readonly logger = new Logger(AdRecreationService.name);
 
+	// SSE Subject for real-time updates (mirrors GenerationsService)
+	private readonly events = new Subject<AdRecreationEvent>();
+
 	constructor(
 		@InjectRepository(AdRecreation)
 		private readonly adRecreationRepository: Repository<AdRecreation>,
 		@InjectRepository(User)
 		private readonly usersRepository: Repository<User>,
+		private readonly claudeService: ClaudeService,
+		private readonly vertexImagenService: VertexImagenService,
+		private readonly filesService: FilesService,
+		private readonly adRecreationGateway: AdRecreationGateway,
+		@InjectQueue(AD_RECREATION_QUEUE)
+		private readonly adRecreationQueue: Queue,
 	) {}
 
 	async create(userId: string, dto: CreateAdRecreationDto): Promise<AdRecreation> {
@@ -94,12 +124,16 @@ export class AdRecreationService {
 		return adRecreation;
 	}
 
+	/**
+	 * Queue competitor ad analysis. Returns immediately with status ANALYZING;
+	 * the result arrives via socket (/ad-recreations) / SSE and is persisted on the entity.
+	 */
 	async analyzeAd(
 		id: string,
 		userId: string,
 		dto: AnalyzeAdDto,
-	): Promise<AdRecreation> {
-		this.logger.log(`Starting analysis for ad recreation: ${id}`);
+	): Promise<AdRecreation & { job_id: string }> {
+		this.logger.log(`Queueing analysis for ad recreation: ${id}`);
 
 		const adRecreation = await this.findOne(id, userId);
 
@@ -109,40 +143,27 @@ export class AdRecreationService {
 			);
 		}
 
-		// Update status to analyzing
-		adRecreation.status = AdRecreationStatus.ANALYZING;
-		await this.adRecreationRepository.save(adRecreation);
-
-		try {
-			// TODO: Implement Claude AI analysis
-			// For now, we'll simulate analysis with mock data
-			const analysisResult = await this.performClaudeAnalysis(
-				adRecreation.competitor_ad_url,
-				adRecreation.brand_brief,
-				dto,
-			);
+		await this.updateStatus(adRecreation, AdRecreationStatus.ANALYZING);
 
-			adRecreation.competitor_analysis = analysisResult;
-			adRecreation.status = AdRecreationStatus.ANALYZED;
-			await this.adRecreationRepository.save(adRecreation);
+		const job = await this.adRecreationQueue.add(
+			AD_RECREATION_ANALYZE_JOB,
+			{ adRecreationId: id, dto },
+			{ jobId: `ad-analyze-${id}-${Date.now()}` },
+		);
 
-			this.logger.log(`Analysis completed for ad recreation: ${id}`);
-			return adRecreation;
-		} catch (error) {
-			this.logger.error(`Analysis failed for ad recreation ${id}:`, error.message);
-			adRecreation.status = AdRecreationStatus.FAILED;
-			adRecreation.error_message = error.message;
-			await this.adRecreationRepository.save(adRecreation);
-			throw new InternalServerErrorException(AIMessage.CLAUDE_API_ERROR);
-		}
+		return { ...adRecreation, job_id: job.id.toString() };
 	}
 
+	/**
+	 * Queue variation generation. Returns immediately with status GENERATING;
+	 * variations appear one by one via socket / SSE and on the entity.
+	 */
 	async generateVariations(
 		id: string,
 		userId: string,
 		dto: GenerateVariationsDto,
-	): Promise<AdRecreation> {
-		this.logger.log(`Starting variation generation for ad recreation: ${id}`);
+	): Promise<AdRecreation & { job_id: string }> {
+		this.logger.log(`Queueing variation generation for ad recreation: ${id}`);
 
 		const adRecreation = await this.findOne(id, userId);
 
@@ -152,26 +173,73 @@ export class AdRecreationService {
 			);
 		}
 
-		// Update status to generating
-		adRecreation.status = AdRecreationStatus.GENERATING;
 		if (dto.variations_count) {
 			adRecreation.variations_count = dto.variations_count;
 		}
-		await this.adRecreationRepository.save(adRecreation);
+		adRecreation.generated_variations = null;
+		adRecreation.error_message = null;
+		await this.updateStatus(adRecreation, AdRecreationStatus.GENERATING);
+
+		const job = await this.adRecreationQueue.add(
+			AD_RECREATION_GENERATE_JOB,
+			{ adRecreationId: id, dto },
+			{ jobId: `ad-generate-${id}-${Date.now()}` },
+		);
+
+		return { ...adRecreation, job_id: job.id.toString() };
+	}
+
+	/**
+	 * Worker side of analyzeAd (called by AdRecreationProcessor).
+	 */
+	async runAnalysis(id: string, dto: AnalyzeAdDto): Promise<AdRecreation> {
+		const adRecreation = await this.findById(id);
+		UsageContext.assign({ user_id: adRecreation.user_id, brand_id: adRecreation.brand_id });
 
 		try {
-			// TODO: Implement Gemini image generation
-			// For now, we'll simulate generation with mock data
-			const generatedVariations = await this.performImageGeneration(
-				adRecreation.competitor_analysis,
-				adRecreation.variations_count,
+			const analysisResult = await this.performClaudeAnalysis(
+				adRecreation.competitor_ad_url,
+				adRecreation.brand_brief,
 				dto,
 			);
 
+			adRecreation.competitor_analysis = analysisResult;
+			await this.updateStatus(adRecreation, AdRecreationStatus.ANALYZED);
+
+			this.logger.log(`Analysis completed for ad recreation: ${id}`);
+			return adRecreation;
+		} catch (error) {
+			this.logger.error(`Analysis failed for ad recreation ${id}:`, error.message);
+			adRecreation.error_message = error.message;
+			await this.updateStatus(adRecreation, AdRecreationStatus.FAILED);
+			throw new InternalServerErrorException(AIMessage.CLAUDE_API_ERROR);
+		}
+	}
+
+	/**
+	 * Worker side of generateVariations (called by AdRecreationProcessor).
+	 * @param onProgress - Receives overall percent after each variation (used for Bull job progress)
+	 */
+	async runVariationGeneration(
+		id: string,
+		dto: GenerateVariationsDto,
+		onProgress?: (percent: number) => unknown,
+	): Promise<AdRecreation> {
+		const adRecreation = await this.findById(id);
+		UsageContext.assign({ user_id: adRecreation.user_id, brand_id: adRecreation.brand_id });
+
+		try {
+			const generatedVariations = await this.performImageGeneration(adRecreation, dto, onProgress);
+
 			adRecreation.generated_variations = generatedVariations;
-			adRecreation.status = AdRecreationStatus.COMPLETED;
 			adRecreation.completed_at = new Date();
-			await this.adRecreationRepository.save(adRecreation);
+			await this.updateStatus(adRecreation, AdRecreationStatus.COMPLETED);
+
+			this.emitEvent(adRecreation, 'ad_recreation_completed', {
+				status: adRecreation.status,
+				completed: generatedVariations.generation_metadata.completed_variations,
+				total: generatedVariations.generation_metadata.total_variations,
+			});
 
 			this.logger.log(`Variations generated for ad recreation: ${id}`);
 			return adRecreation;
@@ -180,9 +248,12 @@ export class AdRecreationService {
 				`Variation generation failed for ad recreation ${id}:`,
 				error.message,
 			);
-			adRecreation.status = AdRecreationStatus.FAILED;
 			adRecreation.error_message = error.message;
-			await this.adRecreationRepository.save(adRecreation);
+			await this.updateStatus(adRecreation, AdRecreationStatus.FAILED);
+			this.emitEvent(adRecreation, 'ad_recreation_completed', {
+				status: adRecreation.status,
+				error: error.message,
+			});
 			throw new InternalServerErrorException(AIMessage.GEMINI_API_ERROR);
 		}
 	}
@@ -193,84 +264,262 @@ export class AdRecreationService {
 		return { message: 'Ad recreation deleted successfully' };
 	}
 
-	// Private methods for AI integration (to be implemented)
+	// ═══════════════════════════════════════════════════════════
+	// REAL-TIME EVENTS (socket /ad-recreations + SSE)
+	// ═══════════════════════════════════════════════════════════
+
+	getEventStream(): Subject<AdRecreationEvent> {
+		return this.events;
+	}
+
+	private emitEvent(
+		adRecreation: AdRecreation,
+		type: AdRecreationEvent['type'],
+		payload: Partial<AdRecreationEvent> = {},
+	): void {
+		const event: AdRecreationEvent = {
+			...payload,
+			type,
+			adRecreationId: adRecreation.id,
+			userId: adRecreation.user_id,
+			timestamp: new Date().toISOString(),
+		};
+
+		this.adRecreationGateway.emitToAdRecreation(adRecreation.id, type, event);
+		this.events.next(event);
+	}
+
+	private async updateStatus(adRecreation: AdRecreation, status: AdRecreationStatus): Promise<void> {
+		adRecreation.status = status;
+		await this.adRecreationRepository.save(adRecreation);
+		this.emitEvent(adRecreation, 'status_changed', {
+			status,
+			error: status === AdRecreationStatus.FAILED ? adRecreation.error_message : undefined,
+		});
+	}
+
+	private async findById(id: string): Promise<AdRecreation> {
+		const adRecreation = await this.adRecreationRepository.findOne({ where: { id } });
+		if (!adRecreation) {
+			throw new NotFoundException('Ad recreation not found');
+		}
+		return adRecreation;
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// AI INTEGRATION
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Analyze the competitor ad with Claude.
+	 * focus_areas / target_audience / brand_positioning are forwarded into the analysis prompt.
+	 */
 	private async performClaudeAnalysis(
 		competitorAdUrl: string,
 		brandBrief: string,
 		dto: AnalyzeAdDto,
-	): Promise<any> {
-		// Mock analysis result
-		// TODO: Replace with actual Claude AI integration
-		await new Promise((resolve) => setTimeout(resolve, 2000)); // Simulate API call
+	): Promise<Record<string, any>> {
+		this.logger.log(`🔍 Analyzing competitor ad with Claude (focus: ${dto.focus_areas?.join(', ') || 'all'})`);
+
+		const analysis = await this.claudeService.analyzeCompetitorAd({
+			image: competitorAdUrl,
+			brandBrief,
+			notes: dto.additional_context,
+			focusAreas: dto.focus_areas,
+			targetAudience: dto.target_audience,
+			brandPositioning: dto.brand_positioning,
+		});
 
 		return {
-			visual_elements: {
-				color_scheme: ['#FF6B35', '#004E64', '#FFFFFF'],
-				typography: 'Modern sans-serif, bold headers',
-				layout: 'Center-aligned with hero image',
-				imagery_style: 'Lifestyle photography with natural lighting',
-			},
-			messaging: {
-				headline: 'Discover Your Style',
-				call_to_action: 'Shop Now',
-				tone: 'Confident and aspirational',
-				target_emotion: 'Desire and excitement',
-			},
-			composition: {
-				focal_point: 'Product prominently displayed',
-				visual_hierarchy: 'Title -> Product -> CTA',
-				white_space_usage: 'Generous padding around elements',
-			},
-			brand_analysis: {
-				positioning: 'Premium lifestyle brand',
-				values: ['Quality', 'Style', 'Innovation'],
-				target_audience: 'Young professionals, 25-35 years',
-			},
-			recommendations: [
-				'Use similar color palette but adapt to brand colors',
-				'Maintain clean, modern typography approach',
-				'Focus on lifestyle imagery over product shots',
-				'Emphasize aspirational messaging',
-			],
+			...analysis,
+			focus_areas: dto.focus_areas || [],
+			target_audience: dto.target_audience,
+			brand_positioning: dto.brand_positioning,
 			analyzed_at: new Date().toISOString(),
 		};
 	}
 
+	/**
+	 * Generate ad variations from the analysis.
+	 *
+	 * Each variation gets its own style (cycling through variation_styles), and the competitor ad
+	 * plus brand references are passed as reference images. Images are stored through FilesService.
+	 * A failed variation is recorded and the rest continue; only an all-failed run throws.
+	 * Each finished variation is saved and emitted right away so clients see them one by one.
+	 */
 	private async performImageGeneration(
-		analysisResult: any,
-		variationsCount: number,
+		adRecreation: AdRecreation,
 		dto: GenerateVariationsDto,
+		onProgress?: (percent: number) => unknown,
 	): Promise<any> {
-		// Mock generation result
-		// TODO: Replace with actual Gemini AI integration
-		await new Promise((resolve) => setTimeout(resolve, 3000)); // Simulate generation time
+		const startTime = Date.now();
+		const variationsCount = adRecreation.variations_count;
+		const styles = dto.variation_styles?.length ? dto.variation_styles : [VariationStyle.SIMILAR];
+
+		const user = await this.usersRepository.findOne({
+			where: { id: adRecreation.user_id },
+			select: ['id', 'image_provider'],
+		});
+		const provider = this.vertexImagenService.getProviderName(user?.image_provider);
+
+		const referenceImages = [adRecreation.competitor_ad_url, ...(adRecreation.brand_reference_images || [])];
+		const negativePrompt = this.buildNegativePrompt(dto.avoid_elements);
+
+		this.logger.log(`🎨 Generating ${variationsCount} variations via ${provider} (styles: ${styles.join(', ')})`);
 
 		const variations = [];
 		for (let i = 0; i < variationsCount; i++) {
-			variations.push({
-				variation_id: `variation_${i + 1}`,
-				style: dto.variation_styles?.[i] || 'similar',
-				image_url: `https://example.com/generated_variation_${i + 1}.png`,
-				prompt_used: `Create a ${dto.variation_styles?.[i] || 'similar'} style advertisement based on analysis`,
-				generated_at: new Date().toISOString(),
-				metadata: {
-					resolution: '1024x1024',
-					format: 'PNG',
-					size: Math.floor(Math.random() * 2000000) + 500000, // Random size between 500KB-2.5MB
-				},
+			const style = styles[i % styles.length];
+			const prompt = this.buildVariationPrompt(adRecreation, style, dto, negativePrompt);
+
+			this.emitEvent(adRecreation, 'variation_processing', {
+				variationIndex: i,
+				variation: { variation_id: `variation_${i + 1}`, style, status: 'processing' },
+				total: variationsCount,
+			});
+
+			try {
+				const result = await this.vertexImagenService.generateImageWithReference(
+					prompt,
+					referenceImages,
+					undefined,
+					undefined,
+					undefined,
+					provider,
+				);
+
+				if (!result.data) {
+					throw new Error(AIMessage.IMAGE_GENERATION_FAILED);
+				}
+
+				const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
+
+				variations.push({
+					variation_id: `variation_${i + 1}`,
+					style,
+					status: 'completed',
+					image_url: storedFile.url,
+					image_filename: storedFile.filename,
+					prompt_used: prompt,
+					negative_prompt: negativePrompt,
+					provider: result.provider,
+					model: result.model,
+					generated_at: new Date().toISOString(),
+					metadata: {
+						format: result.mimeType,
+					},
+				});
+
+				this.logger.log(`✅ Variation ${i + 1}/${variationsCount} (${style}) saved: ${storedFile.url}`);
+				this.emitEvent(adRecreation, 'variation_completed', {
+					variationIndex: i,
+					variation: variations[i],
+					total: variationsCount,
+				});
+			} catch (error: any) {
+				this.logger.error(`❌ Variation ${i + 1}/${variationsCount} (${style}) failed: ${error.message}`);
+				variations.push({
+					variation_id: `variation_${i + 1}`,
+					style,
+					status: 'failed',
+					prompt_used: prompt,
+					negative_prompt: negativePrompt,
+					provider,
+					error: error.message,
+				});
+				this.emitEvent(adRecreation, 'variation_failed', {
+					variationIndex: i,
+					variation: variations[i],
+					error: error.message,
+					total: variationsCount,
+				});
+			}
+
+			// Persist partial results so polling clients also see variations as they land
+			const done = i + 1;
+			const progressPercent = Math.round((done / variationsCount) * 100);
+			adRecreation.generated_variations = { variations: [...variations] } as any;
+			await this.adRecreationRepository.save(adRecreation);
+			this.emitEvent(adRecreation, 'progress', {
+				completed: variations.filter((v) => v.status === 'completed').length,
+				total: variationsCount,
+				progress_percent: progressPercent,
 			});
+			await onProgress?.(progressPercent);
+		}
+
+		const completed = variations.filter((v) => v.status === 'completed');
+		if (completed.length === 0) {
+			throw new Error(variations[0]?.error || AIMessage.IMAGE_GENERATION_FAILED);
 		}
 
 		return {
 			variations,
 			generation_metadata: {
 				total_variations: variationsCount,
-				generation_time: '3.2s',
-				model_used: 'gemini-2.5-flash-image',
+				completed_variations: completed.length,
+				generation_time: `${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+				provider,
+				model_used: completed[0].model,
 				custom_instructions: dto.custom_instructions,
 				avoided_elements: dto.avoid_elements,
 				included_elements: dto.must_include,
 			},
 		};
 	}
-}
\ No newline at end of file
+
+	private buildVariationPrompt(
+		adRecreation: AdRecreation,
+		style: VariationStyle,
+		dto: GenerateVariationsDto,
+		negativePrompt: string,
+	): string {
+		const analysis = adRecreation.competitor_analysis || {};
+		const lines = [
+			'Create a new, original advertising image inspired by the FIRST reference image (a competitor ad).',
+			'Use it only for composition, layout and mood - do NOT copy its logo, text, product or brand marks.',
+		];
+
+		if (adRecreation.brand_reference_images?.length) {
+			lines.push('The remaining reference images show OUR brand - match their product, colors and identity exactly.');
+		}
+
+		if (adRecreation.brand_brief) {
+			lines.push(`Brand brief: ${adRecreation.brand_brief}`);
+		}
+
+		lines.push(`Style: ${style}. ${VARIATION_STYLE_DIRECTIONS[style]}`);
+
+		const analysisHints = ['summary', 'layout', 'lighting', 'mood', 'colors', 'props']
+			.filter((key) => analysis[key])
+			.map((key) => `${key}: ${typeof analysis[key] === 'string' ? analysis[key] : JSON.stringify(analysis[key])}`);
+		if (analysisHints.length) {
+			lines.push(`Reference ad analysis - ${analysisHints.join('; ')}`);
+		}
+
+		if (analysis.differentiation_ideas) {
+			lines.push(`Differentiate using: ${JSON.stringify(analysis.differentiation_ideas)}`);
+		}
+
+		if (dto.must_include?.length) {
+			lines.push(`MUST include: ${dto.must_include.join(', ')}.`);
+		}
+
+		if (dto.custom_instructions) {
+			lines.push(`Additional instructions: ${dto.custom_instructions}`);
+		}
+
+		if (negativePrompt) {
+			lines.push(`Avoid: ${negativePrompt}.`);
+		}
+
+		lines.push('Professional commercial ad photography, sharp focus, high quality.');
+
+		return lines.join('\n');
+	}
+
+	private buildNegativePrompt(avoidElements?: string[]): string {
+		const defaults = ['competitor logos', 'competitor brand names', 'watermarks', 'distorted text'];
+		return [...(avoidElements || []), ...defaults].join(', ');
+	}
+}
@@ -4,10 +4,28 @@ import { ClaudeService } from './claude.service';
 import { GeminiService } from './gemini.service';
 import { VertexImagenService } from './vertex-imagen.service';
 import { PromptBuilderService } from './prompt-builder.service';
+import { ImageProviderRegistry } from './image-providers/image-provider.registry';
+import { GeminiImageProvider } from './image-providers/gemini-image.provider';
+import { OpenAIImageProvider } from './image-providers/openai-image.provider';
+import { FakeImageProvider } from './image-providers/fake-image.provider';
+import { ApiKeyCipherService } from './api-key-cipher.service';
+import { ProviderKeyVerifierService } from './provider-key-verifier.service';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-	imports: [ConfigModule],
-	providers: [ClaudeService, GeminiService, VertexImagenService, PromptBuilderService],
-	exports: [ClaudeService, GeminiService, VertexImagenService, PromptBuilderService],
+	imports: [ConfigModule, UsageModule],
+	providers: [
+		ClaudeService,
+		GeminiService,
+		VertexImagenService,
+		PromptBuilderService,
+		GeminiImageProvider,
+		OpenAIImageProvider,
+		FakeImageProvider,
+		ImageProviderRegistry,
+		ApiKeyCipherService,
+		ProviderKeyVerifierService,
+	],
+	exports: [ClaudeService, GeminiService, VertexImagenService, PromptBuilderService, ImageProviderRegistry, ApiKeyCipherService, ProviderKeyVerifierService],
 })
 export class AiModule { }
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyCrypto, ApiKeyKeyring } from '../common/utils/api-key-crypto.util';
+
+/**
+ * Seals users' provider API keys for storage and opens them for AI calls.
+ *
+ * Only the AI services (Gemini / OpenAI clients) call `open`; everything else
+ * (users service, JWT user, API responses) only ever sees the sealed value.
+ */
+@Injectable()
+export class ApiKeyCipherService {
+	private keyring: ApiKeyKeyring | null = null;
+
+	constructor(private readonly configService: ConfigService) { }
+
+	isConfigured(): boolean {
+		return !!this.getKeyring().currentId;
+	}
+
+	seal(plaintext: string): string {
+		return ApiKeyCrypto.seal(plaintext, this.getKeyring());
+	}
+
+	/**
+	 * Plaintext key for a provider client
+	 */
+	open(stored: string): string {
+		return ApiKeyCrypto.open(stored, this.getKeyring());
+	}
+
+	private getKeyring(): ApiKeyKeyring {
+		// Built on first use so the app still starts when no master key is configured
+		if (!this.keyring) {
+			this.keyring = ApiKeyCrypto.buildKeyring({
+				masterKey: this.configService.get<string>('encryption.masterKey'),
+				masterKeyId: this.configService.get<string>('encryption.masterKeyId'),
+				previousMasterKeys: this.configService.get<string>('encryption.previousMasterKeys'),
+			});
+		}
+		return this.keyring;
+	}
+}
@@ -13,9 +13,15 @@ import { DA_ANALYSIS_PROMPT } from './prompts/da-analysis.prompt';
 import { MERGE_PROMPT_TEMPLATE } from './prompts/merge-prompt.prompt';
 import { PRODUCT_ANALYSIS_DIRECT_PROMPT } from './prompts/product-analysis-direct.prompt';
 import { DA_REFERENCE_ANALYSIS_PROMPT } from './prompts/da-reference-analysis.prompt';
+import { VISUAL_QA_PROMPT } from './prompts/visual-qa.prompt';
 import { AnalyzedProductJSON } from '../common/interfaces/product-json.interface';
 import { AnalyzedDAJSON } from '../common/interfaces/da-json.interface';
 import { MergedPrompts } from '../common/interfaces/merged-prompts.interface';
+import { BUILTIN_SHOT_CODES } from '../common/interfaces/shot-catalog.interface';
+import { BrandStyleGuide } from '../common/interfaces/brand-style-guide.interface';
+import { BrandStyleGuideBuilder } from '../common/utils/brand-style-guide.util';
+import { PromptBuilder } from '../common/utils/prompt-builder.util';
+import { VisualQaObservation } from '../common/interfaces/visual-qa.interface';
 import { AnalyzeProductDirectResponse } from '../libs/dto/analyze/analyze-product-direct.dto';
 import { AnalyzeDAPresetResponse } from '../libs/dto/analyze/analyze-da-preset.dto';
 import { AnalyzeCompetitorAdInput, AnalyzeProductDirectInput, AnalyzeProductInput, ClaudeContentBlock, ClaudeImageMediaType, GeneratePromptsInput } from 'src/libs/types/claude/claude.type';
@@ -26,6 +32,8 @@ import { AnalyzeCompetitorAdInput, AnalyzeProductDirectInput, AnalyzeProductInpu
 import { PRODUCT_ANALYSIS_V3_PROMPT } from './prompts/product-analysis-v3.prompt';
 import { generateImageContext, getPantsSpecificPrompt, getJacketSpecificPrompt } from './helpers/image-labeling.helper';
 import { validateProductAnalysis } from './validator/product-analysis.validator';
+import { UsageService } from '../usage/usage.service';
+import { ApiKeyCipherService } from './api-key-cipher.service';
 
 
 @Injectable()
@@ -36,7 +44,11 @@ export class ClaudeService {
 
     private readonly model: string;
 
-    constructor(private readonly configService: ConfigService) {
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly usageService: UsageService,
+        private readonly apiKeyCipher: ApiKeyCipherService,
+    ) {
         // Read model from .env, fallback to claude-sonnet-4-20250514 or claude-3-5-sonnet-20240620
         this.model = this.configService.get<string>('CLAUDE_MODEL') || 'claude-3-5-sonnet-20240620';
         this.logger.log(`🤖 Claude model initialized: ${this.model}`);
@@ -60,6 +72,7 @@ export class ClaudeService {
         const response = await this.createMessage({
             content,
             max_tokens: 2000,
+            operation: 'analyze_product',
         });
 
         const text = this.extractText(response.content);
@@ -136,6 +149,7 @@ export class ClaudeService {
         const response = await this.createMessage({
             content,
             max_tokens: 4000,
+            operation: 'analyze_product_direct',
         });
 
         const text = this.extractText(response.content);
@@ -356,6 +370,7 @@ export class ClaudeService {
         const response = await this.createMessage({
             content,
             max_tokens: 3000, // V2: Increased for more detailed ground items
+            operation: 'analyze_da_reference',
         });
 
         const text = this.extractText(response.content);
@@ -391,6 +406,7 @@ export class ClaudeService {
         const response = await this.createMessage({
             content,
             max_tokens: 3000,
+            operation: 'analyze_da_preset',
         });
 
         const text = this.extractText(response.content);
@@ -499,7 +515,8 @@ export class ClaudeService {
     async mergeProductAndDA(
         productJSON: AnalyzedProductJSON,
         daJSON: AnalyzedDAJSON,
-        collectionName: string
+        collectionName: string,
+        styleGuide?: BrandStyleGuide | null,
     ): Promise<MergedPrompts> {
         if (!productJSON || !daJSON) {
             throw new BadRequestException('Product JSON and DA JSON are required');
@@ -514,6 +531,8 @@ export class ClaudeService {
                 return JSON.parse(JSON.stringify(MOCK_MERGED_PROMPTS));
             }
 
+            const guide = BrandStyleGuideBuilder.contribution(styleGuide);
+
             const promptText = `${MERGE_PROMPT_TEMPLATE}
 
 Product JSON:
@@ -523,7 +542,7 @@ DA JSON:
 ${JSON.stringify(daJSON, null, 2)}
 
 Collection Name: ${collectionName}
-
+${guide?.merge_instructions ? `\n${guide.merge_instructions}\n` : ''}
 Generate the 6 merged prompts now. Return ONLY valid JSON object with the structure specified above.`;
 
             const content: ClaudeContentBlock[] = [
@@ -533,6 +552,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
             const response = await this.createMessage({
                 content,
                 max_tokens: 4000,
+                operation: 'merge_prompts',
             });
 
             const text = this.extractText(response.content);
@@ -547,9 +567,8 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
             if (Array.isArray(parsed)) {
                 this.logger.warn('Claude returned array instead of object, converting...');
                 const converted: Record<string, any> = {};
-                const types = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
                 parsed.forEach((item, index) => {
-                    const type = item.type || types[index];
+                    const type = item.type || BUILTIN_SHOT_CODES[index];
                     if (type) {
                         converted[type] = item;
                     }
@@ -558,8 +577,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
             }
 
             // Validate structure
-            const requiredTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
-            for (const type of requiredTypes) {
+            for (const type of BUILTIN_SHOT_CODES) {
                 if (!parsed[type]) {
                     this.logger.error(`Missing prompt type: ${type}`, { parsed: Object.keys(parsed) });
                     throw new InternalServerErrorException(`Missing prompt type: ${type}`);
@@ -571,15 +589,16 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
             const fit = (productJSON as any).general_info?.fit_type ?? productJSON.details?.fit ?? 'Regular fit';
             const techSpecs = ` [CRITICAL TECHNICAL SPECS: Color: ${productJSON.visual_specs.color_name} (${productJSON.visual_specs.hex_code}). Fabric: ${productJSON.visual_specs.fabric_texture}. Fit: ${fit}]`;
 
-            // Inject specs into each prompt
-            const result: MergedPrompts = {
-                duo: this.injectSpecs(parsed.duo, techSpecs),
-                solo: this.injectSpecs(parsed.solo, techSpecs),
-                flatlay_front: this.injectSpecs(parsed.flatlay_front, techSpecs),
-                flatlay_back: this.injectSpecs(parsed.flatlay_back, techSpecs),
-                closeup_front: this.injectSpecs(parsed.closeup_front, techSpecs),
-                closeup_back: this.injectSpecs(parsed.closeup_back, techSpecs),
-            };
+            // Inject specs into each prompt; the brand style guide is appended deterministically too
+            const result: MergedPrompts = {};
+            for (const type of BUILTIN_SHOT_CODES) {
+                const merged = this.injectSpecs(parsed[type], techSpecs);
+                if (guide) {
+                    merged.prompt = BrandStyleGuideBuilder.applyToPrompt(merged.prompt, guide, PromptBuilder.isHumanModelShot(type));
+                    merged.negative_prompt = BrandStyleGuideBuilder.applyToNegative(merged.negative_prompt, guide);
+                }
+                result[type] = merged;
+            }
 
             this.logger.log(`✅ Merged Prompts with Safety Injection: ${result.duo.prompt.slice(0, 50)}...`);
 
@@ -624,6 +643,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         const response = await this.createMessage({
             content,
             max_tokens: 1000,
+            operation: 'generate_prompts',
         });
 
         const text = this.extractText(response.content);
@@ -655,7 +675,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         styling: string;
         output: string;
     }>> {
-        const visualTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
+        const visualTypes = BUILTIN_SHOT_CODES;
         const count = visualTypes.length;
 
         const prompt = this.buildStructuredVisualsPrompt(input, visualTypes);
@@ -668,6 +688,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         const response = await this.createMessage({
             content,
             max_tokens: 4000, // Increased for structured output
+            operation: 'generate_structured_visuals',
         });
 
         const text = this.extractText(response.content);
@@ -836,6 +857,7 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         const response = await this.createMessage({
             content,
             max_tokens: 1200,
+            operation: 'analyze_competitor_ad',
         });
 
         const text = this.extractText(response.content);
@@ -844,15 +866,59 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         return parsed || { raw: text };
     }
 
+    /**
+     * Inspect a generated image for QA.
+     * Returns only what is visible; comparison with the product JSON happens in VisualQaService.
+     */
+    async inspectGeneratedImage(imageUrl: string, shotType: string): Promise<VisualQaObservation> {
+        if (!imageUrl) {
+            throw new BadRequestException(FileMessage.FILE_NOT_FOUND);
+        }
+
+        const content: ClaudeContentBlock[] = [
+            { type: 'text', text: VISUAL_QA_PROMPT.replace('{{shot_type}}', shotType) },
+            ...(await this.buildImageBlocks([imageUrl])),
+        ];
+
+        const response = await this.createMessage({
+            content,
+            max_tokens: 800,
+            operation: 'visual_qa',
+        });
+
+        const text = this.extractText(response.content);
+        const parsed = this.parseJson(text);
+
+        if (!parsed) {
+            this.logger.error('Failed to parse visual QA JSON', { text });
+            throw new InternalServerErrorException('Failed to parse visual QA');
+        }
+
+        const toCount = (value: any): number | null => (Number.isInteger(value) && value >= 0 ? value : null);
+        const toBool = (value: any): boolean | null => (typeof value === 'boolean' ? value : null);
+
+        return {
+            product_visible: parsed.product_visible !== false,
+            view: ['front', 'back', 'side', 'detail'].includes(parsed.view) ? parsed.view : 'unknown',
+            logo_visible: toBool(parsed.logo_visible),
+            logo_text: typeof parsed.logo_text === 'string' && parsed.logo_text.trim() ? parsed.logo_text.trim() : null,
+            garment_hex: this.validateHexColor(typeof parsed.garment_hex === 'string' ? parsed.garment_hex : undefined),
+            pocket_count: toCount(parsed.pocket_count),
+            button_count: toCount(parsed.button_count),
+            zipper_present: toBool(parsed.zipper_present),
+            issues: Array.isArray(parsed.issues) ? parsed.issues.filter((i: any) => typeof i === 'string' && i.trim()) : [],
+        };
+    }
+
     /**
      * Get Anthropic client
-     * @param userApiKey - Optional user-specific API key (takes precedence over env var)
+     * @param userApiKey - Optional user-specific API key, sealed or plaintext (takes precedence over env var)
      */
     private getClient(userApiKey?: string): Anthropic {
         // If user has their own API key, create a fresh client (not cached)
         if (userApiKey && userApiKey.trim() && !userApiKey.includes('****')) {
             this.logger.log(`🔑 Using user-provided Anthropic API key`);
-            return new Anthropic({ apiKey: userApiKey });
+            return new Anthropic({ apiKey: this.apiKeyCipher.open(userApiKey) });
         }
 
         // Use cached default client
@@ -888,26 +954,48 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
         return this.model;
     }
 
+    /**
+     * Models the key can use - a cheap call that also proves the key works
+     * @param userApiKey - Optional user-specific API key (system key when empty)
+     */
+    async listModels(userApiKey?: string): Promise<string[]> {
+        const models: string[] = [];
+        for await (const model of this.getClient(userApiKey).models.list({ limit: 100 })) {
+            models.push(model.id);
+        }
+        return models;
+    }
+
     private async createMessage(params: {
         content: ClaudeContentBlock[];
         max_tokens: number;
         userApiKey?: string;
+        /** Usage metering label (e.g. "analyze_product") */
+        operation: string;
     }): Promise<Messages.Message> {
         const maxRetries = 3;
         const baseDelay = 2000; // 2 seconds base delay
 
         for (let attempt = 0; attempt < maxRetries; attempt++) {
             try {
-                const res = await this.getClient(params.userApiKey).messages.create({
-                    model: this.model,
-                    max_tokens: params.max_tokens,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: params.content,
-                        },
-                    ],
-                });
+                // Every attempt is metered - retries are billed too
+                const res = await this.usageService.track(
+                    { provider: 'claude', model: this.model, operation: params.operation },
+                    () => this.getClient(params.userApiKey).messages.create({
+                        model: this.model,
+                        max_tokens: params.max_tokens,
+                        messages: [
+                            {
+                                role: 'user',
+                                content: params.content,
+                            },
+                        ],
+                    }),
+                    (message) => ({
+                        input_tokens: message.usage?.input_tokens,
+                        output_tokens: message.usage?.output_tokens,
+                    }),
+                );
 
                 return res;
             } catch (error: any) {
@@ -1042,6 +1130,19 @@ Generate the 6 merged prompts now. Return ONLY valid JSON object with the struct
             lines.push(`Brand brief: ${input.brandBrief}`);
         }
 
+        if (input.brandPositioning) {
+            lines.push(`Brand positioning: ${input.brandPositioning}`);
+        }
+
+        if (input.targetAudience) {
+            lines.push(`Our target audience: ${input.targetAudience}`);
+        }
+
+        if (input.focusAreas?.length) {
+            lines.push(`Focus areas: ${input.focusAreas.join(', ')}.`);
+            lines.push('Also return a "focus_area_insights" object with one detailed entry per focus area.');
+        }
+
         if (input.notes) {
             lines.push(`Notes: ${input.notes}`);
         }
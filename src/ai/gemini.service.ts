@@ -7,6 +7,8 @@ import { AnalyzedProductJSON } from '../common/interfaces/product-json.interface
 import { AnalyzedDAJSON } from '../common/interfaces/da-json.interface';
 import { PRODUCT_ANALYSIS_PROMPT } from './prompts/product-analysis.prompt';
 import { DA_ANALYSIS_PROMPT } from './prompts/da-analysis.prompt';
+import { UsageService } from '../usage/usage.service';
+import { ApiKeyCipherService } from './api-key-cipher.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -50,7 +52,11 @@ export class GeminiService {
 		'21:9': '21:9',
 	};
 
-	constructor(private readonly configService: ConfigService) { }
+	constructor(
+		private readonly configService: ConfigService,
+		private readonly usageService: UsageService,
+		private readonly apiKeyCipher: ApiKeyCipherService,
+	) { }
 
 	/**
 	 * Map DTO aspect_ratio to Gemini API config (1:1, 9:16, 4:5, 16:9).
@@ -70,6 +76,30 @@ export class GeminiService {
 		return VALID_IMAGE_SIZES.includes(upper as any) ? upper : '1K';
 	}
 
+	/**
+	 * Meter one generateContent call (tokens from usageMetadata, images from inlineData parts).
+	 * Image calls that return no image still count as billed but unsuccessful.
+	 */
+	private trackCall<T extends { usageMetadata?: any; candidates?: any[] }>(
+		operation: string,
+		model: string,
+		call: () => Promise<T>,
+		expectsImage: boolean = false,
+	): Promise<T> {
+		return this.usageService.track({ provider: 'gemini', model, operation }, call, (response) => {
+			const imageCount = (response.candidates?.[0]?.content?.parts || [])
+				.filter((part: any) => part?.inlineData?.data)
+				.length;
+			return {
+				input_tokens: response.usageMetadata?.promptTokenCount,
+				output_tokens: response.usageMetadata?.candidatesTokenCount,
+				image_count: imageCount,
+				success: expectsImage ? imageCount > 0 : true,
+				error: expectsImage && imageCount === 0 ? 'No image in response' : undefined,
+			};
+		});
+	}
+
 	/**
 	 * Promise with timeout wrapper
 	 */
@@ -157,11 +187,11 @@ High quality studio lighting, sharp details, clean background.`;
 			});
 
 			// Wrap with timeout
-			const response = await this.withTimeout(
+			const response = await this.trackCall('generate_image', this.MODEL, () => this.withTimeout(
 				generatePromise,
 				this.TIMEOUT_MS,
 				'Gemini image generation'
-			);
+			), true);
 
 			const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
 			this.logger.log(`⏱️ Gemini response received in ${elapsedTime}s`);
@@ -388,13 +418,15 @@ High quality studio lighting, sharp details, clean background.`;
 	 * @param aspectRatio - Output aspect ratio
 	 * @param resolution - Output resolution
 	 * @param userApiKey - Optional user-specific API key
+	 * @param edit - Treat the first image as the image to edit and `prompt` as the edit instruction
 	 */
 	async generateImageWithReference(
 		prompt: string,
 		referenceImages: string[],
 		aspectRatio?: string,
 		resolution?: string,
-		userApiKey?: string
+		userApiKey?: string,
+		edit: boolean = false
 	): Promise<GeminiImageResult> {
 		const client = this.getClient(userApiKey);
 		const startTime = Date.now();
@@ -429,6 +461,11 @@ High quality studio lighting, sharp details, clean background.`;
 		if (prompt.length > 500) console.log(`   ... (${prompt.length - 500} more chars)`);
 		console.log('');
 
+		// An edit without the source image would silently become a brand-new image
+		if (edit && validImages.length === 0) {
+			throw new GeminiGenerationError('Image to edit is required');
+		}
+
 		// If no valid reference images, fall back to regular generation
 		if (validImages.length === 0) {
 			console.log('⚠️  WARNING: No valid reference images provided!');
@@ -449,6 +486,10 @@ High quality studio lighting, sharp details, clean background.`;
 		});
 		console.log('');
 
+		if (edit && imageParts.length === 0) {
+			throw new GeminiGenerationError('Failed to load the image to edit');
+		}
+
 		if (imageParts.length === 0) {
 			console.log('⚠️  WARNING: Failed to load any reference images!');
 			console.log('   → Falling back to text-only generation');
@@ -461,7 +502,7 @@ High quality studio lighting, sharp details, clean background.`;
 		const resolutionText = this.mapResolutionToGemini(resolution);
 
 		// Enhanced prompt with reference instruction - STRONGER LOGO EMPHASIS
-		const referencePrompt = `🎯 CRITICAL: Use the provided reference images as EXACT VISUAL GUIDE.
+		const referencePrompt = edit ? this.buildEditPrompt(prompt, imageParts.length) : `🎯 CRITICAL: Use the provided reference images as EXACT VISUAL GUIDE.
 You MUST match ALL details from reference images precisely:
 
 🏷️ LOGO/BRANDING (HIGHEST PRIORITY):
@@ -535,11 +576,11 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 			});
 
 			// Wrap with timeout
-			const response = await this.withTimeout(
+			const response = await this.trackCall(edit ? 'edit_image' : 'generate_image_with_reference', this.MODEL, () => this.withTimeout(
 				generatePromise,
 				this.TIMEOUT_MS,
 				'Gemini image generation with reference'
-			);
+			), true);
 
 			const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
 
@@ -652,6 +693,24 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 	 * 🚀 CRITICAL: Sanitize prompt to avoid PII policy violations
 	 * This is essential for generating product images with models
 	 */
+	/**
+	 * Edit instruction prompt: the first image is edited, any others are product references
+	 */
+	private buildEditPrompt(instruction: string, imageCount: number): string {
+		const references = imageCount > 1
+			? `\nThe other ${imageCount - 1} image(s) show the real product - use them to keep the logo, colors and garment details exact.`
+			: '';
+
+		return `✏️ EDIT the FIRST provided image. Do NOT create a new photo.
+Keep the composition, framing, model, pose, lighting, background and garment IDENTICAL,
+and change ONLY what the instruction asks for.${references}
+
+EDIT INSTRUCTION:
+${this.sanitizePromptForImageGeneration(instruction)}
+
+HIGH QUALITY OUTPUT: Same resolution and photographic style as the original. Crisp logo rendering.`;
+	}
+
 	private sanitizePromptForImageGeneration(prompt: string): string {
 		if (!prompt) return '';
 		const lowerPrompt = prompt.toLowerCase();
@@ -754,7 +813,7 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 
 		try {
 			// Generate content with text + images
-			const response = await client.models.generateContent({
+			const response = await this.trackCall('analyze_product', this.MODEL, () => client.models.generateContent({
 				model: this.MODEL,
 				contents: [
 					{
@@ -765,7 +824,7 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 						]
 					}
 				]
-			});
+			}));
 
 			// Extract text response
 			const candidate = response.candidates?.[0];
@@ -937,7 +996,7 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 		const parts = await this.buildImageParts([imageUrl]);
 
 		try {
-			const response = await client.models.generateContent({
+			const response = await this.trackCall('analyze_da_reference', this.ANALYSIS_MODEL, () => client.models.generateContent({
 				model: this.ANALYSIS_MODEL,
 				contents: [
 					{
@@ -948,7 +1007,7 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 						]
 					}
 				]
-			});
+			}));
 
 			const candidate = response.candidates?.[0];
 			if (!candidate || !candidate.content?.parts) {
@@ -985,13 +1044,13 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 
 	/**
 	 * Get or create Gemini client
-	 * @param userApiKey - Optional user-specific API key (takes precedence over env var)
+	 * @param userApiKey - Optional user-specific API key, sealed or plaintext (takes precedence over env var)
 	 */
 	private getClient(userApiKey?: string): GoogleGenAI {
 		// If user has their own API key, create a fresh client (not cached)
 		if (userApiKey && userApiKey.trim() && !userApiKey.includes('****')) {
 			this.logger.log(`🔑 Using user-provided Gemini API key`);
-			return new GoogleGenAI({ apiKey: userApiKey });
+			return new GoogleGenAI({ apiKey: this.apiKeyCipher.open(userApiKey) });
 		}
 
 		// Use cached default client
@@ -1029,4 +1088,17 @@ HIGH QUALITY OUTPUT: Professional e-commerce photography, studio lighting, sharp
 	getModel(): string {
 		return this.MODEL;
 	}
+
+	/**
+	 * Models the key can use - a cheap call that also proves the key works
+	 * @param userApiKey - Optional user-specific API key (system key when empty)
+	 */
+	async listModels(userApiKey?: string): Promise<string[]> {
+		const models: string[] = [];
+		const pager = await this.getClient(userApiKey).models.list({ config: { pageSize: 100 } });
+		for await (const model of pager) {
+			if (model.name) models.push(model.name.replace(/^models\//, ''));
+		}
+		return models;
+	}
 }
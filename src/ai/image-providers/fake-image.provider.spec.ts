@@ -0,0 +1,53 @@
+import * as sharp from 'sharp';
+import { ImageProvider } from '../../libs/enums';
+import { FakeImageProvider } from './fake-image.provider';
+
+describe('FakeImageProvider', () => {
+	const provider = new FakeImageProvider();
+
+	it('renders a PNG placeholder without any configuration', async () => {
+		const result = await provider.generateImage('front view, white background');
+
+		expect(provider.name).toBe(ImageProvider.FAKE);
+		expect(provider.isConfigured()).toBe(true);
+		expect(result.mimeType).toBe('image/png');
+		expect(result.model).toBe(provider.getDefaultModel());
+		expect(result.text).toMatch(/^fake:[0-9a-f]{12}$/);
+		expect(Buffer.from(result.data, 'base64').subarray(1, 4).toString()).toBe('PNG');
+	});
+
+	it('returns byte-identical output for the same input', async () => {
+		const first = await provider.generateImage('same prompt', { aspectRatio: '1:1' });
+		const second = await provider.generateImage('same prompt', { aspectRatio: '1:1' });
+
+		expect(second.data).toBe(first.data);
+		expect(second.text).toBe(first.text);
+	});
+
+	it('changes with the prompt and the reference images', async () => {
+		const plain = await provider.generateImage('prompt');
+		const other = await provider.generateImage('another prompt');
+		const withReference = await provider.generateImageWithReference('prompt', ['https://example.com/front.png']);
+
+		expect(other.data).not.toBe(plain.data);
+		expect(withReference.data).not.toBe(plain.data);
+	});
+
+	it.each([
+		['4:5', 410, 512],
+		['16:9', 512, 288],
+		['1:1', 512, 512],
+		['invalid', 512, 512],
+	])('sizes %s as %ix%i', async (aspectRatio, width, height) => {
+		const result = await provider.generateImage('sized', { aspectRatio });
+		const metadata = await sharp(Buffer.from(result.data, 'base64')).metadata();
+
+		expect({ width: metadata.width, height: metadata.height }).toEqual({ width, height });
+	});
+
+	it('reports the requested model', async () => {
+		const result = await provider.generateImage('prompt', { model: 'custom-model' });
+
+		expect(result.model).toBe('custom-model');
+	});
+});
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as sharp from 'sharp';
+import { ImageProvider } from '../../libs/enums';
+import { ImageGenerationOptions, ImageGenerationProvider, ImageProviderResult } from './image-provider.interface';
+
+const FAKE_MODEL = 'fake-placeholder-v1';
+const BASE_SIZE = 512;
+const GRID = 4;
+
+/**
+ * Local fake provider for development and tests.
+ *
+ * Renders a placeholder PNG from a hash of the prompt (and reference list), so the
+ * same input always produces byte-identical output without calling any external API.
+ */
+@Injectable()
+export class FakeImageProvider implements ImageGenerationProvider {
+	readonly name = ImageProvider.FAKE;
+
+	async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<ImageProviderResult> {
+		return this.render(prompt, options);
+	}
+
+	async generateImageWithReference(
+		prompt: string,
+		referenceImages: string[],
+		options: ImageGenerationOptions = {},
+	): Promise<ImageProviderResult> {
+		return this.render(`${prompt}\n${(referenceImages || []).join('\n')}`, options);
+	}
+
+	getDefaultModel(): string {
+		return FAKE_MODEL;
+	}
+
+	isConfigured(): boolean {
+		return true;
+	}
+
+	private async render(seed: string, options: ImageGenerationOptions): Promise<ImageProviderResult> {
+		const hash = crypto
+			.createHash('sha256')
+			.update(`${seed}|${options.aspectRatio || ''}|${options.resolution || ''}`)
+			.digest();
+		const { width, height } = this.dimensions(options.aspectRatio);
+
+		// 4x4 grid of cells, each coloured from the hash bytes
+		const cellW = width / GRID;
+		const cellH = height / GRID;
+		const rects: string[] = [];
+		for (let i = 0; i < GRID * GRID; i++) {
+			const r = hash[i % hash.length];
+			const g = hash[(i + 7) % hash.length];
+			const b = hash[(i + 13) % hash.length];
+			const x = (i % GRID) * cellW;
+			const y = Math.floor(i / GRID) * cellH;
+			rects.push(
+				`<rect x="${x}" y="${y}" width="${cellW}" height="${cellH}" fill="rgb(${r},${g},${b})" fill-opacity="0.6"/>`,
+			);
+		}
+		const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${rects.join('')}</svg>`;
+
+		const buffer: Buffer = await sharp({
+			create: {
+				width,
+				height,
+				channels: 3,
+				background: { r: hash[0], g: hash[1], b: hash[2] },
+			},
+		})
+			.composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+			.png()
+			.toBuffer();
+
+		return {
+			mimeType: 'image/png',
+			data: buffer.toString('base64'),
+			text: `fake:${hash.toString('hex').substring(0, 12)}`,
+			model: options.model || FAKE_MODEL,
+		};
+	}
+
+	private dimensions(aspectRatio?: string): { width: number; height: number } {
+		const [w, h] = (aspectRatio || '4:5').split(':').map(Number);
+		if (!w || !h) return { width: BASE_SIZE, height: BASE_SIZE };
+		return w >= h
+			? { width: BASE_SIZE, height: Math.round((BASE_SIZE * h) / w) }
+			: { width: Math.round((BASE_SIZE * w) / h), height: BASE_SIZE };
+	}
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { GeminiService } from '../gemini.service';
+import { ImageProvider } from '../../libs/enums';
+import { ImageGenerationOptions, ImageGenerationProvider, ImageProviderResult } from './image-provider.interface';
+
+/**
+ * Gemini image provider - thin adapter over GeminiService.
+ * GeminiService pins its own image model, so model overrides are ignored here.
+ */
+@Injectable()
+export class GeminiImageProvider implements ImageGenerationProvider {
+	readonly name = ImageProvider.GEMINI;
+
+	constructor(private readonly geminiService: GeminiService) { }
+
+	async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<ImageProviderResult> {
+		const result = await this.geminiService.generateImage(
+			prompt,
+			options.model,
+			options.aspectRatio,
+			options.resolution,
+			options.apiKey,
+		);
+		return { ...result, model: this.getDefaultModel() };
+	}
+
+	async generateImageWithReference(
+		prompt: string,
+		referenceImages: string[],
+		options: ImageGenerationOptions = {},
+	): Promise<ImageProviderResult> {
+		const result = await this.geminiService.generateImageWithReference(
+			prompt,
+			referenceImages,
+			options.aspectRatio,
+			options.resolution,
+			options.apiKey,
+			options.edit,
+		);
+		return { ...result, model: this.getDefaultModel() };
+	}
+
+	getDefaultModel(): string {
+		return this.geminiService.getModel();
+	}
+
+	isConfigured(): boolean {
+		return this.geminiService.getApiKeyStatus().hasSystemKey;
+	}
+}
@@ -0,0 +1,41 @@
+import { GeminiImageResult } from '../../libs/config';
+import { ImageProvider } from '../../libs/enums';
+
+/** Options shared by every image provider call */
+export interface ImageGenerationOptions {
+	/** Provider-specific model override (falls back to provider default) */
+	model?: string;
+	aspectRatio?: string;
+	resolution?: string;
+	/** User's own API key for this provider, if any */
+	apiKey?: string;
+	/** Reference calls only: edit the first reference image using the prompt as instruction */
+	edit?: boolean;
+}
+
+/** Gemini-shaped result plus the model that actually produced the image */
+export type ImageProviderResult = GeminiImageResult & {
+	model: string;
+};
+
+/**
+ * Contract implemented by every image backend (Gemini, OpenAI, fake).
+ * Results keep the Gemini shape so existing callers stay untouched.
+ */
+export interface ImageGenerationProvider {
+	readonly name: ImageProvider;
+
+	generateImage(prompt: string, options?: ImageGenerationOptions): Promise<ImageProviderResult>;
+
+	generateImageWithReference(
+		prompt: string,
+		referenceImages: string[],
+		options?: ImageGenerationOptions,
+	): Promise<ImageProviderResult>;
+
+	/** Model used when no override is given */
+	getDefaultModel(): string;
+
+	/** True when a system-level key (or nothing at all) is enough to generate */
+	isConfigured(): boolean;
+}
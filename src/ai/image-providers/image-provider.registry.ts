@@ -0,0 +1,63 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIMessage, ImageProvider } from '../../libs/enums';
+import { ImageGenerationProvider } from './image-provider.interface';
+import { GeminiImageProvider } from './gemini-image.provider';
+import { OpenAIImageProvider } from './openai-image.provider';
+import { FakeImageProvider } from './fake-image.provider';
+
+/**
+ * ImageProviderRegistry - resolves a provider name to its implementation.
+ *
+ * Resolution order used by callers: explicit request → user preference → IMAGE_PROVIDER config → gemini.
+ */
+@Injectable()
+export class ImageProviderRegistry {
+	private readonly logger = new Logger(ImageProviderRegistry.name);
+	private readonly providers = new Map<string, ImageGenerationProvider>();
+
+	constructor(
+		private readonly configService: ConfigService,
+		geminiProvider: GeminiImageProvider,
+		openaiProvider: OpenAIImageProvider,
+		fakeProvider: FakeImageProvider,
+	) {
+		[geminiProvider, openaiProvider, fakeProvider].forEach((provider) => this.register(provider));
+	}
+
+	register(provider: ImageGenerationProvider): void {
+		this.providers.set(provider.name, provider);
+		this.logger.log(`🧩 Registered image provider: ${provider.name}`);
+	}
+
+	/**
+	 * Get provider by name. Falls back to the configured default when name is empty.
+	 * @throws BadRequestException for unknown names
+	 */
+	get(name?: string | null): ImageGenerationProvider {
+		const resolved = (name || this.getDefaultName()).toLowerCase();
+		const provider = this.providers.get(resolved);
+		if (!provider) {
+			throw new BadRequestException(`${AIMessage.IMAGE_PROVIDER_UNKNOWN}: ${resolved}`);
+		}
+		return provider;
+	}
+
+	has(name: string): boolean {
+		return this.providers.has(name.toLowerCase());
+	}
+
+	getDefaultName(): string {
+		return this.configService.get<string>('image.defaultProvider') || ImageProvider.GEMINI;
+	}
+
+	list(): { name: string; model: string; configured: boolean; is_default: boolean }[] {
+		const defaultName = this.getDefaultName();
+		return Array.from(this.providers.values()).map((provider) => ({
+			name: provider.name,
+			model: provider.getDefaultModel(),
+			configured: provider.isConfigured(),
+			is_default: provider.name === defaultName,
+		}));
+	}
+}
@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { toFile } from 'openai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIMessage, ImageProvider } from '../../libs/enums';
+import { ImageGenerationOptions, ImageGenerationProvider, ImageProviderResult } from './image-provider.interface';
+import { UsageService } from '../../usage/usage.service';
+import { ApiKeyCipherService } from '../api-key-cipher.service';
+
+type OpenAIImageSize = '1024x1024' | '1536x1024' | '1024x1536';
+
+/**
+ * OpenAI Images provider (gpt-image-1 by default)
+ *
+ * - Text-only prompts go through images.generate
+ * - Reference-based prompts go through images.edit with the product photos attached
+ */
+@Injectable()
+export class OpenAIImageProvider implements ImageGenerationProvider {
+	readonly name = ImageProvider.OPENAI;
+	private readonly logger = new Logger(OpenAIImageProvider.name);
+	private client: OpenAI | null = null;
+
+	constructor(
+		private readonly configService: ConfigService,
+		private readonly usageService: UsageService,
+		private readonly apiKeyCipher: ApiKeyCipherService,
+	) { }
+
+	async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<ImageProviderResult> {
+		const client = this.getClient(options.apiKey);
+		const model = options.model || this.getDefaultModel();
+
+		this.logger.log(`🎨 [OpenAI] images.generate model=${model} size=${this.mapSize(options.aspectRatio)}`);
+
+		const response = await this.trackCall('generate_image', model, () => client.images.generate({
+			model,
+			prompt,
+			n: 1,
+			size: this.mapSize(options.aspectRatio),
+			quality: this.mapQuality(options.resolution),
+		}));
+
+		return this.toResult(response, model);
+	}
+
+	async generateImageWithReference(
+		prompt: string,
+		referenceImages: string[],
+		options: ImageGenerationOptions = {},
+	): Promise<ImageProviderResult> {
+		const files = [];
+		for (const [index, image] of (referenceImages || []).entries()) {
+			const loaded = await this.loadReferenceImage(image);
+			if (loaded) {
+				files.push(await toFile(loaded.buffer, `reference_${index}.${loaded.extension}`, { type: loaded.mimeType }));
+			}
+		}
+
+		if (files.length === 0) {
+			this.logger.warn('⚠️ [OpenAI] No reference images could be loaded, falling back to text-only generation');
+			return this.generateImage(prompt, options);
+		}
+
+		const client = this.getClient(options.apiKey);
+		const model = options.model || this.getDefaultModel();
+
+		this.logger.log(`🖼️ [OpenAI] images.edit model=${model} with ${files.length} reference images`);
+
+		const response = await this.trackCall(options.edit ? 'edit_image' : 'generate_image_with_reference', model, () => client.images.edit({
+			model,
+			prompt,
+			image: files,
+			n: 1,
+			size: this.mapSize(options.aspectRatio),
+			quality: this.mapQuality(options.resolution),
+		}));
+
+		return this.toResult(response, model);
+	}
+
+	getDefaultModel(): string {
+		return this.configService.get<string>('image.openaiModel') || 'gpt-image-1';
+	}
+
+	isConfigured(): boolean {
+		return !!this.getSystemKey();
+	}
+
+	/**
+	 * Models the key can use - a cheap call that also proves the key works
+	 */
+	async listModels(userApiKey?: string): Promise<string[]> {
+		const models: string[] = [];
+		for await (const model of this.getClient(userApiKey).models.list()) {
+			models.push(model.id);
+		}
+		return models;
+	}
+
+	/**
+	 * Meter one Images API call
+	 */
+	private trackCall(
+		operation: string,
+		model: string,
+		call: () => Promise<OpenAI.Images.ImagesResponse>,
+	): Promise<OpenAI.Images.ImagesResponse> {
+		return this.usageService.track({ provider: 'openai', model, operation }, call, (response) => ({
+			input_tokens: response.usage?.input_tokens,
+			output_tokens: response.usage?.output_tokens,
+			image_count: response.data?.length || 0,
+		}));
+	}
+
+	private getClient(userApiKey?: string): OpenAI {
+		if (userApiKey) {
+			// Stored user keys are sealed; decrypted only for the client
+			return new OpenAI({ apiKey: this.apiKeyCipher.open(userApiKey) });
+		}
+
+		if (this.client) {
+			return this.client;
+		}
+
+		const apiKey = this.getSystemKey();
+		if (!apiKey) {
+			throw new Error(AIMessage.API_KEY_MISSING);
+		}
+
+		this.client = new OpenAI({ apiKey });
+		return this.client;
+	}
+
+	private getSystemKey(): string | undefined {
+		return this.configService.get<string>('image.openaiApiKey') || process.env.OPENAI_API_KEY;
+	}
+
+	private toResult(response: OpenAI.Images.ImagesResponse, model: string): ImageProviderResult {
+		const image = response.data?.[0];
+		if (!image?.b64_json) {
+			throw new Error(AIMessage.IMAGE_GENERATION_FAILED);
+		}
+
+		const format = response.output_format || 'png';
+		return {
+			mimeType: `image/${format}`,
+			data: image.b64_json,
+			text: image.revised_prompt,
+			model,
+		};
+	}
+
+	/** OpenAI only supports square, landscape and portrait - pick the closest one */
+	private mapSize(aspectRatio?: string): OpenAIImageSize {
+		if (!aspectRatio) return '1024x1536';
+		const [w, h] = aspectRatio.split(':').map(Number);
+		if (!w || !h || w === h) return '1024x1024';
+		return w > h ? '1536x1024' : '1024x1536';
+	}
+
+	private mapQuality(resolution?: string): 'low' | 'medium' | 'high' {
+		if (resolution === '4K') return 'high';
+		if (resolution === '2K') return 'medium';
+		return 'high';
+	}
+
+	private async loadReferenceImage(
+		image: string,
+	): Promise<{ buffer: Buffer; mimeType: string; extension: string } | null> {
+		try {
+			let buffer: Buffer;
+			let mimeType = 'image/jpeg';
+
+			const uploadBaseUrl = process.env.UPLOAD_BASE_URL || '';
+			if (uploadBaseUrl && image.startsWith(uploadBaseUrl)) {
+				// Our own upload - read from disk instead of going over the network
+				const localPath = path.join(process.cwd(), image.replace(uploadBaseUrl, '').replace(/^\/+/, ''));
+				if (!fs.existsSync(localPath)) return null;
+				buffer = fs.readFileSync(localPath);
+				mimeType = this.mimeFromPath(localPath);
+			} else if (image.startsWith('http://') || image.startsWith('https://')) {
+				const response = await fetch(image);
+				if (!response.ok) return null;
+				buffer = Buffer.from(await response.arrayBuffer());
+				mimeType = response.headers.get('content-type') || mimeType;
+			} else if (image.startsWith('data:')) {
+				const matches = image.match(/^data:([^;]+);base64,(.+)$/);
+				if (!matches) return null;
+				mimeType = matches[1];
+				buffer = Buffer.from(matches[2], 'base64');
+			} else {
+				if (!fs.existsSync(image)) return null;
+				buffer = fs.readFileSync(image);
+				mimeType = this.mimeFromPath(image);
+			}
+
+			return { buffer, mimeType, extension: mimeType.split('/')[1] || 'jpg' };
+		} catch (error: any) {
+			this.logger.warn(`⚠️ [OpenAI] Failed to load reference image ${image.substring(0, 100)}: ${error.message}`);
+			return null;
+		}
+	}
+
+	private mimeFromPath(filePath: string): string {
+		if (filePath.endsWith('.png')) return 'image/png';
+		if (filePath.endsWith('.webp')) return 'image/webp';
+		return 'image/jpeg';
+	}
+}
@@ -4,6 +4,10 @@ import { AnalyzeDAPresetResponse } from '../libs/dto/analyze/analyze-da-preset.d
 import { DAPreset, DAPresetConfig } from '../database/entities/da-preset.entity';
 import { Product } from '../database/entities/product.entity';
 import { ShotOptions, createDefaultShotOptions } from '../common/interfaces/shot-options.interface';
+import { DEFAULT_SHOT_CATALOG, ShotCatalogEntry } from '../common/interfaces/shot-catalog.interface';
+import { PromptBuilder } from '../common/utils/prompt-builder.util';
+import { BrandStyleGuideBuilder } from '../common/utils/brand-style-guide.util';
+import { BrandStyleGuide } from '../common/interfaces/brand-style-guide.interface';
 import {
     MergedPrompts,
     MergedPromptObject,
@@ -29,6 +33,10 @@ interface MergeInput {
         resolution?: string;
         /** Aspect ratio for output images: "4:5" | "1:1" | "9:16" | "16:9" */
         aspect_ratio?: string;
+        /** Shot catalog to build (defaults to the six built-in shots) */
+        catalog?: ShotCatalogEntry[];
+        /** Brand style guide merged into every shot prompt */
+        style_guide?: BrandStyleGuide | null;
     };
 }
 
@@ -44,8 +52,42 @@ interface EntityMergeInput {
     shotOptions?: ShotOptions;
     /** Resolution for prompt quality suffix: "4K" | "2K" */
     resolution?: string;
+    /** Shot catalog to build (defaults to the six built-in shots) */
+    catalog?: ShotCatalogEntry[];
+    /** Brand style guide merged into every shot prompt */
+    styleGuide?: BrandStyleGuide | null;
 }
 
+/**
+ * Shared prompt fragments for catalog (template-driven) shots
+ */
+interface CatalogShotContext {
+    product: AnalyzeProductDirectResponse;
+    da: AnalyzeDAPresetResponse;
+    shotOptions: ShotOptions;
+    modelType: 'adult' | 'kid';
+    baseAttire: string;
+    styling: string;
+    scene: string;
+    propsText: string;
+    logoText: string;
+    zipperText: string;
+    qualitySuffix: string;
+    resolutionSuffix: string;
+    resolution: string;
+    aspectRatio: string;
+    humanNegative: string;
+    background: PromptBackground;
+    productDetails: ProductDetailsInPrompt;
+    daElements: DAElementsInPrompt;
+}
+
+/**
+ * Fallback templates for catalog shots without a prompt_template
+ */
+const DEFAULT_HUMAN_SHOT_TEMPLATE = 'Photorealistic editorial fashion photograph of a single {{subject}} model. {{attire}}. {{styling}}. Scene: {{scene}}. Shot on {{camera}}. Mood: {{mood}}';
+const DEFAULT_PRODUCT_SHOT_TEMPLATE = 'Professional product photograph of the {{color_name}} {{product_name}} ({{category}}, {{size}}). {{logo}}. Scene: {{scene}}. Shot on {{camera}}. Mood: {{mood}}';
+
 /**
  * Shot type configuration with camera settings
  */
@@ -200,6 +242,8 @@ export class PromptBuilderService {
                 model_type: modelType,
                 shot_options: shotOptions,
                 resolution: input.resolution,
+                catalog: input.catalog,
+                style_guide: input.styleGuide,
             },
         });
     }
@@ -529,20 +573,154 @@ export class PromptBuilderService {
         // CLOSE UP FRONT
         // The `closeup_front` object is already defined above, no need for `closeup_front_final`
 
+        // ═══════════════════════════════════════════════════════════
+        // 7. ASSEMBLE PROMPTS IN SHOT CATALOG ORDER
+        // Built-in codes without a template keep the hand-tuned builders above;
+        // everything else is rendered from the catalog entry's template.
+        // ═══════════════════════════════════════════════════════════
+
+        const builtinPrompts: Record<string, MergedPromptObject> = {
+            duo,
+            solo,
+            flatlay_front,
+            flatlay_back,
+            closeup_front,
+            closeup_back,
+        };
+
+        const catalog = options.catalog?.length ? options.catalog : DEFAULT_SHOT_CATALOG;
+        const catalogContext: CatalogShotContext = {
+            product,
+            da,
+            shotOptions,
+            modelType: options.model_type || 'adult',
+            baseAttire,
+            styling,
+            scene,
+            propsText,
+            logoText: logoTextFront,
+            zipperText,
+            qualitySuffix,
+            resolutionSuffix,
+            resolution,
+            aspectRatio: options.aspect_ratio || '4:5',
+            humanNegative: negativePrompt,
+            background,
+            productDetails,
+            daElements,
+        };
+
+        // Brand style guide: palette / tone / logo rules on every shot, casting on human shots
+        const styleGuide = BrandStyleGuideBuilder.contribution(options.style_guide);
+        if (styleGuide) {
+            this.logger.log(`🎨 Applying brand style guide to prompts`);
+        }
+
+        const prompts: MergedPrompts = {};
+        catalog.forEach((shot, index) => {
+            const builtin = builtinPrompts[shot.code];
+            const base = builtin && !shot.prompt_template
+                ? builtin
+                : this.buildCatalogShotPrompt(shot, index, catalogContext);
+
+            const requiresHuman = PromptBuilder.isHumanModelShot(shot.code, shot.requires_human);
+            const finalPrompt = BrandStyleGuideBuilder.applyToPrompt(base.gemini_prompt, styleGuide, requiresHuman, resolutionSuffix);
+            const negative = shot.negative_prompt
+                ? `${base.negative_prompt}, ${shot.negative_prompt}`
+                : base.negative_prompt;
+
+            prompts[shot.code] = {
+                ...base,
+                gemini_prompt: finalPrompt,
+                prompt: finalPrompt, // Backward compat
+                camera: shot.camera,
+                requires_human: shot.requires_human,
+                sort_order: shot.sort_order,
+                negative_prompt: BrandStyleGuideBuilder.applyToNegative(negative, styleGuide),
+            };
+        });
+
+        this.logger.log(`📸 Built ${Object.keys(prompts).length} shot prompts: ${Object.keys(prompts).join(', ')}`);
+
         return {
             visual_id: visualId,
-            prompts: {
-                duo,
-                solo,
-                flatlay_front,
-                flatlay_back,
-                closeup_front,
-                closeup_back,
+            prompts,
+            negative_prompt: BrandStyleGuideBuilder.applyToNegative(negativePrompt, styleGuide),
+        };
+    }
+
+    /**
+     * Render a catalog shot from its prompt_template (or the default template for its kind)
+     */
+    private buildCatalogShotPrompt(shot: ShotCatalogEntry, index: number, ctx: CatalogShotContext): MergedPromptObject {
+        const option = ctx.shotOptions[shot.code];
+        const choice = option?.subject || option?.size || ctx.modelType;
+        const modelType = shot.option_type !== 'none'
+            ? choice
+            : (shot.requires_human ? 'adult' : 'product');
+
+        const camera = shot.camera;
+        const cameraText = [
+            `${camera.focal_length_mm}mm lens`,
+            `f/${camera.aperture}`,
+            camera.focus ? `focus on ${camera.focus}` : '',
+            camera.angle ? `${camera.angle} angle` : '',
+        ].filter(Boolean).join(', ');
+
+        const template = shot.prompt_template
+            || (shot.requires_human ? DEFAULT_HUMAN_SHOT_TEMPLATE : DEFAULT_PRODUCT_SHOT_TEMPLATE);
+
+        const rendered = PromptBuilder.build(template, {
+            product_name: ctx.product.general_info.product_name,
+            color_name: ctx.product.visual_specs.color_name,
+            category: ctx.product.general_info.category,
+            subject: choice,
+            size: choice === 'kid' ? 'Kid Size' : 'Adult Size',
+            attire: ctx.baseAttire,
+            styling: shot.requires_human ? ctx.styling : '',
+            scene: ctx.scene,
+            background: ctx.da.background.type,
+            floor: ctx.da.floor.type,
+            props: ctx.propsText,
+            logo: ctx.logoText,
+            zipper: ctx.zipperText,
+            camera: cameraText,
+            mood: ctx.da.mood,
+            lighting: `${ctx.da.lighting.type}, ${ctx.da.lighting.temperature}`,
+            quality: ctx.da.quality,
+        }).replace(/{{[^}]+}}/g, '');
+
+        // Empty placeholders leave ". ." behind - collapse them before appending quality/resolution
+        const finalPrompt = PromptBuilder.clean(rendered.replace(/(\.\s*){2,}/g, '. ') + ctx.qualitySuffix) + ctx.resolutionSuffix;
+
+        // Human shots get the anti-nudity shield; product shots the material/color blockers
+        const negative = shot.requires_human
+            ? ctx.humanNegative
+            : this.buildShotNegativePrompt(shot.code, ctx.product, true);
+
+        return {
+            visual_id: `visual_${index + 1}_${shot.code}_${modelType}`,
+            shot_type: shot.code,
+            model_type: modelType,
+            gemini_prompt: finalPrompt,
+            prompt: finalPrompt, // Backward compat
+            negative_prompt: negative,
+            output: {
+                resolution: ctx.resolution,
+                aspect_ratio: ctx.aspectRatio,
             },
-            negative_prompt: negativePrompt,
+            display_name: shot.display_name,
+            editable: true,
+            last_edited_at: null,
+            background: ctx.background,
+            product_details: shot.option_type === 'size'
+                ? { ...ctx.productDetails, size: choice === 'kid' ? 'Kid Size' : 'Adult Size' }
+                : ctx.productDetails,
+            da_elements: ctx.daElements,
         };
     }
 
+
     // ═══════════════════════════════════════════════════════════
     // BRAND GUARDIAN RULES
     // ═══════════════════════════════════════════════════════════
@@ -820,9 +998,10 @@ export class PromptBuilderService {
      * 
      * @param shotType - Type of shot
      * @param product - Product data
+     * @param productOnly - Force product-only blockers (catalog shots without a human model)
      * @returns Complete negative prompt for this shot
      */
-    private buildShotNegativePrompt(shotType: string, product: AnalyzeProductDirectResponse): string {
+    private buildShotNegativePrompt(shotType: string, product: AnalyzeProductDirectResponse, productOnly?: boolean): string {
         // Base negative prompt
         // Base negative prompt - ALWAYS START WITH GLOBAL ANTI-COLLAGE PROTOCOL
         const GLOBAL_NEGATIVE_PROMPT = 'collage, split screen, inset image, picture in picture, multiple views, overlay, montage, composite image, promotional material, text blocks, watermarks, border, frame, padding, white background';
@@ -835,7 +1014,7 @@ export class PromptBuilderService {
 
         // Add material-specific negative prompts for product-only shots
         const productOnlyShots = ['flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
-        if (productOnlyShots.includes(shotType)) {
+        if (productOnly || productOnlyShots.includes(shotType)) {
             const materialNegative = this.getMaterialNegativePrompt(fabricTexture, colorName);
             negativePrompt += materialNegative;
 
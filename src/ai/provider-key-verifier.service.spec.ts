@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { ProviderKeyVerifierService } from './provider-key-verifier.service';
+import { ClaudeService } from './claude.service';
+import { GeminiService } from './gemini.service';
+import { OpenAIImageProvider } from './image-providers/openai-image.provider';
+import { ApiKeyCipherService } from './api-key-cipher.service';
+
+jest.mock('./claude.service', () => ({ ClaudeService: class {} }));
+jest.mock('./gemini.service', () => ({ GeminiService: class {} }));
+jest.mock('./image-providers/openai-image.provider', () => ({ OpenAIImageProvider: class {} }));
+jest.mock('./api-key-cipher.service', () => ({ ApiKeyCipherService: class {} }));
+
+describe('ProviderKeyVerifierService', () => {
+	let mode: string;
+	let claude: { listModels: jest.Mock; getModel: jest.Mock };
+	let service: ProviderKeyVerifierService;
+
+	beforeEach(() => {
+		mode = 'fake';
+		claude = {
+			listModels: jest.fn().mockResolvedValue(['claude-sonnet-4-5', 'claude-opus-4-1']),
+			getModel: jest.fn().mockReturnValue('claude-sonnet-4-5'),
+		};
+		const gemini = { listModels: jest.fn(), getModel: jest.fn().mockReturnValue('gemini-3-pro-image-preview') };
+		const openai = { listModels: jest.fn(), getDefaultModel: jest.fn().mockReturnValue('gpt-image-1') };
+		const cipher = { open: jest.fn((value: string) => value.replace(/^sealed:/, '')) };
+
+		service = new ProviderKeyVerifierService(
+			{ get: jest.fn(() => mode) } as unknown as ConfigService,
+			claude as unknown as ClaudeService,
+			gemini as unknown as GeminiService,
+			openai as unknown as OpenAIImageProvider,
+			cipher as unknown as ApiKeyCipherService,
+		);
+	});
+
+	describe('fake mode', () => {
+		it('accepts keys with the provider default model and never calls the provider', async () => {
+			expect(await service.verify('openai', 'sk-test')).toEqual({ valid: true, models: ['gpt-image-1'] });
+			expect(await service.verify('gemini')).toEqual({ valid: true, models: ['gemini-3-pro-image-preview'] });
+			expect(claude.listModels).not.toHaveBeenCalled();
+		});
+
+		it('rejects keys containing "invalid", also when stored sealed', async () => {
+			const check = await service.verify('anthropic', 'sealed:sk-invalid-key');
+
+			expect(check.valid).toBe(false);
+			expect(check.models).toEqual([]);
+		});
+	});
+
+	describe('live mode', () => {
+		beforeEach(() => {
+			mode = 'live';
+		});
+
+		it('lists models with the given key', async () => {
+			expect(await service.verify('anthropic', 'sk-ant')).toEqual({
+				valid: true,
+				models: ['claude-sonnet-4-5', 'claude-opus-4-1'],
+			});
+			expect(claude.listModels).toHaveBeenCalledWith('sk-ant');
+		});
+
+		it('reports provider errors as an invalid key', async () => {
+			claude.listModels.mockRejectedValue(new Error('401 invalid x-api-key'));
+
+			expect(await service.verify('anthropic', 'sk-ant')).toEqual({
+				valid: false,
+				models: [],
+				error: '401 invalid x-api-key',
+			});
+		});
+	});
+});
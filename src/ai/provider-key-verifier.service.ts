@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClaudeService } from './claude.service';
+import { GeminiService } from './gemini.service';
+import { OpenAIImageProvider } from './image-providers/openai-image.provider';
+import { ApiKeyCipherService } from './api-key-cipher.service';
+import { ProviderKeyCheck, ProviderKeyType } from '../common/interfaces/provider-key.interface';
+
+/**
+ * Checks a provider key with a cheap "list models" call through the provider client.
+ *
+ * PROVIDER_KEY_VERIFICATION=fake skips the network: any key containing "invalid"
+ * fails, every other key passes with the provider's default model. Tests can also
+ * replace this service as a whole (overrideProvider).
+ */
+@Injectable()
+export class ProviderKeyVerifierService {
+	private readonly logger = new Logger(ProviderKeyVerifierService.name);
+
+	constructor(
+		private readonly configService: ConfigService,
+		private readonly claudeService: ClaudeService,
+		private readonly geminiService: GeminiService,
+		private readonly openaiProvider: OpenAIImageProvider,
+		private readonly apiKeyCipher: ApiKeyCipherService,
+	) { }
+
+	/**
+	 * @param apiKey - Plaintext or sealed user key; the system key when empty
+	 */
+	async verify(keyType: ProviderKeyType, apiKey?: string | null): Promise<ProviderKeyCheck> {
+		if (this.configService.get<string>('providerKeys.verification') === 'fake') {
+			return this.fakeCheck(keyType, apiKey);
+		}
+
+		try {
+			const models = await this.listModels(keyType, apiKey || undefined);
+			this.logger.log(`🔑 ${keyType} key verified (${models.length} models)`);
+			return { valid: true, models };
+		} catch (error: any) {
+			this.logger.warn(`⚠️ ${keyType} key verification failed: ${error.message}`);
+			return { valid: false, models: [], error: error.message };
+		}
+	}
+
+	private listModels(keyType: ProviderKeyType, apiKey?: string): Promise<string[]> {
+		switch (keyType) {
+			case 'anthropic':
+				return this.claudeService.listModels(apiKey);
+			case 'gemini':
+				return this.geminiService.listModels(apiKey);
+			case 'openai':
+				return this.openaiProvider.listModels(apiKey);
+		}
+	}
+
+	private fakeCheck(keyType: ProviderKeyType, apiKey?: string | null): ProviderKeyCheck {
+		if (apiKey && this.apiKeyCipher.open(apiKey).includes('invalid')) {
+			return { valid: false, models: [], error: 'Invalid API key (fake verification)' };
+		}
+
+		const defaults: Record<ProviderKeyType, string> = {
+			anthropic: this.claudeService.getModel(),
+			gemini: this.geminiService.getModel(),
+			openai: this.openaiProvider.getDefaultModel(),
+		};
+		return { valid: true, models: [defaults[keyType]] };
+	}
+}
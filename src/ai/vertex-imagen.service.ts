@@ -1,20 +1,24 @@
-import { Injectable, Logger, InternalServerErrorException } from '@nestjs/common';
-import { GeminiService, GeminiGenerationError, GeminiTimeoutError } from './gemini.service';
+import { Injectable, Logger } from '@nestjs/common';
+import { GeminiGenerationError, GeminiTimeoutError } from './gemini.service';
 import { GeminiImageResult } from '../libs/config';
+import { ImageProviderRegistry } from './image-providers/image-provider.registry';
 
-/** Same shape as Gemini for drop-in replacement */
-export type VertexImagenResult = GeminiImageResult;
+/** Same shape as Gemini for drop-in replacement, plus which provider/model produced it */
+export type VertexImagenResult = GeminiImageResult & {
+	provider?: string;
+	model?: string;
+};
 
 // Re-export error types for backward compatibility
 export { GeminiTimeoutError as VertexImagenTimeoutError };
 export { GeminiGenerationError as VertexImagenGenerationError };
 
 /**
- * VertexImagenService - Now a wrapper around GeminiService
+ * VertexImagenService - Entry point for all image generation
  * 
  * This service previously used Vertex AI Imagen 3 REST API.
- * Now it delegates all image generation to GeminiService which uses
- * the Gemini API (@google/genai SDK).
+ * Now it routes every call through ImageProviderRegistry (gemini | openai | fake).
+ * Gemini stays the default, so callers that don't pass a provider behave as before.
  * 
  * This wrapper is kept for backward compatibility with existing code
  * that imports VertexImagenService.
@@ -23,37 +27,39 @@ export { GeminiGenerationError as VertexImagenGenerationError };
 export class VertexImagenService {
 	private readonly logger = new Logger(VertexImagenService.name);
 
-	constructor(private readonly geminiService: GeminiService) {
-		this.logger.log('🔄 VertexImagenService initialized - using GeminiService for image generation');
+	constructor(private readonly imageProviderRegistry: ImageProviderRegistry) {
+		this.logger.log(`🔄 VertexImagenService initialized - default image provider: ${imageProviderRegistry.getDefaultName()}`);
 	}
 
 	/**
-	 * Generate one image via Gemini API (previously Vertex AI Imagen).
-	 * Delegates to GeminiService.generateImage()
+	 * Generate one image via the selected provider (default: Gemini).
+	 *
+	 * @param provider - Provider name (gemini | openai | fake). Empty = configured default
 	 */
 	async generateImage(
 		prompt: string,
 		modelName?: string,
 		aspectRatio?: string,
 		resolution?: string,
-		userApiKey?: string
+		userApiKey?: string,
+		provider?: string
 	): Promise<VertexImagenResult> {
-		this.logger.log(`🎨 [Gemini API] Generating image via GeminiService`);
+		const imageProvider = this.imageProviderRegistry.get(provider);
+		this.logger.log(`🎨 [${imageProvider.name}] Generating image`);
 		this.logger.log(`📐 aspect=${aspectRatio ?? 'default'} resolution=${resolution ?? 'default'}`);
 
 		try {
-			const result = await this.geminiService.generateImage(
-				prompt,
-				modelName,
+			const { model, ...result } = await imageProvider.generateImage(prompt, {
+				model: modelName,
 				aspectRatio,
 				resolution,
-				userApiKey
-			);
+				apiKey: userApiKey,
+			});
 
-			this.logger.log('✅ [Gemini API] Image generated successfully');
-			return result;
+			this.logger.log(`✅ [${imageProvider.name}] Image generated successfully (model=${model})`);
+			return { ...result, provider: imageProvider.name, model };
 		} catch (error: any) {
-			this.logger.error(`❌ [Gemini API] Image generation failed: ${error.message}`);
+			this.logger.error(`❌ [${imageProvider.name}] Image generation failed: ${error.message}`);
 			throw error;
 		}
 	}
@@ -74,54 +80,109 @@ export class VertexImagenService {
 	/**
 	 * 🆕 Generate image WITH reference images
 	 * 
-	 * Delegates to GeminiService.generateImageWithReference()
-	 * Use this when you want Gemini to match exact product details from reference photos.
+	 * Use this when you want the provider to match exact product details from reference photos.
 	 * 
 	 * @param prompt - The text prompt
 	 * @param referenceImages - Array of product image URLs (front/back)
 	 * @param aspectRatio - Output aspect ratio
 	 * @param resolution - Output resolution
 	 * @param userApiKey - Optional user API key
+	 * @param provider - Provider name (gemini | openai | fake). Empty = configured default
 	 */
 	async generateImageWithReference(
 		prompt: string,
 		referenceImages: string[],
 		aspectRatio?: string,
 		resolution?: string,
-		userApiKey?: string
+		userApiKey?: string,
+		provider?: string
 	): Promise<VertexImagenResult> {
-		this.logger.log(`🖼️ [Gemini API] Generating image WITH ${referenceImages?.length || 0} reference images`);
+		const imageProvider = this.imageProviderRegistry.get(provider);
+		this.logger.log(`🖼️ [${imageProvider.name}] Generating image WITH ${referenceImages?.length || 0} reference images`);
 		this.logger.log(`📐 aspect=${aspectRatio ?? 'default'} resolution=${resolution ?? 'default'}`);
 
 		try {
-			const result = await this.geminiService.generateImageWithReference(
-				prompt,
-				referenceImages,
+			const { model, ...result } = await imageProvider.generateImageWithReference(prompt, referenceImages, {
+				aspectRatio,
+				resolution,
+				apiKey: userApiKey,
+			});
+
+			this.logger.log(`✅ [${imageProvider.name}] Image with reference generated successfully (model=${model})`);
+			return { ...result, provider: imageProvider.name, model };
+		} catch (error: any) {
+			this.logger.error(`❌ [${imageProvider.name}] Reference image generation failed: ${error.message}`);
+			throw error;
+		}
+	}
+
+	/**
+	 * ✏️ Edit an existing image with a text instruction
+	 *
+	 * Goes through the reference-image path: the image to edit is sent first,
+	 * optional product photos after it so logos and colors stay exact.
+	 *
+	 * @param imageUrl - Image to edit
+	 * @param instruction - What to change (e.g. "remove the lamp on the left")
+	 * @param productImages - Optional product reference images
+	 * @param aspectRatio - Output aspect ratio
+	 * @param resolution - Output resolution
+	 * @param userApiKey - Optional user API key
+	 * @param provider - Provider name (gemini | openai | fake). Empty = configured default
+	 */
+	async editImage(
+		imageUrl: string,
+		instruction: string,
+		productImages: string[] = [],
+		aspectRatio?: string,
+		resolution?: string,
+		userApiKey?: string,
+		provider?: string
+	): Promise<VertexImagenResult> {
+		const imageProvider = this.imageProviderRegistry.get(provider);
+		this.logger.log(`✏️ [${imageProvider.name}] Editing image with ${productImages.length} product references`);
+
+		try {
+			const { model, ...result } = await imageProvider.generateImageWithReference(instruction, [imageUrl, ...productImages], {
 				aspectRatio,
 				resolution,
-				userApiKey
-			);
+				apiKey: userApiKey,
+				edit: true,
+			});
 
-			this.logger.log('✅ [Gemini API] Image with reference generated successfully');
-			return result;
+			this.logger.log(`✅ [${imageProvider.name}] Image edited successfully (model=${model})`);
+			return { ...result, provider: imageProvider.name, model };
 		} catch (error: any) {
-			this.logger.error(`❌ [Gemini API] Reference image generation failed: ${error.message}`);
+			this.logger.error(`❌ [${imageProvider.name}] Image edit failed: ${error.message}`);
 			throw error;
 		}
 	}
 
 	/**
-	 * Get current model name from GeminiService
+	 * Get default model name of a provider (default provider when omitted)
+	 */
+	getModelName(provider?: string): string {
+		return this.imageProviderRegistry.get(provider).getDefaultModel();
+	}
+
+	/**
+	 * Get resolved provider name (configured default when omitted)
+	 */
+	getProviderName(provider?: string): string {
+		return this.imageProviderRegistry.get(provider).name;
+	}
+
+	/**
+	 * Check if a provider is configured (has system API key)
 	 */
-	getModelName(): string {
-		return this.geminiService.getModel();
+	isConfigured(provider?: string): boolean {
+		return this.imageProviderRegistry.get(provider).isConfigured();
 	}
 
 	/**
-	 * Check if Gemini API is configured (has API key)
+	 * List registered providers with their default model and configuration state
 	 */
-	isConfigured(): boolean {
-		const status = this.geminiService.getApiKeyStatus();
-		return status.hasSystemKey;
+	listProviders() {
+		return this.imageProviderRegistry.list();
 	}
 }
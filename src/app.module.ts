@@ -9,9 +9,17 @@ import jwtConfig from './config/jwt.config';
 import uploadConfig from './config/upload.config';
 import geminiConfig from './config/gemini.config';
 import vertexConfig from './config/vertex.config';
+import imageConfig from './config/image.config';
+import qaConfig from './config/qa.config';
+import batchConfig from './config/batch.config';
+import queueConfig from './config/queue.config';
+import encryptionConfig from './config/encryption.config';
+import providerKeysConfig from './config/provider-keys.config';
+import mailConfig from './config/mail.config';
 import { DatabaseModule } from './database/database.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
 import { BrandsModule } from './brands/brands.module';
 import { CollectionsModule } from './collections/collections.module';
 import { FilesModule } from './files/files.module';
@@ -20,8 +28,12 @@ import { AiModule } from './ai/ai.module';
 import { GenerationsModule } from './generations/generations.module';
 import { AdRecreationModule } from './ad-recreation/ad-recreation.module';
 import { DAModule } from './da/da.module';
-import { APP_GUARD } from '@nestjs/core';
+import { ShotsModule } from './shots/shots.module';
+import { UsageModule } from './usage/usage.module';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { UsageContextInterceptor } from './common/interceptors/usage-context.interceptor';
+import { AccessTokenContextInterceptor } from './common/interceptors/access-token-context.interceptor';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
@@ -29,7 +41,7 @@ import { AppService } from './app.service';
 	imports: [
 		ConfigModule.forRoot({
 			isGlobal: true,
-			load: [databaseConfig, appConfig, jwtConfig, uploadConfig, geminiConfig, vertexConfig],
+			load: [databaseConfig, appConfig, jwtConfig, uploadConfig, geminiConfig, vertexConfig, imageConfig, qaConfig, batchConfig, queueConfig, encryptionConfig, providerKeysConfig, mailConfig],
 		}),
 
 		// BullMQ Configuration
@@ -45,6 +57,7 @@ import { AppService } from './app.service';
 		DatabaseModule,
 		AuthModule,
 		UsersModule,
+		WorkspacesModule,
 		BrandsModule,
 		CollectionsModule,
 		FilesModule,
@@ -53,6 +66,8 @@ import { AppService } from './app.service';
 		GenerationsModule,
 		AdRecreationModule,
 		DAModule,
+		ShotsModule,
+		UsageModule,
 	],
 	controllers: [AppController],
 	providers: [
@@ -61,6 +76,14 @@ import { AppService } from './app.service';
 			provide: APP_GUARD,
 			useClass: JwtAuthGuard,
 		},
+		{
+			provide: APP_INTERCEPTOR,
+			useClass: UsageContextInterceptor,
+		},
+		{
+			provide: APP_INTERCEPTOR,
+			useClass: AccessTokenContextInterceptor,
+		},
 	],
 })
 export class AppModule {}
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AccessTokenGrant } from '../common/interfaces/personal-access-token.interface';
+
+const storage = new AsyncLocalStorage<AccessTokenGrant>();
+
+/**
+ * Grant of the personal access token behind the current request.
+ *
+ * Brand checks live in WorkspaceAccessService, which only gets a user id; the
+ * token's brand restriction reaches it through this context instead of a new
+ * parameter on every call site. Outside a token request nothing is restricted.
+ */
+export class AccessTokenContext {
+	static run<T>(grant: AccessTokenGrant, fn: () => T): T {
+		return storage.run(grant, fn);
+	}
+
+	static get(): AccessTokenGrant | undefined {
+		return storage.getStore();
+	}
+
+	/**
+	 * Whether the current request may reach this brand
+	 */
+	static allowsBrand(brandId: string): boolean {
+		const grant = storage.getStore();
+		return !grant?.brand_id || grant.brand_id === brandId;
+	}
+}
@@ -0,0 +1,63 @@
+import { AccountToken } from '../database/entities/account-token.entity';
+import { AccountTokenType } from '../libs/enums';
+import { AccountTokensService } from './account-tokens.service';
+import { InMemoryRepository } from '../../test/utils/in-memory-repository';
+
+describe('AccountTokensService', () => {
+	const userId = 'user-1';
+	const hour = 60 * 60 * 1000;
+	let tokens: InMemoryRepository<AccountToken>;
+	let service: AccountTokensService;
+
+	beforeEach(() => {
+		tokens = new InMemoryRepository<AccountToken>();
+		service = new AccountTokensService(tokens.asRepository());
+	});
+
+	it('stores a hash and resolves the token to its user once', async () => {
+		const token = await service.issue(userId, AccountTokenType.EMAIL_VERIFICATION, hour);
+
+		expect(tokens.rows[0].token_hash).toHaveLength(64);
+		expect(tokens.rows[0].token_hash).not.toBe(token);
+
+		expect(await service.consume(token, AccountTokenType.EMAIL_VERIFICATION)).toBe(userId);
+		expect(await service.consume(token, AccountTokenType.EMAIL_VERIFICATION)).toBeNull();
+		expect(tokens.rows[0].used_at).toBeInstanceOf(Date);
+	});
+
+	it('rejects expired tokens', async () => {
+		const token = await service.issue(userId, AccountTokenType.PASSWORD_RESET, hour);
+		tokens.rows[0].expires_at = new Date(Date.now() - 1000);
+
+		expect(await service.consume(token, AccountTokenType.PASSWORD_RESET)).toBeNull();
+		expect(tokens.rows[0].used_at).toBeUndefined();
+	});
+
+	it('only accepts a token for its own purpose', async () => {
+		const token = await service.issue(userId, AccountTokenType.EMAIL_VERIFICATION, hour);
+
+		expect(await service.consume(token, AccountTokenType.PASSWORD_RESET)).toBeNull();
+		expect(await service.consume(token, AccountTokenType.EMAIL_VERIFICATION)).toBe(userId);
+	});
+
+	it('invalidates earlier unused tokens of the same type when a new one is issued', async () => {
+		const first = await service.issue(userId, AccountTokenType.PASSWORD_RESET, hour);
+		const verification = await service.issue(userId, AccountTokenType.EMAIL_VERIFICATION, hour);
+		const second = await service.issue(userId, AccountTokenType.PASSWORD_RESET, hour);
+
+		expect(await service.consume(first, AccountTokenType.PASSWORD_RESET)).toBeNull();
+		expect(await service.consume(second, AccountTokenType.PASSWORD_RESET)).toBe(userId);
+		expect(await service.consume(verification, AccountTokenType.EMAIL_VERIFICATION)).toBe(userId);
+	});
+
+	it('accepts a link opened twice at the same time only once', async () => {
+		const token = await service.issue(userId, AccountTokenType.PASSWORD_RESET, hour);
+
+		const results = await Promise.all([
+			service.consume(token, AccountTokenType.PASSWORD_RESET),
+			service.consume(token, AccountTokenType.PASSWORD_RESET),
+		]);
+
+		expect(results.filter((result) => result === userId)).toHaveLength(1);
+	});
+});
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { AccountToken } from '../database/entities/account-token.entity';
+import { AccountTokenType } from '../libs/enums';
+
+/**
+ * Single-use, expiring tokens for mailed links (email verification, password reset)
+ */
+@Injectable()
+export class AccountTokensService {
+	constructor(
+		@InjectRepository(AccountToken)
+		private readonly tokensRepository: Repository<AccountToken>,
+	) {}
+
+	/**
+	 * New token for the user; earlier unused tokens of the same type stop working
+	 * @returns the raw token (only its hash is stored)
+	 */
+	async issue(userId: string, type: AccountTokenType, ttlMs: number): Promise<string> {
+		await this.revokeUnused(userId, type);
+
+		const token = randomBytes(32).toString('base64url');
+		await this.tokensRepository.save(
+			this.tokensRepository.create({
+				user_id: userId,
+				type,
+				token_hash: this.hash(token),
+				expires_at: new Date(Date.now() + ttlMs),
+			}),
+		);
+		return token;
+	}
+
+	/**
+	 * Use a token up
+	 * @returns user id, or null for unknown, expired or already used tokens
+	 */
+	async consume(token: string, type: AccountTokenType): Promise<string | null> {
+		const tokenHash = this.hash(token || '');
+		const record = await this.tokensRepository.findOne({
+			where: { token_hash: tokenHash, type, used_at: IsNull(), expires_at: MoreThan(new Date()) },
+		});
+		if (!record) return null;
+
+		// Conditional on used_at so the same link opened twice at once is only accepted once
+		const result = await this.tokensRepository.update({ id: record.id, used_at: IsNull() }, { used_at: new Date() });
+		return result.affected ? record.user_id : null;
+	}
+
+	/**
+	 * Make the user's unused tokens of a type stop working
+	 */
+	async revokeUnused(userId: string, type: AccountTokenType): Promise<void> {
+		await this.tokensRepository.delete({ user_id: userId, type, used_at: IsNull() });
+	}
+
+	private hash(token: string): string {
+		return createHash('sha256').update(token).digest('hex');
+	}
+}
@@ -0,0 +1,76 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthSession } from '../database/entities/auth-session.entity';
+import { AuthSessionsService } from './auth-sessions.service';
+import { InMemoryRepository } from '../../test/utils/in-memory-repository';
+
+describe('AuthSessionsService', () => {
+	let sessions: InMemoryRepository<AuthSession>;
+	let service: AuthSessionsService;
+	const userId = '9b7f4c1e-3c2a-4a8e-9f55-0d6c8f1e2a10';
+	const client = { user_agent: 'jest', ip: '127.0.0.1' };
+
+	beforeEach(() => {
+		sessions = new InMemoryRepository<AuthSession>();
+		const config = { get: jest.fn().mockReturnValue(30) } as unknown as ConfigService;
+		service = new AuthSessionsService(sessions.asRepository(), config);
+	});
+
+	it('stores only a hash of the refresh token', async () => {
+		const { session, refreshToken } = await service.create(userId, client);
+		const [sessionId, secret] = refreshToken.split('.');
+
+		expect(sessionId).toBe(session.id);
+		expect(sessions.rows[0].refresh_token_hash).toHaveLength(64);
+		expect(sessions.rows[0].refresh_token_hash).not.toContain(secret);
+	});
+
+	it('rotates a refresh token into a new one that works exactly once', async () => {
+		const { refreshToken } = await service.create(userId, client);
+
+		const rotated = await service.rotate(refreshToken);
+		expect(rotated.refreshToken).not.toBe(refreshToken);
+		expect(rotated.session.user_id).toBe(userId);
+
+		const again = await service.rotate(rotated.refreshToken);
+		expect(again.refreshToken).not.toBe(rotated.refreshToken);
+		expect(await service.isActive(again.session.id, userId)).toBe(true);
+	});
+
+	it('revokes the whole session when an already used refresh token is presented', async () => {
+		const { session, refreshToken } = await service.create(userId, client);
+		const rotated = await service.rotate(refreshToken);
+
+		await expect(service.rotate(refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+
+		expect(sessions.rows[0].revoked_at).toBeInstanceOf(Date);
+		expect(sessions.rows[0].revoked_reason).toBe('refresh_reuse');
+		expect(await service.isActive(session.id, userId)).toBe(false);
+		// The legitimate holder of the newest token is signed out too
+		await expect(service.rotate(rotated.refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+	});
+
+	it('rejects malformed, unknown, expired and revoked tokens', async () => {
+		await expect(service.rotate('')).rejects.toBeInstanceOf(UnauthorizedException);
+		await expect(service.rotate('not-a-session.secret')).rejects.toBeInstanceOf(UnauthorizedException);
+		await expect(service.rotate(`${userId}.secret`)).rejects.toBeInstanceOf(UnauthorizedException);
+
+		const expired = await service.create(userId, client);
+		sessions.rows[0].expires_at = new Date(Date.now() - 1000);
+		await expect(service.rotate(expired.refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+
+		const revoked = await service.create(userId, client);
+		await service.revoke(userId, revoked.session.id, 'logout');
+		await expect(service.rotate(revoked.refreshToken)).rejects.toBeInstanceOf(UnauthorizedException);
+	});
+
+	it('revokes every other session of the user', async () => {
+		const current = await service.create(userId, client);
+		await service.create(userId, client);
+		await service.create(userId, client);
+
+		expect(await service.revokeAll(userId, 'revoked', current.session.id)).toBe(2);
+		expect(await service.isActive(current.session.id, userId)).toBe(true);
+		expect((await service.list(userId, current.session.id)).map((session) => session.current)).toEqual([true]);
+	});
+});
@@ -0,0 +1,158 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { isUUID } from 'class-validator';
+import { AuthSession } from '../database/entities/auth-session.entity';
+import { AuthMessage, NotFoundMessage } from '../libs/enums';
+import { AuthSessionSummary, SessionClientInfo } from '../common/interfaces/auth-session.interface';
+
+/**
+ * Server-side sessions behind access / refresh tokens.
+ *
+ * A refresh token is `<session id>.<secret>`; only a hash of the secret is
+ * stored. Every refresh replaces the secret, so a refresh token works once:
+ * presenting an already used one means it was copied, and the whole session
+ * is revoked.
+ */
+@Injectable()
+export class AuthSessionsService {
+	private readonly logger = new Logger(AuthSessionsService.name);
+
+	constructor(
+		@InjectRepository(AuthSession)
+		private readonly sessionsRepository: Repository<AuthSession>,
+		private readonly configService: ConfigService,
+	) {}
+
+	async create(userId: string, client: SessionClientInfo): Promise<{ session: AuthSession; refreshToken: string }> {
+		const secret = this.newSecret();
+		const session = await this.sessionsRepository.save(
+			this.sessionsRepository.create({
+				user_id: userId,
+				refresh_token_hash: this.hash(secret),
+				user_agent: client.user_agent?.substring(0, 500) || null,
+				ip: client.ip?.substring(0, 64) || null,
+				last_used_at: new Date(),
+				expires_at: this.newExpiry(),
+			}),
+		);
+
+		return { session, refreshToken: `${session.id}.${secret}` };
+	}
+
+	/**
+	 * Exchange a refresh token for a new one (same session, extended expiry)
+	 * @throws UnauthorizedException for unknown, expired, revoked or reused tokens
+	 */
+	async rotate(refreshToken: string): Promise<{ session: AuthSession; refreshToken: string }> {
+		// Postgres rejects a malformed uuid with an error instead of "no rows"
+		const [sessionId, secret] = (refreshToken || '').split('.');
+		if (!sessionId || !secret || !isUUID(sessionId)) {
+			throw new UnauthorizedException(AuthMessage.REFRESH_TOKEN_INVALID);
+		}
+
+		const session = await this.sessionsRepository.findOne({ where: { id: sessionId } });
+		if (!session || session.revoked_at || session.expires_at <= new Date()) {
+			throw new UnauthorizedException(AuthMessage.REFRESH_TOKEN_INVALID);
+		}
+
+		const presentedHash = this.hash(secret);
+		const nextSecret = this.newSecret();
+		const next = {
+			refresh_token_hash: this.hash(nextSecret),
+			last_used_at: new Date(),
+			expires_at: this.newExpiry(),
+		};
+
+		// Conditional on the presented hash, so two refreshes racing with one token cannot both win
+		const result = presentedHash === session.refresh_token_hash
+			? await this.sessionsRepository.update({ id: session.id, refresh_token_hash: presentedHash, revoked_at: IsNull() }, next)
+			: { affected: 0 };
+
+		if (!result.affected) {
+			this.logger.warn(`🚨 Refresh token reuse on session ${session.id} (user ${session.user_id}) - session revoked`);
+			await this.revokeSession(session.id, 'refresh_reuse');
+			throw new UnauthorizedException(AuthMessage.REFRESH_TOKEN_INVALID);
+		}
+
+		return { session: Object.assign(session, next), refreshToken: `${session.id}.${nextSecret}` };
+	}
+
+	/**
+	 * Whether an access token of this session may still be used
+	 */
+	async isActive(sessionId: string, userId: string): Promise<boolean> {
+		if (!isUUID(sessionId)) return false;
+		return this.sessionsRepository.exists({
+			where: { id: sessionId, user_id: userId, revoked_at: IsNull(), expires_at: MoreThan(new Date()) },
+		});
+	}
+
+	async list(userId: string, currentSessionId?: string): Promise<AuthSessionSummary[]> {
+		const sessions = await this.sessionsRepository.find({
+			where: { user_id: userId, revoked_at: IsNull(), expires_at: MoreThan(new Date()) },
+			order: { last_used_at: 'DESC' },
+		});
+
+		return sessions.map((session) => ({
+			id: session.id,
+			user_agent: session.user_agent,
+			ip: session.ip,
+			created_at: session.created_at,
+			last_used_at: session.last_used_at,
+			expires_at: session.expires_at,
+			current: session.id === currentSessionId,
+		}));
+	}
+
+	/**
+	 * Revoke one of the user's sessions
+	 * @throws NotFoundException when it is not theirs or already ended
+	 */
+	async revoke(userId: string, sessionId: string, reason: string): Promise<void> {
+		const result = isUUID(sessionId)
+			? await this.sessionsRepository.update(
+				{ id: sessionId, user_id: userId, revoked_at: IsNull() },
+				{ revoked_at: new Date(), revoked_reason: reason },
+			)
+			: { affected: 0 };
+
+		if (!result.affected) {
+			throw new NotFoundException(NotFoundMessage.SESSION_NOT_FOUND);
+		}
+	}
+
+	/**
+	 * Revoke every session of the user, optionally keeping one (the caller's)
+	 * @returns number of sessions revoked
+	 */
+	async revokeAll(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+		const result = await this.sessionsRepository.update(
+			{ user_id: userId, revoked_at: IsNull(), ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}) },
+			{ revoked_at: new Date(), revoked_reason: reason },
+		);
+		return result.affected || 0;
+	}
+
+	private async revokeSession(sessionId: string, reason: string): Promise<void> {
+		await this.sessionsRepository.update(
+			{ id: sessionId, revoked_at: IsNull() },
+			{ revoked_at: new Date(), revoked_reason: reason },
+		);
+	}
+
+	private newSecret(): string {
+		return randomBytes(32).toString('base64url');
+	}
+
+	private newExpiry(): Date {
+		const days = this.configService.get<number>('jwt.refreshExpiresInDays') || 30;
+		return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+	}
+
+	private hash(secret: string): string {
+		return createHash('sha256').update(secret).digest('hex');
+	}
+}
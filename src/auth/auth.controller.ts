@@ -1,17 +1,24 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { Controller, Post, Get, Body, Param, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import type { Request } from 'express';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto, AuthResponseDto } from '../libs/dto';
+import { RegisterDto, LoginDto, AuthResponseDto, RefreshTokenDto, VerifyEmailDto, ForgotPasswordDto, ResetPasswordDto } from '../libs/dto';
 import { Public } from '../common/decorators/public.decorator';
+import { NoAccessTokens } from '../common/decorators/access-tokens.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { CurrentSessionId } from '../common/decorators/current-session.decorator';
+import { User } from '../database/entities/user.entity';
+import { AuthSessionSummary, SessionClientInfo } from '../common/interfaces/auth-session.interface';
 
 @ApiTags('Authentication')
 @Controller('auth')
+@NoAccessTokens()
 export class AuthController {
 	constructor(private readonly authService: AuthService) {}
 
 	@ApiOperation({
 		summary: 'Register new user',
-		description: 'Create a new user account with email, password, and optional name. Returns JWT token for immediate authentication.',
+		description: 'Create a new user account with email, password, and optional name. Returns an access token and a refresh token for immediate authentication.',
 	})
 	@ApiBody({
 		type: RegisterDto,
@@ -50,13 +57,13 @@ export class AuthController {
 	@Public()
 	@Post('register')
 	@HttpCode(HttpStatus.CREATED)
-	async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-		return this.authService.register(registerDto);
+	async register(@Body() registerDto: RegisterDto, @Req() req: Request): Promise<AuthResponseDto> {
+		return this.authService.register(registerDto, this.getClientInfo(req));
 	}
 
 	@ApiOperation({
 		summary: 'Login user',
-		description: 'Authenticate user with email and password. Returns JWT token for API access.',
+		description: 'Authenticate user with email and password. Opens a session and returns a short-lived access token plus a refresh token.',
 	})
 	@ApiBody({
 		type: LoginDto,
@@ -85,7 +92,99 @@ export class AuthController {
 	@Public()
 	@Post('login')
 	@HttpCode(HttpStatus.OK)
-	async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-		return this.authService.login(loginDto);
+	async login(@Body() loginDto: LoginDto, @Req() req: Request): Promise<AuthResponseDto> {
+		return this.authService.login(loginDto, this.getClientInfo(req));
+	}
+
+	@ApiOperation({
+		summary: 'Refresh tokens',
+		description: 'Exchange a refresh token for a new access token and a new refresh token. Each refresh token works once; reusing one revokes its session.',
+	})
+	@ApiBody({ type: RefreshTokenDto })
+	@ApiResponse({ status: 200, description: 'New token pair', type: AuthResponseDto })
+	@ApiResponse({ status: 401, description: 'Invalid, expired, revoked or reused refresh token' })
+	@Public()
+	@Post('refresh')
+	@HttpCode(HttpStatus.OK)
+	async refresh(@Body() dto: RefreshTokenDto): Promise<AuthResponseDto> {
+		return this.authService.refresh(dto.refresh_token);
+	}
+
+	@ApiOperation({ summary: 'Logout', description: 'Revoke the current session; its access and refresh tokens stop working.' })
+	@ApiBearerAuth('JWT-auth')
+	@Post('logout')
+	@HttpCode(HttpStatus.OK)
+	async logout(@CurrentUser() user: User, @CurrentSessionId() sessionId: string): Promise<{ success: boolean }> {
+		return this.authService.logout(user.id, sessionId);
+	}
+
+	@ApiOperation({ summary: 'List my sessions', description: 'Active sessions (devices) of the current user; `current` marks this one.' })
+	@ApiBearerAuth('JWT-auth')
+	@Get('sessions')
+	async getSessions(@CurrentUser() user: User, @CurrentSessionId() sessionId: string): Promise<AuthSessionSummary[]> {
+		return this.authService.listSessions(user.id, sessionId);
+	}
+
+	@ApiOperation({ summary: 'Revoke a session', description: 'Sign out one device of the current user.' })
+	@ApiBearerAuth('JWT-auth')
+	@Post('sessions/revoke/:id')
+	@HttpCode(HttpStatus.OK)
+	async revokeSession(@CurrentUser() user: User, @Param('id') id: string): Promise<{ success: boolean }> {
+		return this.authService.revokeSession(user.id, id);
+	}
+
+	@ApiOperation({ summary: 'Revoke other sessions', description: 'Sign out every device of the current user except this one.' })
+	@ApiBearerAuth('JWT-auth')
+	@Post('sessions/revokeOthers')
+	@HttpCode(HttpStatus.OK)
+	async revokeOtherSessions(
+		@CurrentUser() user: User,
+		@CurrentSessionId() sessionId: string,
+	): Promise<{ success: boolean; revoked: number }> {
+		return this.authService.revokeOtherSessions(user.id, sessionId);
+	}
+
+	@ApiOperation({ summary: 'Verify email', description: 'Confirm the email address with the token from the verification mail (single use).' })
+	@ApiBody({ type: VerifyEmailDto })
+	@ApiResponse({ status: 400, description: 'Invalid, expired or already used link' })
+	@Public()
+	@Post('verifyEmail')
+	@HttpCode(HttpStatus.OK)
+	async verifyEmail(@Body() dto: VerifyEmailDto): Promise<{ success: boolean; message: string }> {
+		return this.authService.verifyEmail(dto.token);
+	}
+
+	@ApiOperation({ summary: 'Resend verification email', description: 'Mail a new verification link to the current user; earlier links stop working.' })
+	@ApiBearerAuth('JWT-auth')
+	@Post('resendVerification')
+	@HttpCode(HttpStatus.OK)
+	async resendVerification(@CurrentUser() user: User): Promise<{ success: boolean; message: string }> {
+		return this.authService.resendVerificationEmail(user.id);
+	}
+
+	@ApiOperation({ summary: 'Forgot password', description: 'Mail a password reset link. Always answers 200, whether or not the email is registered.' })
+	@ApiBody({ type: ForgotPasswordDto })
+	@Public()
+	@Post('forgotPassword')
+	@HttpCode(HttpStatus.OK)
+	async forgotPassword(@Body() dto: ForgotPasswordDto): Promise<{ success: boolean; message: string }> {
+		return this.authService.forgotPassword(dto.email);
+	}
+
+	@ApiOperation({ summary: 'Reset password', description: 'Set a new password with the token from the reset mail (single use). Signs out every session of the user.' })
+	@ApiBody({ type: ResetPasswordDto })
+	@ApiResponse({ status: 400, description: 'Invalid, expired or already used link, or weak password' })
+	@Public()
+	@Post('resetPassword')
+	@HttpCode(HttpStatus.OK)
+	async resetPassword(@Body() dto: ResetPasswordDto): Promise<{ success: boolean; message: string }> {
+		return this.authService.resetPassword(dto.token, dto.password);
+	}
+
+	private getClientInfo(req: Request): SessionClientInfo {
+		return {
+			user_agent: req.headers['user-agent'] || null,
+			ip: req.ip || null,
+		};
 	}
 }
@@ -6,12 +6,24 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
+import { AuthSessionsService } from './auth-sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
 import { User } from '../database/entities/user.entity';
+import { AuthSession } from '../database/entities/auth-session.entity';
+import { AccountToken } from '../database/entities/account-token.entity';
+import { PersonalAccessToken } from '../database/entities/personal-access-token.entity';
+import { MailModule } from '../mail/mail.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 import jwtConfig from '../config/jwt.config';
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([User]),
+		TypeOrmModule.forFeature([User, AuthSession, AccountToken, PersonalAccessToken]),
+		MailModule,
+		WorkspacesModule,
 		PassportModule,
 		JwtModule.registerAsync({
 			imports: [ConfigModule],
@@ -25,8 +37,15 @@ import jwtConfig from '../config/jwt.config';
 			inject: [ConfigService],
 		}),
 	],
-	controllers: [AuthController],
-	providers: [AuthService, JwtStrategy],
-	exports: [AuthService, JwtStrategy],
+	controllers: [AuthController, PersonalAccessTokensController],
+	providers: [
+		AuthService,
+		AuthSessionsService,
+		AccountTokensService,
+		PersonalAccessTokensService,
+		JwtStrategy,
+		PersonalAccessTokenStrategy,
+	],
+	exports: [AuthService, AuthSessionsService, JwtStrategy, PersonalAccessTokenStrategy],
 })
 export class AuthModule {}
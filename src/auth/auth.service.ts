@@ -1,21 +1,35 @@
-import { Injectable, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ConflictException, UnauthorizedException, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { User } from '../database/entities/user.entity';
 import { RegisterDto, LoginDto, AuthResponseDto } from '../libs/dto';
-import { AuthMessage } from '../libs/enums';
+import { AccountTokenType, AuthMessage, NotFoundMessage, SuccessMessage } from '../libs/enums';
+import { AuthSessionsService } from './auth-sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { MailService } from '../mail/mail.service';
+import { emailVerificationMail, passwordResetMail } from '../mail/mail-templates';
+import { AccessTokenPayload, AuthSessionSummary, SessionClientInfo } from '../common/interfaces/auth-session.interface';
 
 @Injectable()
 export class AuthService {
+	private readonly logger = new Logger(AuthService.name);
+
 	constructor(
 		@InjectRepository(User)
 		private usersRepository: Repository<User>,
 		private jwtService: JwtService,
+		private configService: ConfigService,
+		private authSessionsService: AuthSessionsService,
+		private accountTokensService: AccountTokensService,
+		private personalAccessTokensService: PersonalAccessTokensService,
+		private mailService: MailService,
 	) {}
 
-	async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+	async register(registerDto: RegisterDto, client: SessionClientInfo): Promise<AuthResponseDto> {
 		const { email, password, name } = registerDto;
 
 		// Check if user already exists
@@ -40,21 +54,17 @@ export class AuthService {
 
 		const savedUser = await this.usersRepository.save(user);
 
-		// Generate JWT token
-		const payload = { sub: savedUser.id, email: savedUser.email };
-		const access_token = this.jwtService.sign(payload);
+		// A mail outage must not block sign-up; the user can ask for the mail again
+		try {
+			await this.sendVerificationEmail(savedUser);
+		} catch (error: any) {
+			this.logger.error(`❌ Verification email to ${savedUser.email} failed: ${error.message}`);
+		}
 
-		return {
-			access_token,
-			user: {
-				id: savedUser.id,
-				email: savedUser.email,
-				name: savedUser.name,
-			},
-		};
+		return this.openSession(savedUser, client);
 	}
 
-	async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+	async login(loginDto: LoginDto, client: SessionClientInfo): Promise<AuthResponseDto> {
 		const { email, password } = loginDto;
 
 		// Find user (select only columns that exist before migration)
@@ -80,12 +90,177 @@ export class AuthService {
 			throw new UnauthorizedException(AuthMessage.INVALID_EMAIL_OR_PASSWORD);
 		}
 
-		// Generate JWT token
-		const payload = { sub: user.id, email: user.email };
-		const access_token = this.jwtService.sign(payload);
+		return this.openSession(user, client);
+	}
+
+	/**
+	 * New access token + rotated refresh token for a session
+	 */
+	async refresh(refreshToken: string): Promise<AuthResponseDto> {
+		const { session, refreshToken: nextRefreshToken } = await this.authSessionsService.rotate(refreshToken);
+
+		const user = await this.usersRepository.findOne({
+			where: { id: session.user_id },
+			select: ['id', 'email', 'name'],
+		});
+
+		if (!user) {
+			throw new UnauthorizedException(AuthMessage.REFRESH_TOKEN_INVALID);
+		}
+
+		return this.buildResponse(user, session.id, nextRefreshToken, session.expires_at);
+	}
+
+	/**
+	 * End the session of the current access token (its refresh token stops working too)
+	 */
+	async logout(userId: string, sessionId: string): Promise<{ success: boolean }> {
+		await this.authSessionsService.revoke(userId, sessionId, 'logout');
+		return { success: true };
+	}
+
+	async listSessions(userId: string, currentSessionId: string): Promise<AuthSessionSummary[]> {
+		return this.authSessionsService.list(userId, currentSessionId);
+	}
+
+	async revokeSession(userId: string, sessionId: string): Promise<{ success: boolean }> {
+		await this.authSessionsService.revoke(userId, sessionId, 'revoked');
+		return { success: true };
+	}
+
+	/**
+	 * Sign out everywhere except the current device
+	 */
+	async revokeOtherSessions(userId: string, currentSessionId: string): Promise<{ success: boolean; revoked: number }> {
+		const revoked = await this.authSessionsService.revokeAll(userId, 'revoked', currentSessionId);
+		return { success: true, revoked };
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// Email verification / password reset
+	// ═══════════════════════════════════════════════════════════
+
+	async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+		const userId = await this.accountTokensService.consume(token, AccountTokenType.EMAIL_VERIFICATION);
+		if (!userId) {
+			throw new BadRequestException(AuthMessage.LINK_INVALID);
+		}
+
+		await this.usersRepository.update(userId, { email_verified_at: new Date() });
+		return { success: true, message: SuccessMessage.EMAIL_VERIFIED };
+	}
+
+	async resendVerificationEmail(userId: string): Promise<{ success: boolean; message: string }> {
+		const user = await this.usersRepository.findOne({
+			where: { id: userId },
+			select: ['id', 'email', 'name', 'email_verified_at'],
+		});
+
+		if (!user) {
+			throw new NotFoundException(NotFoundMessage.USER_NOT_FOUND);
+		}
+		if (user.email_verified_at) {
+			throw new BadRequestException(AuthMessage.EMAIL_ALREADY_VERIFIED);
+		}
+
+		await this.sendVerificationEmail(user);
+		return { success: true, message: SuccessMessage.VERIFICATION_EMAIL_SENT };
+	}
+
+	/**
+	 * Mail a reset link. The answer is the same whether or not the email is registered.
+	 */
+	async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+		const user = await this.usersRepository.findOne({
+			where: { email },
+			select: ['id', 'email', 'name'],
+		});
+
+		if (user) {
+			try {
+				const ttlMinutes = this.configService.get<number>('jwt.passwordResetTtlMinutes') || 60;
+				const token = await this.accountTokensService.issue(user.id, AccountTokenType.PASSWORD_RESET, ttlMinutes * 60 * 1000);
+				await this.mailService.send({
+					to: user.email,
+					...passwordResetMail(user.name, this.mailService.buildLink('/reset-password', token), ttlMinutes),
+				});
+			} catch (error: any) {
+				this.logger.error(`❌ Password reset email to ${user.email} failed: ${error.message}`);
+			}
+		}
+
+		return { success: true, message: SuccessMessage.PASSWORD_RESET_REQUESTED };
+	}
+
+	/**
+	 * Set a new password with a reset token; every session of the user is signed out
+	 */
+	async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+		const userId = await this.accountTokensService.consume(token, AccountTokenType.PASSWORD_RESET);
+		if (!userId) {
+			throw new BadRequestException(AuthMessage.LINK_INVALID);
+		}
+
+		const password_hash = await bcrypt.hash(password, 10);
+		await this.usersRepository.update(userId, { password_hash });
+		// Opening the mailed link proves the address as well
+		await this.usersRepository.update({ id: userId, email_verified_at: IsNull() }, { email_verified_at: new Date() });
+
+		const revoked = await this.authSessionsService.revokeAll(userId, 'password_reset');
+		const revokedTokens = await this.personalAccessTokensService.revokeAll(userId);
+		this.logger.log(`🔐 Password reset for user ${userId}, ${revoked} sessions and ${revokedTokens} access tokens revoked`);
+
+		return { success: true, message: SuccessMessage.PASSWORD_RESET };
+	}
+
+	/**
+	 * Verification links already mailed stop working (they verify whatever address is current when opened)
+	 */
+	async revokeEmailVerification(userId: string): Promise<void> {
+		await this.accountTokensService.revokeUnused(userId, AccountTokenType.EMAIL_VERIFICATION);
+	}
+
+	async sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+		const ttlHours = this.configService.get<number>('jwt.emailVerificationTtlHours') || 48;
+		const token = await this.accountTokensService.issue(user.id, AccountTokenType.EMAIL_VERIFICATION, ttlHours * 60 * 60 * 1000);
+		await this.mailService.send({
+			to: user.email,
+			...emailVerificationMail(user.name, this.mailService.buildLink('/verify-email', token), ttlHours),
+		});
+	}
+
+	/**
+	 * Validate an access token outside the guard (SSE streams pass it in the query string)
+	 * @returns user id
+	 * @throws UnauthorizedException for invalid or expired tokens and revoked sessions
+	 */
+	async verifyAccessToken(token: string): Promise<string> {
+		let payload: AccessTokenPayload;
+		try {
+			payload = this.jwtService.verify<AccessTokenPayload>(token);
+		} catch {
+			throw new UnauthorizedException(AuthMessage.TOKEN_INVALID);
+		}
+
+		if (!payload.sid || !(await this.authSessionsService.isActive(payload.sid, payload.sub))) {
+			throw new UnauthorizedException(AuthMessage.SESSION_REVOKED);
+		}
+
+		return payload.sub;
+	}
+
+	private async openSession(user: User, client: SessionClientInfo): Promise<AuthResponseDto> {
+		const { session, refreshToken } = await this.authSessionsService.create(user.id, client);
+		return this.buildResponse(user, session.id, refreshToken, session.expires_at);
+	}
+
+	private buildResponse(user: User, sessionId: string, refreshToken: string, refreshExpiresAt: Date): AuthResponseDto {
+		const payload: AccessTokenPayload = { sub: user.id, email: user.email, sid: sessionId };
 
 		return {
-			access_token,
+			access_token: this.jwtService.sign(payload),
+			refresh_token: refreshToken,
+			refresh_expires_at: refreshExpiresAt,
 			user: {
 				id: user.id,
 				email: user.email,
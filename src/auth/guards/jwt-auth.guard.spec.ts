@@ -0,0 +1,135 @@
+import { Controller, ExecutionContext, ForbiddenException, Get, Post } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RequireScopes } from '../../common/decorators/require-scopes.decorator';
+import { NoAccessTokens, NoBrandScopedTokens } from '../../common/decorators/access-tokens.decorator';
+import { AccessTokenGrant } from '../../common/interfaces/personal-access-token.interface';
+import { PermissionMessage, TokenScope } from '../../libs/enums';
+
+@Controller('products')
+@RequireScopes(TokenScope.PRODUCTS_WRITE)
+class ProductsTestController {
+	@Get()
+	list() {}
+
+	@Post()
+	create() {}
+}
+
+@Controller('generations')
+class GenerationsTestController {
+	@Get(':id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	get() {}
+
+	@Get('review')
+	review() {}
+
+	@Post('review')
+	signOff() {}
+}
+
+@Controller('users')
+@NoAccessTokens()
+class UsersTestController {
+	@Get()
+	get() {}
+}
+
+@Controller('da')
+@NoBrandScopedTokens()
+class PresetsTestController {
+	@Get()
+	list() {}
+}
+
+type TestController = { prototype: object } & (new () => object);
+
+function contextFor(
+	controller: TestController,
+	handler: string,
+	method: string,
+	grant?: AccessTokenGrant,
+): ExecutionContext {
+	const request = { method, user: { id: 'user-1', access_token: grant } };
+	return {
+		getHandler: () => (controller.prototype as Record<string, unknown>)[handler],
+		getClass: () => controller,
+		switchToHttp: () => ({ getRequest: () => request }),
+	} as unknown as ExecutionContext;
+}
+
+function grantOf(scopes: TokenScope[], brandId: string | null = null): AccessTokenGrant {
+	return { token_id: 'token-1', scopes, brand_id: brandId };
+}
+
+describe('JwtAuthGuard', () => {
+	let guard: JwtAuthGuard;
+
+	beforeEach(() => {
+		guard = new JwtAuthGuard(new Reflector());
+		jest.spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype) as JwtAuthGuard, 'canActivate').mockResolvedValue(true);
+	});
+
+	afterEach(() => jest.restoreAllMocks());
+
+	const expectForbidden = async (context: ExecutionContext, message: PermissionMessage) => {
+		await expect(guard.canActivate(context)).rejects.toThrow(new ForbiddenException(message));
+	};
+
+	it('leaves login JWTs unrestricted', async () => {
+		await expect(guard.canActivate(contextFor(UsersTestController, 'get', 'GET'))).resolves.toBe(true);
+		await expect(guard.canActivate(contextFor(GenerationsTestController, 'signOff', 'POST'))).resolves.toBe(true);
+	});
+
+	it('lets read-only tokens read but not write', async () => {
+		const grant = grantOf([TokenScope.READ_ONLY]);
+
+		await expect(guard.canActivate(contextFor(GenerationsTestController, 'review', 'GET', grant))).resolves.toBe(true);
+		await expect(guard.canActivate(contextFor(ProductsTestController, 'list', 'GET', grant))).resolves.toBe(true);
+		await expectForbidden(
+			contextFor(ProductsTestController, 'create', 'POST', grant),
+			PermissionMessage.TOKEN_SCOPE_MISSING,
+		);
+	});
+
+	it('lets write scopes read only the routes they cover', async () => {
+		const grant = grantOf([TokenScope.PRODUCTS_WRITE]);
+
+		await expect(guard.canActivate(contextFor(ProductsTestController, 'list', 'GET', grant))).resolves.toBe(true);
+		await expect(guard.canActivate(contextFor(ProductsTestController, 'create', 'POST', grant))).resolves.toBe(true);
+		await expectForbidden(
+			contextFor(GenerationsTestController, 'get', 'GET', grant),
+			PermissionMessage.TOKEN_SCOPE_MISSING,
+		);
+		await expectForbidden(
+			contextFor(GenerationsTestController, 'review', 'GET', grant),
+			PermissionMessage.TOKEN_SCOPE_MISSING,
+		);
+	});
+
+	it('closes routes without a scope to token writes', async () => {
+		const grant = grantOf([TokenScope.READ_ONLY, TokenScope.PRODUCTS_WRITE, TokenScope.GENERATIONS_EXECUTE]);
+
+		await expectForbidden(
+			contextFor(GenerationsTestController, 'signOff', 'POST', grant),
+			PermissionMessage.TOKEN_NOT_ALLOWED,
+		);
+	});
+
+	it('closes account routes to every token, reads included', async () => {
+		const grant = grantOf([TokenScope.READ_ONLY, TokenScope.PRODUCTS_WRITE, TokenScope.GENERATIONS_EXECUTE]);
+
+		await expectForbidden(contextFor(UsersTestController, 'get', 'GET', grant), PermissionMessage.TOKEN_NOT_ALLOWED);
+	});
+
+	it('closes user-owned resources to brand-restricted tokens only', async () => {
+		await expect(
+			guard.canActivate(contextFor(PresetsTestController, 'list', 'GET', grantOf([TokenScope.READ_ONLY]))),
+		).resolves.toBe(true);
+		await expectForbidden(
+			contextFor(PresetsTestController, 'list', 'GET', grantOf([TokenScope.READ_ONLY], 'brand-1')),
+			PermissionMessage.TOKEN_BRAND_SCOPED,
+		);
+	});
+});
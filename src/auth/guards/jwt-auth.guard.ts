@@ -1,14 +1,24 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import { Injectable, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
+import { PermissionMessage, TokenScope } from '../../libs/enums';
+import { AccessTokenGrant } from '../../common/interfaces/personal-access-token.interface';
 
+/** Methods a `read-only` token may use on any route open to tokens */
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Accepts login access tokens ('jwt') and personal access tokens ('pat').
+ * Personal access tokens are further limited to the route's @RequireScopes(),
+ * @NoAccessTokens() and @NoBrandScopedTokens().
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'pat']) {
 	constructor(private reflector: Reflector) {
 		super();
 	}
 
-	canActivate(context: ExecutionContext) {
+	async canActivate(context: ExecutionContext): Promise<boolean> {
 		const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
 			context.getHandler(),
 			context.getClass(),
@@ -18,6 +28,46 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
 			return true;
 		}
 
-		return super.canActivate(context);
+		if (!(await (super.canActivate(context) as Promise<boolean>))) {
+			return false;
+		}
+
+		const request = context.switchToHttp().getRequest();
+		const grant: AccessTokenGrant | undefined = request.user?.access_token;
+		if (grant) {
+			this.assertScope(context, request.method, grant);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Reads need `read-only` or one of the route's scopes; anything else needs one of the route's scopes
+	 */
+	private assertScope(context: ExecutionContext, method: string, grant: AccessTokenGrant): void {
+		const targets = [context.getHandler(), context.getClass()];
+
+		if (this.reflector.getAllAndOverride<boolean>('noAccessTokens', targets)) {
+			throw new ForbiddenException(PermissionMessage.TOKEN_NOT_ALLOWED);
+		}
+		if (grant.brand_id && this.reflector.getAllAndOverride<boolean>('noBrandScopedTokens', targets)) {
+			throw new ForbiddenException(PermissionMessage.TOKEN_BRAND_SCOPED);
+		}
+
+		const isRead = READ_METHODS.includes(method);
+		if (isRead && grant.scopes.includes(TokenScope.READ_ONLY)) {
+			return;
+		}
+
+		const required = this.reflector.getAllAndOverride<TokenScope[]>('scopes', targets);
+
+		if (!required?.length) {
+			throw new ForbiddenException(
+				isRead ? PermissionMessage.TOKEN_SCOPE_MISSING : PermissionMessage.TOKEN_NOT_ALLOWED,
+			);
+		}
+		if (!required.some((scope) => grant.scopes.includes(scope))) {
+			throw new ForbiddenException(PermissionMessage.TOKEN_SCOPE_MISSING);
+		}
 	}
 }
@@ -0,0 +1,57 @@
+import { Controller, Post, Get, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { CreatePersonalAccessTokenDto } from '../libs/dto';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { NoAccessTokens } from '../common/decorators/access-tokens.decorator';
+import { User } from '../database/entities/user.entity';
+import { SuccessMessage } from '../libs/enums';
+import {
+	CreatedPersonalAccessToken,
+	PersonalAccessTokenSummary,
+} from '../common/interfaces/personal-access-token.interface';
+
+/**
+ * Personal access tokens of the current user. Closed to personal access
+ * tokens themselves, listing included.
+ */
+@ApiTags('Authentication')
+@ApiBearerAuth('JWT-auth')
+@Controller('auth/tokens')
+@NoAccessTokens()
+export class PersonalAccessTokensController {
+	constructor(private readonly personalAccessTokensService: PersonalAccessTokensService) {}
+
+	@ApiOperation({
+		summary: 'Create personal access token',
+		description:
+			'Long-lived bearer token for scripts and integrations, limited to the given scopes and optionally one brand. The token is returned only in this response.',
+	})
+	@ApiBody({ type: CreatePersonalAccessTokenDto })
+	@ApiResponse({ status: 403, description: 'No access to brand_id' })
+	@Post('create')
+	async create(
+		@CurrentUser() user: User,
+		@Body() dto: CreatePersonalAccessTokenDto,
+	): Promise<CreatedPersonalAccessToken> {
+		return this.personalAccessTokensService.create(user.id, dto);
+	}
+
+	@ApiOperation({
+		summary: 'List my personal access tokens',
+		description: 'Tokens that have not been revoked, newest first (without the token values).',
+	})
+	@Get()
+	async getTokens(@CurrentUser() user: User): Promise<PersonalAccessTokenSummary[]> {
+		return this.personalAccessTokensService.list(user.id);
+	}
+
+	@ApiOperation({ summary: 'Revoke personal access token', description: 'The token stops working immediately.' })
+	@ApiResponse({ status: 404, description: 'Token not found or already revoked' })
+	@Post('revoke/:id')
+	@HttpCode(HttpStatus.OK)
+	async revoke(@CurrentUser() user: User, @Param('id') id: string): Promise<{ success: boolean; message: string }> {
+		await this.personalAccessTokensService.revoke(user.id, id);
+		return { success: true, message: SuccessMessage.ACCESS_TOKEN_REVOKED };
+	}
+}
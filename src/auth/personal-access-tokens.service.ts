@@ -0,0 +1,150 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { isUUID } from 'class-validator';
+import { PersonalAccessToken } from '../database/entities/personal-access-token.entity';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { CreatePersonalAccessTokenDto } from '../libs/dto';
+import { NotFoundMessage } from '../libs/enums';
+import {
+	CreatedPersonalAccessToken,
+	PersonalAccessTokenSummary,
+} from '../common/interfaces/personal-access-token.interface';
+
+/** Marks a bearer token as a personal access token (and makes leaked ones easy to grep for) */
+const TOKEN_PREFIX = 'rmm_pat_';
+
+/** last_used_at is refreshed at most this often, not on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Long-lived personal access tokens for scripts and integrations.
+ *
+ * A token acts as its user, limited to its scopes (checked by JwtAuthGuard)
+ * and optionally one brand (checked by WorkspaceAccessService through
+ * AccessTokenContext). Only a hash of the token is stored.
+ */
+@Injectable()
+export class PersonalAccessTokensService {
+	private readonly logger = new Logger(PersonalAccessTokensService.name);
+
+	constructor(
+		@InjectRepository(PersonalAccessToken)
+		private readonly tokensRepository: Repository<PersonalAccessToken>,
+		private readonly workspaceAccessService: WorkspaceAccessService,
+	) {}
+
+	static isAccessToken(token: string): boolean {
+		return !!token && token.startsWith(TOKEN_PREFIX);
+	}
+
+	/**
+	 * @returns the new token; its value is not retrievable afterwards
+	 */
+	async create(userId: string, dto: CreatePersonalAccessTokenDto): Promise<CreatedPersonalAccessToken> {
+		if (dto.brand_id) {
+			await this.workspaceAccessService.assertBrandAccess(dto.brand_id, userId);
+		}
+
+		const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+		const saved = await this.tokensRepository.save(
+			this.tokensRepository.create({
+				user_id: userId,
+				name: dto.name.trim(),
+				token_prefix: token.substring(0, TOKEN_PREFIX.length + 4),
+				token_hash: this.hash(token),
+				scopes: dto.scopes,
+				brand_id: dto.brand_id || null,
+				expires_at: dto.expires_in_days ? new Date(Date.now() + dto.expires_in_days * 24 * 60 * 60 * 1000) : null,
+			}),
+		);
+
+		this.logger.log(`🔑 Personal access token ${saved.id} created for user ${userId} (${saved.scopes.join(', ')})`);
+		return { ...this.toSummary(saved), token };
+	}
+
+	/**
+	 * Resolve a presented token and record its use
+	 * @returns the token, or null for unknown, expired or revoked ones
+	 */
+	async authenticate(token: string, ip: string | null): Promise<PersonalAccessToken | null> {
+		if (!PersonalAccessTokensService.isAccessToken(token)) return null;
+
+		const accessToken = await this.tokensRepository.findOne({
+			where: { token_hash: this.hash(token), revoked_at: IsNull() },
+		});
+		if (!accessToken || (accessToken.expires_at && accessToken.expires_at <= new Date())) {
+			return null;
+		}
+
+		const lastUsedAt = accessToken.last_used_at?.getTime() || 0;
+		if (Date.now() - lastUsedAt > LAST_USED_RESOLUTION_MS || accessToken.last_used_ip !== ip) {
+			const used = { last_used_at: new Date(), last_used_ip: ip?.substring(0, 64) || null };
+			await this.tokensRepository.update({ id: accessToken.id }, used);
+			Object.assign(accessToken, used);
+		}
+
+		return accessToken;
+	}
+
+	/**
+	 * The user's tokens that have not been revoked (expired ones included, marked by expires_at)
+	 */
+	async list(userId: string): Promise<PersonalAccessTokenSummary[]> {
+		const tokens = await this.tokensRepository.find({
+			where: { user_id: userId, revoked_at: IsNull() },
+			order: { created_at: 'DESC' },
+		});
+		return tokens.map((token) => this.toSummary(token));
+	}
+
+	/**
+	 * Revoke one of the user's tokens
+	 * @throws NotFoundException when it is not theirs or already revoked
+	 */
+	async revoke(userId: string, tokenId: string): Promise<void> {
+		const result = isUUID(tokenId)
+			? await this.tokensRepository.update(
+					{ id: tokenId, user_id: userId, revoked_at: IsNull() },
+					{ revoked_at: new Date() },
+				)
+			: { affected: 0 };
+
+		if (!result.affected) {
+			throw new NotFoundException(NotFoundMessage.ACCESS_TOKEN_NOT_FOUND);
+		}
+
+		this.logger.log(`🔒 Personal access token ${tokenId} revoked by user ${userId}`);
+	}
+
+	/**
+	 * Revoke every token of the user (e.g. after a password reset)
+	 * @returns number of tokens revoked
+	 */
+	async revokeAll(userId: string): Promise<number> {
+		const result = await this.tokensRepository.update(
+			{ user_id: userId, revoked_at: IsNull() },
+			{ revoked_at: new Date() },
+		);
+		return result.affected || 0;
+	}
+
+	private toSummary(token: PersonalAccessToken): PersonalAccessTokenSummary {
+		return {
+			id: token.id,
+			name: token.name,
+			token_prefix: token.token_prefix,
+			scopes: token.scopes,
+			brand_id: token.brand_id,
+			expires_at: token.expires_at,
+			last_used_at: token.last_used_at,
+			last_used_ip: token.last_used_ip,
+			created_at: token.created_at,
+		};
+	}
+
+	private hash(token: string): string {
+		return createHash('sha256').update(token).digest('hex');
+	}
+}
@@ -6,6 +6,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from '../../database/entities/user.entity';
 import { AuthMessage } from '../../libs/enums';
+import { AuthSessionsService } from '../auth-sessions.service';
+import { AccessTokenPayload } from '../../common/interfaces/auth-session.interface';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -13,6 +15,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 		private configService: ConfigService,
 		@InjectRepository(User)
 		private usersRepository: Repository<User>,
+		private authSessionsService: AuthSessionsService,
 	) {
 		super({
 			jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -21,7 +24,12 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 		});
 	}
 
-	async validate(payload: any): Promise<User> {
+	async validate(payload: AccessTokenPayload): Promise<User> {
+		// Tokens without a session (issued before sessions existed) or of a revoked session are refused
+		if (!payload.sid || !(await this.authSessionsService.isActive(payload.sid, payload.sub))) {
+			throw new UnauthorizedException(AuthMessage.SESSION_REVOKED);
+		}
+
 		// Select only columns that exist before migration (claude_model/gemini_model may not exist yet)
 		const user = await this.usersRepository
 			.createQueryBuilder('user')
@@ -31,9 +39,6 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 				'user.name',
 				'user.password_hash',
 				'user.brand_brief',
-				'user.api_key_openai',
-				'user.api_key_anthropic',
-				'user.api_key_gemini',
 				'user.language',
 				'user.theme',
 				'user.notifications_enabled',
@@ -47,6 +52,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 			throw new UnauthorizedException(AuthMessage.UNAUTHORIZED);
 		}
 
-		return user as User;
+		// Read by @CurrentSessionId() (logout, session list)
+		return Object.assign(user, { session_id: payload.sid }) as User;
 	}
 }
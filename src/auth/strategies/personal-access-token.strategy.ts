@@ -0,0 +1,66 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { Request } from 'express';
+import { User } from '../../database/entities/user.entity';
+import { AuthMessage } from '../../libs/enums';
+import { PersonalAccessTokensService } from '../personal-access-tokens.service';
+import { AccessTokenGrant } from '../../common/interfaces/personal-access-token.interface';
+
+/**
+ * Bearer personal access tokens (`rmm_pat_...`). JwtAuthGuard tries this
+ * strategy after 'jwt', so other bearer values still fail as before.
+ */
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(Strategy, 'pat') {
+	constructor(
+		private personalAccessTokensService: PersonalAccessTokensService,
+		@InjectRepository(User)
+		private usersRepository: Repository<User>,
+	) {
+		super({ passReqToCallback: true });
+	}
+
+	async validate(req: Request, token: string): Promise<User | null> {
+		if (!PersonalAccessTokensService.isAccessToken(token)) {
+			return null;
+		}
+
+		const accessToken = await this.personalAccessTokensService.authenticate(token, req.ip || null);
+		if (!accessToken) {
+			throw new UnauthorizedException(AuthMessage.ACCESS_TOKEN_INVALID);
+		}
+
+		// Same columns as JwtStrategy
+		const user = await this.usersRepository
+			.createQueryBuilder('user')
+			.select([
+				'user.id',
+				'user.email',
+				'user.name',
+				'user.password_hash',
+				'user.brand_brief',
+				'user.language',
+				'user.theme',
+				'user.notifications_enabled',
+				'user.created_at',
+				'user.updated_at',
+			])
+			.where('user.id = :id', { id: accessToken.user_id })
+			.getOne();
+
+		if (!user) {
+			throw new UnauthorizedException(AuthMessage.UNAUTHORIZED);
+		}
+
+		// Read by JwtAuthGuard (scopes) and AccessTokenContextInterceptor (brand restriction)
+		const grant: AccessTokenGrant = {
+			token_id: accessToken.id,
+			scopes: accessToken.scopes,
+			brand_id: accessToken.brand_id,
+		};
+		return Object.assign(user, { access_token: grant }) as User;
+	}
+}
@@ -1,8 +1,8 @@
 import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
-import { BrandsService } from './brands.service';
+import { BrandStyleGuidePreview, BrandsService } from './brands.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { CreateBrandDto, UpdateBrandDto } from '../libs/dto';
+import { CreateBrandDto, UpdateBrandDto, UpdateBrandStyleGuideDto } from '../libs/dto';
 import { User } from '../database/entities/user.entity';
 import { Brand } from '../database/entities/brand.entity';
 
@@ -35,6 +35,20 @@ export class BrandsController {
 		return this.brandsService.update(id, user.id, updateBrandDto);
 	}
 
+	@Post('updateStyleGuide/:id')
+	async updateStyleGuide(
+		@Param('id') id: string,
+		@CurrentUser() user: User,
+		@Body() dto: UpdateBrandStyleGuideDto,
+	): Promise<Brand> {
+		return this.brandsService.updateStyleGuide(id, user.id, dto);
+	}
+
+	@Get('getStyleGuidePreview/:id')
+	async getStyleGuidePreview(@Param('id') id: string, @CurrentUser() user: User): Promise<BrandStyleGuidePreview> {
+		return this.brandsService.getStyleGuidePreview(id, user.id);
+	}
+
 	@Post('deleteBrand/:id')
 	async deleteBrand(@Param('id') id: string, @CurrentUser() user: User): Promise<{ message: string }> {
 		return this.brandsService.remove(id, user.id);
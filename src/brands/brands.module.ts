@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BrandsService } from './brands.service';
 import { BrandsController } from './brands.controller';
 import { Brand } from '../database/entities/brand.entity';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
-	imports: [TypeOrmModule.forFeature([Brand])],
+	imports: [TypeOrmModule.forFeature([Brand]), WorkspacesModule],
 	controllers: [BrandsController],
 	providers: [BrandsService],
 	exports: [BrandsService],
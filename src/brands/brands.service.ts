@@ -1,52 +1,71 @@
-import {
-	Injectable,
-	NotFoundException,
-	ForbiddenException,
-} from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Brand } from '../database/entities/brand.entity';
-import { CreateBrandDto, UpdateBrandDto } from '../libs/dto';
-import { NotFoundMessage, PermissionMessage } from '../libs/enums';
+import { CreateBrandDto, UpdateBrandDto, UpdateBrandStyleGuideDto } from '../libs/dto';
+import { WorkspaceRole } from '../libs/enums';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { BrandStyleGuide, BrandStyleGuideContribution } from '../common/interfaces/brand-style-guide.interface';
+import { BrandStyleGuideBuilder } from '../common/utils/brand-style-guide.util';
+
+export interface BrandStyleGuidePreview {
+	brand_id: string;
+	style_guide: BrandStyleGuide | null;
+	/** Exact fragments added to prompts (null = guide adds nothing) */
+	contribution: BrandStyleGuideContribution | null;
+	/** How a shot prompt / negative prompt is extended */
+	examples: {
+		human_shot: { prompt: string; negative_prompt: string };
+		product_shot: { prompt: string; negative_prompt: string };
+	};
+}
+
+const PREVIEW_PROMPT = '<shot prompt>';
+const PREVIEW_NEGATIVE = '<shot negative prompt>';
 
 @Injectable()
 export class BrandsService {
 	constructor(
 		@InjectRepository(Brand)
 		private brandsRepository: Repository<Brand>,
+		private readonly workspaceAccess: WorkspaceAccessService,
 	) {}
 
 	async create(userId: string, createBrandDto: CreateBrandDto): Promise<Brand> {
+		const { workspace_id, ...fields } = createBrandDto;
+
+		// Editors can create brands in a shared workspace; default is the personal workspace
+		let workspaceId = workspace_id;
+		if (workspaceId) {
+			await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.EDITOR);
+		} else {
+			workspaceId = (await this.workspaceAccess.getPersonalWorkspace(userId)).id;
+		}
+
 		const brand = this.brandsRepository.create({
-			...createBrandDto,
+			...fields,
 			user_id: userId,
+			workspace_id: workspaceId,
 		});
 
 		return this.brandsRepository.save(brand);
 	}
 
 	async findAll(userId: string): Promise<Brand[]> {
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+		if (brandIds.length === 0) {
+			return [];
+		}
+
 		return this.brandsRepository.find({
-			where: { user_id: userId },
+			where: { id: In(brandIds) },
 			order: { created_at: 'DESC' },
 		});
 	}
 
-	async findOne(id: string, userId: string): Promise<Brand> {
-		const brand = await this.brandsRepository.findOne({
-			where: { id },
-		});
-
-		if (!brand) {
-			throw new NotFoundException(NotFoundMessage.BRAND_NOT_FOUND);
-		}
-
-		// Check ownership
-		if (brand.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
-
-		return brand;
+	async findOne(id: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<Brand> {
+		// Check workspace membership / role
+		return this.workspaceAccess.assertBrandAccess(id, userId, minRole);
 	}
 
 	async update(
@@ -54,14 +73,51 @@ export class BrandsService {
 		userId: string,
 		updateBrandDto: UpdateBrandDto,
 	): Promise<Brand> {
-		const brand = await this.findOne(id, userId);
+		const brand = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		Object.assign(brand, updateBrandDto);
 		return this.brandsRepository.save(brand);
 	}
 
-	async remove(id: string, userId: string): Promise<{ message: string }> {
+	/**
+	 * Replace the brand's style guide (empty body clears it)
+	 */
+	async updateStyleGuide(id: string, userId: string, dto: UpdateBrandStyleGuideDto): Promise<Brand> {
+		const brand = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+
+		const hasContent = Object.values(dto).some((value) => (Array.isArray(value) ? value.length > 0 : !!value));
+		brand.style_guide = hasContent ? ({ ...dto } as BrandStyleGuide) : null;
+
+		return this.brandsRepository.save(brand);
+	}
+
+	/**
+	 * Show exactly what the style guide adds to every prompt of the brand
+	 */
+	async getStyleGuidePreview(id: string, userId: string): Promise<BrandStyleGuidePreview> {
 		const brand = await this.findOne(id, userId);
+		const contribution = BrandStyleGuideBuilder.contribution(brand.style_guide);
+		const negative = BrandStyleGuideBuilder.applyToNegative(PREVIEW_NEGATIVE, contribution);
+
+		return {
+			brand_id: brand.id,
+			style_guide: brand.style_guide,
+			contribution,
+			examples: {
+				human_shot: {
+					prompt: BrandStyleGuideBuilder.applyToPrompt(PREVIEW_PROMPT, contribution, true),
+					negative_prompt: negative,
+				},
+				product_shot: {
+					prompt: BrandStyleGuideBuilder.applyToPrompt(PREVIEW_PROMPT, contribution, false),
+					negative_prompt: negative,
+				},
+			},
+		};
+	}
+
+	async remove(id: string, userId: string): Promise<{ message: string }> {
+		const brand = await this.findOne(id, userId, WorkspaceRole.OWNER);
 
 		await this.brandsRepository.remove(brand);
 
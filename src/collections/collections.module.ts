@@ -6,12 +6,14 @@ import { Collection } from '../database/entities/collection.entity';
 import { Brand } from '../database/entities/brand.entity';
 import { AiModule } from '../ai/ai.module';
 import { FilesModule } from '../files/files.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
 	imports: [
 		TypeOrmModule.forFeature([Collection, Brand]),
 		AiModule,
 		FilesModule,
+		WorkspacesModule,
 	],
 	controllers: [CollectionsController],
 	providers: [CollectionsService],
@@ -5,20 +5,20 @@ import {
 	BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Collection } from '../database/entities/collection.entity';
-import { Brand } from '../database/entities/brand.entity';
 import {
 	CreateCollectionDto,
 	UpdateCollectionDto,
 	FixedElementsDto,
 	UpdatePromptTemplatesDto,
 } from '../libs/dto';
-import { NotFoundMessage, PermissionMessage, FileMessage } from '../libs/enums';
+import { NotFoundMessage, PermissionMessage, FileMessage, WorkspaceRole } from '../libs/enums';
 import { ClaudeService } from '../ai/claude.service';
 import { GeminiService } from '../ai/gemini.service';
 import { AnalyzedDAJSON, FixedElements } from '../common/interfaces/da-json.interface';
 import { FilesService } from '../files/files.service';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
 import slugify from 'slugify';
 import type { Express } from 'express';
 import 'multer';
@@ -28,28 +28,17 @@ export class CollectionsService {
 	constructor(
 		@InjectRepository(Collection)
 		private collectionsRepository: Repository<Collection>,
-		@InjectRepository(Brand)
-		private brandsRepository: Repository<Brand>,
 		private readonly claudeService: ClaudeService,
 		private readonly geminiService: GeminiService,
 		private readonly filesService: FilesService,
+		private readonly workspaceAccess: WorkspaceAccessService,
 	) { }
 
 	async create(
 		userId: string,
 		createCollectionDto: CreateCollectionDto,
 	): Promise<Collection> {
-		const brand = await this.brandsRepository.findOne({
-			where: { id: createCollectionDto.brand_id },
-		});
-
-		if (!brand) {
-			throw new NotFoundException(NotFoundMessage.BRAND_NOT_FOUND);
-		}
-
-		if (brand.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.workspaceAccess.assertBrandAccess(createCollectionDto.brand_id, userId, WorkspaceRole.EDITOR);
 
 		// Handle Code Generation
 		let code = createCollectionDto.code;
@@ -101,14 +90,19 @@ export class CollectionsService {
 	}
 
 	async findAll(userId: string): Promise<Collection[]> {
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+		if (brandIds.length === 0) {
+			return [];
+		}
+
 		return this.collectionsRepository.find({
 			relations: ['brand'],
-			where: { brand: { user_id: userId } },
+			where: { brand_id: In(brandIds) },
 			order: { created_at: 'DESC' },
 		});
 	}
 
-	async findOne(id: string, userId: string): Promise<Collection> {
+	async findOne(id: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<Collection> {
 		const collection = await this.collectionsRepository.findOne({
 			where: { id },
 			relations: ['brand'],
@@ -118,9 +112,10 @@ export class CollectionsService {
 			throw new NotFoundException(NotFoundMessage.COLLECTION_NOT_FOUND);
 		}
 
-		if (!collection.brand || collection.brand.user_id !== userId) {
+		if (!collection.brand) {
 			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
 		}
+		await this.workspaceAccess.assertBrandAccess(collection.brand, userId, minRole);
 
 		return collection;
 	}
@@ -130,23 +125,13 @@ export class CollectionsService {
 		userId: string,
 		updateCollectionDto: UpdateCollectionDto,
 	): Promise<Collection> {
-		const collection = await this.findOne(id, userId);
+		const collection = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (
 			updateCollectionDto.brand_id &&
 			updateCollectionDto.brand_id !== collection.brand_id
 		) {
-			const brand = await this.brandsRepository.findOne({
-				where: { id: updateCollectionDto.brand_id },
-			});
-
-			if (!brand) {
-				throw new NotFoundException(NotFoundMessage.BRAND_NOT_FOUND);
-			}
-
-			if (brand.user_id !== userId) {
-				throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-			}
+			await this.workspaceAccess.assertBrandAccess(updateCollectionDto.brand_id, userId, WorkspaceRole.EDITOR);
 
 			collection.brand_id = updateCollectionDto.brand_id;
 		}
@@ -187,7 +172,7 @@ export class CollectionsService {
 		userId: string,
 		fixedElementsDto: FixedElementsDto,
 	): Promise<Collection> {
-		const collection = await this.findOne(id, userId);
+		const collection = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 		collection.fixed_elements = fixedElementsDto;
 		return this.collectionsRepository.save(collection);
 	}
@@ -197,13 +182,13 @@ export class CollectionsService {
 		userId: string,
 		updatePromptTemplatesDto: UpdatePromptTemplatesDto,
 	): Promise<Collection> {
-		const collection = await this.findOne(id, userId);
+		const collection = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 		collection.prompt_templates = updatePromptTemplatesDto.prompt_templates;
 		return this.collectionsRepository.save(collection);
 	}
 
 	async remove(id: string, userId: string): Promise<{ message: string }> {
-		const collection = await this.findOne(id, userId);
+		const collection = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 		await this.collectionsRepository.remove(collection);
 		return { message: 'Collection deleted successfully' };
 	}
@@ -212,7 +197,7 @@ export class CollectionsService {
 	 * STEP 2: Analyze DA reference image with Claude
 	 */
 	async analyzeDA(collectionId: string, userId: string, imageFile?: Express.Multer.File): Promise<AnalyzedDAJSON> {
-		const collection = await this.findOne(collectionId, userId);
+		const collection = await this.findOne(collectionId, userId, WorkspaceRole.EDITOR);
 
 		// If image file provided, upload it and update da_reference_image_url first
 		if (imageFile) {
@@ -331,7 +316,7 @@ export class CollectionsService {
 		updates: Partial<AnalyzedDAJSON> | null,
 		fixedElements?: Partial<FixedElements>
 	): Promise<{ analyzed_da_json: AnalyzedDAJSON; fixed_elements: FixedElements }> {
-		const collection = await this.findOne(collectionId, userId);
+		const collection = await this.findOne(collectionId, userId, WorkspaceRole.EDITOR);
 
 		// UPSERT: If no analyzed_da_json exists, create from updates (or defaults)
 		if (!collection.analyzed_da_json) {
@@ -436,17 +421,7 @@ export class CollectionsService {
 	 * Get all collections for brand
 	 */
 	async findByBrand(brandId: string, userId: string): Promise<Collection[]> {
-		const brand = await this.brandsRepository.findOne({
-			where: { id: brandId },
-		});
-
-		if (!brand) {
-			throw new NotFoundException(NotFoundMessage.BRAND_NOT_FOUND);
-		}
-
-		if (brand.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.workspaceAccess.assertBrandAccess(brandId, userId);
 
 		return this.collectionsRepository.find({
 			where: { brand_id: brandId },
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Closes the route (or controller) to personal access tokens, reads included.
+ * For account data such as sessions, tokens and provider keys.
+ */
+export const NoAccessTokens = () => SetMetadata('noAccessTokens', true);
+
+/**
+ * Closes the route (or controller) to brand-restricted personal access tokens.
+ * For resources owned by the user directly rather than through a brand.
+ */
+export const NoBrandScopedTokens = () => SetMetadata('noBrandScopedTokens', true);
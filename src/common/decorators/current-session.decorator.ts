@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * Id of the auth session behind the request's access token (set by JwtStrategy)
+ */
+export const CurrentSessionId = createParamDecorator(
+	(data: unknown, ctx: ExecutionContext): string => {
+		const request = ctx.switchToHttp().getRequest();
+		return request.user?.session_id;
+	},
+);
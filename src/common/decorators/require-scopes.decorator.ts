@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { TokenScope } from '../../libs/enums';
+
+/**
+ * Scopes (any one of them) a personal access token needs for the route.
+ * Reads are also open to `read-only` tokens; without it other routes are closed
+ * to tokens. Login JWTs are never affected.
+ */
+export const RequireScopes = (...scopes: TokenScope[]) => SetMetadata('scopes', scopes);
@@ -0,0 +1,23 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { AccessTokenContext } from '../../auth/access-token-context';
+import { AccessTokenGrant } from '../interfaces/personal-access-token.interface';
+
+/**
+ * Opens an AccessTokenContext for requests authenticated with a personal access
+ * token, so its brand restriction applies to every access check made while handling it.
+ */
+@Injectable()
+export class AccessTokenContextInterceptor implements NestInterceptor {
+	intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+		const request = context.switchToHttp().getRequest();
+		const grant: AccessTokenGrant | undefined = request?.user?.access_token;
+
+		if (!grant) {
+			return next.handle();
+		}
+
+		// Subscribe inside the context: the route handler runs on subscription
+		return new Observable((subscriber) => AccessTokenContext.run(grant, () => next.handle().subscribe(subscriber)));
+	}
+}
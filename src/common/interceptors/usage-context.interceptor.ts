@@ -0,0 +1,20 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { UsageContext } from '../../usage/usage-context';
+
+/**
+ * Opens a UsageContext for every HTTP request so AI calls made while handling it
+ * (including background work started from it) are attributed to the current user.
+ */
+@Injectable()
+export class UsageContextInterceptor implements NestInterceptor {
+	intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+		const request = context.switchToHttp().getRequest();
+		const userId: string | undefined = request?.user?.id;
+
+		// Subscribe inside the context: the route handler runs on subscription
+		return new Observable((subscriber) =>
+			UsageContext.run({ user_id: userId || null }, () => next.handle().subscribe(subscriber)),
+		);
+	}
+}
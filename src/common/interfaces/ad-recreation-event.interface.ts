@@ -0,0 +1,26 @@
+/**
+ * Ad Recreation Event Interfaces
+ *
+ * Real-time updates of an ad recreation project, sent on the socket
+ * namespace (/ad-recreations) and the SSE stream (GET /ad-recreation/:id/stream).
+ */
+
+export interface AdRecreationEvent {
+  type:
+    | 'status_changed'
+    | 'variation_processing'
+    | 'variation_completed'
+    | 'variation_failed'
+    | 'progress'
+    | 'ad_recreation_completed';
+  adRecreationId: string;
+  userId: string;
+  status?: string;
+  variationIndex?: number;
+  variation?: Record<string, any>;
+  completed?: number;
+  total?: number;
+  progress_percent?: number;
+  error?: string;
+  timestamp: string;
+}
@@ -0,0 +1,38 @@
+/**
+ * Auth Session Interfaces
+ *
+ * Every login opens a session (`auth_sessions`). Access tokens carry its id
+ * (`sid`) so a revoked session stops working before the token expires.
+ */
+
+/**
+ * Claims of an access token
+ */
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  /** auth_sessions.id */
+  sid: string;
+}
+
+/**
+ * Device info recorded when a session is opened
+ */
+export interface SessionClientInfo {
+  user_agent: string | null;
+  ip: string | null;
+}
+
+/**
+ * Session as listed to its owner
+ */
+export interface AuthSessionSummary {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  expires_at: Date;
+  /** The session of the token making the request */
+  current: boolean;
+}
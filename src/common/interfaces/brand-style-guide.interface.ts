@@ -0,0 +1,53 @@
+/**
+ * Brand Style Guide Interface
+ *
+ * Structured brand rules stored on brands.style_guide and merged into every
+ * prompt built for the brand's products (PromptBuilderService.buildPrompts and
+ * ClaudeService.mergeProductAndDA). See BrandStyleGuideBuilder for the rendering.
+ */
+
+export interface BrandPaletteColor {
+  name: string;
+  /** #RRGGBB */
+  hex: string;
+  /** Where the color is used, e.g. "accents", "backgrounds" */
+  usage?: string;
+}
+
+/**
+ * Casting guidance for shots with human models
+ */
+export interface BrandModelCasting {
+  /** e.g. "25-35" */
+  age_range?: string;
+  /** e.g. "mixed ethnicities across the collection" */
+  ethnicity_diversity?: string;
+  /** e.g. "athletic and regular builds" */
+  body_types?: string;
+  notes?: string;
+}
+
+export interface BrandStyleGuide {
+  palette?: BrandPaletteColor[];
+  /** Never shown in any image (also added to negative prompts) */
+  forbidden_elements?: string[];
+  model_casting?: BrandModelCasting;
+  /** Always added to negative prompts */
+  negative_terms?: string[];
+  logo_usage_rules?: string[];
+  tone_words?: string[];
+}
+
+/**
+ * What a style guide adds to prompts
+ * - prompt: appended to every shot prompt (before the resolution suffix)
+ * - human_prompt: appended to human model shots only (casting)
+ * - negative: appended to every negative prompt
+ * - merge_instructions: brand rules given to Claude when merging Product + DA
+ */
+export interface BrandStyleGuideContribution {
+  prompt: string;
+  human_prompt: string;
+  negative: string;
+  merge_instructions: string;
+}
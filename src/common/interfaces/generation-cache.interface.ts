@@ -0,0 +1,49 @@
+/**
+ * Generation Cache Interfaces
+ *
+ * With IMAGE_CACHE_ENABLED an image call whose full request was seen before
+ * (same scope, prompt, reference images, aspect ratio, resolution, provider
+ * and model) reuses the stored image instead of calling the provider.
+ */
+
+/**
+ * Who may reuse a cached image: the brand's workspace, or the user when there is no brand
+ */
+export interface GenerationCacheScope {
+  brand_id: string | null;
+  user_id: string;
+}
+
+/**
+ * Everything that changes the image a provider returns
+ */
+export interface GenerationCacheRequest {
+  prompt: string;
+  referenceImages?: string[];
+  aspectRatio?: string;
+  resolution?: string;
+  /** Provider that will run the request (the configured default resolved) */
+  provider: string;
+  /** Model that will run the request (the provider's default resolved) */
+  model: string;
+}
+
+/**
+ * Generation cache settings for one run's image calls
+ */
+export interface GenerationCacheOptions {
+  scope: GenerationCacheScope;
+  /** Call the provider even on a hit (the fresh image replaces the cached one) */
+  forceFresh?: boolean;
+}
+
+export interface GenerationCacheStats {
+  enabled: boolean;
+  entries: number;
+  /** Requests served from the cache */
+  hits: number;
+  /** Provider calls made for cacheable requests (misses + force_fresh runs) */
+  generated: number;
+  hit_rate: number;
+  estimated_saved_usd: number;
+}
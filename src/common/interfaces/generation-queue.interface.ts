@@ -0,0 +1,50 @@
+/**
+ * Generation Queue Interfaces
+ *
+ * Admission control keeps at most QUEUE_MAX_ACTIVE_PER_USER /
+ * QUEUE_MAX_ACTIVE_PER_WORKSPACE jobs in the Bull queue. Work above the cap
+ * is stored on the generation (deferred_job) and released by
+ * GenerationSchedulerService when a slot frees up.
+ */
+
+/**
+ * Job payload held back on generations.deferred_job
+ */
+export interface DeferredGenerationJob {
+  prompts: string[];
+  visualTypes?: string[];
+  model?: string;
+  provider?: string;
+  priority: number;
+  /** Workspace of the generation's brand (null = personal) */
+  workspace_id: string | null;
+  /** Keep the generation's other visuals (resume after pause) instead of starting over */
+  resume?: boolean;
+  /** Skip the generation cache for this run (GenerateDto.force_fresh) */
+  forceFresh?: boolean;
+}
+
+/**
+ * Pause / cancel request for a running job, checked by the processor between visuals
+ */
+export type GenerationControlAction = 'pause' | 'cancel';
+
+/**
+ * State change sent over socket / SSE (`generation_state`)
+ */
+export type GenerationStateAction = 'pause_requested' | 'paused' | 'resumed' | 'cancel_requested' | 'cancelled';
+
+/**
+ * Where a generation currently sits in the queue
+ * - deferred: held back by admission control, position is an estimate
+ * - waiting: in the Bull wait list, position 1 runs next
+ * - active: a worker is running it (position 0)
+ * - delayed: waiting for a retry backoff
+ */
+export interface GenerationQueuePosition {
+  state: 'deferred' | 'waiting' | 'active' | 'delayed';
+  position: number | null;
+  priority: number | null;
+  /** Jobs ahead of it or running, across all users */
+  queue_length: number;
+}
@@ -42,6 +42,8 @@ export interface MergedPromptObject {
 
   // Legacy/Helper fields (kept for internal logic if needed, but output must prioritize above)
   display_name?: string;
+  requires_human?: boolean; // From shot catalog: human model in frame
+  sort_order?: number;      // From shot catalog: position in the generation
   editable?: boolean;
   last_edited_at?: string | null;
   // Deprecated but might be needed until full cleanup
@@ -52,11 +54,10 @@ export interface MergedPromptObject {
   da_elements?: DAElementsInPrompt;
 }
 
+/**
+ * Prompts keyed by shot code from the shot catalog
+ * (built-in: duo, solo, flatlay_front, flatlay_back, closeup_front, closeup_back)
+ */
 export interface MergedPrompts {
-  duo: MergedPromptObject;
-  solo: MergedPromptObject;
-  flatlay_front: MergedPromptObject;
-  flatlay_back: MergedPromptObject;
-  closeup_front: MergedPromptObject;
-  closeup_back: MergedPromptObject;
+  [shotType: string]: MergedPromptObject;
 }
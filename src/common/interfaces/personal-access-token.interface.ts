@@ -0,0 +1,42 @@
+/**
+ * Personal Access Token Interfaces
+ *
+ * Long-lived tokens (`personal_access_tokens`) for scripts and integrations.
+ * A request authenticated with one carries its grant on `request.user`.
+ */
+
+import { TokenScope } from '../../libs/enums';
+
+/**
+ * What the token of the current request allows (absent for login JWTs, which allow everything)
+ */
+export interface AccessTokenGrant {
+	/** personal_access_tokens.id */
+	token_id: string;
+	scopes: TokenScope[];
+	/** Only brand the token may reach; null = all of the user's brands */
+	brand_id: string | null;
+}
+
+/**
+ * Token as listed to its owner (never includes the token itself)
+ */
+export interface PersonalAccessTokenSummary {
+	id: string;
+	name: string;
+	/** First characters of the token, e.g. `rmm_pat_Ab3x` */
+	token_prefix: string;
+	scopes: TokenScope[];
+	brand_id: string | null;
+	expires_at: Date | null;
+	last_used_at: Date | null;
+	last_used_ip: string | null;
+	created_at: Date;
+}
+
+/**
+ * Answer to token creation: the only time the token is returned
+ */
+export interface CreatedPersonalAccessToken extends PersonalAccessTokenSummary {
+	token: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Provider Key Interfaces
+ *
+ * Keys users save for their own provider accounts are checked with a cheap
+ * "list models" call before they are stored; the result is kept on the user
+ * (`users.api_key_verification`) and model overrides are checked against it.
+ */
+
+export type ProviderKeyType = 'openai' | 'anthropic' | 'gemini';
+
+/**
+ * Outcome of one test call with a key
+ */
+export interface ProviderKeyCheck {
+  valid: boolean;
+  /** Models the key can use (empty when invalid) */
+  models: string[];
+  error?: string;
+}
+
+/**
+ * Stored verification state of one user key
+ */
+export interface ProviderKeyVerification {
+  status: 'valid' | 'invalid';
+  verified_at: string;
+  models: string[];
+  error: string | null;
+}
+
+export type ProviderKeyVerifications = Partial<Record<ProviderKeyType, ProviderKeyVerification>>;
@@ -0,0 +1,117 @@
+import { PromptCamera } from './merged-prompts.interface';
+
+/**
+ * Shot Catalog Interface
+ *
+ * A shot catalog is the ordered list of shots produced for a generation.
+ * Entries come from the `shot_definitions` table and are resolved per
+ * brand / DA preset (see ShotsService.resolveCatalog). When nothing is
+ * configured, DEFAULT_SHOT_CATALOG is used.
+ */
+
+/**
+ * Which per-shot option the user can pick for a shot
+ * - none: no selection (duo, close-ups)
+ * - subject: Adult OR Kid model (solo)
+ * - size: Adult Size OR Kid Size garment (flat lays)
+ */
+export type ShotOptionType = 'none' | 'subject' | 'size';
+
+export interface ShotCatalogEntry {
+    /** Stable key used in merged_prompts, shot_options and visuals (e.g. "duo") */
+    code: string;
+    display_name: string;
+    description?: string | null;
+    camera: PromptCamera;
+    /**
+     * Optional prompt template with {{placeholders}}.
+     * Built-in shots without a template use the hand-tuned builders in PromptBuilderService.
+     */
+    prompt_template?: string | null;
+    /** Extra negative prompt terms appended for this shot */
+    negative_prompt?: string | null;
+    /** true = real human model in frame (anti-nudity + photorealistic enforcement) */
+    requires_human: boolean;
+    option_type: ShotOptionType;
+    default_enabled: boolean;
+    sort_order: number;
+    is_builtin?: boolean;
+}
+
+/**
+ * The six original shot types, in their historical order.
+ * Used as the system catalog when no shot definitions are stored.
+ */
+export const DEFAULT_SHOT_CATALOG: ShotCatalogEntry[] = [
+    {
+        code: 'duo',
+        display_name: 'DUO (Father + Son)',
+        description: 'Father and son wearing matching outfits',
+        camera: { focal_length_mm: 85, aperture: 2.8, focus: 'subjects', angle: 'eye-level' },
+        requires_human: true,
+        option_type: 'none',
+        default_enabled: true,
+        sort_order: 1,
+        is_builtin: true,
+    },
+    {
+        code: 'solo',
+        display_name: 'SOLO Model',
+        description: 'Single adult or kid model',
+        camera: { focal_length_mm: 85, aperture: 2.0, focus: 'subject', angle: 'eye-level' },
+        requires_human: true,
+        option_type: 'subject',
+        default_enabled: true,
+        sort_order: 2,
+        is_builtin: true,
+    },
+    {
+        code: 'flatlay_front',
+        display_name: 'Flat Lay Front',
+        description: 'Garment front laid flat, shot from above',
+        camera: { focal_length_mm: 50, aperture: 8.0, focus: 'entire garment', angle: 'overhead 90°' },
+        requires_human: false,
+        option_type: 'size',
+        default_enabled: true,
+        sort_order: 3,
+        is_builtin: true,
+    },
+    {
+        code: 'flatlay_back',
+        display_name: 'Flat Lay Back',
+        description: 'Garment back laid flat, shot from above',
+        camera: { focal_length_mm: 50, aperture: 8.0, focus: 'entire garment', angle: 'overhead 90°' },
+        requires_human: false,
+        option_type: 'size',
+        default_enabled: true,
+        sort_order: 4,
+        is_builtin: true,
+    },
+    {
+        code: 'closeup_front',
+        display_name: 'Close Up Front',
+        description: 'Macro detail of the front logo / texture',
+        camera: { focal_length_mm: 100, aperture: 4.0, focus: 'logo/texture detail', angle: 'macro' },
+        requires_human: false,
+        option_type: 'none',
+        default_enabled: true,
+        sort_order: 5,
+        is_builtin: true,
+    },
+    {
+        code: 'closeup_back',
+        display_name: 'Close Up Back',
+        description: 'Macro detail of the back patch / branding',
+        camera: { focal_length_mm: 100, aperture: 4.0, focus: 'patch/branding detail', angle: 'macro' },
+        requires_human: false,
+        option_type: 'none',
+        default_enabled: true,
+        sort_order: 6,
+        is_builtin: true,
+    },
+];
+
+/**
+ * Codes of the built-in shot types (in catalog order)
+ */
+export const BUILTIN_SHOT_CODES: string[] = DEFAULT_SHOT_CATALOG.map((shot) => shot.code);
@@ -11,11 +11,16 @@
  * - CLOSE UP: Neutral (no selection needed)
  */
 
+import { DEFAULT_SHOT_CATALOG, ShotCatalogEntry } from './shot-catalog.interface';
+
 /**
  * Base shot option - just enabled/disabled
+ * Catalog shots with option_type 'subject' / 'size' may also carry the selection
  */
 export interface ShotOption {
     enabled: boolean;
+    subject?: 'adult' | 'kid';
+    size?: 'adult' | 'kid';
 }
 
 /**
@@ -35,7 +40,8 @@ export interface FlatlayOption extends ShotOption {
 }
 
 /**
- * Complete shot options for all 6 shot types
+ * Shot options keyed by shot catalog code.
+ * The six built-in shots are typed explicitly; custom catalog shots use the index signature.
  * 
  * @example
  * {
@@ -65,6 +71,9 @@ export interface ShotOptions {
 
     /** CLOSE UP BACK: Neutral - no size/model selection */
     closeup_back?: ShotOption;
+
+    /** Custom catalog shots */
+    [shotType: string]: ShotOption | undefined;
 }
 
 /**
@@ -72,26 +81,32 @@ export interface ShotOptions {
  * Used for backward compatibility
  * 
  * @param modelType - Legacy 'adult' or 'kid' global setting
- * @returns ShotOptions with all shots enabled using the specified model type
+ * @param catalog - Shot catalog to build options for (defaults to the built-in six)
+ * @returns ShotOptions with catalog defaults using the specified model type
  */
-export function createDefaultShotOptions(modelType: 'adult' | 'kid' = 'adult'): ShotOptions {
-    return {
-        duo: { enabled: true },
-        solo: { enabled: true, subject: modelType },
-        flatlay_front: { enabled: true, size: modelType },
-        flatlay_back: { enabled: true, size: modelType },
-        closeup_front: { enabled: true },
-        closeup_back: { enabled: true },
-    };
+export function createDefaultShotOptions(
+    modelType: 'adult' | 'kid' = 'adult',
+    catalog: ShotCatalogEntry[] = DEFAULT_SHOT_CATALOG,
+): ShotOptions {
+    const options: ShotOptions = {};
+    for (const shot of catalog) {
+        const option: ShotOption = { enabled: shot.default_enabled };
+        if (shot.option_type === 'subject') option.subject = modelType;
+        if (shot.option_type === 'size') option.size = modelType;
+        options[shot.code] = option;
+    }
+    return options;
 }
 
 /**
  * Get enabled shot types from shot options
  * 
  * @param options - Shot options object
- * @returns Array of enabled shot type keys
+ * @param catalog - Shot catalog (defaults to the built-in six)
+ * @returns Array of enabled shot type keys, in catalog order
  */
-export function getEnabledShots(options: ShotOptions): string[] {
-    const allShots = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'] as const;
-    return allShots.filter(shot => options[shot]?.enabled !== false);
+export function getEnabledShots(options: ShotOptions, catalog: ShotCatalogEntry[] = DEFAULT_SHOT_CATALOG): string[] {
+    return catalog
+        .filter(shot => (options[shot.code]?.enabled ?? shot.default_enabled) !== false)
+        .map(shot => shot.code);
 }
@@ -0,0 +1,33 @@
+/**
+ * Visual Comment Interfaces
+ *
+ * Review comments are pinned to a point or a rectangle on a visual's image.
+ * Coordinates are normalized (0-1) from the top-left corner so pins survive
+ * any display size.
+ */
+
+export interface VisualCommentPointAnchor {
+  type: 'point';
+  x: number;
+  y: number;
+}
+
+export interface VisualCommentRectAnchor {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type VisualCommentAnchor = VisualCommentPointAnchor | VisualCommentRectAnchor;
+
+/**
+ * Comment threads to turn into prompt feedback for a retry / edit
+ * - comment_ids: these threads (root or reply ids)
+ * - apply_open_comments: every unresolved thread on the visual
+ */
+export interface VisualFeedbackSelection {
+  comment_ids?: string[];
+  apply_open_comments?: boolean;
+}
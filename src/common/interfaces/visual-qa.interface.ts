@@ -0,0 +1,78 @@
+/**
+ * Visual QA Interfaces
+ *
+ * After generation every completed visual is inspected by a vision model and
+ * compared with the product JSON (logo text, color, pocket/button counts, zipper).
+ * The result is stored on the visual as `qa`.
+ */
+
+/**
+ * What the vision model reports seeing in a generated image.
+ * null = not visible / cannot be judged from this shot.
+ */
+export interface VisualQaObservation {
+  product_visible: boolean;
+  view: 'front' | 'back' | 'side' | 'detail' | 'unknown';
+  logo_visible: boolean | null;
+  logo_text: string | null;
+  garment_hex: string | null;
+  pocket_count: number | null;
+  button_count: number | null;
+  zipper_present: boolean | null;
+  issues: string[];
+}
+
+/**
+ * Values a generated image is expected to match, extracted from the product JSON
+ */
+export interface VisualQaExpectations {
+  logo_text: string | null;
+  hex: string | null;
+  pocket_count: number | null;
+  button_count: number | null;
+  zipper_present: boolean | null;
+}
+
+export type VisualQaCheck = 'product' | 'logo_text' | 'color' | 'pocket_count' | 'button_count' | 'zipper' | 'artifact';
+
+export interface VisualQaViolation {
+  check: VisualQaCheck;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  expected?: string | number | boolean | null;
+  actual?: string | number | boolean | null;
+}
+
+export interface VisualQaResult {
+  /** 0-100, 100 = no violations */
+  score: number;
+  passed: boolean;
+  violations: VisualQaViolation[];
+  observation: VisualQaObservation;
+  /** Automatic regenerations triggered by a failing score */
+  retries: number;
+  checked_at: string;
+  model?: string;
+}
+
+/**
+ * Deterministic color check of one region of a generated image (sharp pixel sampling)
+ */
+export interface VisualColorSample {
+  region: 'garment' | 'background' | 'floor';
+  expected_hex: string;
+  /** Sampled color closest to the expected one */
+  sampled_hex: string | null;
+  /** CIE76 Delta-E between expected and sampled color */
+  delta_e: number | null;
+  max_delta_e: number;
+  passed: boolean;
+}
+
+export interface VisualColorCheck {
+  passed: boolean;
+  samples: VisualColorSample[];
+  /** Dominant colors of the whole image, most frequent first */
+  palette: string[];
+  checked_at: string;
+}
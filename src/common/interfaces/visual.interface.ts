@@ -1,3 +1,6 @@
+import { VisualColorCheck, VisualQaResult } from './visual-qa.interface';
+import { VisualReviewStatus } from '../../libs/enums';
+
 export interface VisualMetadata {
   resolution: string;
   ratio: string;
@@ -11,6 +14,53 @@ export interface VisualCamera {
   angle?: string;
 }
 
+/** Upper bound for candidates requested per shot in one run */
+export const MAX_CANDIDATES_PER_SHOT = 4;
+
+/**
+ * One take of a shot. Every generated take is kept in Visual.candidates;
+ * the selected one is mirrored onto the visual's image fields.
+ */
+export interface VisualCandidate {
+  id: string;
+  status: 'completed' | 'failed';
+  image_url?: string | null;
+  image_filename?: string | null;
+  mimeType?: string;
+  provider?: string;
+  model?: string;
+  prompt?: string;
+  error?: string;
+  /** Image edits: instruction applied and the candidate that was edited */
+  edit_instruction?: string;
+  edited_from_candidate_id?: string | null;
+  /** Reused from the generation cache (no provider call) */
+  cached?: boolean;
+  generated_at: string;
+}
+
+/** One reviewer decision on a visual's image */
+export interface VisualReviewEntry {
+  status: VisualReviewStatus;
+  comment?: string | null;
+  reviewed_by: string;
+  reviewed_at: string;
+  /** Image the decision was made on */
+  image_url?: string | null;
+}
+
+/**
+ * Review state of the selected image. Reset to pending_review whenever the
+ * image changes; earlier decisions are kept in history as feedback.
+ */
+export interface VisualReview {
+  status: VisualReviewStatus;
+  comment?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  history?: VisualReviewEntry[];
+}
+
 export interface Visual {
   type: string;
   display_name: string;
@@ -23,4 +73,12 @@ export interface Visual {
   generated_at?: string;
   camera: VisualCamera;
   metadata: VisualMetadata;
+  candidates?: VisualCandidate[];
+  selected_candidate_id?: string | null;
+  /** Post-generation QA result for the selected image */
+  qa?: VisualQaResult;
+  /** Pixel-sampled Delta-E check against product / DA colors */
+  color_check?: VisualColorCheck;
+  /** Approval state; missing = pending_review */
+  review?: VisualReview;
 }
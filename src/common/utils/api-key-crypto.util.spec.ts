@@ -0,0 +1,65 @@
+import { randomBytes } from 'crypto';
+import { ApiKeyCrypto } from './api-key-crypto.util';
+
+describe('ApiKeyCrypto', () => {
+	const oldKey = randomBytes(32).toString('base64');
+	const newKey = randomBytes(32).toString('base64');
+	const apiKey = 'sk-ant-api03-example-key';
+
+	it('seals and opens a value', () => {
+		const keyring = ApiKeyCrypto.buildKeyring({ masterKey: oldKey, masterKeyId: 'k1' });
+		const sealed = ApiKeyCrypto.seal(apiKey, keyring);
+
+		expect(ApiKeyCrypto.isSealed(sealed)).toBe(true);
+		expect(sealed.startsWith('enc:v1:k1:')).toBe(true);
+		expect(sealed).not.toContain(apiKey);
+		expect(ApiKeyCrypto.open(sealed, keyring)).toBe(apiKey);
+	});
+
+	it('uses a fresh data key and iv for every value', () => {
+		const keyring = ApiKeyCrypto.buildKeyring({ masterKey: oldKey });
+
+		expect(ApiKeyCrypto.seal(apiKey, keyring)).not.toBe(ApiKeyCrypto.seal(apiKey, keyring));
+	});
+
+	it('passes plaintext (not yet migrated) values through', () => {
+		const keyring = ApiKeyCrypto.buildKeyring({ masterKey: oldKey });
+
+		expect(ApiKeyCrypto.isSealed(apiKey)).toBe(false);
+		expect(ApiKeyCrypto.open(apiKey, keyring)).toBe(apiKey);
+	});
+
+	it('opens values of a previous master key after rotation and re-seals them with the current one', () => {
+		const before = ApiKeyCrypto.buildKeyring({ masterKey: oldKey, masterKeyId: 'k1' });
+		const sealedWithOld = ApiKeyCrypto.seal(apiKey, before);
+
+		const after = ApiKeyCrypto.buildKeyring({
+			masterKey: newKey,
+			masterKeyId: 'k2',
+			previousMasterKeys: `k1:${oldKey}`,
+		});
+		expect(ApiKeyCrypto.open(sealedWithOld, after)).toBe(apiKey);
+
+		const rotated = ApiKeyCrypto.seal(ApiKeyCrypto.open(sealedWithOld, after), after);
+		expect(rotated.startsWith('enc:v1:k2:')).toBe(true);
+
+		const newOnly = ApiKeyCrypto.buildKeyring({ masterKey: newKey, masterKeyId: 'k2' });
+		expect(ApiKeyCrypto.open(rotated, newOnly)).toBe(apiKey);
+		expect(() => ApiKeyCrypto.open(sealedWithOld, newOnly)).toThrow('Unknown API key master key "k1"');
+	});
+
+	it('rejects tampered ciphertext', () => {
+		const keyring = ApiKeyCrypto.buildKeyring({ masterKey: oldKey });
+		const parts = ApiKeyCrypto.seal(apiKey, keyring).split(':');
+		const data = Buffer.from(parts[6], 'base64');
+		data[0] ^= 0xff;
+		parts[6] = data.toString('base64');
+
+		expect(() => ApiKeyCrypto.open(parts.join(':'), keyring)).toThrow();
+	});
+
+	it('refuses to seal without a master key and rejects malformed master keys', () => {
+		expect(() => ApiKeyCrypto.seal(apiKey, ApiKeyCrypto.buildKeyring({}))).toThrow('API_KEYS_MASTER_KEY');
+		expect(() => ApiKeyCrypto.buildKeyring({ masterKey: 'too-short' })).toThrow('must be 32 bytes');
+	});
+});
@@ -0,0 +1,131 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * Master keys for provider API keys stored on users (see config/encryption.config.ts)
+ */
+export interface ApiKeyKeyringSettings {
+	/** Current master key, 32 bytes base64 */
+	masterKey?: string;
+	masterKeyId?: string;
+	/** Older master keys still accepted for decryption: "id:base64,id:base64" */
+	previousMasterKeys?: string;
+}
+
+export interface ApiKeyKeyring {
+	/** Key new values are sealed with (null = encryption not configured) */
+	currentId: string | null;
+	keys: Map<string, Buffer>;
+}
+
+const PREFIX = 'enc';
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * Envelope encryption for stored third-party API keys.
+ *
+ * Every value gets its own random data key (AES-256-GCM); the data key is
+ * wrapped with the master key and stored next to the ciphertext:
+ *
+ *   enc:v1:<master key id>:<wrapped data key>:<iv>:<tag>:<ciphertext>
+ *
+ * The master key id lets old rows be opened during a rotation while new
+ * values are sealed with the current key.
+ */
+export class ApiKeyCrypto {
+	static buildKeyring(settings: ApiKeyKeyringSettings): ApiKeyKeyring {
+		const keys = new Map<string, Buffer>();
+
+		for (const entry of (settings.previousMasterKeys || '').split(',')) {
+			const separator = entry.indexOf(':');
+			if (separator <= 0) continue;
+			const id = entry.substring(0, separator).trim();
+			keys.set(id, ApiKeyCrypto.decodeMasterKey(entry.substring(separator + 1).trim(), id));
+		}
+
+		let currentId: string | null = null;
+		if (settings.masterKey) {
+			currentId = settings.masterKeyId || 'k1';
+			keys.set(currentId, ApiKeyCrypto.decodeMasterKey(settings.masterKey, currentId));
+		}
+
+		return { currentId, keys };
+	}
+
+	static isSealed(value: string | null | undefined): boolean {
+		return !!value && value.startsWith(`${PREFIX}:${VERSION}:`);
+	}
+
+	static seal(plaintext: string, keyring: ApiKeyKeyring): string {
+		if (!keyring.currentId) {
+			throw new Error('API key encryption is not configured (API_KEYS_MASTER_KEY)');
+		}
+		const masterKey = keyring.keys.get(keyring.currentId) as Buffer;
+
+		const dataKey = randomBytes(KEY_BYTES);
+		const wrapped = ApiKeyCrypto.encrypt(dataKey, masterKey);
+		const sealed = ApiKeyCrypto.encrypt(Buffer.from(plaintext, 'utf8'), dataKey);
+
+		return [
+			PREFIX,
+			VERSION,
+			keyring.currentId,
+			Buffer.concat([wrapped.iv, wrapped.tag, wrapped.data]).toString('base64'),
+			sealed.iv.toString('base64'),
+			sealed.tag.toString('base64'),
+			sealed.data.toString('base64'),
+		].join(':');
+	}
+
+	/**
+	 * Decrypt a sealed value. Plaintext values (rows not migrated yet) are returned as they are.
+	 */
+	static open(value: string, keyring: ApiKeyKeyring): string {
+		if (!ApiKeyCrypto.isSealed(value)) return value;
+
+		const [, , keyId, wrappedKey, iv, tag, data] = value.split(':');
+		const masterKey = keyring.keys.get(keyId);
+		if (!masterKey) {
+			throw new Error(`Unknown API key master key "${keyId}"`);
+		}
+
+		const wrapped = Buffer.from(wrappedKey, 'base64');
+		const dataKey = ApiKeyCrypto.decrypt(
+			masterKey,
+			wrapped.subarray(0, IV_BYTES),
+			wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+			wrapped.subarray(IV_BYTES + TAG_BYTES),
+		);
+
+		return ApiKeyCrypto.decrypt(
+			dataKey,
+			Buffer.from(iv, 'base64'),
+			Buffer.from(tag, 'base64'),
+			Buffer.from(data, 'base64'),
+		).toString('utf8');
+	}
+
+	private static encrypt(plaintext: Buffer, key: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+		const iv = randomBytes(IV_BYTES);
+		const cipher = createCipheriv(ALGORITHM, key, iv);
+		const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+		return { iv, tag: cipher.getAuthTag(), data };
+	}
+
+	private static decrypt(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): Buffer {
+		const decipher = createDecipheriv(ALGORITHM, key, iv);
+		decipher.setAuthTag(tag);
+		return Buffer.concat([decipher.update(data), decipher.final()]);
+	}
+
+	private static decodeMasterKey(value: string, id: string): Buffer {
+		const key = Buffer.from(value, 'base64');
+		if (key.length !== KEY_BYTES) {
+			throw new Error(`API key master key "${id}" must be ${KEY_BYTES} bytes, base64 encoded`);
+		}
+		return key;
+	}
+}
@@ -0,0 +1,96 @@
+import { BrandStyleGuide, BrandStyleGuideContribution } from '../interfaces/brand-style-guide.interface';
+
+const clean = (items?: string[]): string[] => (items || []).map((item) => item?.trim()).filter((item): item is string => !!item);
+
+/**
+ * Renders a brand style guide into prompt fragments.
+ * Pure and deterministic so the brand preview shows exactly what generation uses.
+ */
+export class BrandStyleGuideBuilder {
+	/**
+	 * Prompt fragments for a guide; null when the guide adds nothing
+	 */
+	static contribution(guide?: BrandStyleGuide | null): BrandStyleGuideContribution | null {
+		if (!guide) return null;
+
+		const parts: string[] = [];
+
+		const palette = (guide.palette || []).filter((color) => color?.name && color?.hex);
+		if (palette.length) {
+			const colors = palette.map((color) => `${color.name} (${color.hex.toUpperCase()})${color.usage ? ` for ${color.usage}` : ''}`);
+			parts.push(`Brand palette: ${colors.join(', ')}`);
+		}
+
+		const tone = clean(guide.tone_words);
+		if (tone.length) {
+			parts.push(`Brand tone: ${tone.join(', ')}`);
+		}
+
+		const logoRules = clean(guide.logo_usage_rules);
+		if (logoRules.length) {
+			parts.push(`Logo usage: ${logoRules.join('; ')}`);
+		}
+
+		const casting = guide.model_casting;
+		const castingParts = [
+			casting?.age_range?.trim() ? `age ${casting.age_range.trim()}` : '',
+			casting?.ethnicity_diversity?.trim() || '',
+			casting?.body_types?.trim() || '',
+			casting?.notes?.trim() || '',
+		].filter(Boolean);
+
+		const negative = [...clean(guide.forbidden_elements), ...clean(guide.negative_terms)];
+
+		if (!parts.length && !castingParts.length && !negative.length) {
+			return null;
+		}
+
+		const prompt = parts.length ? `${parts.join('. ')}.` : '';
+		const humanPrompt = castingParts.length ? `Model casting: ${castingParts.join(', ')}.` : '';
+
+		const instructions = [
+			...parts,
+			humanPrompt ? `For shots with human models - ${humanPrompt}` : '',
+			negative.length ? `Never show: ${negative.join(', ')}` : '',
+		].filter(Boolean);
+
+		return {
+			prompt,
+			human_prompt: humanPrompt,
+			negative: negative.join(', '),
+			merge_instructions: instructions.length
+				? `BRAND STYLE GUIDE (mandatory for every prompt):\n${instructions.map((line) => `- ${line}`).join('\n')}`
+				: '',
+		};
+	}
+
+	/**
+	 * Add the guide to a shot prompt. A trailing resolution suffix stays at the very end.
+	 */
+	static applyToPrompt(
+		prompt: string,
+		contribution: BrandStyleGuideContribution | null,
+		requiresHuman: boolean,
+		resolutionSuffix: string = '',
+	): string {
+		if (!contribution || !prompt) return prompt;
+
+		const addition = [contribution.prompt, requiresHuman ? contribution.human_prompt : '']
+			.filter(Boolean)
+			.join(' ');
+		if (!addition || prompt.includes(addition)) return prompt;
+
+		if (resolutionSuffix && prompt.endsWith(resolutionSuffix)) {
+			const body = prompt.slice(0, prompt.length - resolutionSuffix.length).trimEnd();
+			return `${body} ${addition}${resolutionSuffix}`;
+		}
+
+		return `${prompt.trimEnd()} ${addition}`;
+	}
+
+	static applyToNegative(negativePrompt: string, contribution: BrandStyleGuideContribution | null): string {
+		if (!contribution?.negative) return negativePrompt;
+		if (negativePrompt?.includes(contribution.negative)) return negativePrompt;
+		return negativePrompt ? `${negativePrompt}, ${contribution.negative}` : contribution.negative;
+	}
+}
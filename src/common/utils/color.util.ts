@@ -0,0 +1,74 @@
+/**
+ * Color helpers for comparing generated images with product colors
+ */
+export class ColorUtil {
+	/**
+	 * Parse "#RRGGBB" / "RRGGBB" / "#RGB" (anything after the hex is ignored)
+	 */
+	static hexToRgb(hex: string | null | undefined): { r: number; g: number; b: number } | null {
+		const match = (hex || '').trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})\b/i);
+		if (!match) return null;
+
+		let value = match[1];
+		if (value.length === 3) {
+			value = value.split('').map(c => c + c).join('');
+		}
+
+		return {
+			r: parseInt(value.substring(0, 2), 16),
+			g: parseInt(value.substring(2, 4), 16),
+			b: parseInt(value.substring(4, 6), 16),
+		};
+	}
+
+	static rgbToHex(rgb: { r: number; g: number; b: number }): string {
+		return '#' + [rgb.r, rgb.g, rgb.b]
+			.map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0'))
+			.join('')
+			.toUpperCase();
+	}
+
+	/**
+	 * sRGB (0-255) → CIE L*a*b* (D65)
+	 */
+	static rgbToLab(rgb: { r: number; g: number; b: number }): { l: number; a: number; b: number } {
+		const linear = [rgb.r, rgb.g, rgb.b].map(channel => {
+			const c = channel / 255;
+			return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+		});
+
+		const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+		const y = (linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722) / 1.0;
+		const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+
+		const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+		const fx = f(x);
+		const fy = f(y);
+		const fz = f(z);
+
+		return {
+			l: 116 * fy - 16,
+			a: 500 * (fx - fy),
+			b: 200 * (fy - fz),
+		};
+	}
+
+	/**
+	 * CIE76 Delta-E between two hex colors (null when either is unparseable).
+	 * ~2 is barely noticeable, >10 is clearly a different color.
+	 */
+	static deltaE(hexA: string | null | undefined, hexB: string | null | undefined): number | null {
+		const rgbA = this.hexToRgb(hexA);
+		const rgbB = this.hexToRgb(hexB);
+		if (!rgbA || !rgbB) return null;
+
+		const labA = this.rgbToLab(rgbA);
+		const labB = this.rgbToLab(rgbB);
+
+		return Math.sqrt(
+			Math.pow(labA.l - labB.l, 2) +
+			Math.pow(labA.a - labB.a, 2) +
+			Math.pow(labA.b - labB.b, 2),
+		);
+	}
+}
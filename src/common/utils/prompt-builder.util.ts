@@ -1,4 +1,5 @@
-// Shot types that require real photorealistic human models
+// Built-in shot types that require real photorealistic human models
+// (catalog shots pass requires_human explicitly)
 const HUMAN_MODEL_SHOT_TYPES = ['duo', 'solo'];
 
 // Photorealistic enforcement prefix for human model shots
@@ -47,10 +48,10 @@ export class PromptBuilder {
 
 	/**
 	 * Enhance a prompt based on shot type.
-	 * For duo/solo: injects photorealistic human model requirements.
+	 * For duo/solo (or any catalog shot with requires_human): injects photorealistic human model requirements.
 	 * For flatlay/closeup: ensures product-only focus.
 	 */
-	static enhanceForShotType(prompt: string, shotType: string): string {
+	static enhanceForShotType(prompt: string, shotType: string, requiresHuman?: boolean): string {
 		const type = shotType.toLowerCase();
 
 		if (type === 'duo') {
@@ -73,7 +74,7 @@ export class PromptBuilder {
 			return PromptBuilder.clean(enhanced);
 		}
 
-		if (type === 'solo') {
+		if (PromptBuilder.isHumanModelShot(type, requiresHuman)) {
 			let enhanced = prompt;
 
 			// Add photorealistic prefix if not already present
@@ -94,8 +95,8 @@ export class PromptBuilder {
 	/**
 	 * Returns whether a shot type requires real human models (not mannequins).
 	 */
-	static isHumanModelShot(shotType: string): boolean {
-		return HUMAN_MODEL_SHOT_TYPES.includes(shotType.toLowerCase());
+	static isHumanModelShot(shotType: string, requiresHuman?: boolean): boolean {
+		return requiresHuman ?? HUMAN_MODEL_SHOT_TYPES.includes(shotType.toLowerCase());
 	}
 
 	/**
@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('batch', () => ({
+  // Generations of one batch allowed in the queue at once (the rest wait in the batch)
+  maxInFlight: parseInt(process.env.BATCH_MAX_IN_FLIGHT || '2', 10),
+  // Upper bound on products × presets per batch
+  maxGenerations: parseInt(process.env.BATCH_MAX_GENERATIONS || '200', 10),
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('encryption', () => ({
+  // Master key wrapping the per-record data keys of users' provider API keys (32 bytes, base64)
+  masterKey: process.env.API_KEYS_MASTER_KEY,
+  // Stored with every sealed value; change it together with the key when rotating
+  masterKeyId: process.env.API_KEYS_MASTER_KEY_ID || 'k1',
+  // Retired master keys still needed to open old rows until `keys:rotate` has run: "id:base64,id:base64"
+  previousMasterKeys: process.env.API_KEYS_PREVIOUS_MASTER_KEYS || '',
+}));
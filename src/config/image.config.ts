@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('image', () => ({
+  // Default image provider when neither the request nor the user picks one: gemini | openai | fake
+  defaultProvider: process.env.IMAGE_PROVIDER || 'gemini',
+  openaiApiKey: process.env.OPENAI_API_KEY,
+  openaiModel: process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1',
+  // Visuals of one generation generated at the same time; pause / cancel take effect between visuals
+  visualConcurrency: parseInt(process.env.IMAGE_VISUAL_CONCURRENCY || '3', 10),
+  // Reuse the stored image for an identical request instead of calling the provider (opt-in)
+  cacheEnabled: process.env.IMAGE_CACHE_ENABLED === 'true',
+}));
@@ -2,5 +2,11 @@ import { registerAs } from '@nestjs/config';
 
 export default registerAs('jwt', () => ({
 	secret: process.env.JWT_SECRET || process.env.SECRET_TOKEN,
-	expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+	// Access token lifetime; sessions are kept alive with the refresh token
+	expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+	// Refresh token (session) lifetime in days, extended on every refresh
+	refreshExpiresInDays: parseInt(process.env.JWT_REFRESH_EXPIRES_IN_DAYS || '30', 10),
+	// Lifetime of the mailed single-use links
+	emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+	passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
 }));
@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('mail', () => ({
+  // smtp (production) | file (development / tests: writes each mail to fileDir).
+  // Only development and test fall back to file; elsewhere an unset value stops startup (MailService)
+  transport:
+    process.env.MAIL_TRANSPORT ||
+    (['development', 'test'].includes(process.env.NODE_ENV || 'development') ? 'file' : ''),
+  from: process.env.MAIL_FROM || 'ROMIMI <no-reply@romimi.local>',
+  // Links in mails point to the frontend (verify-email / reset-password pages)
+  appUrl: process.env.MAIL_APP_URL || process.env.FRONTEND_URL || 'http://localhost:4000',
+  fileDir: process.env.MAIL_FILE_DIR || 'mail-outbox',
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true for port 465; 587 upgrades with STARTTLS
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  },
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('providerKeys', () => ({
+  // How user provider keys are checked before saving: live (test call to the provider) | fake (offline, no network)
+  verification: process.env.PROVIDER_KEY_VERIFICATION || 'live',
+}));
@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('qa', () => ({
+  // Post-generation QA: vision check of every completed visual against the product JSON
+  enabled: process.env.QA_ENABLED !== 'false',
+  // Visuals scoring below this (0-100) are flagged as failed QA
+  minScore: parseInt(process.env.QA_MIN_SCORE || '70', 10),
+  // Regenerate shots that fail QA (off by default - each retry costs an image call)
+  autoRetry: process.env.QA_AUTO_RETRY === 'true',
+  maxRetries: parseInt(process.env.QA_MAX_RETRIES || '1', 10),
+  // Max CIE76 Delta-E between expected and observed garment color
+  maxColorDeltaE: parseFloat(process.env.QA_MAX_COLOR_DELTA_E || '15'),
+  // Deterministic pixel-sampled color check (sharp, no AI call)
+  colorCheck: {
+    enabled: process.env.QA_COLOR_CHECK_ENABLED !== 'false',
+    maxGarmentDeltaE: parseFloat(process.env.QA_MAX_GARMENT_DELTA_E || '12'),
+    maxSceneDeltaE: parseFloat(process.env.QA_MAX_SCENE_DELTA_E || '20'),
+  },
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('queue', () => ({
+  // Generation jobs one user may have in the Bull queue (waiting + running); more work is deferred
+  maxActivePerUser: parseInt(process.env.QUEUE_MAX_ACTIVE_PER_USER || '2', 10),
+  // Same cap for all members of a workspace together
+  maxActivePerWorkspace: parseInt(process.env.QUEUE_MAX_ACTIVE_PER_WORKSPACE || '4', 10),
+  // Deferred generations one user may pile up before new requests are rejected (429)
+  maxDeferredPerUser: parseInt(process.env.QUEUE_MAX_DEFERRED_PER_USER || '20', 10),
+}));
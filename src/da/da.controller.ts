@@ -17,10 +17,13 @@ import { DAService } from './da.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
+import { NoBrandScopedTokens } from '../common/decorators/access-tokens.decorator';
 import { User } from '../database/entities/user.entity';
 import { DAPreset, DAPresetConfig } from '../database/entities/da-preset.entity';
 import { FilesService } from '../files/files.service';
 import { AnalyzeDAPresetDto, AnalyzeDAPresetResponse } from '../libs/dto/analyze/analyze-da-preset.dto';
+import { CloneDAPresetDto, UpdateDAPresetSharingDto } from '../libs/dto';
+import { DAPresetVisibility } from '../libs/enums';
 
 /**
  * Save Preset DTO
@@ -29,10 +32,13 @@ interface SavePresetDto {
 	analysis: AnalyzeDAPresetResponse;
 	code: string;
 	description?: string;
+	brand_id?: string;
+	visibility?: DAPresetVisibility;
 }
 
 @Controller('da')
 @UseGuards(JwtAuthGuard)
+@NoBrandScopedTokens()
 export class DAController {
 	constructor(
 		private readonly daService: DAService,
@@ -53,6 +59,8 @@ export class DAController {
 	 * FormData:
 	 * - image (required): Reference photo of the room/scene
 	 * - preset_name (optional): Custom name for the analyzed preset
+	 * - brand_id (optional): Save into this brand (shared with the brand)
+	 * - visibility (optional): private | brand
 	 */
 	@Post('analyze')
 	@UseInterceptors(
@@ -83,7 +91,9 @@ export class DAController {
 		// Analyze AND Save (Persistence handled in Service now)
 		const savedPreset = await this.daService.analyzeReference(
 			storedImage.url,
+			user.id,
 			analyzeDto.preset_name,
+			{ brand_id: analyzeDto.brand_id, visibility: analyzeDto.visibility },
 		);
 
 		return {
@@ -106,16 +116,17 @@ export class DAController {
 	 * Get all DA Presets
 	 * GET /api/da/presets
 	 *
-	 * Returns all presets (system defaults + user-created)
+	 * Returns the presets visible to the user
+	 * (system defaults + own presets + presets shared with the user's brands)
 	 */
 	@Get('presets')
-	async getAllPresets(): Promise<{
+	async getAllPresets(@CurrentUser() user: User): Promise<{
 		total: number;
 		system_presets: number;
 		user_presets: number;
 		presets: DAPreset[];
 	}> {
-		const presets = await this.daService.findAll();
+		const presets = await this.daService.findAll(user.id);
 		const systemPresets = presets.filter(p => p.is_default);
 		const userPresets = presets.filter(p => !p.is_default);
 
@@ -142,11 +153,14 @@ export class DAController {
 	 * GET /api/da/presets/:id
 	 */
 	@Get('presets/:id')
-	async getPresetById(@Param('id') id: string): Promise<{
+	async getPresetById(
+		@CurrentUser() user: User,
+		@Param('id') id: string,
+	): Promise<{
 		preset: DAPreset;
 		config: DAPresetConfig;
 	}> {
-		const preset = await this.daService.findOne(id);
+		const preset = await this.daService.findOne(id, user.id);
 		return {
 			preset,
 			config: this.daService.toPresetConfig(preset),
@@ -157,13 +171,15 @@ export class DAController {
 	 * Get a preset by code
 	 * GET /api/da/presets/code/:code
 	 */
-	@Public()
 	@Get('presets/code/:code')
-	async getPresetByCode(@Param('code') code: string): Promise<{
+	async getPresetByCode(
+		@CurrentUser() user: User,
+		@Param('code') code: string,
+	): Promise<{
 		preset: DAPreset;
 		config: DAPresetConfig;
 	}> {
-		const preset = await this.daService.findByCode(code);
+		const preset = await this.daService.findByCode(code, user.id);
 		return {
 			preset,
 			config: this.daService.toPresetConfig(preset),
@@ -178,6 +194,8 @@ export class DAController {
 	 * - analysis: The AnalyzeDAPresetResponse from /api/da/analyze
 	 * - code: Unique code for the preset (e.g., "my_custom_preset")
 	 * - description: Optional description
+	 * - brand_id: Optional brand to save the preset into
+	 * - visibility: Optional private | brand
 	 */
 	@Post('presets')
 	async saveAsPreset(
@@ -193,9 +211,11 @@ export class DAController {
 		}
 
 		const preset = await this.daService.saveAsPreset(
+			user.id,
 			body.analysis,
 			body.code,
 			body.description,
+			{ brand_id: body.brand_id, visibility: body.visibility },
 		);
 
 		return {
@@ -225,7 +245,7 @@ export class DAController {
 		config: DAPresetConfig;
 		message: string;
 	}> {
-		const updatedPreset = await this.daService.updatePresetAnalysis(id, analysisData);
+		const updatedPreset = await this.daService.updatePresetAnalysis(id, user.id, analysisData);
 
 		return {
 			success: true,
@@ -246,6 +266,51 @@ export class DAController {
 		@CurrentUser() user: User,
 		@Param('id') id: string,
 	): Promise<{ message: string }> {
-		return this.daService.remove(id);
+		return this.daService.remove(id, user.id);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// 🔐 SHARING & CLONING
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Change who can see a custom preset
+	 * PUT /api/da/presets/:id/sharing
+	 *
+	 * Body:
+	 * - visibility: private | brand
+	 * - brand_id: Brand to share with (required for brand visibility unless already set)
+	 */
+	@Put('presets/:id/sharing')
+	async updateSharing(
+		@CurrentUser() user: User,
+		@Param('id') id: string,
+		@Body() dto: UpdateDAPresetSharingDto,
+	): Promise<{ success: boolean; preset: DAPreset }> {
+		const preset = await this.daService.updateSharing(id, user.id, dto);
+		return { success: true, preset };
+	}
+
+	/**
+	 * Clone a preset (e.g. a system preset) into the user's account or brand
+	 * POST /api/da/presets/:id/clone
+	 *
+	 * Body:
+	 * - brand_id: Optional brand to clone into
+	 * - name: Optional name for the copy
+	 * - visibility: Optional private | brand
+	 */
+	@Post('presets/:id/clone')
+	async clonePreset(
+		@CurrentUser() user: User,
+		@Param('id') id: string,
+		@Body() dto: CloneDAPresetDto,
+	): Promise<{ success: boolean; preset: DAPreset; message: string }> {
+		const preset = await this.daService.clonePreset(id, user.id, dto);
+		return {
+			success: true,
+			preset,
+			message: `DA Preset cloned as "${preset.name}"`,
+		};
 	}
 }
@@ -3,14 +3,17 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { DAController } from './da.controller';
 import { DAService } from './da.service';
 import { DAPreset } from '../database/entities/da-preset.entity';
+import { ShotDefinition } from '../database/entities/shot-definition.entity';
 import { AiModule } from '../ai/ai.module';
 import { FilesModule } from '../files/files.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([DAPreset]),
+		TypeOrmModule.forFeature([DAPreset, ShotDefinition]),
 		AiModule,
 		FilesModule,
+		WorkspacesModule,
 	],
 	controllers: [DAController],
 	providers: [DAService],
@@ -1,10 +1,28 @@
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
 import { ClaudeService } from '../ai/claude.service';
 import { FilesService } from '../files/files.service';
 import { DAPreset, DAPresetConfig } from '../database/entities/da-preset.entity';
+import { ShotDefinition } from '../database/entities/shot-definition.entity';
 import { AnalyzeDAPresetResponse } from '../libs/dto/analyze/analyze-da-preset.dto';
+import { CloneDAPresetDto, UpdateDAPresetSharingDto } from '../libs/dto';
+import {
+	DAPresetMessage,
+	DAPresetVisibility,
+	NotFoundMessage,
+	PermissionMessage,
+	WorkspaceRole,
+} from '../libs/enums';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+
+/**
+ * Owner / brand / visibility for a new custom preset
+ */
+export interface DAPresetOwnership {
+	brand_id?: string;
+	visibility?: DAPresetVisibility;
+}
 
 @Injectable()
 export class DAService {
@@ -13,8 +31,11 @@ export class DAService {
 	constructor(
 		@InjectRepository(DAPreset)
 		private daPresetRepository: Repository<DAPreset>,
+		@InjectRepository(ShotDefinition)
+		private shotsRepository: Repository<ShotDefinition>,
 		private readonly claudeService: ClaudeService,
 		private readonly filesService: FilesService,
+		private readonly workspaceAccess: WorkspaceAccessService,
 	) { }
 
 	/**
@@ -22,17 +43,23 @@ export class DAService {
 	 * POST /api/da/analyze
 	 *
 	 * @param imageUrl - URL to the uploaded reference image
+	 * @param userId - Owner of the new preset
 	 * @param presetName - Optional custom name for the analyzed preset
+	 * @param ownership - Optional brand / visibility (private by default)
 	 * @returns AnalyzeDAPresetResponse - Structured DA preset data (not saved to DB)
 	 */
 	async analyzeReference(
 		imageUrl: string,
+		userId: string,
 		presetName?: string,
+		ownership: DAPresetOwnership = {},
 	): Promise<DAPreset> {
 		if (!imageUrl) {
 			throw new BadRequestException('Reference image is required');
 		}
 
+		const scope = await this.resolveOwnership(userId, ownership);
+
 		this.logger.log('🎨 Starting DA reference analysis...');
 		this.logger.log(`   Image URL: ${imageUrl}`);
 
@@ -52,6 +79,7 @@ export class DAService {
 			code: code,
 			description: 'Automatically analyzed from reference image',
 			is_default: false,
+			...scope,
 			image_url: imageUrl,
 			analyzed_da_json: result as unknown as Record<string, any>, // Save strictly
 
@@ -125,10 +153,22 @@ export class DAService {
 	}
 
 	/**
-	 * Get all DA presets (default system presets + user-created)
+	 * Get all DA presets visible to a user:
+	 * public (system) presets, the user's own presets and presets shared with the user's brands
 	 */
-	async findAll(): Promise<DAPreset[]> {
+	async findAll(userId: string): Promise<DAPreset[]> {
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+
+		const where: FindOptionsWhere<DAPreset>[] = [
+			{ visibility: DAPresetVisibility.PUBLIC },
+			{ user_id: userId },
+		];
+		if (brandIds.length > 0) {
+			where.push({ visibility: DAPresetVisibility.BRAND, brand_id: In(brandIds) });
+		}
+
 		return this.daPresetRepository.find({
+			where,
 			order: { is_default: 'DESC', created_at: 'DESC' },
 		});
 	}
@@ -144,40 +184,61 @@ export class DAService {
 	}
 
 	/**
-	 * Get a specific preset by ID
+	 * Get a specific preset by ID (must be visible to the user)
+	 * Presets the user cannot see are reported as not found
 	 */
-	async findOne(id: string): Promise<DAPreset> {
+	async findOne(id: string, userId: string): Promise<DAPreset> {
 		const preset = await this.daPresetRepository.findOne({ where: { id } });
-		if (!preset) {
-			throw new BadRequestException('DA Preset not found');
+		if (!preset || !(await this.canView(preset, userId))) {
+			throw new NotFoundException(NotFoundMessage.DA_PRESET_NOT_FOUND);
 		}
 		return preset;
 	}
 
 	/**
-	 * Get a specific preset by code
+	 * Get a specific preset by code (must be visible to the user)
 	 */
-	async findByCode(code: string): Promise<DAPreset> {
+	async findByCode(code: string, userId: string): Promise<DAPreset> {
 		const preset = await this.daPresetRepository.findOne({ where: { code } });
-		if (!preset) {
-			throw new BadRequestException(`DA Preset with code "${code}" not found`);
+		if (!preset || !(await this.canView(preset, userId))) {
+			throw new NotFoundException(`DA Preset with code "${code}" not found`);
 		}
 		return preset;
 	}
 
+	/**
+	 * Get a preset the user may modify (custom preset owned by the user or an editor of its brand)
+	 */
+	async findEditable(id: string, userId: string): Promise<DAPreset> {
+		const preset = await this.findOne(id, userId);
+
+		if (preset.is_default) {
+			throw new BadRequestException(DAPresetMessage.SYSTEM_PRESET_READONLY);
+		}
+		await this.assertCanManage(preset, userId);
+
+		return preset;
+	}
+
 	/**
 	 * Save analyzed DA reference as a new preset
 	 *
+	 * @param userId - Owner of the new preset
 	 * @param analysisResult - Result from analyzeReference()
 	 * @param code - Unique code for the preset (e.g., "my_custom_preset")
 	 * @param description - Optional description
+	 * @param ownership - Optional brand / visibility (private by default)
 	 * @returns Saved DAPreset entity
 	 */
 	async saveAsPreset(
+		userId: string,
 		analysisResult: AnalyzeDAPresetResponse,
 		code: string,
 		description?: string,
+		ownership: DAPresetOwnership = {},
 	): Promise<DAPreset> {
+		const scope = await this.resolveOwnership(userId, ownership);
+
 		// Check if code already exists
 		const existing = await this.daPresetRepository.findOne({ where: { code } });
 		if (existing) {
@@ -190,6 +251,7 @@ export class DAService {
 			code,
 			description: description || `Analyzed from reference image`,
 			is_default: false, // User-created presets are not default
+			...scope,
 
 			// Background
 			background_type: analysisResult.background.type,
@@ -228,20 +290,19 @@ export class DAService {
 	 *
 	 * Allows editing the analyzed_da_json and updates all related fields
 	 * System presets (is_default=true) cannot be modified
+	 * Only the owner (or an editor of the preset's brand) can modify a preset
 	 *
 	 * @param id - Preset ID
+	 * @param userId - Requesting user
 	 * @param analysisData - Updated AnalyzeDAPresetResponse data
 	 * @returns Updated DAPreset entity
 	 */
 	async updatePresetAnalysis(
 		id: string,
+		userId: string,
 		analysisData: AnalyzeDAPresetResponse,
 	): Promise<DAPreset> {
-		const preset = await this.findOne(id);
-
-		if (preset.is_default) {
-			throw new BadRequestException('System presets cannot be modified');
-		}
+		const preset = await this.findEditable(id, userId);
 
 		this.logger.log(`📝 Updating DA Preset analysis: ${preset.name} (${id})`);
 
@@ -274,19 +335,155 @@ export class DAService {
 	/**
 	 * Delete a user-created preset
 	 * System presets (is_default=true) cannot be deleted
+	 * Only the owner (or an editor of the preset's brand) can delete a preset
 	 */
-	async remove(id: string): Promise<{ message: string }> {
-		const preset = await this.findOne(id);
+	async remove(id: string, userId: string): Promise<{ message: string }> {
+		const preset = await this.findOne(id, userId);
 
 		if (preset.is_default) {
-			throw new BadRequestException('System presets cannot be deleted');
+			throw new BadRequestException(DAPresetMessage.SYSTEM_PRESET_UNDELETABLE);
 		}
+		await this.assertCanManage(preset, userId);
 
 		await this.daPresetRepository.remove(preset);
 		return { message: `DA Preset "${preset.name}" deleted successfully` };
 	}
 
+	// ═══════════════════════════════════════════════════════════
+	// SHARING & CLONING
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Change brand / visibility of a custom preset
+	 * PUT /api/da/presets/:id/sharing
+	 */
+	async updateSharing(id: string, userId: string, dto: UpdateDAPresetSharingDto): Promise<DAPreset> {
+		const preset = await this.findEditable(id, userId);
+
+		const scope = await this.resolveOwnership(userId, {
+			brand_id: dto.brand_id ?? preset.brand_id ?? undefined,
+			visibility: dto.visibility,
+		});
+
+		preset.brand_id = scope.brand_id;
+		preset.visibility = scope.visibility;
+
+		const saved = await this.daPresetRepository.save(preset);
+		this.logger.log(`🔐 DA Preset ${saved.id} is now ${saved.visibility}${saved.brand_id ? ` (brand ${saved.brand_id})` : ''}`);
+
+		return saved;
+	}
+
+	/**
+	 * Clone a visible preset (typically a system preset) into the user's account or brand.
+	 * Shot definitions scoped to the source preset are copied along with it.
+	 * POST /api/da/presets/:id/clone
+	 */
+	async clonePreset(id: string, userId: string, dto: CloneDAPresetDto): Promise<DAPreset> {
+		const source = await this.findOne(id, userId);
+		const scope = await this.resolveOwnership(userId, {
+			brand_id: dto.brand_id,
+			visibility: dto.visibility,
+		});
+
+		const clone = this.daPresetRepository.create({
+			name: dto.name || `${source.name} (Copy)`,
+			code: `${source.code.slice(0, 80)}_${Date.now()}`,
+			description: source.description,
+			is_default: false,
+			...scope,
+			cloned_from_id: source.id,
+			image_url: source.image_url,
+			analyzed_da_json: source.analyzed_da_json,
+			background_type: source.background_type,
+			background_hex: source.background_hex,
+			floor_type: source.floor_type,
+			floor_hex: source.floor_hex,
+			props_left: source.props_left,
+			props_right: source.props_right,
+			styling_pants: source.styling_pants,
+			styling_footwear: source.styling_footwear,
+			lighting_type: source.lighting_type,
+			lighting_temperature: source.lighting_temperature,
+			mood: source.mood,
+			quality: source.quality,
+			additional_config: source.additional_config,
+		});
+
+		const saved = await this.daPresetRepository.save(clone);
+
+		// Copy the preset's shot overrides
+		const shots = await this.shotsRepository.find({ where: { da_preset_id: source.id } });
+		if (shots.length > 0) {
+			await this.shotsRepository.save(
+				shots.map((shot) => this.shotsRepository.create({
+					...shot.toCatalogEntry(),
+					is_builtin: false,
+					is_active: shot.is_active,
+					brand_id: null,
+					da_preset_id: saved.id,
+				})),
+			);
+		}
 
+		this.logger.log(`🧬 Cloned DA Preset "${source.name}" → ${saved.id} (${shots.length} shot overrides)`);
+
+		return saved;
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// ACCESS HELPERS
+	// ═══════════════════════════════════════════════════════════
+
+	private async canView(preset: DAPreset, userId: string): Promise<boolean> {
+		if (preset.visibility === DAPresetVisibility.PUBLIC || preset.user_id === userId) {
+			return true;
+		}
+		if (preset.visibility === DAPresetVisibility.BRAND && preset.brand_id) {
+			const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+			return brandIds.includes(preset.brand_id);
+		}
+		return false;
+	}
+
+	private async assertCanManage(preset: DAPreset, userId: string): Promise<void> {
+		if (preset.user_id === userId) {
+			return;
+		}
+		if (preset.brand_id) {
+			const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId, WorkspaceRole.EDITOR);
+			if (brandIds.includes(preset.brand_id)) {
+				return;
+			}
+		}
+		throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+	}
+
+	/**
+	 * Validate brand / visibility for a custom preset.
+	 * A brand preset is shared with the brand unless explicitly private; public is reserved for system presets.
+	 */
+	private async resolveOwnership(
+		userId: string,
+		ownership: DAPresetOwnership,
+	): Promise<{ user_id: string; brand_id: string | null; visibility: DAPresetVisibility }> {
+		const brandId = ownership.brand_id || null;
+		const visibility = ownership.visibility
+			|| (brandId ? DAPresetVisibility.BRAND : DAPresetVisibility.PRIVATE);
+
+		if (visibility === DAPresetVisibility.PUBLIC) {
+			throw new BadRequestException(DAPresetMessage.PUBLIC_NOT_ALLOWED);
+		}
+		if (visibility === DAPresetVisibility.BRAND && !brandId) {
+			throw new BadRequestException(DAPresetMessage.BRAND_REQUIRED);
+		}
+
+		if (brandId) {
+			await this.workspaceAccess.assertBrandAccess(brandId, userId, WorkspaceRole.EDITOR);
+		}
+
+		return { user_id: userId, brand_id: brandId, visibility };
+	}
 
 	/**
 	 * Convert DAPreset entity to the "Gold Standard" JSON format
@@ -10,6 +10,18 @@ import { Product } from './entities/product.entity';
 import { Generation } from './entities/generation.entity';
 import { AdRecreation } from './entities/ad-recreation.entity';
 import { DAPreset } from './entities/da-preset.entity';
+import { ShotDefinition } from './entities/shot-definition.entity';
+import { VisualVersion } from './entities/visual-version.entity';
+import { VisualComment } from './entities/visual-comment.entity';
+import { GenerationBatch } from './entities/generation-batch.entity';
+import { GenerationCacheEntry } from './entities/generation-cache-entry.entity';
+import { AiUsage } from './entities/ai-usage.entity';
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+import { WorkspaceInvite } from './entities/workspace-invite.entity';
+import { AuthSession } from './entities/auth-session.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
 
 @Module({
     imports: [
@@ -30,7 +42,7 @@ import { DAPreset } from './entities/da-preset.entity';
 
                 return {
                     ...dbConfig,
-                    entities: [User, Brand, Collection, Product, Generation, AdRecreation, DAPreset],
+                    entities: [User, Brand, Collection, Product, Generation, GenerationBatch, GenerationCacheEntry, AdRecreation, DAPreset, ShotDefinition, VisualVersion, VisualComment, AiUsage, Workspace, WorkspaceMember, WorkspaceInvite, AuthSession, AccountToken, PersonalAccessToken],
                     autoLoadEntities: false,
                     maxQueryExecutionTime: 30000, // Increased from 10s to 30s
                     // Merge extra settings from config
@@ -41,7 +53,7 @@ import { DAPreset } from './entities/da-preset.entity';
             },
         }),
 
-        TypeOrmModule.forFeature([User, Brand, Collection, Product, Generation, AdRecreation, DAPreset]),
+        TypeOrmModule.forFeature([User, Brand, Collection, Product, Generation, GenerationBatch, GenerationCacheEntry, AdRecreation, DAPreset, ShotDefinition, VisualVersion, VisualComment, AiUsage, Workspace, WorkspaceMember, WorkspaceInvite, AuthSession, AccountToken, PersonalAccessToken]),
     ],
     exports: [TypeOrmModule],
 })
@@ -0,0 +1,49 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { AccountTokenType } from '../../libs/enums';
+
+/**
+ * AccountToken Entity
+ *
+ * Single-use, expiring token mailed to a user (email verification, password reset).
+ * Only the SHA-256 of the token is stored.
+ */
+@Entity('account_tokens')
+@Index(['user_id', 'type'])
+export class AccountToken {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	@Column({
+		type: 'enum',
+		enum: AccountTokenType,
+	})
+	type: AccountTokenType;
+
+	@Column({ type: 'varchar', length: 64, unique: true })
+	token_hash: string;
+
+	@Column({ type: 'timestamp' })
+	expires_at: Date;
+
+	@Column({ type: 'timestamp', nullable: true })
+	used_at: Date | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+}
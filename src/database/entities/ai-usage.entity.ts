@@ -0,0 +1,89 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	Index,
+} from 'typeorm';
+
+/**
+ * AiUsage Entity
+ *
+ * One row per call to an external AI API (Claude message, Gemini / OpenAI image call),
+ * including internal retries. Used to attribute AI spend to users and brands.
+ *
+ * The ids are plain columns without foreign keys on purpose: usage history must
+ * survive deleting the brand / product / generation it was spent on.
+ */
+@Entity('ai_usage')
+@Index(['user_id', 'created_at'])
+@Index(['brand_id', 'created_at'])
+export class AiUsage {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	// ═══════════════════════════════════════════════════════════
+	// ATTRIBUTION
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'uuid', nullable: true })
+	user_id: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	collection_id: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	product_id: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	generation_id: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// CALL
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * claude | gemini | openai
+	 */
+	@Column({ type: 'varchar', length: 30 })
+	provider: string;
+
+	@Column({ type: 'varchar', length: 100 })
+	model: string;
+
+	/**
+	 * What the call was for (e.g. "analyze_product", "generate_image")
+	 */
+	@Column({ type: 'varchar', length: 50 })
+	operation: string;
+
+	@Column({ type: 'integer', default: 0 })
+	input_tokens: number;
+
+	@Column({ type: 'integer', default: 0 })
+	output_tokens: number;
+
+	@Column({ type: 'integer', default: 0 })
+	image_count: number;
+
+	@Column({ type: 'integer', default: 0 })
+	latency_ms: number;
+
+	@Column({ type: 'boolean' })
+	success: boolean;
+
+	@Column({ type: 'text', nullable: true })
+	error: string | null;
+
+	/**
+	 * Estimated cost from list prices (see usage-pricing.ts)
+	 */
+	@Column({ type: 'double precision', default: 0 })
+	cost_usd: number;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+}
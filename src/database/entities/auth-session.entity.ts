@@ -0,0 +1,68 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * AuthSession Entity
+ *
+ * One login (device / browser). Access tokens carry the session id and are
+ * rejected once the session is revoked or expired; the refresh token is
+ * rotated on every use and only its SHA-256 is stored.
+ */
+@Entity('auth_sessions')
+@Index(['user_id', 'revoked_at'])
+export class AuthSession {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	/**
+	 * SHA-256 (hex) of the current refresh token secret
+	 */
+	@Column({ type: 'varchar', length: 64 })
+	refresh_token_hash: string;
+
+	@Column({ type: 'varchar', length: 500, nullable: true })
+	user_agent: string | null;
+
+	@Column({ type: 'varchar', length: 64, nullable: true })
+	ip: string | null;
+
+	@Column({ type: 'timestamp', nullable: true })
+	last_used_at: Date | null;
+
+	/**
+	 * Refresh token expiry; the session ends here unless refreshed (each refresh extends it)
+	 */
+	@Column({ type: 'timestamp' })
+	expires_at: Date;
+
+	@Column({ type: 'timestamp', nullable: true })
+	revoked_at: Date | null;
+
+	/**
+	 * logout | revoked | refresh_reuse | ...
+	 */
+	@Column({ type: 'varchar', length: 30, nullable: true })
+	revoked_reason: string | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	updated_at: Date;
+}
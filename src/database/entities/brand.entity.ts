@@ -10,6 +10,8 @@ import {
 } from 'typeorm';
 import { User } from './user.entity';
 import { Collection } from './collection.entity';
+import { Workspace } from './workspace.entity';
+import { BrandStyleGuide } from '../../common/interfaces/brand-style-guide.interface';
 
 @Entity('brands')
 export class Brand {
@@ -23,6 +25,17 @@ export class Brand {
   @JoinColumn({ name: 'user_id' })
   user: User;
 
+  /**
+   * Workspace that owns the brand; members get access by role.
+   * null = legacy brand, only user_id has access
+   */
+  @Column({ type: 'uuid', nullable: true })
+  workspace_id: string | null;
+
+  @ManyToOne(() => Workspace, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
   @Column({ type: 'varchar', length: 255 })
   name: string;
 
@@ -32,6 +45,13 @@ export class Brand {
   @Column({ type: 'varchar', length: 500, nullable: true })
   logo_url: string;
 
+  /**
+   * Structured style guide (palette, forbidden elements, casting, negative terms,
+   * logo rules, tone) merged into every prompt for the brand's products
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  style_guide: BrandStyleGuide | null;
+
   @CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
   created_at: Date;
 
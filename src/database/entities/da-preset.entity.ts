@@ -4,7 +4,13 @@ import {
 	Column,
 	CreateDateColumn,
 	UpdateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
 } from 'typeorm';
+import { User } from './user.entity';
+import { Brand } from './brand.entity';
+import { DAPresetVisibility } from '../../libs/enums';
 
 /**
  * Background configuration for DA Preset
@@ -74,8 +80,15 @@ export interface DAPresetConfig {
  * - Mood and quality settings
  *
  * System presets (is_default=true) are protected from deletion.
+ *
+ * Visibility:
+ * - public  → system presets, visible to everyone
+ * - brand   → visible to everyone with access to brand_id
+ * - private → visible to the owner (user_id) only
  */
 @Entity('da_presets')
+@Index(['user_id'])
+@Index(['brand_id'])
 export class DAPreset {
 	@PrimaryGeneratedColumn('uuid')
 	id: string;
@@ -106,6 +119,43 @@ export class DAPreset {
 	@Column({ type: 'boolean', default: false })
 	is_default: boolean;
 
+	// ═══════════════════════════════════════════════════════════
+	// OWNERSHIP & SHARING
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Owner of a custom preset (null for system presets)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	user_id: string | null;
+
+	@ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	/**
+	 * Brand the preset belongs to (null = personal preset)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@ManyToOne(() => Brand, { nullable: true, onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'brand_id' })
+	brand: Brand;
+
+	@Column({
+		type: 'enum',
+		enum: DAPresetVisibility,
+		default: DAPresetVisibility.PRIVATE,
+	})
+	visibility: DAPresetVisibility;
+
+	/**
+	 * Preset this one was cloned from (e.g. a system preset)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	cloned_from_id: string | null;
+
 	/**
 	 * URL of the uploaded reference image
 	 */
@@ -0,0 +1,128 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	OneToMany,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Brand } from './brand.entity';
+import { Collection } from './collection.entity';
+import { Generation } from './generation.entity';
+import { GenerationBatchStatus } from '../../libs/enums';
+import { ShotOptions } from '../../common/interfaces/shot-options.interface';
+
+/**
+ * GenerationBatch Entity
+ *
+ * One generation per product × DA preset, created together with shared
+ * shot options, aspect ratio and resolution (e.g. a season drop).
+ * Generations are fed to the queue a few at a time in batch_position
+ * order so a large batch does not hold the queue on its own.
+ */
+@Entity('generation_batches')
+@Index(['user_id', 'created_at'])
+export class GenerationBatch {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	@Column({ type: 'varchar', length: 255, nullable: true })
+	name: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// SCOPE
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Brand shared by every product of the batch (null = personal products)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@ManyToOne(() => Brand, { nullable: true, onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'brand_id' })
+	brand: Brand;
+
+	/**
+	 * Set when the batch was created from a whole collection
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	collection_id: string | null;
+
+	@ManyToOne(() => Collection, { nullable: true, onDelete: 'SET NULL' })
+	@JoinColumn({ name: 'collection_id' })
+	collection: Collection;
+
+	@Column({ type: 'jsonb' })
+	product_ids: string[];
+
+	@Column({ type: 'jsonb' })
+	da_preset_ids: string[];
+
+	// ═══════════════════════════════════════════════════════════
+	// SHARED GENERATION SETTINGS
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'jsonb', nullable: true })
+	shot_options: ShotOptions | null;
+
+	@Column({ type: 'varchar', length: 20, default: 'adult' })
+	model_type: 'adult' | 'kid';
+
+	@Column({ type: 'varchar', length: 10, default: '4:5' })
+	aspect_ratio: string;
+
+	@Column({ type: 'varchar', length: 10, default: '4K' })
+	resolution: string;
+
+	@Column({ type: 'varchar', length: 50, nullable: true })
+	image_provider: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// STATUS
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({
+		type: 'enum',
+		enum: GenerationBatchStatus,
+		default: GenerationBatchStatus.PROCESSING,
+	})
+	status: GenerationBatchStatus;
+
+	@Column({ type: 'integer', default: 0 })
+	total_generations: number;
+
+	@OneToMany(() => Generation, (generation) => generation.batch)
+	generations: Generation[];
+
+	// ═══════════════════════════════════════════════════════════
+	// TIMESTAMPS
+	// ═══════════════════════════════════════════════════════════
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({
+		type: 'timestamp',
+		default: () => 'CURRENT_TIMESTAMP',
+		onUpdate: 'CURRENT_TIMESTAMP',
+	})
+	updated_at: Date;
+
+	@Column({ type: 'timestamp', nullable: true })
+	completed_at: Date | null;
+
+	@Column({ type: 'timestamp', nullable: true })
+	cancelled_at: Date | null;
+}
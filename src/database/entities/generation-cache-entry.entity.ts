@@ -0,0 +1,92 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	Index,
+} from 'typeorm';
+
+/**
+ * GenerationCacheEntry Entity
+ *
+ * A stored image for one exact provider request (prompt, reference images,
+ * aspect ratio, resolution, provider, model), keyed by a hash of the request.
+ * A later identical request reuses the image instead of paying for a new call.
+ *
+ * Entries are scoped to a brand (or to the user for generations without one)
+ * so images are never shared across customers. The ids are plain columns, like
+ * ai_usage, so hit stats survive deleting the brand.
+ */
+@Entity('generation_cache_entries')
+@Index(['brand_id'])
+@Index(['user_id'])
+export class GenerationCacheEntry {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	/**
+	 * SHA-256 of the scope and the full request
+	 */
+	@Index({ unique: true })
+	@Column({ type: 'varchar', length: 64 })
+	cache_key: string;
+
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@Column({ type: 'uuid', nullable: true })
+	user_id: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// STORED IMAGE
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'text' })
+	image_url: string;
+
+	@Column({ type: 'varchar', length: 255, nullable: true })
+	image_filename: string | null;
+
+	@Column({ type: 'varchar', length: 50, nullable: true })
+	mime_type: string | null;
+
+	@Column({ type: 'varchar', length: 30, nullable: true })
+	provider: string | null;
+
+	@Column({ type: 'varchar', length: 100, nullable: true })
+	model: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// STATS
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Requests served from this entry (provider calls saved)
+	 */
+	@Column({ type: 'integer', default: 0 })
+	hit_count: number;
+
+	/**
+	 * Provider calls made for this key (first miss + force_fresh runs)
+	 */
+	@Column({ type: 'integer', default: 1 })
+	generated_count: number;
+
+	@Column({ type: 'timestamp', nullable: true })
+	last_hit_at: Date | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// TIMESTAMPS
+	// ═══════════════════════════════════════════════════════════
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({
+		type: 'timestamp',
+		default: () => 'CURRENT_TIMESTAMP',
+		onUpdate: 'CURRENT_TIMESTAMP',
+	})
+	updated_at: Date;
+}
@@ -10,7 +10,9 @@ import {
 import { Product } from './product.entity';
 import { Collection } from './collection.entity';
 import { DAPreset } from './da-preset.entity';
-import { GenerationType, GenerationStatus } from '../../libs/enums';
+import { GenerationBatch } from './generation-batch.entity';
+import { GenerationType, GenerationStatus, GenerationReviewStatus } from '../../libs/enums';
+import { DeferredGenerationJob } from '../../common/interfaces/generation-queue.interface';
 
 @Entity('generations')
 export class Generation {
@@ -42,6 +44,21 @@ export class Generation {
   @JoinColumn({ name: 'da_preset_id' })
   da_preset: DAPreset;
 
+  // ═══════════════════════════════════════════════════════════
+  // BATCH (product × DA preset batches)
+  // ═══════════════════════════════════════════════════════════
+
+  @Column({ type: 'uuid', nullable: true })
+  batch_id: string | null;
+
+  @ManyToOne(() => GenerationBatch, (batch) => batch.generations, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'batch_id' })
+  batch: GenerationBatch;
+
+  /** Queue order inside the batch (round-robin over products, then presets) */
+  @Column({ type: 'integer', nullable: true })
+  batch_position: number | null;
+
   // ═══════════════════════════════════════════════════════════
   // MODEL TYPE (adult/kid)
   // ═══════════════════════════════════════════════════════════
@@ -69,6 +86,14 @@ export class Generation {
   @Column({ type: 'varchar', length: 10, default: '4K' })
   resolution: string;
 
+  /** Image provider used for this generation (gemini | openai | fake). Null = user/system default. */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  image_provider: string;
+
+  /** Candidate images generated per shot; all takes are kept in visuals[].candidates */
+  @Column({ type: 'integer', default: 1 })
+  candidates_per_shot: number;
+
   @Column({ type: 'jsonb', nullable: true })
   visuals: any[];
 
@@ -90,6 +115,43 @@ export class Generation {
   })
   status: GenerationStatus;
 
+  // ═══════════════════════════════════════════════════════════
+  // REVIEW / SIGN-OFF
+  // ═══════════════════════════════════════════════════════════
+
+  @Column({
+    type: 'enum',
+    enum: GenerationReviewStatus,
+    default: GenerationReviewStatus.PENDING_REVIEW,
+  })
+  review_status: GenerationReviewStatus;
+
+  /** Reviewer who signed off the whole generation (cleared when any image changes) */
+  @Column({ type: 'uuid', nullable: true })
+  signed_off_by: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  signed_off_at: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  sign_off_comment: string | null;
+
+  // ═══════════════════════════════════════════════════════════
+  // QUEUE SCHEDULING
+  // ═══════════════════════════════════════════════════════════
+
+  /** Bull priority of the last submitted job (see GenerationPriority) */
+  @Column({ type: 'integer', nullable: true })
+  queue_priority: number | null;
+
+  /** Job held back by admission control until the user / workspace is under its queue cap */
+  @Column({ type: 'jsonb', nullable: true })
+  deferred_job: DeferredGenerationJob | null;
+
+  /** When the job was last submitted (deferred jobs are released oldest first) */
+  @Column({ type: 'timestamp', nullable: true })
+  queued_at: Date | null;
+
   // Current workflow step
   @Column({ type: 'varchar', length: 50, nullable: true })
   current_step: string; // 'product_analysis', 'da_analysis', 'merging', 'image_generation'
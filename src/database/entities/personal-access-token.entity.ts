@@ -0,0 +1,80 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Brand } from './brand.entity';
+import { TokenScope } from '../../libs/enums';
+
+/**
+ * PersonalAccessToken Entity
+ *
+ * Long-lived bearer token for scripts and integrations (PIM, CI), acting as its
+ * user within the granted scopes and, optionally, a single brand. Only the
+ * SHA-256 of the token is stored; the token itself is shown once on creation.
+ */
+@Entity('personal_access_tokens')
+@Index(['user_id', 'revoked_at'])
+export class PersonalAccessToken {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	@Column({ type: 'varchar', length: 100 })
+	name: string;
+
+	/**
+	 * First characters of the token, so the owner can tell tokens apart
+	 */
+	@Column({ type: 'varchar', length: 20 })
+	token_prefix: string;
+
+	@Column({ type: 'varchar', length: 64, unique: true })
+	token_hash: string;
+
+	@Column({ type: 'jsonb', default: [] })
+	scopes: TokenScope[];
+
+	/**
+	 * Only this brand (and its collections, products, generations) can be reached; null = all of the user's brands
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@ManyToOne(() => Brand, { onDelete: 'CASCADE', nullable: true })
+	@JoinColumn({ name: 'brand_id' })
+	brand: Brand | null;
+
+	/**
+	 * null = never expires
+	 */
+	@Column({ type: 'timestamp', nullable: true })
+	expires_at: Date | null;
+
+	@Column({ type: 'timestamp', nullable: true })
+	last_used_at: Date | null;
+
+	@Column({ type: 'varchar', length: 64, nullable: true })
+	last_used_ip: string | null;
+
+	@Column({ type: 'timestamp', nullable: true })
+	revoked_at: Date | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	updated_at: Date;
+}
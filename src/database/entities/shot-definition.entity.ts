@@ -0,0 +1,156 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { Brand } from './brand.entity';
+import { DAPreset } from './da-preset.entity';
+import { PromptCamera } from '../../common/interfaces/merged-prompts.interface';
+import { ShotCatalogEntry, ShotOptionType } from '../../common/interfaces/shot-catalog.interface';
+
+/**
+ * ShotDefinition Entity
+ *
+ * One shot in the shot catalog (e.g. "duo", "flatlay_front", "lifestyle_walk").
+ * Scope is decided by brand_id / da_preset_id:
+ * - both null  → system shot (seeded, applies everywhere)
+ * - brand_id   → applies to every generation of that brand
+ * - da_preset_id → applies to generations using that DA preset
+ *
+ * When resolving a catalog, entries are merged by code with precedence
+ * DA preset > brand > system. is_active=false hides a shot in that scope.
+ */
+@Entity('shot_definitions')
+@Index(['brand_id', 'da_preset_id'])
+export class ShotDefinition {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	/**
+	 * Stable key used in merged_prompts / shot_options / visuals (e.g. "duo")
+	 */
+	@Column({ type: 'varchar', length: 100 })
+	code: string;
+
+	/**
+	 * Display name shown in the UI (e.g. "DUO (Father + Son)")
+	 */
+	@Column({ type: 'varchar', length: 255 })
+	display_name: string;
+
+	@Column({ type: 'text', nullable: true })
+	description: string;
+
+	// ═══════════════════════════════════════════════════════════
+	// PROMPT CONFIGURATION
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Camera settings (focal length, aperture, focus, angle)
+	 */
+	@Column({ type: 'jsonb' })
+	camera: PromptCamera;
+
+	/**
+	 * Prompt template with {{placeholders}} (product_name, color_name, scene, styling, ...)
+	 * null = use the built-in builder for built-in codes
+	 */
+	@Column({ type: 'text', nullable: true })
+	prompt_template: string;
+
+	/**
+	 * Extra negative prompt terms for this shot
+	 */
+	@Column({ type: 'text', nullable: true })
+	negative_prompt: string;
+
+	/**
+	 * true = real human model in frame
+	 */
+	@Column({ type: 'boolean', default: false })
+	requires_human: boolean;
+
+	/**
+	 * Per-shot option the user can choose: none | subject | size
+	 */
+	@Column({ type: 'varchar', length: 20, default: 'none' })
+	option_type: ShotOptionType;
+
+	/**
+	 * Whether the shot is generated when shot_options does not mention it
+	 */
+	@Column({ type: 'boolean', default: true })
+	default_enabled: boolean;
+
+	@Column({ type: 'int', default: 0 })
+	sort_order: number;
+
+	/**
+	 * Flag for the six original shot types (seeded system rows)
+	 */
+	@Column({ type: 'boolean', default: false })
+	is_builtin: boolean;
+
+	@Column({ type: 'boolean', default: true })
+	is_active: boolean;
+
+	// ═══════════════════════════════════════════════════════════
+	// SCOPE
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'uuid', nullable: true })
+	brand_id: string | null;
+
+	@ManyToOne(() => Brand, { nullable: true, onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'brand_id' })
+	brand: Brand;
+
+	@Column({ type: 'uuid', nullable: true })
+	da_preset_id: string | null;
+
+	@ManyToOne(() => DAPreset, { nullable: true, onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'da_preset_id' })
+	da_preset: DAPreset;
+
+	// ═══════════════════════════════════════════════════════════
+	// TIMESTAMPS
+	// ═══════════════════════════════════════════════════════════
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({
+		type: 'timestamp',
+		default: () => 'CURRENT_TIMESTAMP',
+		onUpdate: 'CURRENT_TIMESTAMP',
+	})
+	updated_at: Date;
+
+	// ═══════════════════════════════════════════════════════════
+	// HELPER METHODS
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Convert entity to the catalog entry format used by the prompt builder
+	 */
+	toCatalogEntry(): ShotCatalogEntry {
+		return {
+			code: this.code,
+			display_name: this.display_name,
+			description: this.description,
+			camera: this.camera,
+			prompt_template: this.prompt_template,
+			negative_prompt: this.negative_prompt,
+			requires_human: this.requires_human,
+			option_type: this.option_type,
+			default_enabled: this.default_enabled,
+			sort_order: this.sort_order,
+			is_builtin: this.is_builtin,
+		};
+	}
+}
@@ -7,6 +7,7 @@ import {
   OneToMany,
 } from 'typeorm';
 import { Brand } from './brand.entity';
+import { ProviderKeyVerifications } from '../../common/interfaces/provider-key.interface';
 
 @Entity('users')
 export class User {
@@ -19,6 +20,10 @@ export class User {
   @Column({ type: 'varchar', length: 255 })
   password_hash: string;
 
+  /** Set when the user opens the link of the verification mail; null = not verified */
+  @Column({ type: 'timestamp', nullable: true })
+  email_verified_at: Date | null;
+
   @Column({ type: 'varchar', length: 255, nullable: true })
   name: string;
 
@@ -26,14 +31,19 @@ export class User {
   @Column({ type: 'text', nullable: true })
   brand_brief: string;
 
-  @Column({ type: 'varchar', length: 500, nullable: true })
-  api_key_openai: string;
+  // Provider keys are stored envelope-encrypted (see common/utils/api-key-crypto.util.ts)
+  @Column({ type: 'text', nullable: true })
+  api_key_openai: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  api_key_anthropic: string | null;
 
-  @Column({ type: 'varchar', length: 500, nullable: true })
-  api_key_anthropic: string;
+  @Column({ type: 'text', nullable: true })
+  api_key_gemini: string | null;
 
-  @Column({ type: 'varchar', length: 500, nullable: true })
-  api_key_gemini: string;
+  /** Result of the last test call per provider key: status, verified_at, models */
+  @Column({ type: 'jsonb', nullable: true })
+  api_key_verification: ProviderKeyVerifications | null;
 
   /** Override Claude model (e.g. claude-sonnet-4-20250514). Null = use system default. */
   @Column({ type: 'varchar', length: 100, nullable: true })
@@ -43,6 +53,10 @@ export class User {
   @Column({ type: 'varchar', length: 100, nullable: true })
   gemini_model: string;
 
+  /** Preferred image provider (gemini | openai | fake). Null = use system default. */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  image_provider: string;
+
   @Column({ type: 'varchar', length: 50, nullable: true, default: 'en' })
   language: string;
 
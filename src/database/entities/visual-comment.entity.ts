@@ -0,0 +1,98 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { Generation } from './generation.entity';
+import { User } from './user.entity';
+import { VisualCommentAnchor } from '../../common/interfaces/visual-comment.interface';
+
+/**
+ * VisualComment Entity
+ *
+ * Review comment on one visual (generations.visuals[visual_index]).
+ * Root comments (parent_id = null) start a thread and may carry an anchor;
+ * replies point at the root. Resolving is tracked on the root.
+ */
+@Entity('visual_comments')
+@Index(['generation_id', 'visual_index'])
+export class VisualComment {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	generation_id: string;
+
+	@ManyToOne(() => Generation, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'generation_id' })
+	generation: Generation;
+
+	/**
+	 * Position of the visual in generations.visuals
+	 */
+	@Column({ type: 'integer' })
+	visual_index: number;
+
+	@Column({ type: 'varchar', length: 100, nullable: true })
+	visual_type: string | null;
+
+	/**
+	 * Root comment of the thread (null = this comment is the root)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	parent_id: string | null;
+
+	@ManyToOne(() => VisualComment, { nullable: true, onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'parent_id' })
+	parent: VisualComment;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	@Column({ type: 'text' })
+	body: string;
+
+	/**
+	 * Pin on the image (normalized 0-1); null = comment on the whole visual
+	 */
+	@Column({ type: 'jsonb', nullable: true })
+	anchor: VisualCommentAnchor | null;
+
+	/**
+	 * Image the comment was made on - pins refer to this exact image
+	 */
+	@Column({ type: 'text', nullable: true })
+	image_url: string | null;
+
+	// ═══════════════════════════════════════════════════════════
+	// RESOLUTION (root comments only)
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'boolean', default: false })
+	resolved: boolean;
+
+	@Column({ type: 'uuid', nullable: true })
+	resolved_by: string | null;
+
+	@Column({ type: 'timestamp', nullable: true })
+	resolved_at: Date | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({
+		type: 'timestamp',
+		default: () => 'CURRENT_TIMESTAMP',
+		onUpdate: 'CURRENT_TIMESTAMP',
+	})
+	updated_at: Date;
+}
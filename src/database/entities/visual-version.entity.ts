@@ -0,0 +1,105 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { Generation } from './generation.entity';
+import { VisualVersionSource } from '../../libs/enums';
+
+/**
+ * VisualVersion Entity
+ *
+ * Immutable audit record of one state of a visual (generations.visuals[visual_index]).
+ * A row is appended on every generation run, retry, prompt edit, candidate
+ * selection and rollback; rows are never updated.
+ */
+@Entity('visual_versions')
+@Index(['generation_id', 'visual_index'])
+export class VisualVersion {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	generation_id: string;
+
+	@ManyToOne(() => Generation, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'generation_id' })
+	generation: Generation;
+
+	/**
+	 * Position of the visual in generations.visuals
+	 */
+	@Column({ type: 'integer' })
+	visual_index: number;
+
+	/**
+	 * Shot code of the visual (e.g. "duo")
+	 */
+	@Column({ type: 'varchar', length: 100, nullable: true })
+	visual_type: string;
+
+	/**
+	 * 1-based, increasing per (generation_id, visual_index)
+	 */
+	@Column({ type: 'integer' })
+	version_number: number;
+
+	@Column({
+		type: 'enum',
+		enum: VisualVersionSource,
+	})
+	source: VisualVersionSource;
+
+	// ═══════════════════════════════════════════════════════════
+	// SNAPSHOT
+	// ═══════════════════════════════════════════════════════════
+
+	@Column({ type: 'text', nullable: true })
+	prompt: string;
+
+	@Column({ type: 'text', nullable: true })
+	negative_prompt: string;
+
+	@Column({ type: 'varchar', length: 100, nullable: true })
+	model: string;
+
+	@Column({ type: 'varchar', length: 50, nullable: true })
+	provider: string;
+
+	@Column({ type: 'text', nullable: true })
+	image_url: string;
+
+	@Column({ type: 'varchar', length: 255, nullable: true })
+	image_filename: string;
+
+	@Column({ type: 'varchar', length: 20, nullable: true })
+	status: string;
+
+	@Column({ type: 'text', nullable: true })
+	error: string;
+
+	/**
+	 * For edit rows: the instruction applied to the previous image
+	 */
+	@Column({ type: 'text', nullable: true })
+	instruction: string;
+
+	/**
+	 * For rollback rows: the version that was restored
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	restored_version_id: string;
+
+	/**
+	 * User who triggered the change (owner for queued runs)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	triggered_by: string;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+}
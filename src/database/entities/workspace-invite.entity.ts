@@ -0,0 +1,66 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { Workspace } from './workspace.entity';
+import { WorkspaceInviteStatus, WorkspaceRole } from '../../libs/enums';
+
+/**
+ * WorkspaceInvite Entity
+ *
+ * Pending invitation of an email address into a workspace.
+ * The invitee accepts with the token while logged in with the same email.
+ */
+@Entity('workspace_invites')
+@Index(['workspace_id', 'status'])
+export class WorkspaceInvite {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	workspace_id: string;
+
+	@ManyToOne(() => Workspace, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'workspace_id' })
+	workspace: Workspace;
+
+	/**
+	 * Invited email (stored lower-case)
+	 */
+	@Column({ type: 'varchar', length: 255 })
+	email: string;
+
+	@Column({
+		type: 'enum',
+		enum: WorkspaceRole,
+		default: WorkspaceRole.VIEWER,
+	})
+	role: WorkspaceRole;
+
+	@Column({ type: 'varchar', length: 64, unique: true })
+	token: string;
+
+	@Column({
+		type: 'enum',
+		enum: WorkspaceInviteStatus,
+		default: WorkspaceInviteStatus.PENDING,
+	})
+	status: WorkspaceInviteStatus;
+
+	@Column({ type: 'uuid' })
+	invited_by: string;
+
+	@Column({ type: 'timestamp' })
+	expires_at: Date;
+
+	@Column({ type: 'timestamp', nullable: true })
+	accepted_at: Date | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+}
@@ -0,0 +1,55 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	ManyToOne,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Workspace } from './workspace.entity';
+import { WorkspaceRole } from '../../libs/enums';
+
+/**
+ * WorkspaceMember Entity
+ *
+ * Membership of a user in a workspace with a role (owner, editor, reviewer, viewer).
+ */
+@Entity('workspace_members')
+@Index(['workspace_id', 'user_id'], { unique: true })
+@Index(['user_id'])
+export class WorkspaceMember {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'uuid' })
+	workspace_id: string;
+
+	@ManyToOne(() => Workspace, (workspace) => workspace.members, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'workspace_id' })
+	workspace: Workspace;
+
+	@Column({ type: 'uuid' })
+	user_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'user_id' })
+	user: User;
+
+	@Column({
+		type: 'enum',
+		enum: WorkspaceRole,
+		default: WorkspaceRole.VIEWER,
+	})
+	role: WorkspaceRole;
+
+	/**
+	 * User who invited this member (null for the workspace creator)
+	 */
+	@Column({ type: 'uuid', nullable: true })
+	invited_by: string | null;
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+}
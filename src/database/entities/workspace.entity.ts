@@ -0,0 +1,61 @@
+import {
+	Entity,
+	PrimaryGeneratedColumn,
+	Column,
+	CreateDateColumn,
+	UpdateDateColumn,
+	ManyToOne,
+	OneToMany,
+	JoinColumn,
+	Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { WorkspaceMember } from './workspace-member.entity';
+
+/**
+ * Workspace Entity
+ *
+ * A team that owns brands. Every user gets a personal workspace
+ * (is_personal=true) for brands created without an explicit workspace.
+ * Access to brands, collections, products and generations is granted
+ * through WorkspaceMember roles.
+ */
+@Entity('workspaces')
+@Index(['owner_id'])
+@Index('IDX_workspaces_personal_owner', ['owner_id'], { unique: true, where: '"is_personal"' })
+export class Workspace {
+	@PrimaryGeneratedColumn('uuid')
+	id: string;
+
+	@Column({ type: 'varchar', length: 255 })
+	name: string;
+
+	/**
+	 * User who created the workspace
+	 */
+	@Column({ type: 'uuid' })
+	owner_id: string;
+
+	@ManyToOne(() => User, { onDelete: 'CASCADE' })
+	@JoinColumn({ name: 'owner_id' })
+	owner: User;
+
+	/**
+	 * Default workspace created automatically for a user
+	 */
+	@Column({ type: 'boolean', default: false })
+	is_personal: boolean;
+
+	@OneToMany(() => WorkspaceMember, (member) => member.workspace)
+	members: WorkspaceMember[];
+
+	@CreateDateColumn({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+	created_at: Date;
+
+	@UpdateDateColumn({
+		type: 'timestamp',
+		default: () => 'CURRENT_TIMESTAMP',
+		onUpdate: 'CURRENT_TIMESTAMP',
+	})
+	updated_at: Date;
+}
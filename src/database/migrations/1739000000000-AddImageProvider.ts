@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImageProvider1739000000000 implements MigrationInterface {
+	name = 'AddImageProvider1739000000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "image_provider" varchar(50) NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "image_provider" varchar(50) NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "image_provider"`);
+		await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "image_provider"`);
+	}
+}
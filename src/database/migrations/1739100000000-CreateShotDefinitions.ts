@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateShotDefinitions1739100000000 implements MigrationInterface {
+	name = 'CreateShotDefinitions1739100000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "shot_definitions" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"code" varchar(100) NOT NULL,
+				"display_name" varchar(255) NOT NULL,
+				"description" text NULL,
+				"camera" jsonb NOT NULL,
+				"prompt_template" text NULL,
+				"negative_prompt" text NULL,
+				"requires_human" boolean NOT NULL DEFAULT false,
+				"option_type" varchar(20) NOT NULL DEFAULT 'none',
+				"default_enabled" boolean NOT NULL DEFAULT true,
+				"sort_order" integer NOT NULL DEFAULT 0,
+				"is_builtin" boolean NOT NULL DEFAULT false,
+				"is_active" boolean NOT NULL DEFAULT true,
+				"brand_id" uuid NULL,
+				"da_preset_id" uuid NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_shot_definitions_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_shot_definitions_brand" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_shot_definitions_da_preset" FOREIGN KEY ("da_preset_id") REFERENCES "da_presets"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_shot_definitions_scope" ON "shot_definitions" ("brand_id", "da_preset_id")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_shot_definitions_scope"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "shot_definitions"`);
+	}
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCandidatesPerShot1739200000000 implements MigrationInterface {
+	name = 'AddCandidatesPerShot1739200000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "candidates_per_shot" integer NOT NULL DEFAULT 1`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "candidates_per_shot"`);
+	}
+}
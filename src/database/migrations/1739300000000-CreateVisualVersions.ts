@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateVisualVersions1739300000000 implements MigrationInterface {
+	name = 'CreateVisualVersions1739300000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "visual_versions_source_enum" AS ENUM ('generation', 'retry', 'prompt_edit', 'selection', 'rollback');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "visual_versions" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"generation_id" uuid NOT NULL,
+				"visual_index" integer NOT NULL,
+				"visual_type" varchar(100) NULL,
+				"version_number" integer NOT NULL,
+				"source" "visual_versions_source_enum" NOT NULL,
+				"prompt" text NULL,
+				"negative_prompt" text NULL,
+				"model" varchar(100) NULL,
+				"provider" varchar(50) NULL,
+				"image_url" text NULL,
+				"image_filename" varchar(255) NULL,
+				"status" varchar(20) NULL,
+				"error" text NULL,
+				"restored_version_id" uuid NULL,
+				"triggered_by" uuid NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_visual_versions_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_visual_versions_generation" FOREIGN KEY ("generation_id") REFERENCES "generations"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_visual_versions_visual" ON "visual_versions" ("generation_id", "visual_index")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_visual_versions_visual"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "visual_versions"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "visual_versions_source_enum"`);
+	}
+}
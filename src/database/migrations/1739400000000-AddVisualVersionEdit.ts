@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVisualVersionEdit1739400000000 implements MigrationInterface {
+	name = 'AddVisualVersionEdit1739400000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TYPE "visual_versions_source_enum" ADD VALUE IF NOT EXISTS 'edit'`);
+		await queryRunner.query(`ALTER TABLE "visual_versions" ADD COLUMN IF NOT EXISTS "instruction" text NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		// Postgres cannot drop a single enum value; 'edit' stays in the type
+		await queryRunner.query(`ALTER TABLE "visual_versions" DROP COLUMN IF EXISTS "instruction"`);
+	}
+}
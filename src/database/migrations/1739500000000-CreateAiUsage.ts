@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAiUsage1739500000000 implements MigrationInterface {
+	name = 'CreateAiUsage1739500000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "ai_usage" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"user_id" uuid NULL,
+				"brand_id" uuid NULL,
+				"collection_id" uuid NULL,
+				"product_id" uuid NULL,
+				"generation_id" uuid NULL,
+				"provider" varchar(30) NOT NULL,
+				"model" varchar(100) NOT NULL,
+				"operation" varchar(50) NOT NULL,
+				"input_tokens" integer NOT NULL DEFAULT 0,
+				"output_tokens" integer NOT NULL DEFAULT 0,
+				"image_count" integer NOT NULL DEFAULT 0,
+				"latency_ms" integer NOT NULL DEFAULT 0,
+				"success" boolean NOT NULL,
+				"error" text NULL,
+				"cost_usd" double precision NOT NULL DEFAULT 0,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_ai_usage_id" PRIMARY KEY ("id")
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_ai_usage_user_created" ON "ai_usage" ("user_id", "created_at")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_ai_usage_brand_created" ON "ai_usage" ("brand_id", "created_at")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_ai_usage_brand_created"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_ai_usage_user_created"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "ai_usage"`);
+	}
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDAPresetOwnership1739600000000 implements MigrationInterface {
+	name = 'AddDAPresetOwnership1739600000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "da_presets_visibility_enum" AS ENUM ('private', 'brand', 'public');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`ALTER TABLE "da_presets" ADD COLUMN IF NOT EXISTS "user_id" uuid NULL`);
+		await queryRunner.query(`ALTER TABLE "da_presets" ADD COLUMN IF NOT EXISTS "brand_id" uuid NULL`);
+		await queryRunner.query(`ALTER TABLE "da_presets" ADD COLUMN IF NOT EXISTS "visibility" "da_presets_visibility_enum" NOT NULL DEFAULT 'private'`);
+		await queryRunner.query(`ALTER TABLE "da_presets" ADD COLUMN IF NOT EXISTS "cloned_from_id" uuid NULL`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				ALTER TABLE "da_presets" ADD CONSTRAINT "FK_da_presets_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE;
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				ALTER TABLE "da_presets" ADD CONSTRAINT "FK_da_presets_brand" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE SET NULL;
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_da_presets_user" ON "da_presets" ("user_id")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_da_presets_brand" ON "da_presets" ("brand_id")`);
+
+		// System presets stay visible to everyone
+		await queryRunner.query(`UPDATE "da_presets" SET "visibility" = 'public' WHERE "is_default" = true`);
+
+		// Existing custom presets had no owner: attribute them to the first user who generated with them
+		await queryRunner.query(`
+			UPDATE "da_presets" p
+			SET "user_id" = g."user_id"
+			FROM (
+				SELECT DISTINCT ON ("da_preset_id") "da_preset_id", "user_id"
+				FROM "generations"
+				WHERE "da_preset_id" IS NOT NULL
+				ORDER BY "da_preset_id", "created_at" ASC
+			) g
+			WHERE p."id" = g."da_preset_id" AND p."is_default" = false AND p."user_id" IS NULL
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_da_presets_brand"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_da_presets_user"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP CONSTRAINT IF EXISTS "FK_da_presets_brand"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP CONSTRAINT IF EXISTS "FK_da_presets_user"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP COLUMN IF EXISTS "cloned_from_id"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP COLUMN IF EXISTS "visibility"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP COLUMN IF EXISTS "brand_id"`);
+		await queryRunner.query(`ALTER TABLE "da_presets" DROP COLUMN IF EXISTS "user_id"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "da_presets_visibility_enum"`);
+	}
+}
@@ -0,0 +1,121 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWorkspaces1739700000000 implements MigrationInterface {
+	name = 'CreateWorkspaces1739700000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "workspace_members_role_enum" AS ENUM ('owner', 'editor', 'reviewer', 'viewer');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "workspace_invites_role_enum" AS ENUM ('owner', 'editor', 'reviewer', 'viewer');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "workspace_invites_status_enum" AS ENUM ('pending', 'accepted', 'revoked');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "workspaces" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"name" varchar(255) NOT NULL,
+				"owner_id" uuid NOT NULL,
+				"is_personal" boolean NOT NULL DEFAULT false,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_workspaces_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_workspaces_owner" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_workspaces_owner" ON "workspaces" ("owner_id")`);
+		// At most one personal workspace per user (it is created lazily, possibly by concurrent requests)
+		await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_workspaces_personal_owner" ON "workspaces" ("owner_id") WHERE "is_personal"`);
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "workspace_members" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"workspace_id" uuid NOT NULL,
+				"user_id" uuid NOT NULL,
+				"role" "workspace_members_role_enum" NOT NULL DEFAULT 'viewer',
+				"invited_by" uuid NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_workspace_members_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_workspace_members_workspace" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_workspace_members_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_workspace_members_member" ON "workspace_members" ("workspace_id", "user_id")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_workspace_members_user" ON "workspace_members" ("user_id")`);
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "workspace_invites" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"workspace_id" uuid NOT NULL,
+				"email" varchar(255) NOT NULL,
+				"role" "workspace_invites_role_enum" NOT NULL DEFAULT 'viewer',
+				"token" varchar(64) NOT NULL,
+				"status" "workspace_invites_status_enum" NOT NULL DEFAULT 'pending',
+				"invited_by" uuid NOT NULL,
+				"expires_at" TIMESTAMP NOT NULL,
+				"accepted_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_workspace_invites_id" PRIMARY KEY ("id"),
+				CONSTRAINT "UQ_workspace_invites_token" UNIQUE ("token"),
+				CONSTRAINT "FK_workspace_invites_workspace" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_workspace_invites_status" ON "workspace_invites" ("workspace_id", "status")`);
+
+		await queryRunner.query(`ALTER TABLE "brands" ADD COLUMN IF NOT EXISTS "workspace_id" uuid NULL`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				ALTER TABLE "brands" ADD CONSTRAINT "FK_brands_workspace" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE;
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_brands_workspace" ON "brands" ("workspace_id")`);
+
+		// Personal workspace (owner membership) for every user that owns brands, then move the brands in
+		await queryRunner.query(`
+			INSERT INTO "workspaces" ("name", "owner_id", "is_personal")
+			SELECT COALESCE(NULLIF(u."name", ''), u."email") || '''s workspace', u."id", true
+			FROM "users" u
+			WHERE EXISTS (SELECT 1 FROM "brands" b WHERE b."user_id" = u."id")
+			AND NOT EXISTS (SELECT 1 FROM "workspaces" w WHERE w."owner_id" = u."id" AND w."is_personal" = true)
+		`);
+		await queryRunner.query(`
+			INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+			SELECT w."id", w."owner_id", 'owner'
+			FROM "workspaces" w
+			WHERE w."is_personal" = true
+			ON CONFLICT ("workspace_id", "user_id") DO NOTHING
+		`);
+		await queryRunner.query(`
+			UPDATE "brands" b
+			SET "workspace_id" = w."id"
+			FROM "workspaces" w
+			WHERE w."owner_id" = b."user_id" AND w."is_personal" = true AND b."workspace_id" IS NULL
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_brands_workspace"`);
+		await queryRunner.query(`ALTER TABLE "brands" DROP CONSTRAINT IF EXISTS "FK_brands_workspace"`);
+		await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN IF EXISTS "workspace_id"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "workspace_invites"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "workspace_members"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "workspaces"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "workspace_invites_status_enum"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "workspace_invites_role_enum"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "workspace_members_role_enum"`);
+	}
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVisualReview1739800000000 implements MigrationInterface {
+	name = 'AddVisualReview1739800000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "generations_review_status_enum" AS ENUM ('pending_review', 'changes_requested', 'approved');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "review_status" "generations_review_status_enum" NOT NULL DEFAULT 'pending_review'`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "signed_off_by" uuid NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "signed_off_at" TIMESTAMP NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "sign_off_comment" text NULL`);
+
+		// Images generated before the review workflow are already live - treat them as approved
+		await queryRunner.query(`
+			UPDATE "generations" g
+			SET "visuals" = (
+				SELECT jsonb_agg(
+					CASE
+						WHEN v.value->>'status' = 'completed' AND NOT (v.value ? 'review')
+						THEN v.value || jsonb_build_object('review', jsonb_build_object('status', 'approved'))
+						ELSE v.value
+					END
+					ORDER BY v.ordinality
+				)
+				FROM jsonb_array_elements(g."visuals"::jsonb) WITH ORDINALITY AS v(value, ordinality)
+			)
+			WHERE jsonb_typeof(g."visuals"::jsonb) = 'array' AND jsonb_array_length(g."visuals"::jsonb) > 0
+		`);
+		await queryRunner.query(`
+			UPDATE "generations"
+			SET "review_status" = 'approved', "signed_off_at" = COALESCE("completed_at", "updated_at")
+			WHERE "status" = 'completed' AND "signed_off_at" IS NULL
+		`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "sign_off_comment"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "signed_off_at"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "signed_off_by"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "review_status"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "generations_review_status_enum"`);
+	}
+}
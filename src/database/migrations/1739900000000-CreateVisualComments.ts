@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateVisualComments1739900000000 implements MigrationInterface {
+	name = 'CreateVisualComments1739900000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "visual_comments" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"generation_id" uuid NOT NULL,
+				"visual_index" integer NOT NULL,
+				"visual_type" varchar(100) NULL,
+				"parent_id" uuid NULL,
+				"user_id" uuid NOT NULL,
+				"body" text NOT NULL,
+				"anchor" jsonb NULL,
+				"image_url" text NULL,
+				"resolved" boolean NOT NULL DEFAULT false,
+				"resolved_by" uuid NULL,
+				"resolved_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_visual_comments_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_visual_comments_generation" FOREIGN KEY ("generation_id") REFERENCES "generations"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_visual_comments_parent" FOREIGN KEY ("parent_id") REFERENCES "visual_comments"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_visual_comments_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_visual_comments_visual" ON "visual_comments" ("generation_id", "visual_index")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_visual_comments_parent" ON "visual_comments" ("parent_id")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_visual_comments_parent"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_visual_comments_visual"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "visual_comments"`);
+	}
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBrandStyleGuide1740000000000 implements MigrationInterface {
+	name = 'AddBrandStyleGuide1740000000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "brands" ADD COLUMN IF NOT EXISTS "style_guide" jsonb NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN IF EXISTS "style_guide"`);
+	}
+}
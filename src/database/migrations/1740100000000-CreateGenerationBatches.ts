@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateGenerationBatches1740100000000 implements MigrationInterface {
+	name = 'CreateGenerationBatches1740100000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "generation_batches_status_enum" AS ENUM ('processing', 'completed', 'partially_failed', 'failed', 'cancelled');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "generation_batches" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"user_id" uuid NOT NULL,
+				"name" varchar(255) NULL,
+				"brand_id" uuid NULL,
+				"collection_id" uuid NULL,
+				"product_ids" jsonb NOT NULL,
+				"da_preset_ids" jsonb NOT NULL,
+				"shot_options" jsonb NULL,
+				"model_type" varchar(20) NOT NULL DEFAULT 'adult',
+				"aspect_ratio" varchar(10) NOT NULL DEFAULT '4:5',
+				"resolution" varchar(10) NOT NULL DEFAULT '4K',
+				"image_provider" varchar(50) NULL,
+				"status" "generation_batches_status_enum" NOT NULL DEFAULT 'processing',
+				"total_generations" integer NOT NULL DEFAULT 0,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"completed_at" TIMESTAMP NULL,
+				"cancelled_at" TIMESTAMP NULL,
+				CONSTRAINT "PK_generation_batches_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_generation_batches_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_generation_batches_brand" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE SET NULL,
+				CONSTRAINT "FK_generation_batches_collection" FOREIGN KEY ("collection_id") REFERENCES "collections"("id") ON DELETE SET NULL
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_generation_batches_user" ON "generation_batches" ("user_id", "created_at")`);
+
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "batch_id" uuid NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "batch_position" integer NULL`);
+		await queryRunner.query(`
+			DO $$ BEGIN
+				ALTER TABLE "generations" ADD CONSTRAINT "FK_generations_batch"
+					FOREIGN KEY ("batch_id") REFERENCES "generation_batches"("id") ON DELETE SET NULL;
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_generations_batch" ON "generations" ("batch_id", "batch_position")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generations_batch"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP CONSTRAINT IF EXISTS "FK_generations_batch"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "batch_position"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "batch_id"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generation_batches_user"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "generation_batches"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "generation_batches_status_enum"`);
+	}
+}
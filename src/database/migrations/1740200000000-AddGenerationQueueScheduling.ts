@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGenerationQueueScheduling1740200000000 implements MigrationInterface {
+	name = 'AddGenerationQueueScheduling1740200000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "queue_priority" integer NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "deferred_job" jsonb NULL`);
+		await queryRunner.query(`ALTER TABLE "generations" ADD COLUMN IF NOT EXISTS "queued_at" TIMESTAMP NULL`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_generations_deferred" ON "generations" ("queued_at") WHERE "deferred_job" IS NOT NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generations_deferred"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "queued_at"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "deferred_job"`);
+		await queryRunner.query(`ALTER TABLE "generations" DROP COLUMN IF EXISTS "queue_priority"`);
+	}
+}
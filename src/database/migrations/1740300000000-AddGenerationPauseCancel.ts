@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGenerationPauseCancel1740300000000 implements MigrationInterface {
+	name = 'AddGenerationPauseCancel1740300000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TYPE "generations_status_enum" ADD VALUE IF NOT EXISTS 'paused'`);
+		await queryRunner.query(`ALTER TYPE "generations_status_enum" ADD VALUE IF NOT EXISTS 'cancelled'`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		// Postgres cannot drop enum values; map them back to existing ones instead
+		await queryRunner.query(`UPDATE "generations" SET "status" = 'failed' WHERE "status"::text IN ('paused', 'cancelled')`);
+	}
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateGenerationCache1740400000000 implements MigrationInterface {
+	name = 'CreateGenerationCache1740400000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "generation_cache_entries" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"cache_key" varchar(64) NOT NULL,
+				"brand_id" uuid NULL,
+				"user_id" uuid NULL,
+				"image_url" text NOT NULL,
+				"image_filename" varchar(255) NULL,
+				"mime_type" varchar(50) NULL,
+				"provider" varchar(30) NULL,
+				"model" varchar(100) NULL,
+				"hit_count" integer NOT NULL DEFAULT 0,
+				"generated_count" integer NOT NULL DEFAULT 1,
+				"last_hit_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_generation_cache_entries_id" PRIMARY KEY ("id")
+			)
+		`);
+		await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_generation_cache_entries_key" ON "generation_cache_entries" ("cache_key")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_generation_cache_entries_brand" ON "generation_cache_entries" ("brand_id")`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_generation_cache_entries_user" ON "generation_cache_entries" ("user_id")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generation_cache_entries_user"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generation_cache_entries_brand"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_generation_cache_entries_key"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "generation_cache_entries"`);
+	}
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { ApiKeyCrypto, ApiKeyKeyring } from '../../common/utils/api-key-crypto.util';
+
+const API_KEY_COLUMNS = ['api_key_openai', 'api_key_anthropic', 'api_key_gemini'];
+
+/**
+ * Encrypts users' plaintext provider API keys with API_KEYS_MASTER_KEY.
+ * Needs the same API_KEYS_* env as the app when any plaintext key exists.
+ */
+export class EncryptUserApiKeys1740500000000 implements MigrationInterface {
+	name = 'EncryptUserApiKeys1740500000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		for (const column of API_KEY_COLUMNS) {
+			await queryRunner.query(`ALTER TABLE "users" ALTER COLUMN "${column}" TYPE text`);
+		}
+
+		const rows = await this.selectRowsWithKeys(queryRunner);
+		const plaintextRows = rows.filter((row) => API_KEY_COLUMNS.some((column) => row[column] && !ApiKeyCrypto.isSealed(row[column])));
+		if (!plaintextRows.length) return;
+
+		const keyring = this.getKeyring();
+		if (!keyring.currentId) {
+			throw new Error(`${plaintextRows.length} users have plaintext API keys; set API_KEYS_MASTER_KEY before running this migration`);
+		}
+
+		for (const row of plaintextRows) {
+			const values = API_KEY_COLUMNS.map((column) =>
+				row[column] && !ApiKeyCrypto.isSealed(row[column]) ? ApiKeyCrypto.seal(row[column], keyring) : row[column],
+			);
+			await queryRunner.query(
+				`UPDATE "users" SET "api_key_openai" = $1, "api_key_anthropic" = $2, "api_key_gemini" = $3 WHERE "id" = $4`,
+				[...values, row.id],
+			);
+		}
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		const rows = await this.selectRowsWithKeys(queryRunner);
+		const sealedRows = rows.filter((row) => API_KEY_COLUMNS.some((column) => ApiKeyCrypto.isSealed(row[column])));
+
+		if (sealedRows.length) {
+			const keyring = this.getKeyring();
+			for (const row of sealedRows) {
+				const values = API_KEY_COLUMNS.map((column) => (row[column] ? ApiKeyCrypto.open(row[column], keyring) : row[column]));
+				await queryRunner.query(
+					`UPDATE "users" SET "api_key_openai" = $1, "api_key_anthropic" = $2, "api_key_gemini" = $3 WHERE "id" = $4`,
+					[...values, row.id],
+				);
+			}
+		}
+
+		for (const column of API_KEY_COLUMNS) {
+			await queryRunner.query(`ALTER TABLE "users" ALTER COLUMN "${column}" TYPE varchar(500)`);
+		}
+	}
+
+	private selectRowsWithKeys(queryRunner: QueryRunner): Promise<Record<string, string | null>[]> {
+		return queryRunner.query(`
+			SELECT "id", "api_key_openai", "api_key_anthropic", "api_key_gemini"
+			FROM "users"
+			WHERE "api_key_openai" IS NOT NULL OR "api_key_anthropic" IS NOT NULL OR "api_key_gemini" IS NOT NULL
+		`);
+	}
+
+	private getKeyring(): ApiKeyKeyring {
+		return ApiKeyCrypto.buildKeyring({
+			masterKey: process.env.API_KEYS_MASTER_KEY,
+			masterKeyId: process.env.API_KEYS_MASTER_KEY_ID,
+			previousMasterKeys: process.env.API_KEYS_PREVIOUS_MASTER_KEYS,
+		});
+	}
+}
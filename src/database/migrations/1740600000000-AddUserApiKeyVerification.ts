@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserApiKeyVerification1740600000000 implements MigrationInterface {
+	name = 'AddUserApiKeyVerification1740600000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "api_key_verification" jsonb NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "api_key_verification"`);
+	}
+}
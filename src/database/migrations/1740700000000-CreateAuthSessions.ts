@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuthSessions1740700000000 implements MigrationInterface {
+	name = 'CreateAuthSessions1740700000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "auth_sessions" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"user_id" uuid NOT NULL,
+				"refresh_token_hash" varchar(64) NOT NULL,
+				"user_agent" varchar(500) NULL,
+				"ip" varchar(64) NULL,
+				"last_used_at" TIMESTAMP NULL,
+				"expires_at" TIMESTAMP NOT NULL,
+				"revoked_at" TIMESTAMP NULL,
+				"revoked_reason" varchar(30) NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_auth_sessions_id" PRIMARY KEY ("id"),
+				CONSTRAINT "FK_auth_sessions_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_auth_sessions_user_revoked" ON "auth_sessions" ("user_id", "revoked_at")`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_auth_sessions_user_revoked"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "auth_sessions"`);
+	}
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAccountTokens1740800000000 implements MigrationInterface {
+	name = 'CreateAccountTokens1740800000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			DO $$ BEGIN
+				CREATE TYPE "account_tokens_type_enum" AS ENUM ('email_verification', 'password_reset');
+			EXCEPTION
+				WHEN duplicate_object THEN null;
+			END $$;
+		`);
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "account_tokens" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"user_id" uuid NOT NULL,
+				"type" "account_tokens_type_enum" NOT NULL,
+				"token_hash" varchar(64) NOT NULL,
+				"expires_at" TIMESTAMP NOT NULL,
+				"used_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_account_tokens_id" PRIMARY KEY ("id"),
+				CONSTRAINT "UQ_account_tokens_token_hash" UNIQUE ("token_hash"),
+				CONSTRAINT "FK_account_tokens_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_account_tokens_user_type" ON "account_tokens" ("user_id", "type")`);
+		await queryRunner.query(`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMP NULL`);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "email_verified_at"`);
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_account_tokens_user_type"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "account_tokens"`);
+		await queryRunner.query(`DROP TYPE IF EXISTS "account_tokens_type_enum"`);
+	}
+}
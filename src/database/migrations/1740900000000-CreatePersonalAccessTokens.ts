@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePersonalAccessTokens1740900000000 implements MigrationInterface {
+	name = 'CreatePersonalAccessTokens1740900000000';
+
+	public async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`
+			CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+				"id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+				"user_id" uuid NOT NULL,
+				"name" varchar(100) NOT NULL,
+				"token_prefix" varchar(20) NOT NULL,
+				"token_hash" varchar(64) NOT NULL,
+				"scopes" jsonb NOT NULL DEFAULT '[]',
+				"brand_id" uuid NULL,
+				"expires_at" TIMESTAMP NULL,
+				"last_used_at" TIMESTAMP NULL,
+				"last_used_ip" varchar(64) NULL,
+				"revoked_at" TIMESTAMP NULL,
+				"created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				"updated_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				CONSTRAINT "PK_personal_access_tokens_id" PRIMARY KEY ("id"),
+				CONSTRAINT "UQ_personal_access_tokens_token_hash" UNIQUE ("token_hash"),
+				CONSTRAINT "FK_personal_access_tokens_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+				CONSTRAINT "FK_personal_access_tokens_brand" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE
+			)
+		`);
+		await queryRunner.query(
+			`CREATE INDEX IF NOT EXISTS "IDX_personal_access_tokens_user_revoked" ON "personal_access_tokens" ("user_id", "revoked_at")`,
+		);
+	}
+
+	public async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DROP INDEX IF EXISTS "IDX_personal_access_tokens_user_revoked"`);
+		await queryRunner.query(`DROP TABLE IF EXISTS "personal_access_tokens"`);
+	}
+}
@@ -0,0 +1,92 @@
+import { Logger } from '@nestjs/common';
+import { DataSource, Not, IsNull } from 'typeorm';
+import { User } from '../entities/user.entity';
+import { ApiKeyCrypto, ApiKeyKeyring } from '../../common/utils/api-key-crypto.util';
+
+const API_KEY_FIELDS = ['api_key_openai', 'api_key_anthropic', 'api_key_gemini'] as const;
+
+const logger = new Logger('RotateApiKeys');
+
+/**
+ * Re-encrypt every stored provider API key with the current master key
+ * (and a fresh data key). Plaintext keys left from before encryption are sealed too.
+ *
+ * Rotation:
+ * 1. API_KEYS_PREVIOUS_MASTER_KEYS="<old id>:<old key>", new API_KEYS_MASTER_KEY + API_KEYS_MASTER_KEY_ID
+ * 2. Deploy (the app opens old rows with the previous key), then run this script
+ * 3. Remove the old key from API_KEYS_PREVIOUS_MASTER_KEYS
+ */
+export async function rotateApiKeys(dataSource: DataSource, keyring: ApiKeyKeyring): Promise<number> {
+	if (!keyring.currentId) {
+		throw new Error('API_KEYS_MASTER_KEY is not set');
+	}
+
+	const repository = dataSource.getRepository(User);
+	const users = await repository.find({
+		where: [{ api_key_openai: Not(IsNull()) }, { api_key_anthropic: Not(IsNull()) }, { api_key_gemini: Not(IsNull()) }],
+		select: ['id', ...API_KEY_FIELDS],
+	});
+
+	logger.log(`🔐 Re-encrypting API keys of ${users.length} users with "${keyring.currentId}"...`);
+
+	let rotated = 0;
+	for (const user of users) {
+		const updates: Partial<User> = {};
+		for (const field of API_KEY_FIELDS) {
+			const stored = user[field];
+			if (!stored) continue;
+			updates[field] = ApiKeyCrypto.seal(ApiKeyCrypto.open(stored, keyring), keyring);
+		}
+
+		await repository.update(user.id, updates);
+		rotated++;
+	}
+
+	logger.log(`🔐 ${rotated} users re-encrypted`);
+	return rotated;
+}
+
+/**
+ * Run as standalone script
+ * Usage: npx ts-node src/database/scripts/rotate-api-keys.ts
+ */
+export async function runRotation(): Promise<void> {
+	const { config } = await import('dotenv');
+
+	// Load environment variables
+	config();
+
+	const dataSource = new DataSource({
+		type: 'postgres',
+		url: process.env.DATABASE_URL,
+		entities: [__dirname + '/../entities/*.entity{.ts,.js}'],
+		synchronize: false,
+		logging: false,
+	});
+
+	try {
+		const keyring = ApiKeyCrypto.buildKeyring({
+			masterKey: process.env.API_KEYS_MASTER_KEY,
+			masterKeyId: process.env.API_KEYS_MASTER_KEY_ID,
+			previousMasterKeys: process.env.API_KEYS_PREVIOUS_MASTER_KEYS,
+		});
+
+		await dataSource.initialize();
+		logger.log('📦 Database connected for key rotation');
+
+		await rotateApiKeys(dataSource, keyring);
+	} finally {
+		if (dataSource.isInitialized) {
+			await dataSource.destroy();
+			logger.log('📦 Database connection closed');
+		}
+	}
+}
+
+// Run if executed directly
+if (require.main === module) {
+	runRotation().catch((error: Error) => {
+		logger.error(`❌ Key rotation failed: ${error.message}`, error.stack);
+		process.exitCode = 1;
+	});
+}
@@ -1,5 +1,6 @@
 import { DataSource } from 'typeorm';
 import { DAPreset } from '../entities/da-preset.entity';
+import { DAPresetVisibility } from '../../libs/enums';
 
 /**
  * Default DA Presets - "Gold Standard" Art Direction configurations
@@ -210,8 +211,8 @@ export async function seedDAPresets(dataSource: DataSource): Promise<void> {
 			continue;
 		}
 
-		// Create new preset
-		const preset = repository.create(presetData);
+		// Create new preset (system presets are visible to everyone)
+		const preset = repository.create({ ...presetData, visibility: DAPresetVisibility.PUBLIC });
 		await repository.save(preset);
 		logger.log(`   ✅ Created "${presetData.name}" (${presetData.code})`);
 	}
@@ -235,7 +236,7 @@ export async function runSeed(): Promise<void> {
 	const dataSource = new DataSource({
 		type: 'postgres',
 		url: process.env.DATABASE_URL,
-		entities: [DAPreset],
+		entities: [__dirname + '/../entities/*.entity{.ts,.js}'],
 		synchronize: false,
 		logging: false,
 	});
@@ -0,0 +1,76 @@
+import { DataSource, IsNull } from 'typeorm';
+import { ShotDefinition } from '../entities/shot-definition.entity';
+import { DEFAULT_SHOT_CATALOG } from '../../common/interfaces/shot-catalog.interface';
+
+/**
+ * Seed the system shot catalog (the six built-in shot types)
+ * Only creates shots that don't already exist (by code, system scope)
+ */
+export async function seedShotDefinitions(dataSource: DataSource): Promise<void> {
+	const repository = dataSource.getRepository(ShotDefinition);
+	const logger = console;
+
+	logger.log('📸 Seeding shot catalog...');
+
+	for (const shot of DEFAULT_SHOT_CATALOG) {
+		const existing = await repository.findOne({
+			where: { code: shot.code, brand_id: IsNull(), da_preset_id: IsNull() },
+		});
+
+		if (existing) {
+			logger.log(`   ⏭️  Skipping "${shot.code}" - already exists`);
+			continue;
+		}
+
+		const definition = repository.create({
+			...shot,
+			is_builtin: true,
+			is_active: true,
+			brand_id: null,
+			da_preset_id: null,
+		});
+		await repository.save(definition);
+		logger.log(`   ✅ Created "${shot.display_name}" (${shot.code})`);
+	}
+
+	logger.log('📸 Shot catalog seeding complete!');
+}
+
+/**
+ * Run seed as standalone script
+ * Usage: npm run seed:shots
+ */
+export async function runSeed(): Promise<void> {
+	const { config } = await import('dotenv');
+
+	config();
+
+	const dataSource = new DataSource({
+		type: 'postgres',
+		url: process.env.DATABASE_URL,
+		// ShotDefinition references brands / da_presets, so load the whole entity graph
+		entities: [__dirname + '/../entities/*.entity{.ts,.js}'],
+		synchronize: false,
+		logging: false,
+	});
+
+	try {
+		await dataSource.initialize();
+		console.log('📦 Database connected for seeding');
+
+		await seedShotDefinitions(dataSource);
+	} finally {
+		if (dataSource.isInitialized) {
+			await dataSource.destroy();
+			console.log('📦 Database connection closed');
+		}
+	}
+}
+
+// Run if executed directly
+if (require.main === module) {
+	runSeed().catch((error: Error) => {
+		console.error('❌ Seeding failed:', error);
+		process.exitCode = 1;
+	});
+}
@@ -129,4 +129,19 @@ export class FilesService {
 			url,
 		};
 	}
+
+	/**
+	 * Whether an image stored by storeBase64Image (S3 object or local file) still exists
+	 */
+	async imageExists(url: string, filename?: string | null): Promise<boolean> {
+		if (this.s3Service.isEnabled()) {
+			return this.s3Service.exists(url);
+		}
+
+		const uploadConfig = this.configService.get<any>('upload');
+		const localPath = uploadConfig.localPath as string;
+		const name = path.basename(filename || url);
+
+		return fs.existsSync(path.join(process.cwd(), localPath, name));
+	}
 }
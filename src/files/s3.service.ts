@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
 import { randomUUID } from 'crypto';
 import * as path from 'path';
@@ -121,6 +121,36 @@ export class S3Service {
 		}
 	}
 
+	/**
+	 * Whether the object behind a public URL from this bucket still exists
+	 * (false for URLs that do not point into the bucket)
+	 */
+	async exists(url: string): Promise<boolean> {
+		if (!this.enabled || !this.s3Client) {
+			throw new Error('S3 service not enabled');
+		}
+
+		const prefix = this.getPublicUrl('');
+		if (!url.startsWith(prefix)) {
+			return false;
+		}
+
+		try {
+			await this.s3Client.send(
+				new HeadObjectCommand({
+					Bucket: this.bucket,
+					Key: url.slice(prefix.length),
+				}),
+			);
+			return true;
+		} catch (error: any) {
+			if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
 	getPublicUrl(filePath: string): string {
 		if (!this.enabled) {
 			throw new Error('S3 service not enabled');
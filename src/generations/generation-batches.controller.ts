@@ -0,0 +1,111 @@
+import { Body, Controller, Get, Param, Post, Query, Res, StreamableFile, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { GenerationBatchesService, GenerationBatchSummary } from './generation-batches.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { CreateGenerationBatchDto } from '../libs/dto';
+import { TokenScope } from '../libs/enums';
+import { User } from '../database/entities/user.entity';
+import { GenerationBatch } from '../database/entities/generation-batch.entity';
+
+@Controller('generations/batches')
+@UseGuards(JwtAuthGuard)
+export class GenerationBatchesController {
+	constructor(private readonly generationBatchesService: GenerationBatchesService) { }
+
+	/**
+	 * POST /api/generations/batches/create
+	 *
+	 * One generation per product × DA preset, queued a few at a time.
+	 * Body:
+	 * - product_ids and/or collection_id: products to generate
+	 * - da_preset_ids (required): DA presets
+	 * - shot_options, model_type, aspect_ratio, resolution, provider (optional, shared)
+	 */
+	@Post('create')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async create(@CurrentUser() user: User, @Body() dto: CreateGenerationBatchDto): Promise<GenerationBatchSummary> {
+		return this.generationBatchesService.create(user.id, dto);
+	}
+
+	@Get('getAllBatches')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async getAllBatches(
+		@CurrentUser() user: User,
+		@Query('page') page?: string,
+		@Query('limit') limit?: string,
+	): Promise<{ items: GenerationBatch[]; total: number; page: number; limit: number }> {
+		return this.generationBatchesService.findAll(
+			user.id,
+			page ? parseInt(page, 10) : undefined,
+			limit ? parseInt(limit, 10) : undefined,
+		);
+	}
+
+	/**
+	 * GET /api/generations/batches/:batchId
+	 *
+	 * Batch status, progress and per-generation state
+	 */
+	@Get(':batchId')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async getBatch(@Param('batchId') batchId: string, @CurrentUser() user: User): Promise<GenerationBatchSummary> {
+		return this.generationBatchesService.getSummary(batchId, user.id);
+	}
+
+	/**
+	 * POST /api/generations/batches/:batchId/cancel
+	 *
+	 * Drops queued generations; running ones finish
+	 */
+	@Post(':batchId/cancel')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async cancel(@Param('batchId') batchId: string, @CurrentUser() user: User): Promise<GenerationBatchSummary> {
+		return this.generationBatchesService.cancel(batchId, user.id);
+	}
+
+	/**
+	 * GET /api/generations/batches/:batchId/download
+	 *
+	 * Combined ZIP of every approved visual plus manifest.csv
+	 */
+	@Get(':batchId/download')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async download(
+		@Param('batchId') batchId: string,
+		@CurrentUser() user: User,
+		@Res({ passthrough: true }) res: Response,
+	): Promise<StreamableFile> {
+		const { archive, filename } = await this.generationBatchesService.createDownloadArchive(batchId, user.id);
+
+		res.set({
+			'Content-Type': 'application/zip',
+			'Content-Disposition': `attachment; filename="${filename}"`,
+		});
+
+		return new StreamableFile(archive);
+	}
+
+	/**
+	 * GET /api/generations/batches/:batchId/export
+	 *
+	 * CSV with one row per visual
+	 */
+	@Get(':batchId/export')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async exportCsv(
+		@Param('batchId') batchId: string,
+		@CurrentUser() user: User,
+		@Res({ passthrough: true }) res: Response,
+	): Promise<string> {
+		const { csv, filename } = await this.generationBatchesService.exportCsv(batchId, user.id);
+
+		res.set({
+			'Content-Type': 'text/csv; charset=utf-8',
+			'Content-Disposition': `attachment; filename="${filename}"`,
+		});
+
+		return csv;
+	}
+}
@@ -0,0 +1,652 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+import * as archiver from 'archiver';
+
+import { GenerationBatch } from '../database/entities/generation-batch.entity';
+import { Generation } from '../database/entities/generation.entity';
+import { Product } from '../database/entities/product.entity';
+import { Collection } from '../database/entities/collection.entity';
+import { DAPreset } from '../database/entities/da-preset.entity';
+import { CreateGenerationBatchDto } from '../libs/dto';
+import {
+	BatchMessage,
+	GenerationBatchStatus,
+	GenerationStatus,
+	ImageProvider,
+	NotFoundMessage,
+	PermissionMessage,
+	ReviewMessage,
+	WorkspaceRole,
+} from '../libs/enums';
+import { GenerationsService } from './generations.service';
+import { QUEUE_DEFERRED_STEP } from './generation-scheduler.service';
+import { ShotsService } from '../shots/shots.service';
+import { DAService } from '../da/da.service';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { getEnabledShots } from '../common/interfaces/shot-options.interface';
+
+/** current_step of batch generations whose prompts are built and that wait for a queue slot */
+const BATCH_QUEUED_STEP = 'batch_queued';
+
+type CsvCell = string | number | null | undefined;
+
+export interface GenerationBatchSummary {
+	id: string;
+	name: string | null;
+	status: GenerationBatchStatus;
+	brand_id: string | null;
+	collection_id: string | null;
+	model_type: 'adult' | 'kid';
+	aspect_ratio: string;
+	resolution: string;
+	total_generations: number;
+	progress_percent: number;
+	counts: {
+		queued: number;
+		processing: number;
+		paused: number;
+		completed: number;
+		failed: number;
+		cancelled: number;
+	};
+	visuals: {
+		total: number;
+		completed: number;
+		failed: number;
+	};
+	generations: Array<{
+		id: string;
+		position: number | null;
+		product_id: string;
+		product_name: string | null;
+		da_preset_id: string | null;
+		da_preset_name: string | null;
+		status: GenerationStatus;
+		current_step: string | null;
+		progress_percent: number;
+		review_status: string;
+	}>;
+	created_at: Date;
+	completed_at: Date | null;
+	cancelled_at: Date | null;
+}
+
+/**
+ * Batch generation: one generation per product × DA preset with shared settings.
+ *
+ * Generations are created and their prompts built up front, then fed to the
+ * `generation` queue at most `batch.maxInFlight` at a time (round-robin order:
+ * every product with the first preset, then the second preset, ...). The next
+ * one is enqueued when the processor settles a job, so other users' work keeps
+ * flowing between batch jobs.
+ */
+@Injectable()
+export class GenerationBatchesService {
+	private readonly logger = new Logger(GenerationBatchesService.name);
+
+	/** Serializes queue feeding per batch (two jobs may settle at the same time) */
+	private readonly dispatching = new Map<string, Promise<void>>();
+
+	constructor(
+		@InjectRepository(GenerationBatch)
+		private readonly batchesRepository: Repository<GenerationBatch>,
+
+		@InjectRepository(Generation)
+		private readonly generationsRepository: Repository<Generation>,
+
+		@InjectRepository(Product)
+		private readonly productsRepository: Repository<Product>,
+
+		@InjectRepository(Collection)
+		private readonly collectionsRepository: Repository<Collection>,
+
+		private readonly configService: ConfigService,
+		private readonly generationsService: GenerationsService,
+		private readonly shotsService: ShotsService,
+		private readonly daService: DAService,
+		private readonly workspaceAccess: WorkspaceAccessService,
+	) {}
+
+	// ═══════════════════════════════════════════════════════════
+	// CREATE
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Create every product × preset generation, build their prompts and start feeding the queue
+	 */
+	async create(userId: string, dto: CreateGenerationBatchDto): Promise<GenerationBatchSummary> {
+		const productIds = [...(dto.product_ids || [])];
+
+		if (dto.collection_id) {
+			const collection = await this.collectionsRepository.findOne({
+				where: { id: dto.collection_id },
+				select: ['id'],
+			});
+			if (!collection) {
+				throw new NotFoundException(NotFoundMessage.COLLECTION_NOT_FOUND);
+			}
+
+			const collectionProducts = await this.productsRepository.find({
+				where: { collection_id: dto.collection_id },
+				select: ['id'],
+				order: { created_at: 'ASC' },
+			});
+			for (const product of collectionProducts) {
+				if (!productIds.includes(product.id)) productIds.push(product.id);
+			}
+		}
+
+		if (!productIds.length) {
+			throw new BadRequestException(BatchMessage.NO_PRODUCTS);
+		}
+
+		const maxGenerations = this.configService.get<number>('batch.maxGenerations') ?? 200;
+		if (productIds.length * dto.da_preset_ids.length > maxGenerations) {
+			throw new BadRequestException(`${BatchMessage.TOO_MANY_GENERATIONS} (max ${maxGenerations})`);
+		}
+
+		const found = await this.productsRepository.find({
+			where: { id: In(productIds) },
+			relations: ['collection'],
+		});
+		const productsById = new Map(found.map((product) => [product.id, product]));
+		if (productsById.size !== productIds.length) {
+			throw new NotFoundException(NotFoundMessage.PRODUCT_NOT_FOUND);
+		}
+		const products = productIds.map((id) => productsById.get(id) as Product);
+
+		const brandId = await this.assertProductsAccess(products, userId);
+
+		const notAnalyzed = products.filter((product) => !product.analyzed_product_json && !product.final_product_json);
+		if (notAnalyzed.length) {
+			throw new BadRequestException(`${BatchMessage.PRODUCTS_NOT_ANALYZED}: ${notAnalyzed.map((p) => p.name).join(', ')}`);
+		}
+
+		const presets: DAPreset[] = [];
+		for (const presetId of dto.da_preset_ids) {
+			presets.push(await this.daService.findOne(presetId, userId));
+		}
+
+		const batch = await this.batchesRepository.save(
+			this.batchesRepository.create({
+				user_id: userId,
+				name: dto.name || null,
+				brand_id: brandId,
+				collection_id: dto.collection_id || null,
+				product_ids: productIds,
+				da_preset_ids: dto.da_preset_ids,
+				shot_options: dto.shot_options || null,
+				model_type: dto.model_type || 'adult',
+				aspect_ratio: dto.aspect_ratio || '4:5',
+				resolution: dto.resolution || '4K',
+				image_provider: dto.provider || null,
+				status: GenerationBatchStatus.PROCESSING,
+				total_generations: 0,
+			}),
+		);
+
+		this.logger.log(`📦 Creating batch ${batch.id}: ${products.length} products × ${presets.length} presets`);
+
+		// Round-robin order: each product gets the first preset before any product gets the second
+		let position = 0;
+		for (const preset of presets) {
+			for (const product of products) {
+				const generation = await this.generationsService.createGenerationSimple(userId, product.id, preset.id, batch.model_type);
+
+				await this.generationsRepository.update(generation.id, {
+					batch_id: batch.id,
+					batch_position: position++,
+					aspect_ratio: batch.aspect_ratio,
+					resolution: batch.resolution,
+				});
+
+				try {
+					await this.generationsService.buildPrompts(generation.id, userId, batch.shot_options || undefined);
+					await this.generationsRepository.update(generation.id, { current_step: BATCH_QUEUED_STEP });
+				} catch (err: any) {
+					this.logger.warn(`⚠️ Batch ${batch.id}: prompt build failed for generation ${generation.id}: ${err.message}`);
+					await this.generationsRepository.update(generation.id, {
+						status: GenerationStatus.FAILED,
+						current_step: 'prompt_build_failed',
+					});
+				}
+			}
+		}
+
+		batch.total_generations = position;
+		await this.batchesRepository.save(batch);
+
+		this.logger.log(`✅ Batch ${batch.id} created with ${position} generations`);
+
+		await this.dispatch(batch.id);
+
+		return this.getSummary(batch.id, userId);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// READ
+	// ═══════════════════════════════════════════════════════════
+
+	async findAll(
+		userId: string,
+		page: number = 1,
+		limit: number = 20,
+	): Promise<{ items: GenerationBatch[]; total: number; page: number; limit: number }> {
+		page = page > 0 ? page : 1;
+		limit = limit > 0 ? limit : 20;
+
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+
+		const [items, total] = await this.batchesRepository
+			.createQueryBuilder('batch')
+			.where(new Brackets((qb) => {
+				qb.where('batch.user_id = :userId', { userId });
+				if (brandIds.length > 0) {
+					qb.orWhere('batch.brand_id IN (:...brandIds)', { brandIds });
+				}
+			}))
+			.orderBy('batch.created_at', 'DESC')
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return { items, total, page, limit };
+	}
+
+	/**
+	 * Batch status with per-generation progress and aggregated counts
+	 */
+	async getSummary(batchId: string, userId: string): Promise<GenerationBatchSummary> {
+		const batch = await this.findOne(batchId, userId);
+		const generations = await this.getGenerations(batch.id, ['product', 'da_preset']);
+
+		await this.refreshStatus(batch, generations);
+
+		const counts = { queued: 0, processing: 0, paused: 0, completed: 0, failed: 0, cancelled: 0 };
+		const visuals = { total: 0, completed: 0, failed: 0 };
+		let progressSum = 0;
+
+		for (const generation of generations) {
+			if (generation.status === GenerationStatus.PENDING) counts.queued++;
+			if (generation.status === GenerationStatus.PROCESSING) counts.processing++;
+			if (generation.status === GenerationStatus.COMPLETED) counts.completed++;
+			if (generation.status === GenerationStatus.FAILED) counts.failed++;
+			if (generation.status === GenerationStatus.PAUSED) counts.paused++;
+			if (generation.status === GenerationStatus.CANCELLED) counts.cancelled++;
+
+			const finished =
+				generation.status === GenerationStatus.COMPLETED ||
+				generation.status === GenerationStatus.FAILED ||
+				generation.status === GenerationStatus.CANCELLED;
+			progressSum += finished ? 100 : generation.status === GenerationStatus.PROCESSING ? generation.progress_percent || 0 : 0;
+
+			for (const visual of generation.visuals || []) {
+				visuals.total++;
+				if (visual.status === 'completed') visuals.completed++;
+				if (visual.status === 'failed') visuals.failed++;
+			}
+		}
+
+		return {
+			id: batch.id,
+			name: batch.name,
+			status: batch.status,
+			brand_id: batch.brand_id,
+			collection_id: batch.collection_id,
+			model_type: batch.model_type,
+			aspect_ratio: batch.aspect_ratio,
+			resolution: batch.resolution,
+			total_generations: batch.total_generations,
+			progress_percent: generations.length ? Math.round(progressSum / generations.length) : 0,
+			counts,
+			visuals,
+			generations: generations.map((generation) => ({
+				id: generation.id,
+				position: generation.batch_position,
+				product_id: generation.product_id,
+				product_name: generation.product?.name || null,
+				da_preset_id: generation.da_preset_id,
+				da_preset_name: generation.da_preset?.name || null,
+				status: generation.status,
+				current_step: generation.current_step,
+				progress_percent: generation.progress_percent,
+				review_status: generation.review_status,
+			})),
+			created_at: batch.created_at,
+			completed_at: batch.completed_at,
+			cancelled_at: batch.cancelled_at,
+		};
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// CANCEL
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Stop the batch: generations not yet picked up by a worker are dropped,
+	 * generations already running finish normally
+	 */
+	async cancel(batchId: string, userId: string): Promise<GenerationBatchSummary> {
+		const batch = await this.findOne(batchId, userId, WorkspaceRole.EDITOR);
+
+		if (batch.status !== GenerationBatchStatus.PROCESSING) {
+			throw new BadRequestException(BatchMessage.NOT_CANCELLABLE);
+		}
+
+		// Mark first so a job settling meanwhile does not enqueue the next generation
+		batch.status = GenerationBatchStatus.CANCELLED;
+		batch.cancelled_at = new Date();
+		await this.batchesRepository.save(batch);
+
+		const generations = await this.generationsRepository.find({
+			where: {
+				batch_id: batch.id,
+				status: In([GenerationStatus.PENDING, GenerationStatus.PROCESSING, GenerationStatus.PAUSED]),
+			},
+		});
+
+		let dropped = 0;
+		for (const generation of generations) {
+			// Not submitted yet: nothing in the queue to stop
+			if (generation.status === GenerationStatus.PENDING && generation.current_step === BATCH_QUEUED_STEP) {
+				await this.generationsRepository.update(generation.id, {
+					status: GenerationStatus.CANCELLED,
+					current_step: GenerationStatus.CANCELLED,
+				});
+				dropped++;
+				continue;
+			}
+
+			// Removes queued / deferred work; a running job stops before its next visual
+			try {
+				await this.generationsService.cancelGeneration(generation.id, userId);
+				dropped++;
+			} catch (err: any) {
+				this.logger.warn(`⚠️ Batch ${batch.id}: could not cancel generation ${generation.id}: ${err.message}`);
+			}
+		}
+
+		this.logger.log(`🛑 Batch ${batch.id} cancelled: ${dropped} generations dropped`);
+
+		return this.getSummary(batch.id, userId);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// EXPORT
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * One ZIP with the approved visuals of every generation plus the CSV manifest
+	 * Layout: ROMIMI/<batch>/<product>/<preset>/<shot>.<ext>
+	 */
+	async createDownloadArchive(batchId: string, userId: string): Promise<{ archive: archiver.Archiver; filename: string }> {
+		const batch = await this.findOne(batchId, userId);
+		const generations = await this.getGenerations(batch.id, ['product', 'da_preset']);
+
+		if (!generations.some((generation) => (generation.visuals || []).some((v: any) => this.generationsService.isVisualApproved(v)))) {
+			throw new BadRequestException(ReviewMessage.NO_APPROVED_VISUALS);
+		}
+
+		const batchFolder = this.generationsService.sanitizeFileName(batch.name || `batch_${batch.id.slice(0, 8)}`);
+		const archive = archiver('zip', { zlib: { level: 1 } });
+
+		// Sequential per generation keeps memory bounded for large batches
+		for (const generation of generations) {
+			const productFolder = this.generationsService.sanitizeFileName(generation.product?.name || generation.product_id);
+			const presetFolder = this.generationsService.sanitizeFileName(generation.da_preset?.name || generation.da_preset_id || 'preset');
+			await this.generationsService.appendApprovedVisuals(archive, generation, `ROMIMI/${batchFolder}/${productFolder}/${presetFolder}`);
+		}
+
+		archive.append(this.buildCsv(batch, generations), { name: `ROMIMI/${batchFolder}/manifest.csv` });
+		archive
+			.finalize()
+			.catch((err: Error) => this.logger.error(`❌ Batch ${batch.id}: failed to build archive: ${err.message}`, err.stack));
+
+		return {
+			archive,
+			filename: `ROMIMI_${batchFolder}.zip`,
+		};
+	}
+
+	/**
+	 * CSV with one row per visual (generations without visuals get one empty row)
+	 */
+	async exportCsv(batchId: string, userId: string): Promise<{ csv: string; filename: string }> {
+		const batch = await this.findOne(batchId, userId);
+		const generations = await this.getGenerations(batch.id, ['product', 'da_preset']);
+
+		const batchName = this.generationsService.sanitizeFileName(batch.name || `batch_${batch.id.slice(0, 8)}`);
+		return {
+			csv: this.buildCsv(batch, generations),
+			filename: `ROMIMI_${batchName}.csv`,
+		};
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// QUEUE FEEDING
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Called by the processor when a job finished for good; enqueues the next batch generation
+	 */
+	async onGenerationSettled(generationId: string): Promise<void> {
+		const generation = await this.generationsRepository.findOne({
+			where: { id: generationId },
+			select: ['id', 'batch_id'],
+		});
+
+		if (generation?.batch_id) {
+			await this.dispatch(generation.batch_id);
+		}
+	}
+
+	private dispatch(batchId: string): Promise<void> {
+		const previous = this.dispatching.get(batchId) ?? Promise.resolve();
+		const next: Promise<void> = previous
+			.then(() => this.feedQueue(batchId))
+			.catch((err: Error) => this.logger.error(`❌ Batch ${batchId}: failed to feed queue: ${err.message}`, err.stack))
+			.finally(() => {
+				if (this.dispatching.get(batchId) === next) {
+					this.dispatching.delete(batchId);
+				}
+			});
+
+		this.dispatching.set(batchId, next);
+		return next;
+	}
+
+	/**
+	 * Enqueue waiting generations until maxInFlight of this batch are in the queue, then refresh the batch status
+	 */
+	private async feedQueue(batchId: string): Promise<void> {
+		const batch = await this.batchesRepository.findOne({ where: { id: batchId } });
+		if (!batch) return;
+
+		const generations = await this.getGenerations(batch.id);
+
+		if (batch.status === GenerationBatchStatus.PROCESSING) {
+			const maxInFlight = Math.max(1, this.configService.get<number>('batch.maxInFlight') ?? 2);
+			// Generations deferred by queue admission control still hold a batch slot
+			let inFlight = generations.filter(
+				(generation) => generation.status === GenerationStatus.PROCESSING || generation.current_step === QUEUE_DEFERRED_STEP,
+			).length;
+
+			for (const generation of generations) {
+				if (inFlight >= maxInFlight) break;
+				if (generation.status !== GenerationStatus.PENDING || generation.current_step !== BATCH_QUEUED_STEP) continue;
+
+				try {
+					const catalog = await this.shotsService.resolveCatalogForGeneration(generation);
+					const visualTypes = getEnabledShots(batch.shot_options || {}, catalog)
+						.filter((code) => !!generation.merged_prompts?.[code]);
+
+					const submitted = await this.generationsService.generate(generation.id, batch.user_id, {
+						visualTypes,
+						aspect_ratio: batch.aspect_ratio,
+						resolution: batch.resolution as '2K' | '4K',
+						provider: (batch.image_provider as ImageProvider) || undefined,
+					});
+					generation.status = submitted.status;
+					generation.current_step = submitted.current_step;
+					inFlight++;
+				} catch (err: any) {
+					this.logger.warn(`⚠️ Batch ${batch.id}: could not enqueue generation ${generation.id}: ${err.message}`);
+					generation.status = GenerationStatus.FAILED;
+					await this.generationsRepository.update(generation.id, {
+						status: GenerationStatus.FAILED,
+						current_step: 'batch_enqueue_failed',
+					});
+				}
+			}
+		}
+
+		await this.refreshStatus(batch, generations);
+	}
+
+	/**
+	 * Derive the batch status from its generations (cancelled batches stay cancelled)
+	 */
+	private async refreshStatus(batch: GenerationBatch, generations: Generation[]): Promise<void> {
+		if (batch.status === GenerationBatchStatus.CANCELLED) return;
+
+		const active = generations.some(
+			(generation) =>
+				generation.status === GenerationStatus.PENDING ||
+				generation.status === GenerationStatus.PROCESSING ||
+				generation.status === GenerationStatus.PAUSED,
+		);
+
+		let status = GenerationBatchStatus.PROCESSING;
+		if (!active) {
+			// Cancelled generations count as not completed
+			const completed = generations.filter((generation) => generation.status === GenerationStatus.COMPLETED).length;
+			if (completed === generations.length) {
+				status = GenerationBatchStatus.COMPLETED;
+			} else if (completed === 0) {
+				status = GenerationBatchStatus.FAILED;
+			} else {
+				status = GenerationBatchStatus.PARTIALLY_FAILED;
+			}
+		}
+
+		if (status === batch.status) return;
+
+		batch.status = status;
+		batch.completed_at = status === GenerationBatchStatus.PROCESSING ? null : new Date();
+		await this.batchesRepository.save(batch);
+
+		this.logger.log(`📦 Batch ${batch.id} is now ${status}`);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// HELPERS
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Load a batch the user may access (brand workspace role, else creator only)
+	 */
+	private async findOne(batchId: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<GenerationBatch> {
+		const batch = await this.batchesRepository.findOne({ where: { id: batchId } });
+
+		if (!batch) {
+			throw new NotFoundException(NotFoundMessage.BATCH_NOT_FOUND);
+		}
+
+		if (batch.brand_id) {
+			await this.workspaceAccess.assertBrandAccess(batch.brand_id, userId, minRole);
+		} else if (batch.user_id !== userId) {
+			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+		}
+
+		return batch;
+	}
+
+	/**
+	 * All products must share one brand (EDITOR role required) or be the user's own personal products
+	 */
+	private async assertProductsAccess(products: Product[], userId: string): Promise<string | null> {
+		const brandIds = new Set(products.map((product) => product.collection?.brand_id || product.brand_id || null));
+		if (brandIds.size > 1) {
+			throw new BadRequestException(BatchMessage.MIXED_BRANDS);
+		}
+
+		const [brandId] = [...brandIds];
+		if (brandId) {
+			await this.workspaceAccess.assertBrandAccess(brandId, userId, WorkspaceRole.EDITOR);
+		} else if (products.some((product) => product.user_id !== userId)) {
+			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+		}
+
+		return brandId;
+	}
+
+	private getGenerations(batchId: string, relations: string[] = []): Promise<Generation[]> {
+		return this.generationsRepository.find({
+			where: { batch_id: batchId },
+			relations,
+			order: { batch_position: 'ASC' },
+		});
+	}
+
+	private buildCsv(batch: GenerationBatch, generations: Generation[]): string {
+		const header = [
+			'batch_id',
+			'generation_id',
+			'position',
+			'product_id',
+			'product_name',
+			'da_preset_id',
+			'da_preset_name',
+			'generation_status',
+			'visual_index',
+			'visual_type',
+			'visual_status',
+			'review_status',
+			'image_url',
+		];
+
+		const rows: CsvCell[][] = [];
+		for (const generation of generations) {
+			const base = [
+				batch.id,
+				generation.id,
+				generation.batch_position,
+				generation.product_id,
+				generation.product?.name,
+				generation.da_preset_id,
+				generation.da_preset?.name,
+				generation.status,
+			];
+
+			const visuals = generation.visuals || [];
+			if (!visuals.length) {
+				rows.push([...base, '', '', '', '', '']);
+				continue;
+			}
+
+			visuals.forEach((visual: any, index: number) => {
+				rows.push([
+					...base,
+					visual.index ?? index,
+					visual.type,
+					visual.status,
+					this.generationsService.getVisualReviewStatus(visual),
+					visual.image_url?.startsWith('data:') ? '' : visual.image_url,
+				]);
+			});
+		}
+
+		return [header, ...rows].map((row) => row.map((cell) => this.csvCell(cell)).join(',')).join('\n') + '\n';
+	}
+
+	private csvCell(value: CsvCell): string {
+		let text = value === null || value === undefined ? '' : String(value);
+		// Spreadsheets run cells starting with these as formulas (product / preset names are user input)
+		if (/^[=+\-@\t\r]/.test(text)) {
+			text = `'${text}`;
+		}
+		return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	}
+}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { GenerationCacheService } from './generation-cache.service';
+import { GenerationCacheEntry } from '../database/entities/generation-cache-entry.entity';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { FilesService } from '../files/files.service';
+
+describe('GenerationCacheService', () => {
+	const scope = { brand_id: 'brand-1', user_id: 'user-1' };
+	const request = { prompt: 'studio shot', provider: 'gemini', model: 'gemini-image' };
+	const entry = {
+		id: 'entry-1',
+		cache_key: 'key',
+		image_url: '/uploads/cached.png',
+		image_filename: 'cached.png',
+		hit_count: 0,
+	} as GenerationCacheEntry;
+
+	let repository: { findOne: jest.Mock; delete: jest.Mock; increment: jest.Mock; update: jest.Mock };
+	let files: { imageExists: jest.Mock };
+	let service: GenerationCacheService;
+
+	beforeEach(() => {
+		repository = {
+			findOne: jest.fn().mockResolvedValue(entry),
+			delete: jest.fn().mockResolvedValue({ affected: 1 }),
+			increment: jest.fn().mockResolvedValue({ affected: 1 }),
+			update: jest.fn().mockResolvedValue({ affected: 1 }),
+		};
+		files = { imageExists: jest.fn().mockResolvedValue(true) };
+		service = new GenerationCacheService(
+			repository as unknown as Repository<GenerationCacheEntry>,
+			{ get: jest.fn() } as unknown as ConfigService,
+			{} as WorkspaceAccessService,
+			files as unknown as FilesService,
+		);
+	});
+
+	it('keys on the resolved provider and model', () => {
+		const key = service.buildKey(scope, request);
+
+		expect(service.buildKey(scope, { ...request })).toBe(key);
+		expect(service.buildKey(scope, { ...request, model: 'gemini-image-2' })).not.toBe(key);
+		expect(service.buildKey(scope, { ...request, provider: 'openai' })).not.toBe(key);
+		expect(service.buildKey({ ...scope, brand_id: 'brand-2' }, request)).not.toBe(key);
+	});
+
+	it('serves a hit while the stored image exists', async () => {
+		const candidate = await service.lookup('key', request.prompt);
+
+		expect(candidate).toMatchObject({ status: 'completed', image_url: entry.image_url, cached: true });
+		expect(files.imageExists).toHaveBeenCalledWith(entry.image_url, entry.image_filename);
+		expect(repository.increment).toHaveBeenCalledWith({ id: entry.id }, 'hit_count', 1);
+	});
+
+	it('drops the entry and misses when the stored image is gone', async () => {
+		files.imageExists.mockResolvedValue(false);
+
+		expect(await service.lookup('key', request.prompt)).toBeNull();
+		expect(repository.delete).toHaveBeenCalledWith(entry.id);
+		expect(repository.increment).not.toHaveBeenCalled();
+	});
+});
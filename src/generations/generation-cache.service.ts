@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+
+import { GenerationCacheEntry } from '../database/entities/generation-cache-entry.entity';
+import { VisualCandidate } from '../common/interfaces/visual.interface';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { FilesService } from '../files/files.service';
+import { estimateCost } from '../usage/usage-pricing';
+import {
+	GenerationCacheRequest,
+	GenerationCacheScope,
+	GenerationCacheStats,
+} from '../common/interfaces/generation-cache.interface';
+
+/**
+ * Content-addressed image cache (IMAGE_CACHE_ENABLED).
+ *
+ * The key is a SHA-256 of the scope and the full provider request, so any
+ * change to the prompt, reference images, aspect ratio, resolution, provider
+ * or model is a miss. A hit reuses the stored file; nothing is copied. An
+ * entry whose file is gone is dropped on lookup and counts as a miss.
+ */
+@Injectable()
+export class GenerationCacheService {
+	private readonly logger = new Logger(GenerationCacheService.name);
+
+	constructor(
+		@InjectRepository(GenerationCacheEntry)
+		private readonly cacheRepository: Repository<GenerationCacheEntry>,
+		private readonly configService: ConfigService,
+		private readonly workspaceAccess: WorkspaceAccessService,
+		private readonly filesService: FilesService,
+	) {}
+
+	isEnabled(): boolean {
+		return this.configService.get<boolean>('image.cacheEnabled') === true;
+	}
+
+	buildKey(scope: GenerationCacheScope, request: GenerationCacheRequest): string {
+		const payload = JSON.stringify([
+			scope.brand_id ? `brand:${scope.brand_id}` : `user:${scope.user_id}`,
+			request.prompt,
+			[...(request.referenceImages || [])].sort(),
+			request.aspectRatio || null,
+			request.resolution || null,
+			request.provider,
+			request.model,
+		]);
+		return createHash('sha256').update(payload).digest('hex');
+	}
+
+	/**
+	 * Cached image for a key as a new candidate (counts as a hit), or null on a miss
+	 */
+	async lookup(key: string, prompt: string): Promise<VisualCandidate | null> {
+		try {
+			const entry = await this.cacheRepository.findOne({ where: { cache_key: key } });
+			if (!entry) return null;
+
+			if (!(await this.filesService.imageExists(entry.image_url, entry.image_filename))) {
+				await this.cacheRepository.delete(entry.id);
+				this.logger.warn(`⚠️ Cache entry ${key.substring(0, 12)} dropped, its image no longer exists`);
+				return null;
+			}
+
+			await this.cacheRepository.increment({ id: entry.id }, 'hit_count', 1);
+			await this.cacheRepository.update(entry.id, { last_hit_at: new Date() });
+
+			this.logger.log(`♻️ Cache hit ${key.substring(0, 12)} (${entry.hit_count + 1} hits)`);
+
+			return {
+				id: randomUUID(),
+				status: 'completed',
+				image_url: entry.image_url,
+				image_filename: entry.image_filename,
+				mimeType: entry.mime_type || undefined,
+				provider: entry.provider || undefined,
+				model: entry.model || undefined,
+				prompt,
+				cached: true,
+				generated_at: new Date().toISOString(),
+			};
+		} catch (error: any) {
+			// The cache must never block a generation
+			this.logger.warn(`⚠️ Cache lookup failed: ${error.message}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Store (or, after a force_fresh run, replace) the image for a key
+	 */
+	async store(key: string, scope: GenerationCacheScope, candidate: VisualCandidate): Promise<void> {
+		// data: URLs mean the file could not be saved; do not keep megabytes of base64 in the table
+		if (!candidate.image_url || candidate.image_url.startsWith('data:')) return;
+
+		try {
+			const image = {
+				image_url: candidate.image_url,
+				image_filename: candidate.image_filename || null,
+				mime_type: candidate.mimeType || null,
+				provider: candidate.provider || null,
+				model: candidate.model || null,
+			};
+
+			const existing = await this.cacheRepository.findOne({ where: { cache_key: key }, select: ['id'] });
+			if (existing) {
+				await this.cacheRepository.update(existing.id, image);
+				await this.cacheRepository.increment({ id: existing.id }, 'generated_count', 1);
+				return;
+			}
+
+			await this.cacheRepository
+				.createQueryBuilder()
+				.insert()
+				.values({ cache_key: key, brand_id: scope.brand_id, user_id: scope.user_id, ...image })
+				.orIgnore()
+				.execute();
+		} catch (error: any) {
+			this.logger.warn(`⚠️ Cache store failed: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Hit stats over the entries the user can reach (own + workspace brands)
+	 */
+	async getStats(userId: string, brandId?: string): Promise<GenerationCacheStats> {
+		const query = this.cacheRepository.createQueryBuilder('entry');
+
+		if (brandId) {
+			await this.workspaceAccess.assertBrandAccess(brandId, userId);
+			query.where('entry.brand_id = :brandId', { brandId });
+		} else {
+			const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+			query.where(brandIds.length ? '(entry.user_id = :userId OR entry.brand_id IN (:...brandIds))' : 'entry.user_id = :userId', {
+				userId,
+				brandIds,
+			});
+		}
+
+		const rows = await query
+			.select('entry.model', 'model')
+			.addSelect('COUNT(*)', 'entries')
+			.addSelect('COALESCE(SUM(entry.hit_count), 0)', 'hits')
+			.addSelect('COALESCE(SUM(entry.generated_count), 0)', 'generated')
+			.groupBy('entry.model')
+			.getRawMany();
+
+		let entries = 0;
+		let hits = 0;
+		let generated = 0;
+		let saved = 0;
+		for (const row of rows) {
+			// Postgres returns aggregates as strings
+			const rowHits = Number(row.hits) || 0;
+			entries += Number(row.entries) || 0;
+			hits += rowHits;
+			generated += Number(row.generated) || 0;
+			saved += estimateCost(row.model, { image_count: rowHits });
+		}
+
+		return {
+			enabled: this.isEnabled(),
+			entries,
+			hits,
+			generated,
+			hit_rate: hits + generated ? Math.round((hits / (hits + generated)) * 1000) / 1000 : 0,
+			estimated_saved_usd: Math.round(saved * 10000) / 10000,
+		};
+	}
+}
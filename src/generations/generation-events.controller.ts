@@ -1,14 +1,12 @@
-import { Controller, Get, Param, Sse, UseGuards, Query, UnauthorizedException } from '@nestjs/common';
-import { Observable, Subject, filter, map } from 'rxjs';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { Controller, Logger, Param, Sse, Query, UnauthorizedException } from '@nestjs/common';
+import { Observable, filter, map } from 'rxjs';
 import { Public } from '../common/decorators/public.decorator';
-import { User } from '../database/entities/user.entity';
+import { AuthMessage } from '../libs/enums';
 import { GenerationsService } from './generations.service';
-import { JwtService } from '@nestjs/jwt';
+import { AuthService } from '../auth/auth.service';
 
 export interface GenerationEvent {
-  type: 'visual_processing' | 'visual_completed' | 'visual_failed' | 'generation_completed';
+  type: 'visual_processing' | 'visual_completed' | 'visual_failed' | 'generation_completed' | 'generation_state';
   generationId: string;
   visualIndex?: number;
   visualType?: string;
@@ -28,59 +26,35 @@ export interface GenerationEvent {
 
 @Controller('generations')
 export class GenerationEventsController {
+  private readonly logger = new Logger(GenerationEventsController.name);
+
   constructor(
     private readonly generationsService: GenerationsService,
-    private readonly jwtService: JwtService,
+    private readonly authService: AuthService,
   ) {}
 
   @Sse(':id/stream')
-  @Public() // Public endpoint but we validate token manually
+  @Public() // EventSource cannot send headers - token is validated from the query string
   async streamGenerationProgress(
     @Param('id') generationId: string,
     @Query('token') token: string,
   ): Promise<Observable<any>> {
-    console.log(`🔗 SSE Connection attempt for generation: ${generationId}`);
-    
-    // Validate token and extract user ID
-    let userId: string | null = null;
-    try {
-      if (token) {
-        const payload = this.jwtService.verify(token);
-        userId = payload.sub || payload.userId || payload.id;
-        console.log(`✅ SSE: Authenticated user ${userId} for generation ${generationId}`);
-      } else {
-        console.warn(`⚠️ SSE: No token provided for generation ${generationId}`);
-      }
-    } catch (error) {
-      console.error(`❌ SSE: Invalid token for generation ${generationId}:`, error);
-      // Don't throw - allow connection but filter events by generationId only
+    if (!token) {
+      this.logger.warn(`⚠️ SSE: No token provided for generation ${generationId}`);
+      throw new UnauthorizedException(AuthMessage.UNAUTHORIZED);
     }
 
+    // Same checks as the guard, including session revocation (throws UnauthorizedException)
+    const userId = await this.authService.verifyAccessToken(token);
+
+    // Workspace members of the generation's brand receive events triggered by teammates too;
+    // throws NotFound / Forbidden when the user cannot view the generation
+    await this.generationsService.findOne(generationId, userId);
+    this.logger.log(`🔗 SSE: User ${userId} subscribed to generation ${generationId}`);
+
     return this.generationsService.getGenerationEventStream().pipe(
-      filter((event) => {
-        // Match by generationId and userId (if authenticated)
-        const match = event.generationId === generationId && 
-          (!userId || event.userId === userId);
-        if (match) {
-          console.log(`📨 SSE: Sending event to client:`, {
-            type: event.type,
-            visualIndex: event.visualIndex,
-            hasImageUrl: !!event.visual?.image_url,
-            imageUrlPreview: event.visual?.image_url ? event.visual.image_url.substring(0, 50) + '...' : 'none'
-          });
-        }
-        return match;
-      }),
-      map((event) => {
-        console.log(`🎯 SSE: Mapped event for transmission:`, {
-          type: event.type,
-          visualIndex: event.visualIndex,
-          hasImageUrl: !!event.visual?.image_url
-        });
-        return {
-          data: JSON.stringify(event),
-        };
-      }),
+      filter((event) => event.generationId === generationId),
+      map((event) => ({ data: JSON.stringify(event) })),
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,90 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Generation } from '../database/entities/generation.entity';
+import { GenerationStatus } from '../libs/enums';
+import { GenerationRecoveryService } from './generation-recovery.service';
+import { GenerationSchedulerService } from './generation-scheduler.service';
+import { GenerationsService } from './generations.service';
+
+jest.mock('./generations.service', () => ({ GenerationsService: class {} }));
+jest.mock('./generation-scheduler.service', () => ({ GenerationSchedulerService: class {} }));
+
+describe('GenerationRecoveryService', () => {
+	let service: GenerationRecoveryService;
+	let repository: { find: jest.Mock; save: jest.Mock };
+	let scheduler: { findJob: jest.Mock; submit: jest.Mock; releaseDeferred: jest.Mock };
+
+	beforeEach(async () => {
+		repository = {
+			find: jest.fn().mockResolvedValue([]),
+			save: jest.fn((generation: Generation) => Promise.resolve(generation)),
+		};
+		scheduler = {
+			findJob: jest.fn().mockResolvedValue(null),
+			submit: jest.fn().mockResolvedValue('generation-job'),
+			releaseDeferred: jest.fn().mockResolvedValue(undefined),
+		};
+
+		const moduleRef = await Test.createTestingModule({
+			providers: [
+				GenerationRecoveryService,
+				{ provide: getRepositoryToken(Generation), useValue: repository },
+				{ provide: GenerationsService, useValue: { resolveWorkspaceId: jest.fn(), refreshReviewStatus: jest.fn() } },
+				{ provide: GenerationSchedulerService, useValue: scheduler },
+			],
+		}).compile();
+
+		service = moduleRef.get(GenerationRecoveryService);
+	});
+
+	it('releases deferred generations when nothing was left processing', async () => {
+		await service.reconcileStuckGenerations();
+
+		expect(scheduler.releaseDeferred).toHaveBeenCalledTimes(1);
+	});
+
+	it('re-queues unfinished visuals of a lost job before releasing deferred generations', async () => {
+		const generation = {
+			id: 'gen-1',
+			user_id: 'user-1',
+			status: GenerationStatus.PROCESSING,
+			image_provider: 'fake',
+			queue_priority: 2,
+			visuals: [
+				{ type: 'front', prompt: 'front prompt', status: 'completed' },
+				{ type: 'back', prompt: 'back prompt', status: 'processing' },
+			],
+		};
+		repository.find.mockResolvedValue([generation]);
+
+		const order: string[] = [];
+		scheduler.submit.mockImplementation(() => {
+			order.push('submit');
+			return Promise.resolve('generation-job');
+		});
+		scheduler.releaseDeferred.mockImplementation(() => {
+			order.push('release');
+			return Promise.resolve();
+		});
+
+		await service.reconcileStuckGenerations();
+
+		expect(scheduler.submit).toHaveBeenCalledWith(
+			generation,
+			expect.objectContaining({ prompts: ['back prompt'], visualTypes: ['back'], resume: true }),
+			false,
+		);
+		expect(order).toEqual(['submit', 'release']);
+	});
+
+	it('leaves generations whose Bull job is still live to Bull', async () => {
+		repository.find.mockResolvedValue([{ id: 'gen-2', status: GenerationStatus.PROCESSING, visuals: [] }]);
+		scheduler.findJob.mockResolvedValue({ getState: jest.fn().mockResolvedValue('active'), data: {} });
+
+		await service.reconcileStuckGenerations();
+
+		expect(scheduler.submit).not.toHaveBeenCalled();
+		expect(repository.save).not.toHaveBeenCalled();
+		expect(scheduler.releaseDeferred).toHaveBeenCalledTimes(1);
+	});
+});
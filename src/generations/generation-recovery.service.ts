@@ -0,0 +1,121 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Generation } from '../database/entities/generation.entity';
+import { GenerationPriority, GenerationStatus } from '../libs/enums';
+import { DeferredGenerationJob } from '../common/interfaces/generation-queue.interface';
+import { GenerationsService } from './generations.service';
+import { GenerationSchedulerService } from './generation-scheduler.service';
+
+/** current_step of generations re-queued by the startup sweep */
+export const RECOVERED_STEP = 'recovered';
+
+/** Bull states in which the job will still run (an `active` job of a dead worker is picked up as stalled) */
+const LIVE_JOB_STATES = ['waiting', 'active', 'delayed', 'paused'];
+
+/**
+ * Startup sweep for generations left in PROCESSING by a restart.
+ *
+ * A generation whose Bull job is still live is left to Bull: the processor
+ * resumes it and skips visuals checkpointed by the earlier attempt. When the
+ * job is gone (or finished without updating the generation) the visuals that
+ * never finished are queued again with `resume`, and a generation with
+ * nothing left to do gets its final status. Deferred generations (admission
+ * control) are released at the end of the sweep.
+ */
+@Injectable()
+export class GenerationRecoveryService implements OnApplicationBootstrap {
+	private readonly logger = new Logger(GenerationRecoveryService.name);
+
+	constructor(
+		@InjectRepository(Generation)
+		private readonly generationsRepository: Repository<Generation>,
+
+		private readonly generationsService: GenerationsService,
+		private readonly generationScheduler: GenerationSchedulerService,
+	) {}
+
+	onApplicationBootstrap(): void {
+		// Do not hold up startup; the queue may still be connecting
+		this.reconcileStuckGenerations().catch((err) =>
+			this.logger.error(`❌ Startup sweep failed: ${err.message}`, err.stack),
+		);
+	}
+
+	async reconcileStuckGenerations(): Promise<void> {
+		const generations = await this.generationsRepository.find({
+			where: { status: GenerationStatus.PROCESSING },
+		});
+
+		let requeued = 0;
+		let finalized = 0;
+
+		for (const generation of generations) {
+			try {
+				const job = await this.generationScheduler.findJob(generation.id);
+				const state = job ? await job.getState() : null;
+				if (state && LIVE_JOB_STATES.includes(state)) continue;
+
+				const visuals: any[] = generation.visuals || [];
+				const unfinished = visuals.filter(
+					(visual) => visual?.prompt && (visual.status === 'pending' || visual.status === 'processing'),
+				);
+
+				if (!unfinished.length) {
+					this.finalize(generation);
+					await this.generationsRepository.save(generation);
+					finalized++;
+					continue;
+				}
+
+				const deferred: DeferredGenerationJob = {
+					prompts: unfinished.map((visual) => visual.prompt),
+					visualTypes: unfinished.map((visual) => visual.type),
+					model: job?.data.model,
+					provider: generation.image_provider,
+					priority: generation.queue_priority ?? GenerationPriority.NORMAL,
+					workspace_id: job?.data.workspaceId ?? (await this.generationsService.resolveWorkspaceId(generation)),
+					resume: true,
+				};
+
+				const jobId = await this.generationScheduler.submit(generation, deferred, false);
+				if (jobId) {
+					generation.current_step = RECOVERED_STEP;
+					await this.generationsRepository.save(generation);
+				}
+				requeued++;
+			} catch (err: any) {
+				this.logger.error(`❌ Could not recover generation ${generation.id}: ${err.message}`);
+			}
+		}
+
+		if (generations.length) {
+			this.logger.log(
+				`🧹 Startup sweep: ${generations.length} processing, ${requeued} re-queued, ${finalized} finalized`,
+			);
+		}
+
+		// Deferred generations are normally released when a job settles; after a restart or a
+		// Redis flush there may be no job left to settle, so give them their free slots now
+		await this.generationScheduler.releaseDeferred();
+	}
+
+	/**
+	 * Same outcome as the processor: nothing completed → failed, otherwise completed
+	 */
+	private finalize(generation: Generation): void {
+		const visuals: any[] = generation.visuals || [];
+		const completed = visuals.filter((visual) => visual?.status === 'completed').length;
+
+		if (completed === 0) {
+			generation.status = GenerationStatus.FAILED;
+		} else {
+			generation.status = GenerationStatus.COMPLETED;
+			generation.completed_at = new Date();
+		}
+		generation.progress_percent = 100;
+		generation.completed_visuals_count = completed;
+		this.generationsService.refreshReviewStatus(generation);
+	}
+}
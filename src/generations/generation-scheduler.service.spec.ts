@@ -0,0 +1,165 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { GenerationSchedulerService, QUEUE_DEFERRED_STEP } from './generation-scheduler.service';
+import { GenerationJobData } from './generation.processor';
+import { Generation } from '../database/entities/generation.entity';
+import { DeferredGenerationJob } from '../common/interfaces/generation-queue.interface';
+import { GenerationPriority, GenerationStatus } from '../libs/enums';
+import { InMemoryRepository } from '../../test/utils/in-memory-repository';
+
+interface FakeJob {
+	id: string;
+	data: GenerationJobData;
+	opts: { priority?: number };
+}
+
+/**
+ * Bull queue holding every added job as waiting, with the Redis calls the
+ * scheduler makes for its admission lock. Reads yield to the event loop so
+ * unlocked check-then-add sequences would interleave.
+ */
+class FakeQueue {
+	jobs: FakeJob[] = [];
+	private keys = new Map<string, string>();
+
+	client = {
+		set: (key: string, value: string, ...args: unknown[]) => {
+			if (args.includes('NX') && this.keys.has(key)) return Promise.resolve(null);
+			this.keys.set(key, value);
+			return Promise.resolve('OK');
+		},
+		get: (key: string) => Promise.resolve(this.keys.get(key) ?? null),
+		del: (key: string) => Promise.resolve(this.keys.delete(key) ? 1 : 0),
+		eval: (_script: string, _keys: number, key: string, token: string) => {
+			if (this.keys.get(key) !== token) return Promise.resolve(0);
+			this.keys.delete(key);
+			return Promise.resolve(1);
+		},
+	};
+
+	async getJobs(): Promise<FakeJob[]> {
+		await new Promise((resolve) => setImmediate(resolve));
+		return [...this.jobs];
+	}
+
+	getJob(): Promise<null> {
+		return Promise.resolve(null);
+	}
+
+	add(data: GenerationJobData, opts: { jobId: string; priority?: number }): Promise<FakeJob> {
+		const job = { id: opts.jobId, data, opts };
+		this.jobs.push(job);
+		return Promise.resolve(job);
+	}
+}
+
+describe('GenerationSchedulerService', () => {
+	let generations: InMemoryRepository<Generation>;
+	let queue: FakeQueue;
+	let scheduler: GenerationSchedulerService;
+
+	const limits: Record<string, number> = {
+		'queue.maxActivePerUser': 2,
+		'queue.maxActivePerWorkspace': 3,
+		'queue.maxDeferredPerUser': 2,
+	};
+
+	beforeEach(() => {
+		generations = new InMemoryRepository<Generation>();
+		queue = new FakeQueue();
+		const config = { get: (key: string) => limits[key] } as unknown as ConfigService;
+		scheduler = new GenerationSchedulerService(
+			generations.asRepository(),
+			queue as unknown as Queue<GenerationJobData>,
+			config,
+		);
+	});
+
+	let sequence = 0;
+	const generationOf = (userId: string, values: Partial<Generation> = {}): Generation =>
+		({ id: `generation-${++sequence}`, user_id: userId, status: GenerationStatus.PENDING, ...values }) as Generation;
+
+	const jobOf = (values: Partial<DeferredGenerationJob> = {}): DeferredGenerationJob => ({
+		prompts: ['prompt'],
+		priority: GenerationPriority.NORMAL,
+		workspace_id: null,
+		...values,
+	});
+
+	const submit = (generation: Generation, job: DeferredGenerationJob = jobOf()) => scheduler.submit(generation, job);
+	const stored = (id: string) => generations.rows.find((generation) => generation.id === id);
+
+	it('enqueues up to the per-user cap and defers the rest', async () => {
+		expect(await submit(generationOf('user-1'))).not.toBeNull();
+		expect(await submit(generationOf('user-1'))).not.toBeNull();
+
+		const third = generationOf('user-1');
+		expect(await submit(third)).toBeNull();
+		expect(third.current_step).toBe(QUEUE_DEFERRED_STEP);
+		expect(third.deferred_job).toEqual(jobOf());
+		expect(stored(third.id)?.deferred_job).toEqual(jobOf());
+
+		expect(await submit(generationOf('user-2'))).not.toBeNull();
+		expect(queue.jobs).toHaveLength(3);
+	});
+
+	it('applies the per-workspace cap across users', async () => {
+		const job = jobOf({ workspace_id: 'workspace-1' });
+
+		await submit(generationOf('user-1'), job);
+		await submit(generationOf('user-2'), job);
+		await submit(generationOf('user-3'), job);
+
+		expect(await submit(generationOf('user-4'), job)).toBeNull();
+		expect(await submit(generationOf('user-4'))).not.toBeNull();
+	});
+
+	it('never admits more than the cap for concurrent submissions', async () => {
+		const results = await Promise.all([1, 2, 3, 4].map(() => submit(generationOf('user-1'))));
+
+		expect(results.filter((jobId) => jobId !== null)).toHaveLength(2);
+		expect(queue.jobs).toHaveLength(2);
+	});
+
+	it('rejects once the deferred backlog is full, ignoring paused generations', async () => {
+		await submit(generationOf('user-1'));
+		await submit(generationOf('user-1'));
+		await generations.save(generationOf('user-1', { status: GenerationStatus.PAUSED, deferred_job: jobOf() }));
+
+		expect(await submit(generationOf('user-1'))).toBeNull();
+		expect(await submit(generationOf('user-1'))).toBeNull();
+		await expect(submit(generationOf('user-1'))).rejects.toThrow(
+			expect.objectContaining({ status: HttpStatus.TOO_MANY_REQUESTS }) as HttpException,
+		);
+		expect(await scheduler.submit(generationOf('user-1'), jobOf(), false)).toBeNull();
+	});
+
+	it('never defers more than the backlog cap for concurrent submissions', async () => {
+		await submit(generationOf('user-1'));
+		await submit(generationOf('user-1'));
+
+		const results = await Promise.allSettled([1, 2, 3, 4].map(() => submit(generationOf('user-1'))));
+
+		expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+		expect(results.filter((result) => result.status === 'rejected')).toHaveLength(2);
+		expect(generations.rows.filter((generation) => generation.deferred_job)).toHaveLength(2);
+	});
+
+	it('releases deferred work by priority as slots free up', async () => {
+		await submit(generationOf('user-1'));
+		await submit(generationOf('user-1'));
+		const bulk = generationOf('user-1');
+		const high = generationOf('user-1');
+		await submit(bulk, jobOf({ priority: GenerationPriority.BULK }));
+		await submit(high, jobOf({ priority: GenerationPriority.HIGH }));
+
+		queue.jobs.shift();
+		await scheduler.releaseDeferred();
+
+		expect(stored(high.id)?.status).toBe(GenerationStatus.PROCESSING);
+		expect(stored(high.id)?.deferred_job).toBeNull();
+		expect(stored(bulk.id)?.deferred_job).not.toBeNull();
+		expect(queue.jobs).toHaveLength(2);
+	});
+});
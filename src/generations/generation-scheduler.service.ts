@@ -0,0 +1,395 @@
+import { HttpException, HttpStatus, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { IsNull, Not, Repository } from 'typeorm';
+import { Job, Queue } from 'bull';
+import { randomUUID } from 'crypto';
+
+import { Generation } from '../database/entities/generation.entity';
+import { GenerationPriority, GenerationStatus, QueueMessage } from '../libs/enums';
+import {
+	DeferredGenerationJob,
+	GenerationControlAction,
+	GenerationQueuePosition,
+} from '../common/interfaces/generation-queue.interface';
+import { GenerationJobData } from './generation.processor';
+
+/** current_step of generations held back by admission control */
+export const QUEUE_DEFERRED_STEP = 'queue_deferred';
+
+/** Pause / cancel requests outlive a worker restart for a day at most */
+const CONTROL_TTL_SECONDS = 24 * 60 * 60;
+
+/** Redis lock making "check the caps, then enqueue" one step across API instances */
+const ADMISSION_LOCK_KEY = 'generation-admission-lock';
+const ADMISSION_LOCK_TTL_MS = 30 * 1000;
+const ADMISSION_LOCK_WAIT_MS = 10 * 1000;
+const ADMISSION_LOCK_RETRY_MS = 50;
+
+/** Deletes the lock only while it still holds our token (it may have expired and been taken) */
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+
+interface QueueUsage {
+	users: Map<string, number>;
+	workspaces: Map<string, number>;
+}
+
+/**
+ * Admission control and fair scheduling for the `generation` queue.
+ *
+ * Each user (and workspace) may have a few jobs in Bull at once; further
+ * work is stored on the generation as `deferred_job` and released when a
+ * job settles: highest priority first, then the user with the fewest jobs
+ * in the queue, then the oldest request. Jobs in Bull carry a priority so
+ * re-runs and single-visual runs overtake bulk batch work. Admission holds a
+ * Redis lock so concurrent requests cannot both take the last free slot.
+ */
+@Injectable()
+export class GenerationSchedulerService {
+	private readonly logger = new Logger(GenerationSchedulerService.name);
+
+	/** Serializes releases (several jobs can settle at the same time) */
+	private releasing: Promise<void> = Promise.resolve();
+
+	constructor(
+		@InjectRepository(Generation)
+		private readonly generationsRepository: Repository<Generation>,
+
+		@InjectQueue('generation')
+		private readonly generationQueue: Queue<GenerationJobData>,
+
+		private readonly configService: ConfigService,
+	) {}
+
+	/**
+	 * Enqueue a generation job, or defer it when the user / workspace is at its cap.
+	 * Updates and saves the generation while holding the admission lock, so a
+	 * release that runs right after already sees a deferred generation.
+	 *
+	 * @param rejectWhenFull - throw 429 instead of deferring once the user's deferred backlog is full
+	 * @returns the Bull job id, or null when deferred
+	 */
+	async submit(
+		generation: Generation,
+		job: DeferredGenerationJob,
+		rejectWhenFull: boolean = true,
+	): Promise<string | null> {
+		return this.withAdmissionLock(async () => {
+			const usage = await this.getQueueUsage();
+
+			if (this.hasCapacity(usage, generation.user_id, job.workspace_id)) {
+				const added = await this.addJob(generation, job);
+				this.markQueued(generation, job);
+				await this.generationsRepository.save(generation);
+				return added.id.toString();
+			}
+
+			if (rejectWhenFull) {
+				// Paused generations also keep their job in deferred_job but are not waiting for a slot
+				const deferredCount = await this.generationsRepository.count({
+					where: { user_id: generation.user_id, status: GenerationStatus.PENDING, deferred_job: Not(IsNull()) },
+				});
+				const maxDeferred = this.configService.get<number>('queue.maxDeferredPerUser') ?? 20;
+				if (deferredCount >= maxDeferred) {
+					throw new HttpException(QueueMessage.USER_QUOTA_EXCEEDED, HttpStatus.TOO_MANY_REQUESTS);
+				}
+			}
+
+			generation.status = GenerationStatus.PENDING;
+			generation.current_step = QUEUE_DEFERRED_STEP;
+			generation.deferred_job = job;
+			generation.queue_priority = job.priority;
+			generation.queued_at = new Date();
+			await this.generationsRepository.save(generation);
+
+			this.logger.log(`⏸️ Generation ${generation.id} deferred (user ${generation.user_id} at queue cap)`);
+			return null;
+		});
+	}
+
+	/**
+	 * Move deferred generations into the queue while users / workspaces have free slots
+	 */
+	releaseDeferred(): Promise<void> {
+		this.releasing = this.releasing
+			.then(() => this.withAdmissionLock(() => this.releaseNext()))
+			.catch((err: Error) => this.logger.error(`❌ Failed to release deferred generations: ${err.message}`, err.stack));
+		return this.releasing;
+	}
+
+	/**
+	 * Drop a generation's deferred job (reset / cancel)
+	 */
+	clearDeferred(generation: Generation): void {
+		if (generation.deferred_job) {
+			generation.deferred_job = null;
+			if (generation.current_step === QUEUE_DEFERRED_STEP) {
+				generation.current_step = null;
+			}
+		}
+	}
+
+	/**
+	 * Take a generation's job out of the queue if no worker has picked it up yet.
+	 * Returns the job payload so it can be held (pause), or null when there was
+	 * nothing to remove (no job, or the job is already running / finished).
+	 */
+	async removeQueuedJob(generation: Generation): Promise<DeferredGenerationJob | null> {
+		const job = await this.generationQueue.getJob(this.jobId(generation.id));
+		if (!job) return null;
+
+		const state = await job.getState();
+		if (state !== 'waiting' && state !== 'delayed' && state !== 'paused') return null;
+
+		await job.remove();
+
+		return {
+			prompts: job.data.prompts,
+			visualTypes: job.data.visualTypes,
+			model: job.data.model,
+			provider: job.data.provider,
+			priority: job.opts.priority ?? generation.queue_priority ?? GenerationPriority.NORMAL,
+			workspace_id: job.data.workspaceId ?? null,
+			resume: job.data.resume,
+			forceFresh: job.data.forceFresh,
+		};
+	}
+
+	/**
+	 * The generation's Bull job (any state), or null when there is none
+	 */
+	async findJob(generationId: string): Promise<Job<GenerationJobData> | null> {
+		return (await this.generationQueue.getJob(this.jobId(generationId))) || null;
+	}
+
+	/**
+	 * Whether a worker is running the generation's job right now
+	 */
+	async isRunning(generationId: string): Promise<boolean> {
+		const job = await this.generationQueue.getJob(this.jobId(generationId));
+		return !!job && (await job.getState()) === 'active';
+	}
+
+	/**
+	 * Ask the worker running a generation to pause or cancel it (stored in Redis,
+	 * so it reaches the worker whichever API instance received the request)
+	 */
+	async requestControl(generationId: string, action: GenerationControlAction): Promise<void> {
+		await this.generationQueue.client.set(this.controlKey(generationId), action, 'EX', CONTROL_TTL_SECONDS);
+	}
+
+	async getControl(generationId: string): Promise<GenerationControlAction | null> {
+		const action = await this.generationQueue.client.get(this.controlKey(generationId));
+		return action === 'pause' || action === 'cancel' ? action : null;
+	}
+
+	async clearControl(generationId: string): Promise<void> {
+		await this.generationQueue.client.del(this.controlKey(generationId));
+	}
+
+	/**
+	 * Queue state of a generation (null when it is not queued)
+	 */
+	async getQueuePosition(generation: Generation): Promise<GenerationQueuePosition | null> {
+		const waiting = await this.generationQueue.getJobs(['waiting'], 0, -1, true);
+		const activeCount = await this.generationQueue.getActiveCount();
+		const queueLength = waiting.length + activeCount;
+
+		if (generation.deferred_job && generation.status === GenerationStatus.PENDING) {
+			const deferred = this.orderForRelease(await this.getDeferred(), await this.getQueueUsage());
+			const rank = deferred.findIndex((item) => item.id === generation.id);
+			return {
+				state: 'deferred',
+				position: rank >= 0 ? waiting.length + rank + 1 : null,
+				priority: generation.deferred_job.priority,
+				queue_length: queueLength,
+			};
+		}
+
+		const job = await this.generationQueue.getJob(this.jobId(generation.id));
+		if (!job) return null;
+
+		const state = await job.getState();
+		const priority = job.opts.priority ?? generation.queue_priority ?? null;
+
+		if (state === 'waiting') {
+			const index = waiting.findIndex((item) => item.id === job.id);
+			return { state: 'waiting', position: index >= 0 ? index + 1 : null, priority, queue_length: queueLength };
+		}
+		if (state === 'active') {
+			return { state: 'active', position: 0, priority, queue_length: queueLength };
+		}
+		if (state === 'delayed') {
+			return { state: 'delayed', position: null, priority, queue_length: queueLength };
+		}
+
+		return null;
+	}
+
+	private async releaseNext(): Promise<void> {
+		let deferred = await this.getDeferred();
+		if (!deferred.length) return;
+
+		const usage = await this.getQueueUsage();
+		let released = 0;
+
+		while (deferred.length) {
+			const [next] = this.orderForRelease(deferred, usage).filter((generation) =>
+				this.hasCapacity(usage, generation.user_id, generation.deferred_job?.workspace_id ?? null),
+			);
+			if (!next) break;
+
+			deferred = deferred.filter((generation) => generation.id !== next.id);
+
+			const job = next.deferred_job;
+			try {
+				await this.addJob(next, job);
+				this.markQueued(next, job);
+				await this.generationsRepository.save(next);
+				released++;
+			} catch (err: any) {
+				this.logger.error(`❌ Could not enqueue deferred generation ${next.id}: ${err.message}`);
+				next.deferred_job = null;
+				next.status = GenerationStatus.FAILED;
+				next.current_step = 'queue_failed';
+				await this.generationsRepository.save(next);
+				continue;
+			}
+
+			usage.users.set(next.user_id, (usage.users.get(next.user_id) || 0) + 1);
+			if (job.workspace_id) {
+				usage.workspaces.set(job.workspace_id, (usage.workspaces.get(job.workspace_id) || 0) + 1);
+			}
+		}
+
+		if (released > 0) {
+			this.logger.log(`▶️ Released ${released} deferred generation(s), ${deferred.length} still waiting`);
+		}
+	}
+
+	/**
+	 * Run fn while holding the admission lock
+	 * @throws ServiceUnavailableException when the lock is not free within ADMISSION_LOCK_WAIT_MS
+	 */
+	private async withAdmissionLock<T>(fn: () => Promise<T>): Promise<T> {
+		const client = this.generationQueue.client;
+		const token = randomUUID();
+		const deadline = Date.now() + ADMISSION_LOCK_WAIT_MS;
+
+		while ((await client.set(ADMISSION_LOCK_KEY, token, 'PX', ADMISSION_LOCK_TTL_MS, 'NX')) !== 'OK') {
+			if (Date.now() >= deadline) {
+				throw new ServiceUnavailableException(QueueMessage.QUEUE_BUSY);
+			}
+			await new Promise((resolve) => setTimeout(resolve, ADMISSION_LOCK_RETRY_MS));
+		}
+
+		try {
+			return await fn();
+		} finally {
+			await client.eval(RELEASE_LOCK_SCRIPT, 1, ADMISSION_LOCK_KEY, token);
+		}
+	}
+
+	/**
+	 * Release order: priority, then the user with the fewest queued jobs, then oldest
+	 */
+	private orderForRelease(deferred: Generation[], usage: QueueUsage): Generation[] {
+		return [...deferred].sort((a, b) => {
+			const priority = (a.deferred_job?.priority ?? 0) - (b.deferred_job?.priority ?? 0);
+			if (priority !== 0) return priority;
+
+			const load = (usage.users.get(a.user_id) || 0) - (usage.users.get(b.user_id) || 0);
+			if (load !== 0) return load;
+
+			return (a.queued_at?.getTime() ?? 0) - (b.queued_at?.getTime() ?? 0);
+		});
+	}
+
+	private getDeferred(): Promise<Generation[]> {
+		return this.generationsRepository.find({
+			where: { status: GenerationStatus.PENDING, deferred_job: Not(IsNull()) },
+			order: { queued_at: 'ASC' },
+		});
+	}
+
+	private async addJob(generation: Generation, job: DeferredGenerationJob): Promise<Job<GenerationJobData>> {
+		const jobId = this.jobId(generation.id);
+
+		// A pause / cancel left over from an earlier run must not stop this one
+		await this.clearControl(generation.id);
+
+		// A finished job keeps its id; remove it so a re-run is not ignored by Bull
+		const existing = await this.generationQueue.getJob(jobId);
+		if (existing) {
+			const state = await existing.getState();
+			if (state === 'completed' || state === 'failed') {
+				await existing.remove();
+			}
+		}
+
+		return this.generationQueue.add(
+			{
+				generationId: generation.id,
+				prompts: job.prompts,
+				visualTypes: job.visualTypes,
+				model: job.model,
+				provider: job.provider,
+				userId: generation.user_id,
+				workspaceId: job.workspace_id,
+				resume: job.resume,
+				forceFresh: job.forceFresh,
+			},
+			{
+				jobId,
+				priority: job.priority,
+				removeOnComplete: false,
+				removeOnFail: false,
+			},
+		);
+	}
+
+	private markQueued(generation: Generation, job: DeferredGenerationJob): void {
+		generation.status = GenerationStatus.PROCESSING;
+		generation.completed_at = null;
+		generation.deferred_job = null;
+		generation.queue_priority = job.priority;
+		generation.queued_at = new Date();
+		if (generation.current_step === QUEUE_DEFERRED_STEP) {
+			generation.current_step = null;
+		}
+	}
+
+	/**
+	 * Jobs per user / workspace currently waiting, running or delayed in Bull
+	 */
+	private async getQueueUsage(): Promise<QueueUsage> {
+		const jobs = await this.generationQueue.getJobs(['waiting', 'active', 'delayed', 'paused']);
+		const usage: QueueUsage = { users: new Map(), workspaces: new Map() };
+
+		for (const job of jobs) {
+			const { userId, workspaceId } = job?.data || ({} as GenerationJobData);
+			if (userId) usage.users.set(userId, (usage.users.get(userId) || 0) + 1);
+			if (workspaceId) usage.workspaces.set(workspaceId, (usage.workspaces.get(workspaceId) || 0) + 1);
+		}
+
+		return usage;
+	}
+
+	private hasCapacity(usage: QueueUsage, userId: string, workspaceId: string | null): boolean {
+		const maxPerUser = this.configService.get<number>('queue.maxActivePerUser') ?? 2;
+		const maxPerWorkspace = this.configService.get<number>('queue.maxActivePerWorkspace') ?? 4;
+
+		if ((usage.users.get(userId) || 0) >= maxPerUser) return false;
+		if (workspaceId && (usage.workspaces.get(workspaceId) || 0) >= maxPerWorkspace) return false;
+		return true;
+	}
+
+	private jobId(generationId: string): string {
+		return `generation-${generationId}`;
+	}
+
+	private controlKey(generationId: string): string {
+		return `generation-control:${generationId}`;
+	}
+}
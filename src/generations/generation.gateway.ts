@@ -149,4 +149,29 @@ export class GenerationGateway implements OnGatewayConnection, OnGatewayDisconne
 	) {
 		this.emitToGeneration(generationId, 'generation_complete', payload);
 	}
+
+	/** Review comment added / resolved / reopened / deleted on a visual */
+	emitVisualComment(
+		generationId: string,
+		payload: {
+			action: 'created' | 'resolved' | 'reopened' | 'deleted';
+			visual_index: number;
+			comment_id: string;
+			parent_id: string | null;
+			comment?: any;
+		},
+	) {
+		this.emitToGeneration(generationId, 'visual_comment', payload);
+	}
+
+	/** Generation paused / resumed / cancelled (or a pause / cancel was requested) */
+	emitGenerationState(
+		generationId: string,
+		payload: {
+			status: string;
+			action: 'pause_requested' | 'paused' | 'resumed' | 'cancel_requested' | 'cancelled';
+		},
+	) {
+		this.emitToGeneration(generationId, 'generation_state', payload);
+	}
 }
@@ -1,16 +1,21 @@
 import { Processor, Process, OnQueueActive, OnQueueCompleted, OnQueueFailed } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Job } from 'bull';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Generation } from '../database/entities/generation.entity';
 import { Product } from '../database/entities/product.entity';
-import { VertexImagenService } from '../ai/vertex-imagen.service';
-import { GenerationStatus } from '../libs/enums';
+import { GenerationPriority, GenerationStatus, VisualVersionSource } from '../libs/enums';
 import { GenerationsService } from './generations.service';
-import { FilesService } from '../files/files.service';
+import { GenerationBatchesService } from './generation-batches.service';
+import { GenerationSchedulerService } from './generation-scheduler.service';
 import { PromptBuilder } from '../common/utils/prompt-builder.util';
+import { BUILTIN_SHOT_CODES } from '../common/interfaces/shot-catalog.interface';
 import { GenerationGateway } from './generation.gateway';
+import { VisualVersionsService } from './visual-versions.service';
+import { UsageContext } from '../usage/usage-context';
+import { GenerationControlAction } from '../common/interfaces/generation-queue.interface';
 
 import { PromptBuilderService } from '../ai/prompt-builder.service';
 
@@ -19,6 +24,15 @@ export interface GenerationJobData {
 	prompts: string[];
 	visualTypes?: string[];
 	model?: string;
+	/** Image provider name (gemini | openai | fake); resolved by GenerationsService.generate */
+	provider?: string;
+	/** Owner and workspace, used by GenerationSchedulerService for per-user / per-workspace caps */
+	userId?: string;
+	workspaceId?: string | null;
+	/** Keep visuals not in this run (resume after pause) */
+	resume?: boolean;
+	/** Skip the generation cache (GenerateDto.force_fresh) */
+	forceFresh?: boolean;
 }
 
 @Processor('generation')
@@ -31,11 +45,13 @@ export class GenerationProcessor {
 		private readonly generationsRepository: Repository<Generation>,
 		@InjectRepository(Product)
 		private readonly productsRepository: Repository<Product>,
-		private readonly vertexImagenService: VertexImagenService,
 		private readonly generationsService: GenerationsService,
-		private readonly filesService: FilesService,
+		private readonly generationBatchesService: GenerationBatchesService,
+		private readonly generationScheduler: GenerationSchedulerService,
 		private readonly generationGateway: GenerationGateway,
 		private readonly promptBuilderService: PromptBuilderService,
+		private readonly visualVersionsService: VisualVersionsService,
+		private readonly configService: ConfigService,
 	) { }
 
 	/**
@@ -84,7 +100,12 @@ export class GenerationProcessor {
 
 	@Process()
 	async processGeneration(job: Job<GenerationJobData>): Promise<void> {
-		const { generationId, prompts, visualTypes, model } = job.data;
+		// Attribute every AI call of this job (incl. QA) to the generation
+		return UsageContext.run({ generation_id: job.data.generationId }, () => this.runGeneration(job));
+	}
+
+	private async runGeneration(job: Job<GenerationJobData>): Promise<void> {
+		const { generationId, prompts, visualTypes, model, provider, resume } = job.data;
 
 		this.logger.log(`🚀 [PROCESSOR] Starting job ${job.id} for generation ${generationId}`);
 		this.logger.log(`🚀 [PROCESSOR] Processing generation ${generationId} with ${prompts.length} prompts`);
@@ -110,13 +131,40 @@ export class GenerationProcessor {
 			await this.generationsRepository.save(generation);
 
 			// Initialize visuals array with structure
-			// Use provided visualTypes if available, otherwise fall back to index-based
-			const visuals: any[] = prompts.map((prompt, index) => ({
-				type: visualTypes && visualTypes[index] ? visualTypes[index] : this.getVisualType(index),
-				prompt,
-				status: 'pending',
-				index,
-			}));
+			// Use provided visualTypes if available, otherwise fall back to the shot catalog order of merged_prompts
+			const mergedPrompts = (generation.merged_prompts || {}) as Record<string, any>;
+			const catalogOrder = Object.keys(mergedPrompts);
+			const previousVisuals: any[] = generation.visuals || [];
+			// Visuals finished by an earlier attempt of this same job (retry / stalled job picked up
+			// again after a restart) carry its run id and are kept instead of generated again
+			const runId = this.getRunId(job);
+			const restored = new Set<number>();
+			// A resumed run keeps the other visuals; a fresh run replaces the list.
+			// targets[n] = index in visuals of the shot built from prompts[n]
+			const visuals: any[] = resume ? [...previousVisuals] : [];
+			const targets: number[] = prompts.map((prompt, n) => {
+				const type = visualTypes && visualTypes[n] ? visualTypes[n] : this.getVisualType(n, catalogOrder);
+				// Carry over earlier takes so a re-run adds to the candidate history
+				const previous = previousVisuals.find((v: any) => v?.type === type);
+				const existing = resume ? visuals.findIndex((v: any) => v?.type === type) : -1;
+				const index = existing >= 0 ? existing : visuals.length;
+				if (previous?.run_id === runId && previous?.status === 'completed' && previous?.image_url) {
+					visuals[index] = { ...previous, index };
+					restored.add(n);
+					return index;
+				}
+				visuals[index] = {
+					type,
+					prompt,
+					status: 'pending',
+					index,
+					...(Array.isArray(previous?.candidates) ? { candidates: previous.candidates } : {}),
+				};
+				return index;
+			});
+			if (restored.size) {
+				this.logger.log(`♻️ Resuming generation ${generationId}: ${restored.size}/${prompts.length} visuals already done`);
+			}
 
 			generation.visuals = visuals;
 			await this.generationsRepository.save(generation);
@@ -125,29 +173,33 @@ export class GenerationProcessor {
 			this.logger.log(`🚀 STARTING PARALLEL GENERATION: ${prompts.length} images for generation ${generationId}`);
 
 			// Mark all as processing
-			visuals.forEach(v => v.status = 'processing');
+			targets.forEach((i, n) => {
+				if (!restored.has(n)) visuals[i].status = 'processing';
+			});
 			generation.visuals = visuals;
 			await this.generationsRepository.save(generation);
 
 			// Start progress interval for real-time updates
 			const generationStartTime = generation.started_at || new Date();
-			let completedCount = 0;
+			let completedCount = restored.size;
 			this.startProgressInterval(generationId, generationStartTime, prompts.length, () => completedCount);
 
-			// Emit initial progress (0%)
+			// Emit initial progress (0% unless resuming)
 			this.generationGateway.emitProgress(generationId, {
-				progress_percent: 0,
-				completed: 0,
+				progress_percent: Math.round((restored.size / prompts.length) * 100),
+				completed: restored.size,
 				total: prompts.length,
 				elapsed_seconds: 0,
 			});
 
-			const imagenModel = model || process.env.VERTEX_IMAGEN_MODEL || 'imagen-3.0-generate-002';
+			const imageProvider = provider || generation.image_provider;
+			const cacheOptions = await this.generationsService.getCacheOptions(generation, job.data.forceFresh);
 
-			// Process ALL images in parallel
-			const imagePromises = prompts.map(async (prompt, i) => {
+			const generateVisual = async (n: number) => {
+				const i = targets[n];
+				const prompt = prompts[n];
 				const visualType = visuals[i]?.type || `visual_${i}`;
-				this.logger.log(`🎨 [${i + 1}/${prompts.length}] Starting ${visualType}...`);
+				this.logger.log(`🎨 [${n + 1}/${prompts.length}] Starting ${visualType}...`);
 
 				// Emit visual_processing event so frontend shows "Generating..." state
 				this.generationGateway.emitVisualProcessing(generationId, {
@@ -156,10 +208,11 @@ export class GenerationProcessor {
 					status: 'processing',
 				});
 
-				// Enhance prompt based on shot type (duo/solo get photorealistic human injection)
-				let enhancedPrompt = PromptBuilder.enhanceForShotType(prompt, visualType);
+				// Enhance prompt based on shot type (human model shots get photorealistic human injection)
+				const requiresHuman: boolean | undefined = mergedPrompts[visualType]?.requires_human;
+				let enhancedPrompt = PromptBuilder.enhanceForShotType(prompt, visualType, requiresHuman);
 				if (enhancedPrompt !== prompt) {
-					this.logger.log(`🔧 [${i + 1}] Enhanced prompt for ${visualType} (human model shot)`);
+					this.logger.log(`🔧 [${n + 1}] Enhanced prompt for ${visualType} (human model shot)`);
 				}
 
 				// 🚀 Apply Resolution Keywords (4K/2K)
@@ -167,48 +220,39 @@ export class GenerationProcessor {
 					const originalPrompt = enhancedPrompt;
 					enhancedPrompt = this.promptBuilderService.applyResolutionKeywords(enhancedPrompt, generation.resolution);
 					if (enhancedPrompt !== originalPrompt) {
-						this.logger.log(`🔧 [${i + 1}] Applied resolution keywords for ${generation.resolution}`);
+						this.logger.log(`🔧 [${n + 1}] Applied resolution keywords for ${generation.resolution}`);
 					}
 				}
 
 				try {
-					const result = await this.vertexImagenService.generateImage(
+					// N candidates per shot; the first successful take is selected
+					const candidates = await this.generationsService.generateCandidates(
 						enhancedPrompt,
-						imagenModel,
-						generation.aspect_ratio,
-						generation.resolution
+						generation.candidates_per_shot,
+						{
+							aspectRatio: generation.aspect_ratio,
+							resolution: generation.resolution,
+							provider: imageProvider,
+							model,
+							cache: cacheOptions,
+						},
 					);
 
-					// Save image
-					let imageUrl: string | null = null;
-					let imageFilename: string | null = null;
-					if (result.data) {
-						try {
-							const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
-							imageUrl = storedFile.url;
-							imageFilename = storedFile.filename;
-						} catch (fileError: any) {
-							this.logger.error(`❌ Save failed for ${visualType}: ${fileError.message}`);
-							imageUrl = `data:${result.mimeType};base64,${result.data}`;
-						}
-					}
-
 					// Update visual immediately
-					visuals[i] = {
-						...visuals[i],
-						prompt,
-						mimeType: result.mimeType,
-						status: 'completed',
-						image_url: imageUrl,
-						image_filename: imageFilename,
-						generated_at: new Date().toISOString(),
-					};
+					visuals[i] = this.generationsService.applyCandidates({ ...visuals[i], prompt }, candidates);
+					if (visuals[i].status !== 'completed') {
+						throw new Error(visuals[i].error);
+					}
+					// Checkpoint: a later attempt of this job keeps this visual
+					visuals[i].run_id = runId;
+					const imageUrl: string | null = visuals[i].image_url;
 
 					// Save to DB immediately so frontend can see it
 					generation.visuals = [...visuals];
 					await this.generationsRepository.save(generation);
+					await this.visualVersionsService.record(generationId, i, visuals[i], VisualVersionSource.GENERATION, generation.user_id);
 
-					this.logger.log(`✅ [${i + 1}/${prompts.length}] ${visualType} completed!`);
+					this.logger.log(`✅ [${n + 1}/${prompts.length}] ${visualType} completed!`);
 
 					// Update completed count for progress interval
 					completedCount++;
@@ -228,7 +272,7 @@ export class GenerationProcessor {
 					});
 
 					// Update progress
-					const completed = visuals.filter(v => v.status === 'completed' || v.status === 'failed').length;
+					const completed = targets.filter(t => visuals[t].status === 'completed' || visuals[t].status === 'failed').length;
 					generation.progress_percent = Math.round((completed / prompts.length) * 100);
 					generation.completed_visuals_count = visuals.filter(v => v.status === 'completed').length;
 					await this.generationsRepository.save(generation);
@@ -251,7 +295,7 @@ export class GenerationProcessor {
 
 					return { success: true, index: i };
 				} catch (error: any) {
-					this.logger.error(`❌ [${i + 1}/${prompts.length}] ${visualType} failed: ${error?.message}`);
+					this.logger.error(`❌ [${n + 1}/${prompts.length}] ${visualType} failed: ${error?.message}`);
 
 					// Update completed count for progress interval (failed also counts as processed)
 					completedCount++;
@@ -264,8 +308,9 @@ export class GenerationProcessor {
 
 					generation.visuals = [...visuals];
 					await this.generationsRepository.save(generation);
+					await this.visualVersionsService.record(generationId, i, visuals[i], VisualVersionSource.GENERATION, generation.user_id);
 
-					const completed = visuals.filter(v => v.status === 'completed' || v.status === 'failed').length;
+					const completed = targets.filter(t => visuals[t].status === 'completed' || visuals[t].status === 'failed').length;
 					generation.progress_percent = Math.round((completed / prompts.length) * 100);
 					generation.completed_visuals_count = visuals.filter(v => v.status === 'completed').length;
 					await this.generationsRepository.save(generation);
@@ -294,48 +339,64 @@ export class GenerationProcessor {
 
 					return { success: false, index: i, error: error?.message };
 				}
+			};
+
+			// Visuals run a few at a time; pause / cancel take effect before the next one starts
+			const visualConcurrency = Math.max(1, this.configService.get<number>('image.visualConcurrency') ?? 3);
+			const pending = prompts.map((_, n) => n).filter((n) => !restored.has(n));
+			await this.runWithConcurrency(pending, visualConcurrency, async (n) => {
+				if (await this.generationScheduler.getControl(generationId)) return;
+				await generateVisual(n);
 			});
 
-			// Wait for all to complete
-			await Promise.allSettled(imagePromises);
-
 			// Stop progress interval
 			this.stopProgressInterval(generationId);
 
+			// Pause / cancel requested: visuals that never started are held or dropped
+			const control = await this.generationScheduler.getControl(generationId);
+			const unstarted = targets.filter((i) => visuals[i].status === 'processing');
+			if (control && unstarted.length) {
+				await this.stopRun(job, generation, visuals, unstarted, control);
+				return;
+			}
+			if (control) {
+				await this.generationScheduler.clearControl(generationId);
+			}
+
 			job.progress(100);
 
 			// Check final results after sequential processing is complete
 			this.logger.log(`🏁 All image generations finished for ${generationId}`);
 
 			const allCompleted = visuals.every((v) => v.status === 'completed');
-			const allFailed = visuals.every((v) => v.status === 'failed');
-			const anyFailed = visuals.some((v) => v.status === 'failed');
 			const finalCompletedCount = visuals.filter((v) => v.status === 'completed').length;
 			const failedCount = visuals.filter((v) => v.status === 'failed').length;
 
 			this.logger.log(`📊 Final results: ${finalCompletedCount} completed, ${failedCount} failed out of ${visuals.length} total`);
 
 			// Status logic per spec:
-			// if all failed → failed
+			// if nothing completed → failed
 			// if partial → completed (partial success is still completion)
 			// if all success → completed
-			if (allFailed) {
+			// Visuals outside this run (e.g. cancelled earlier) count as not completed
+			if (finalCompletedCount === 0) {
 				generation.status = GenerationStatus.FAILED;
-				this.logger.error(`❌ Generation ${generationId} failed - all ${visuals.length} images failed`);
+				this.logger.error(`❌ Generation ${generationId} failed - no images completed`);
 			} else if (allCompleted) {
 				generation.status = GenerationStatus.COMPLETED;
 				generation.completed_at = new Date();
 				this.logger.log(`🎉 Generation ${generationId} completed successfully - all ${visuals.length} images generated!`);
-			} else if (anyFailed) {
-				// Partial success - mark as completed but with errors
+			} else {
 				generation.status = GenerationStatus.COMPLETED;
 				generation.completed_at = new Date();
-				this.logger.warn(`⚠️ Generation ${generationId} completed with ${failedCount} failures, ${completedCount} succeeded`);
+				// Partial success - mark as completed but with errors
+				this.logger.warn(`⚠️ Generation ${generationId} completed with ${visuals.length - finalCompletedCount} images not generated, ${completedCount} succeeded`);
 			}
 
 			// Final progress update
 			generation.progress_percent = 100;
 			generation.completed_visuals_count = completedCount;
+			this.generationsService.refreshReviewStatus(generation);
 
 			this.logger.log(`📊 Generation ${generationId} finished: ${completedCount} completed, ${failedCount} failed`);
 
@@ -349,7 +410,7 @@ export class GenerationProcessor {
 				visuals: generation.visuals,
 			});
 
-			// Save generated image filenames to product for quick access later
+			// Save approved image filenames to product (new images wait for review)
 			if (generation.product_id && completedCount > 0) {
 				try {
 					const product = await this.productsRepository.findOne({
@@ -359,7 +420,7 @@ export class GenerationProcessor {
 					if (product) {
 						const generatedImages: Record<string, string> = {};
 						for (const visual of visuals) {
-							if (visual.status === 'completed' && visual.image_filename) {
+							if (this.generationsService.isVisualApproved(visual) && visual.image_filename) {
 								generatedImages[visual.type] = visual.image_filename;
 							}
 						}
@@ -375,6 +436,15 @@ export class GenerationProcessor {
 				}
 			}
 
+			// Post-generation QA + color check (may regenerate low-scoring shots when auto-retry is on)
+			if (completedCount > 0 && this.generationsService.isVisualQaEnabled()) {
+				try {
+					await this.generationsService.runVisualQa(generationId, generation.user_id);
+				} catch (err: any) {
+					this.logger.warn(`⚠️ QA failed for generation ${generationId}: ${err.message}`);
+				}
+			}
+
 			// Pre-generate ZIP archive when all images are completed (background, non-blocking)
 			if (allCompleted && completedCount > 0) {
 				this.generationsService.preGenerateZipArchive(generationId).catch((err) => {
@@ -407,17 +477,100 @@ export class GenerationProcessor {
 	}
 
 	@OnQueueCompleted()
-	onCompleted(job: Job) {
+	onCompleted(job: Job<GenerationJobData>) {
 		this.logger.log(`Job ${job.id} completed`);
+		this.onJobSettled(job);
 	}
 
 	@OnQueueFailed()
-	onFailed(job: Job, error: Error) {
+	onFailed(job: Job<GenerationJobData>, error: Error) {
 		this.logger.error(`Job ${job.id} failed: ${error.message}`, error.stack);
+		// Only after the last attempt; a retried job keeps its queue slot
+		if (job.attemptsMade >= (job.opts.attempts || 1)) {
+			this.onJobSettled(job);
+		}
+	}
+
+	/**
+	 * A queue slot is free: release deferred work first (oldest requests), then feed the job's batch
+	 */
+	private onJobSettled(job: Job<GenerationJobData>): void {
+		this.generationScheduler
+			.releaseDeferred()
+			.then(() => this.generationBatchesService.onGenerationSettled(job.data.generationId))
+			.catch((err) => this.logger.warn(`⚠️ Failed to schedule next generation: ${err.message}`));
+	}
+
+	/**
+	 * End a paused / cancelled run. Visuals that never started become 'paused'
+	 * (kept as the deferred job for resume) or 'cancelled'.
+	 */
+	private async stopRun(
+		job: Job<GenerationJobData>,
+		generation: Generation,
+		visuals: any[],
+		unstarted: number[],
+		action: GenerationControlAction,
+	): Promise<void> {
+		const { generationId } = job.data;
+		const status = action === 'cancel' ? GenerationStatus.CANCELLED : GenerationStatus.PAUSED;
+
+		for (const index of unstarted) {
+			visuals[index] = { ...visuals[index], status: action === 'cancel' ? 'cancelled' : 'paused' };
+		}
+
+		if (action === 'pause') {
+			// Resume generates only the visuals that never started
+			generation.deferred_job = {
+				prompts: unstarted.map((index) => visuals[index].prompt),
+				visualTypes: unstarted.map((index) => visuals[index].type),
+				model: job.data.model,
+				provider: job.data.provider,
+				priority: job.opts.priority ?? generation.queue_priority ?? GenerationPriority.NORMAL,
+				workspace_id: job.data.workspaceId ?? null,
+				resume: true,
+				forceFresh: job.data.forceFresh,
+			};
+		}
+
+		generation.visuals = [...visuals];
+		generation.status = status;
+		generation.current_step = status;
+		generation.completed_visuals_count = visuals.filter((v) => v.status === 'completed').length;
+		this.generationsService.refreshReviewStatus(generation);
+
+		await this.generationsRepository.save(generation);
+		await this.generationScheduler.clearControl(generationId);
+
+		this.generationsService.emitGenerationState(generationId, generation.user_id, status, action === 'cancel' ? 'cancelled' : 'paused');
+
+		this.logger.log(`⏹️ Generation ${generationId} ${status}: ${unstarted.length} visual(s) not started`);
+	}
+
+	/**
+	 * Id of this Bull job run: the same for every attempt and stalled re-run of the job,
+	 * different for each new job added under the generation's job id
+	 */
+	private getRunId(job: Job<GenerationJobData>): string {
+		return `${job.id}@${job.timestamp}`;
+	}
+
+	/**
+	 * Run worker over items with at most `limit` in flight, in order
+	 */
+	private async runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+		let next = 0;
+		const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+			while (next < items.length) {
+				const item = items[next++];
+				await worker(item);
+			}
+		});
+		await Promise.all(lanes);
 	}
 
-	private getVisualType(index: number): string {
-		const types = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
+	private getVisualType(index: number, catalogOrder: string[]): string {
+		const types = catalogOrder.length ? catalogOrder : BUILTIN_SHOT_CODES;
 		return types[index] || `visual_${index + 1}`;
 	}
 
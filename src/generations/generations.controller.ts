@@ -1,13 +1,19 @@
 import { BadRequestException, Body, Controller, Get, Param, Post, Query, Res, StreamableFile, UseGuards } from '@nestjs/common';
 import { Response } from 'express';
-import { GenerationsService } from './generations.service';
+import { GenerationReviewSummary, GenerationsService } from './generations.service';
+import { VisualCommentThread, VisualCommentView } from './visual-comments.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
-import { CreateGenerationDto, GenerateDto, UpdateGenerationDto, MergePromptsDto, UpdateMergedPromptsDto } from '../libs/dto';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { CreateGenerationDto, GenerateDto, UpdateGenerationDto, MergePromptsDto, UpdateMergedPromptsDto, SelectCandidateDto, RollbackVisualDto, EditVisualDto, ReviewVisualDto, SignOffGenerationDto, CreateVisualCommentDto } from '../libs/dto';
+import { TokenScope } from '../libs/enums';
 import { User } from '../database/entities/user.entity';
 import { Generation } from '../database/entities/generation.entity';
 import { MergedPrompts } from '../common/interfaces/merged-prompts.interface';
+import { VisualVersion } from '../database/entities/visual-version.entity';
+import { VisualColorCheck } from '../common/interfaces/visual-qa.interface';
+import { GenerationCacheStats } from '../common/interfaces/generation-cache.interface';
 
 @Controller('generations')
 @UseGuards(JwtAuthGuard)
@@ -30,6 +36,7 @@ export class GenerationsController {
 	 * - model_type (optional): 'adult' or 'kid' (default: 'adult')
 	 */
 	@Post('create')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async createSimple(
 		@CurrentUser() user: User,
 		@Body() body: { product_id: string; da_preset_id: string; model_type?: 'adult' | 'kid' },
@@ -81,6 +88,7 @@ export class GenerationsController {
 	 * Step 1: Build prompts from Product + DA (No generation yet)
 	 */
 	@Post(':id/build-prompts')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async buildPrompts(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -94,6 +102,7 @@ export class GenerationsController {
 	 * Step 2: Save user edits to the prompts
 	 */
 	@Post(':id/save-prompts') // Using POST to match REST pattern in this project, or PUT if prefer
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async savePrompts(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -109,16 +118,19 @@ export class GenerationsController {
 	 * POST /api/generations/:id/generate-images
 	 * 
 	 * Step 3: Generate images (Partial or Full)
-	 * Body: { selected_shots: ['duo', 'solo'] }
+	 * Body: { selected_shots: ['duo', 'solo'], candidates?: 3, force_fresh?: true }
 	 */
 	@Post(':id/generate-images')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async generateImages(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
-		@Body() body: { selected_shots?: string[] },
+		@Body() body: { selected_shots?: string[]; candidates?: number; force_fresh?: boolean },
 	): Promise<{ success: boolean; generation: Generation; message: string }> {
 		const generation = await this.generationsService.generateVisuals(id, user.id, {
-			selected_shots: body.selected_shots
+			selected_shots: body.selected_shots,
+			candidates: body.candidates,
+			force_fresh: body.force_fresh === true,
 		});
 
 		const visuals = generation.visuals || [];
@@ -136,6 +148,7 @@ export class GenerationsController {
 	 * @deprecated Use split workflow instead
 	 */
 	@Post(':id/execute')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async execute(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -171,6 +184,7 @@ export class GenerationsController {
 	 * Gets generation details including product and DA preset info.
 	 */
 	@Get(':id/details')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async getDetails(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -178,13 +192,20 @@ export class GenerationsController {
 		generation: Generation;
 		prompts: any;
 		images: Record<string, string>;
+		color_checks: Array<VisualColorCheck & { index: number; type: string }>;
 	}> {
 		const generation = await this.generationsService.getGenerationDetails(id, user.id);
 
+		// Flat list so merchandisers can spot off-color renders without opening every visual
+		const colorChecks = (generation.visuals || [])
+			.map((visual: any, index: number) => (visual?.color_check ? { index, type: visual.type, ...visual.color_check } : null))
+			.filter(Boolean);
+
 		return {
 			generation,
 			prompts: generation.merged_prompts,
 			images: generation.generated_images || {},
+			color_checks: colorChecks,
 		};
 	}
 
@@ -193,11 +214,13 @@ export class GenerationsController {
 	// ═══════════════════════════════════════════════════════════════════════════
 
 	@Post('createGeneration')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async createGeneration(@CurrentUser() user: User, @Body() dto: CreateGenerationDto): Promise<Generation> {
 		return this.generationsService.create(user.id, dto);
 	}
 
 	@Get('getAllGenerations')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async getAllGenerations(
 		@CurrentUser() user: User,
 		@Query('product_id') productId?: string,
@@ -218,6 +241,7 @@ export class GenerationsController {
 	}
 
 	@Get('getGeneration/:id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async getGeneration(@Param('id') id: string, @CurrentUser() user: User): Promise<Generation> {
 		return this.generationsService.getWithDetails(id, user.id);
 	}
@@ -232,6 +256,7 @@ export class GenerationsController {
 	 * - Resolution and aspect_ratio for prompt quality and image shape
 	 */
 	@Post(':id/merge')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async mergePrompts(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -261,6 +286,7 @@ export class GenerationsController {
 	 * PUT /api/generations/:id/prompts
 	 */
 	@Post('updateMergedPrompts/:id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async updateMergedPrompts(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -299,15 +325,45 @@ export class GenerationsController {
 	}
 
 	@Post(':id/generate')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async generate(@Param('id') id: string, @CurrentUser() user: User, @Body() dto: GenerateDto): Promise<Generation> {
 		return this.generationsService.generate(id, user.id, dto);
 	}
 
 	@Post('reset/:id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async resetGeneration(@Param('id') id: string, @CurrentUser() user: User): Promise<Generation> {
 		return this.generationsService.resetGeneration(id, user.id);
 	}
 
+	/**
+	 * Cancel a queued / running / paused generation.
+	 * A running job stops before its next visual; finished visuals are kept.
+	 */
+	@Post(':id/cancel')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async cancelGeneration(@Param('id') id: string, @CurrentUser() user: User): Promise<Generation> {
+		return this.generationsService.cancelGeneration(id, user.id);
+	}
+
+	/**
+	 * Pause a queued / running generation (visuals not started yet are held)
+	 */
+	@Post(':id/pause')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async pauseGeneration(@Param('id') id: string, @CurrentUser() user: User): Promise<Generation> {
+		return this.generationsService.pauseGeneration(id, user.id);
+	}
+
+	/**
+	 * Resume a paused generation (goes back through the queue)
+	 */
+	@Post(':id/resume')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async resumeGeneration(@Param('id') id: string, @CurrentUser() user: User): Promise<Generation> {
+		return this.generationsService.resumeGeneration(id, user.id);
+	}
+
 	@Get('debug/config')
 	async debugConfig(@CurrentUser() user: User): Promise<{
 		gemini_configured: boolean;
@@ -317,6 +373,15 @@ export class GenerationsController {
 		return this.generationsService.debugConfig();
 	}
 
+	/**
+	 * GET /api/generations/getImageProviders
+	 * Lists registered image providers (gemini | openai | fake) with default model and config state.
+	 */
+	@Get('getImageProviders')
+	async getImageProviders() {
+		return this.generationsService.getImageProviders();
+	}
+
 	@Post('debug/test-sse/:id')
 	@Public() // Make this endpoint public for testing
 	async testSSE(@Param('id') generationId: string): Promise<{ message: string }> {
@@ -355,12 +420,22 @@ export class GenerationsController {
 		return this.generationsService.clearQueue();
 	}
 
+	/**
+	 * Generation cache hit stats (own + workspace brands, or one brand)
+	 */
+	@Get('getCacheStats')
+	async getCacheStats(@CurrentUser() user: User, @Query('brand_id') brandId?: string): Promise<GenerationCacheStats> {
+		return this.generationsService.getCacheStats(user.id, brandId);
+	}
+
 	@Get('getProgress/:id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async getProgress(@Param('id') id: string, @CurrentUser() user: User) {
 		return this.generationsService.getGenerationProgress(id, user.id);
 	}
 
 	@Get('download/:id')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async download(
 		@Param('id') id: string,
 		@CurrentUser() user: User,
@@ -390,17 +465,261 @@ export class GenerationsController {
 	}
 
 	@Post(':generationId/visual/:index/retry')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
 	async retryVisual(
 		@Param('generationId') generationId: string,
 		@Param('index') index: string,
 		@CurrentUser() user: User,
-		@Body() dto?: { model?: string },
+		@Body() dto?: { model?: string; provider?: string; candidates?: number; comment_ids?: string[]; apply_open_comments?: boolean; force_fresh?: boolean },
+	): Promise<Generation> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.retryVisual(
+			generationId,
+			user.id,
+			visualIndex,
+			dto?.model,
+			dto?.provider,
+			dto?.candidates,
+			{ comment_ids: dto?.comment_ids, apply_open_comments: dto?.apply_open_comments },
+			dto?.force_fresh === true,
+		);
+	}
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/select
+	 *
+	 * Pick one of the visual's candidates as its image
+	 * Body: { candidate_id: string }
+	 */
+	@Post(':generationId/visual/:index/select')
+	async selectVisualCandidate(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+		@Body() dto: SelectCandidateDto,
+	): Promise<Generation> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.selectVisualCandidate(generationId, user.id, visualIndex, dto.candidate_id);
+	}
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/edit
+	 *
+	 * Edit the current image of a visual with an instruction (image-to-image)
+	 * Body: { instruction: string, provider?: string, comment_ids?: string[], apply_open_comments?: boolean }
+	 */
+	@Post(':generationId/visual/:index/edit')
+	@RequireScopes(TokenScope.GENERATIONS_EXECUTE)
+	async editVisual(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+		@Body() dto: EditVisualDto,
+	): Promise<Generation> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.editVisual(generationId, user.id, visualIndex, dto.instruction.trim(), dto.provider, {
+			comment_ids: dto.comment_ids,
+			apply_open_comments: dto.apply_open_comments,
+		});
+	}
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/qa
+	 *
+	 * Run the QA and color checks for one visual on demand (stored as visual.qa / visual.color_check)
+	 */
+	@Post(':generationId/visual/:index/qa')
+	async checkVisualQa(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+	): Promise<Generation> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.runVisualQa(generationId, user.id, [visualIndex]);
+	}
+
+	/**
+	 * GET /api/generations/:generationId/visual/:index/versions
+	 *
+	 * Version history of a visual (newest first)
+	 */
+	@Get(':generationId/visual/:index/versions')
+	async getVisualVersions(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+	): Promise<VisualVersion[]> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.getVisualVersions(generationId, user.id, visualIndex);
+	}
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/rollback
+	 *
+	 * Restore a visual to an earlier version (recorded as a new version)
+	 * Body: { version_id: string }
+	 */
+	@Post(':generationId/visual/:index/rollback')
+	async rollbackVisual(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+		@Body() dto: RollbackVisualDto,
 	): Promise<Generation> {
 		const visualIndex = parseInt(index, 10);
 		if (isNaN(visualIndex) || visualIndex < 0) {
 			throw new BadRequestException('Invalid visual index');
 		}
 
-		return this.generationsService.retryVisual(generationId, user.id, visualIndex, dto?.model);
+		return this.generationsService.rollbackVisual(generationId, user.id, visualIndex, dto.version_id);
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// COMMENTS
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * GET /api/generations/:generationId/comments?visual_index=0&include_resolved=false
+	 *
+	 * Comment threads (replies nested), oldest first
+	 */
+	@Get(':generationId/comments')
+	async listVisualComments(
+		@Param('generationId') generationId: string,
+		@CurrentUser() user: User,
+		@Query('visual_index') visualIndex?: string,
+		@Query('include_resolved') includeResolved?: string,
+	): Promise<VisualCommentThread[]> {
+		let index: number | undefined;
+		if (visualIndex !== undefined) {
+			index = parseInt(visualIndex, 10);
+			if (isNaN(index) || index < 0) {
+				throw new BadRequestException('Invalid visual index');
+			}
+		}
+
+		return this.generationsService.listVisualComments(generationId, user.id, index, includeResolved !== 'false');
+	}
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/comments
+	 *
+	 * Start a thread or reply
+	 * Body: { body: string, anchor?: { type: 'point', x, y } | { type: 'rect', x, y, width, height }, parent_id?: string }
+	 */
+	@Post(':generationId/visual/:index/comments')
+	async addVisualComment(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+		@Body() dto: CreateVisualCommentDto,
+	): Promise<VisualCommentView> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.addVisualComment(generationId, user.id, visualIndex, dto);
+	}
+
+	@Post(':generationId/comments/:commentId/resolve')
+	async resolveVisualComment(
+		@Param('generationId') generationId: string,
+		@Param('commentId') commentId: string,
+		@CurrentUser() user: User,
+	): Promise<VisualCommentView> {
+		return this.generationsService.setVisualCommentResolved(generationId, user.id, commentId, true);
+	}
+
+	@Post(':generationId/comments/:commentId/reopen')
+	async reopenVisualComment(
+		@Param('generationId') generationId: string,
+		@Param('commentId') commentId: string,
+		@CurrentUser() user: User,
+	): Promise<VisualCommentView> {
+		return this.generationsService.setVisualCommentResolved(generationId, user.id, commentId, false);
+	}
+
+	@Post(':generationId/comments/delete/:commentId')
+	async deleteVisualComment(
+		@Param('generationId') generationId: string,
+		@Param('commentId') commentId: string,
+		@CurrentUser() user: User,
+	): Promise<{ message: string }> {
+		await this.generationsService.deleteVisualComment(generationId, user.id, commentId);
+		return { message: 'Comment deleted successfully' };
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// REVIEW / SIGN-OFF
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * POST /api/generations/:generationId/visual/:index/review
+	 *
+	 * Approve, reject or request changes on a visual (reviewer role)
+	 * Body: { status: 'approved' | 'rejected' | 'needs_changes' | 'pending_review', comment?: string }
+	 */
+	@Post(':generationId/visual/:index/review')
+	async reviewVisual(
+		@Param('generationId') generationId: string,
+		@Param('index') index: string,
+		@CurrentUser() user: User,
+		@Body() dto: ReviewVisualDto,
+	): Promise<Generation> {
+		const visualIndex = parseInt(index, 10);
+		if (isNaN(visualIndex) || visualIndex < 0) {
+			throw new BadRequestException('Invalid visual index');
+		}
+
+		return this.generationsService.reviewVisual(generationId, user.id, visualIndex, dto);
+	}
+
+	/**
+	 * GET /api/generations/:generationId/review
+	 *
+	 * Review status, reviewer comments and decision history of every visual
+	 */
+	@Get(':generationId/review')
+	async getReviewSummary(
+		@Param('generationId') generationId: string,
+		@CurrentUser() user: User,
+	): Promise<GenerationReviewSummary> {
+		return this.generationsService.getReviewSummary(generationId, user.id);
+	}
+
+	/**
+	 * POST /api/generations/:generationId/sign-off
+	 *
+	 * Sign off the generation once every visual is approved or rejected
+	 * Body: { comment?: string }
+	 */
+	@Post(':generationId/sign-off')
+	async signOffGeneration(
+		@Param('generationId') generationId: string,
+		@CurrentUser() user: User,
+		@Body() dto: SignOffGenerationDto,
+	): Promise<Generation> {
+		return this.generationsService.signOffGeneration(generationId, user.id, dto.comment);
 	}
 }
@@ -1,37 +1,51 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { JwtModule } from '@nestjs/jwt';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { GenerationsService } from './generations.service';
 import { GenerationGateway } from './generation.gateway';
 import { GenerationsController } from './generations.controller';
 import { GenerationEventsController } from './generation-events.controller';
+import { GenerationBatchesController } from './generation-batches.controller';
+import { GenerationBatchesService } from './generation-batches.service';
+import { GenerationSchedulerService } from './generation-scheduler.service';
+import { GenerationRecoveryService } from './generation-recovery.service';
+import { GenerationCacheService } from './generation-cache.service';
 import { GenerationProcessor } from './generation.processor';
+import { VisualVersionsService } from './visual-versions.service';
+import { VisualCommentsService } from './visual-comments.service';
+import { VisualQaService } from './visual-qa.service';
+import { VisualColorService } from './visual-color.service';
 import { Generation } from '../database/entities/generation.entity';
 import { Product } from '../database/entities/product.entity';
 import { Collection } from '../database/entities/collection.entity';
+import { Brand } from '../database/entities/brand.entity';
 import { DAPreset } from '../database/entities/da-preset.entity';
+import { User } from '../database/entities/user.entity';
+import { VisualVersion } from '../database/entities/visual-version.entity';
+import { VisualComment } from '../database/entities/visual-comment.entity';
+import { GenerationBatch } from '../database/entities/generation-batch.entity';
+import { GenerationCacheEntry } from '../database/entities/generation-cache-entry.entity';
 import { AiModule } from '../ai/ai.module';
+import { AuthModule } from '../auth/auth.module';
 import { GenerationQueueModule } from './generation.queue';
 import { FilesModule } from '../files/files.module';
+import { ShotsModule } from '../shots/shots.module';
+import { DAModule } from '../da/da.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([Generation, Product, Collection, DAPreset]),
-		JwtModule.registerAsync({
-			imports: [ConfigModule],
-			useFactory: async (configService: ConfigService) => ({
-				secret: configService.get<string>('JWT_SECRET'),
-				signOptions: { expiresIn: '24h' },
-			}),
-			inject: [ConfigService],
-		}),
+		TypeOrmModule.forFeature([Generation, Product, Collection, Brand, DAPreset, User, VisualVersion, VisualComment, GenerationBatch, GenerationCacheEntry]),
+		AuthModule,
 		AiModule,
 		GenerationQueueModule,
 		FilesModule,
+		ShotsModule,
+		DAModule,
+		WorkspacesModule,
 	],
-	controllers: [GenerationsController, GenerationEventsController],
-	providers: [GenerationsService, GenerationProcessor, GenerationGateway],
+	// Batches first so /generations/batches/* is not captured by /generations/:id routes
+	controllers: [GenerationBatchesController, GenerationsController, GenerationEventsController],
+	providers: [GenerationsService, GenerationBatchesService, GenerationSchedulerService, GenerationRecoveryService, GenerationCacheService, GenerationProcessor, GenerationGateway, VisualVersionsService, VisualCommentsService, VisualQaService, VisualColorService],
 	exports: [GenerationsService],
 })
 export class GenerationsModule { }
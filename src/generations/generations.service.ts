@@ -8,30 +8,68 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, Repository } from 'typeorm';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { Subject } from 'rxjs';
 import * as archiver from 'archiver';
+import { randomUUID } from 'crypto';
 
 import { Generation } from '../database/entities/generation.entity';
 import { Product } from '../database/entities/product.entity';
 import { Collection } from '../database/entities/collection.entity';
-import { DAPreset } from '../database/entities/da-preset.entity';
+import { Brand } from '../database/entities/brand.entity';
+import { User } from '../database/entities/user.entity';
+import { VisualVersion } from '../database/entities/visual-version.entity';
 
-import { CreateGenerationDto, GenerateDto, UpdateGenerationDto } from '../libs/dto';
-import { ErrorMessage, GenerationMessage, GenerationStatus, NotFoundMessage, PermissionMessage } from '../libs/enums';
+import { CreateGenerationDto, CreateVisualCommentDto, GenerateDto, ReviewVisualDto, UpdateGenerationDto } from '../libs/dto';
+import {
+	ErrorMessage,
+	GenerationMessage,
+	GenerationPriority,
+	GenerationReviewStatus,
+	GenerationStatus,
+	NotFoundMessage,
+	PermissionMessage,
+	ReviewMessage,
+	VisualReviewStatus,
+	VisualVersionSource,
+	WorkspaceRole,
+} from '../libs/enums';
 import { GenerationJobData } from './generation.processor';
+import { GenerationSchedulerService } from './generation-scheduler.service';
+import { GenerationGateway } from './generation.gateway';
+import { GenerationCacheService } from './generation-cache.service';
 import { VertexImagenService } from '../ai/vertex-imagen.service';
 import { ClaudeService } from '../ai/claude.service';
 import { FilesService } from '../files/files.service';
 import { MergedPrompts } from '../common/interfaces/merged-prompts.interface';
+import { ShotOptions } from '../common/interfaces/shot-options.interface';
+import { MAX_CANDIDATES_PER_SHOT, VisualCandidate, VisualReview, VisualReviewEntry } from '../common/interfaces/visual.interface';
+import { VisualColorCheck, VisualQaResult } from '../common/interfaces/visual-qa.interface';
+import { VisualFeedbackSelection } from '../common/interfaces/visual-comment.interface';
+import { BrandStyleGuide } from '../common/interfaces/brand-style-guide.interface';
+import { GenerationQueuePosition, GenerationStateAction } from '../common/interfaces/generation-queue.interface';
+import { GenerationCacheOptions, GenerationCacheStats } from '../common/interfaces/generation-cache.interface';
 import { AnalyzedProductJSON } from '../common/interfaces/product-json.interface';
 import { AnalyzedDAJSON } from '../common/interfaces/da-json.interface';
 import { PromptBuilderService } from '../ai/prompt-builder.service';
+import { PromptBuilder } from '../common/utils/prompt-builder.util';
+import { ShotsService } from '../shots/shots.service';
+import { VisualVersionsService } from './visual-versions.service';
+import { VisualCommentsService, VisualCommentThread, VisualCommentView } from './visual-comments.service';
+import { VisualQaService } from './visual-qa.service';
+import { VisualColorService } from './visual-color.service';
+import { UsageContext } from '../usage/usage-context';
+import { DAService } from '../da/da.service';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+import { BUILTIN_SHOT_CODES } from '../common/interfaces/shot-catalog.interface';
 import { AnalyzeProductDirectResponse } from '../libs/dto/analyze/analyze-product-direct.dto';
 import { AnalyzeDAPresetResponse } from '../libs/dto/analyze/analyze-da-preset.dto';
 
+/** current_step of a generation run synchronously by the API (not through the queue) */
+const SYNC_RUN_STEP = 'generating_images';
+
 type GenerationFilters = {
 	product_id?: string;
 	collection_id?: string;
@@ -41,6 +79,25 @@ type GenerationFilters = {
 	limit?: number;
 };
 
+export interface GenerationReviewSummary {
+	generation_id: string;
+	review_status: GenerationReviewStatus;
+	signed_off_by: string | null;
+	signed_off_at: Date | null;
+	sign_off_comment: string | null;
+	counts: Record<VisualReviewStatus, number>;
+	visuals: Array<{
+		index: number;
+		type: string;
+		image_url?: string;
+		review_status: VisualReviewStatus;
+		comment?: string | null;
+		reviewed_by?: string | null;
+		reviewed_at?: string | null;
+		history: VisualReviewEntry[];
+	}>;
+}
+
 @Injectable()
 export class GenerationsService {
 	private readonly logger = new Logger(GenerationsService.name);
@@ -61,8 +118,11 @@ export class GenerationsService {
 		@InjectRepository(Collection)
 		private readonly collectionsRepository: Repository<Collection>,
 
-		@InjectRepository(DAPreset)
-		private readonly daPresetRepository: Repository<DAPreset>,
+		@InjectRepository(Brand)
+		private readonly brandsRepository: Repository<Brand>,
+
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
 
 		@InjectQueue('generation')
 		private readonly generationQueue: Queue<GenerationJobData>,
@@ -72,6 +132,16 @@ export class GenerationsService {
 		private readonly claudeService: ClaudeService,
 		private readonly filesService: FilesService,
 		private readonly promptBuilderService: PromptBuilderService,
+		private readonly shotsService: ShotsService,
+		private readonly daService: DAService,
+		private readonly workspaceAccess: WorkspaceAccessService,
+		private readonly visualVersionsService: VisualVersionsService,
+		private readonly visualCommentsService: VisualCommentsService,
+		private readonly visualQaService: VisualQaService,
+		private readonly visualColorService: VisualColorService,
+		private readonly generationScheduler: GenerationSchedulerService,
+		private readonly generationGateway: GenerationGateway,
+		private readonly generationCache: GenerationCacheService,
 	) { }
 
 	// ═══════════════════════════════════════════════════════════════════════════
@@ -107,23 +177,15 @@ export class GenerationsService {
 			throw new NotFoundException('Product not found');
 		}
 
-		if (product.user_id !== userId) {
-			throw new ForbiddenException('You do not own this product');
-		}
+		await this.assertProductAccess(product, userId, WorkspaceRole.EDITOR);
 
 		// Check product is analyzed
 		if (!product.analyzed_product_json && !product.final_product_json) {
 			throw new BadRequestException('Product must be analyzed first. Use POST /api/products/analyze');
 		}
 
-		// 2. Validate DAPreset exists
-		const daPreset = await this.daPresetRepository.findOne({
-			where: { id: daPresetId },
-		});
-
-		if (!daPreset) {
-			throw new NotFoundException('DA Preset not found');
-		}
+		// 2. Validate DAPreset exists and is visible to the user
+		const daPreset = await this.daService.findOne(daPresetId, userId);
 
 		// 3. Create Generation record
 		const generation = this.generationsRepository.create({
@@ -161,6 +223,8 @@ export class GenerationsService {
 	 * @returns Updated Generation with images
 	 */
 	async executeGeneration(generationId: string, userId: string): Promise<Generation> {
+		UsageContext.assign({ generation_id: generationId });
+
 		this.logger.log(`🚀 Executing generation: ${generationId}`);
 
 		// 1. Fetch Generation with relations (include both da_preset and collection)
@@ -173,9 +237,7 @@ export class GenerationsService {
 			throw new NotFoundException('Generation not found');
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException('You do not own this generation');
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
 
 		if (generation.status === GenerationStatus.PROCESSING) {
 			throw new BadRequestException('Generation is already processing');
@@ -198,7 +260,11 @@ export class GenerationsService {
 			throw new BadRequestException('Generation has no DA source (needs either DA Preset or Collection with analyzed DA)');
 		}
 
+		const imageProvider = await this.resolveImageProvider(generation);
+		const cacheOptions = await this.getCacheOptions(generation);
+
 		// 2. Update status to PROCESSING
+		generation.image_provider = imageProvider;
 		generation.status = GenerationStatus.PROCESSING;
 		generation.current_step = 'building_prompts';
 		generation.started_at = new Date();
@@ -207,7 +273,8 @@ export class GenerationsService {
 
 		try {
 			// 3. Use merged_prompts from merge (with shot_options) when valid; otherwise rebuild
-			const promptTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'] as const;
+			const catalog = await this.shotsService.resolveCatalogForGeneration(generation);
+			const promptTypes = catalog.filter(shot => shot.default_enabled).map(shot => shot.code);
 			const existing = generation.merged_prompts as Record<string, any> | undefined;
 			const hasValidMerged = existing && promptTypes.every(t => {
 				const p = existing[t];
@@ -226,6 +293,8 @@ export class GenerationsService {
 					daPreset: generation.da_preset,
 					modelType: generation.model_type || 'adult',
 					resolution: generation.resolution,
+					catalog,
+					styleGuide: await this.getBrandStyleGuide(generation),
 				});
 				promptsToUse = generatedPrompts.prompts;
 				generation.merged_prompts = promptsToUse;
@@ -240,12 +309,14 @@ export class GenerationsService {
 						model_type: (generation.model_type as 'adult' | 'kid') || 'adult',
 						resolution: generation.resolution,
 						aspect_ratio: generation.aspect_ratio,
+						catalog,
+						style_guide: await this.getBrandStyleGuide(generation),
 					}
 				});
 				promptsToUse = generatedPrompts.prompts;
 				generation.merged_prompts = promptsToUse;
 			}
-			generation.current_step = 'generating_images';
+			generation.current_step = SYNC_RUN_STEP;
 			generation.progress_percent = 10;
 			await this.generationsRepository.save(generation);
 
@@ -259,6 +330,11 @@ export class GenerationsService {
 			const totalPrompts = promptTypes.length;
 
 			for (const promptType of promptTypes) {
+				// Cancel requested: stop before the next image (finished ones are kept)
+				if (await this.generationScheduler.getControl(generationId)) {
+					return this.stopSyncRun(generation, visuals, generatedImages);
+				}
+
 				const promptObject = promptsToUse[promptType];
 				// Use gemini_prompt (official field) with fallback to deprecated prompt field
 				const prompt = (promptObject.gemini_prompt || promptObject.prompt || '').trim();
@@ -290,50 +366,35 @@ export class GenerationsService {
 
 					this.logger.log(`🖼️ Reference images for ${promptType}: ${referenceImages.length} images`);
 
-					// 🆕 Use reference-based generation if images available
-					const result = referenceImages.length > 0
-						? await this.vertexImagenService.generateImageWithReference(
-							prompt,
-							referenceImages,
-							generation.aspect_ratio,
-							generation.resolution,
-						)
-						: await this.vertexImagenService.generateImage(
-							prompt,
-							undefined,
-							generation.aspect_ratio,
-							generation.resolution,
-						);
-
-					// Save image to storage
-					let imageUrl: string | null = null;
-					let imageFilename: string | null = null;
-
-					if (result.data) {
-						const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
-						imageUrl = storedFile.url;
-						imageFilename = storedFile.filename;
-						this.logger.log(`💾 Saved ${promptType} image: ${imageUrl}`);
-					}
-
-					// Store result
-					generatedImages[promptType] = imageUrl;
+					// 🆕 Use reference-based generation if images available (N candidates per shot)
+					const candidates = await this.generateCandidates(prompt, generation.candidates_per_shot, {
+						aspectRatio: generation.aspect_ratio,
+						resolution: generation.resolution,
+						provider: imageProvider,
+						referenceImages,
+						cache: cacheOptions,
+					});
 
-					const visual = {
+					const visual = this.applyCandidates({
 						type: promptType,
 						display_name: promptObject.display_name,
 						gemini_prompt: prompt,
 						prompt, // Legacy support if frontend needs it temporarily
 						negative_prompt: promptObject.negative_prompt,
 						camera: promptObject.camera,
-						status: 'completed',
-						image_url: imageUrl,
-						image_filename: imageFilename,
-						mimeType: result.mimeType,
-						generated_at: new Date().toISOString(),
-					};
+					}, candidates);
+
+					if (visual.status !== 'completed') {
+						throw new Error(visual.error);
+					}
+
+					this.logger.log(`💾 Saved ${promptType} image (${candidates.length} candidate(s)): ${visual.image_url}`);
+
+					// Store result
+					generatedImages[promptType] = visual.image_url;
 
 					visuals.push(visual);
+					await this.visualVersionsService.record(generationId, visuals.length - 1, visual, VisualVersionSource.GENERATION, userId);
 
 					// Emit completion event
 					this.emitVisualCompleted(generationId, userId, visualIndex, visual);
@@ -352,6 +413,7 @@ export class GenerationsService {
 						status: 'failed',
 						error: error.message,
 					});
+					await this.visualVersionsService.record(generationId, visuals.length - 1, visuals[visuals.length - 1], VisualVersionSource.GENERATION, userId);
 
 					// Emit failure event
 					this.emitVisualFailed(generationId, userId, visualIndex, error.message);
@@ -368,6 +430,7 @@ export class GenerationsService {
 			// 5. Final save
 			generation.visuals = visuals;
 			generation.generated_images = generatedImages;
+			this.refreshReviewStatus(generation);
 			generation.current_step = 'completed';
 			generation.progress_percent = 100;
 			generation.completed_at = new Date();
@@ -395,6 +458,8 @@ export class GenerationsService {
 
 			this.logger.log(`✅ Generation ${generationId} completed: ${successCount}/${totalPrompts} images`);
 
+			this.scheduleVisualQa(generationId, userId);
+
 			// Return with fresh data
 			return this.generationsRepository.findOne({
 				where: { id: generationId },
@@ -425,9 +490,7 @@ export class GenerationsService {
 			throw new NotFoundException('Generation not found');
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException('You do not own this generation');
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.VIEWER);
 
 		return generation;
 	}
@@ -444,9 +507,10 @@ export class GenerationsService {
 	 *
 	 * @param generationId - Generation UUID
 	 * @param userId - User ID for authorization
-	 * @returns MergedPrompts object with all 6 shot prompts
+	 * @param shotOptions - Optional per-shot options (defaults from generation.model_type)
+	 * @returns MergedPrompts object with one prompt per shot in the catalog
 	 */
-	async buildPrompts(generationId: string, userId: string): Promise<{
+	async buildPrompts(generationId: string, userId: string, shotOptions?: ShotOptions): Promise<{
 		success: boolean;
 		generation_id: string;
 		prompts: MergedPrompts;
@@ -464,9 +528,7 @@ export class GenerationsService {
 			throw new NotFoundException('Generation not found');
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException('You do not own this generation');
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
 
 		// Validate we have the required data
 		if (!generation.product) {
@@ -483,11 +545,15 @@ export class GenerationsService {
 		}
 
 		// 2. Build prompts using PromptBuilder (include resolution for quality suffix)
+		const catalog = await this.shotsService.resolveCatalogForGeneration(generation);
 		const generatedPrompts = this.promptBuilderService.buildPromptsFromEntities({
 			product: generation.product,
 			daPreset: generation.da_preset,
 			modelType: generation.model_type || 'adult',
+			shotOptions,
 			resolution: generation.resolution,
+			catalog,
+			styleGuide: await this.getBrandStyleGuide(generation),
 		});
 
 		// 3. Save prompts to generation (but don't generate images yet)
@@ -496,7 +562,7 @@ export class GenerationsService {
 		generation.status = GenerationStatus.PENDING;
 		await this.generationsRepository.save(generation);
 
-		this.logger.log(`✅ Built and saved 6 prompts for generation ${generationId}`);
+		this.logger.log(`✅ Built and saved ${Object.keys(generatedPrompts.prompts).length} prompts for generation ${generationId}`);
 
 		return {
 			success: true,
@@ -537,19 +603,18 @@ export class GenerationsService {
 			throw new NotFoundException('Generation not found');
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException('You do not own this generation');
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
 
 		if (!generation.merged_prompts) {
 			throw new BadRequestException('Prompts must be built first using POST /:id/build-prompts');
 		}
 
 		// Merge new prompts with existing (preserve unedited shots)
+		// Only shots that were built for this generation (its shot catalog) can be edited
 		const currentPrompts = generation.merged_prompts as MergedPrompts;
-		const shotTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'] as const;
+		const shotTypes = Object.keys(currentPrompts);
 
-		const updatedPrompts: MergedPrompts = {} as MergedPrompts;
+		const updatedPrompts: MergedPrompts = {};
 
 		for (const shotType of shotTypes) {
 			if (newPrompts[shotType]) {
@@ -589,14 +654,16 @@ export class GenerationsService {
 	 *
 	 * @param generationId - Generation UUID
 	 * @param userId - User ID for authorization
-	 * @param options - { selected_shots: string[] } - Array of shot types to generate
+	 * @param options - { selected_shots: string[], candidates?: number, force_fresh?: boolean } - Shot types to generate, takes per shot, skip the generation cache
 	 * @returns Updated Generation with generated images
 	 */
 	async generateVisuals(
 		generationId: string,
 		userId: string,
-		options?: { selected_shots?: string[] },
+		options?: { selected_shots?: string[]; candidates?: number; force_fresh?: boolean },
 	): Promise<Generation> {
+		UsageContext.assign({ generation_id: generationId });
+
 		this.logger.log(`🚀 Generating visuals for generation: ${generationId}`);
 
 		// 1. Fetch Generation
@@ -609,9 +676,7 @@ export class GenerationsService {
 			throw new NotFoundException('Generation not found');
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException('You do not own this generation');
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
 
 		if (generation.status === GenerationStatus.PROCESSING) {
 			throw new BadRequestException('Generation is already processing');
@@ -621,8 +686,8 @@ export class GenerationsService {
 			throw new BadRequestException('Prompts must be built first using POST /:id/build-prompts');
 		}
 
-		// 2. Determine which shots to generate
-		const allShotTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
+		// 2. Determine which shots to generate (shot catalog order as stored in merged_prompts)
+		const allShotTypes = Object.keys(generation.merged_prompts);
 		const selectedShots = options?.selected_shots?.length
 			? options.selected_shots.filter(s => allShotTypes.includes(s))
 			: allShotTypes;
@@ -633,9 +698,17 @@ export class GenerationsService {
 
 		this.logger.log(`📋 Generating ${selectedShots.length} shots: ${selectedShots.join(', ')}`);
 
+		const imageProvider = await this.resolveImageProvider(generation);
+		if (options?.candidates) {
+			generation.candidates_per_shot = Math.min(Math.max(options.candidates, 1), MAX_CANDIDATES_PER_SHOT);
+		}
+		const candidatesPerShot = generation.candidates_per_shot;
+		const cacheOptions = await this.getCacheOptions(generation, options?.force_fresh);
+
 		// 3. Update status
+		generation.image_provider = imageProvider;
 		generation.status = GenerationStatus.PROCESSING;
-		generation.current_step = 'generating_images';
+		generation.current_step = SYNC_RUN_STEP;
 		generation.started_at = new Date();
 		generation.progress_percent = 5;
 		await this.generationsRepository.save(generation);
@@ -650,7 +723,12 @@ export class GenerationsService {
 
 			// 4. Generate only selected shots
 			for (const shotType of selectedShots) {
-				const promptObject = mergedPrompts[shotType as keyof MergedPrompts];
+				// Cancel requested: stop before the next shot (finished ones are kept)
+				if (await this.generationScheduler.getControl(generationId)) {
+					return this.stopSyncRun(generation, visuals, generatedImages);
+				}
+
+				const promptObject = mergedPrompts[shotType];
 
 				// Support legacy 'prompt' field if 'gemini_prompt' is missing
 				const prompt = (promptObject.gemini_prompt || promptObject.prompt || '').trim();
@@ -685,55 +763,48 @@ export class GenerationsService {
 
 					this.logger.log(`🖼️ Reference images for ${shotType}: ${referenceImages.length} images`);
 
-					// 🆕 Use reference-based generation if images available
-					const result = referenceImages.length > 0
-						? await this.vertexImagenService.generateImageWithReference(
-							prompt,
-							referenceImages,
-							generation.aspect_ratio,
-							generation.resolution,
-						)
-						: await this.vertexImagenService.generateImage(
-							prompt,
-							undefined,
-							generation.aspect_ratio,
-							generation.resolution,
-						);
-
-					// Save image to storage
-					let imageUrl: string | null = null;
-					let imageFilename: string | null = null;
-
-					if (result.data) {
-						const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
-						imageUrl = storedFile.url;
-						imageFilename = storedFile.filename;
-						this.logger.log(`💾 Saved ${shotType} image: ${imageUrl}`);
-					}
-
-					// Store result
-					generatedImages[shotType] = imageUrl;
+					// 🆕 Use reference-based generation if images available (N candidates per shot)
+					const candidates = await this.generateCandidates(prompt, candidatesPerShot, {
+						aspectRatio: generation.aspect_ratio,
+						resolution: generation.resolution,
+						provider: imageProvider,
+						referenceImages,
+						cache: cacheOptions,
+					});
 
-					const visual = {
+					// Regenerating a shot adds to its candidate history instead of overwriting it
+					const existingIndex = visuals.findIndex((v: any) => v.type === shotType);
+					const visual = this.applyCandidates({
+						...(existingIndex >= 0 ? visuals[existingIndex] : {}),
 						type: shotType,
 						display_name: promptObject.display_name,
 						prompt,
 						negative_prompt: promptObject.negative_prompt,
 						camera: promptObject.camera,
-						status: 'completed',
-						image_url: imageUrl,
-						image_filename: imageFilename,
-						mimeType: result.mimeType,
-						generated_at: new Date().toISOString(),
-					};
+					}, candidates);
 
 					// Update or add to visuals array
-					const existingIndex = visuals.findIndex((v: any) => v.type === shotType);
 					if (existingIndex >= 0) {
 						visuals[existingIndex] = visual;
 					} else {
 						visuals.push(visual);
 					}
+					await this.visualVersionsService.record(
+						generationId,
+						existingIndex >= 0 ? existingIndex : visuals.length - 1,
+						visual,
+						VisualVersionSource.GENERATION,
+						userId,
+					);
+
+					if (!candidates.some(c => c.status === 'completed')) {
+						throw new Error(visual.error);
+					}
+
+					this.logger.log(`💾 Saved ${shotType} image (${candidates.length} candidate(s)): ${visual.image_url}`);
+
+					// Store result
+					generatedImages[shotType] = visual.image_url;
 
 					// Emit completion event
 					this.emitVisualCompleted(generationId, userId, visualIndex, visual);
@@ -743,22 +814,29 @@ export class GenerationsService {
 				} catch (error: any) {
 					this.logger.error(`❌ Failed to generate ${shotType}: ${error.message}`);
 
-					const failedVisual = {
-						type: shotType,
-						display_name: promptObject.display_name,
-						prompt,
-						camera: promptObject.camera,
-						status: 'failed',
-						error: error.message,
-					};
+					// Keep the candidate history (and any earlier pick) of an existing visual
+					const existingIndex = visuals.findIndex((v: any) => v.type === shotType);
+					const existing = existingIndex >= 0 ? visuals[existingIndex] : null;
+					const failedVisual = existing?.candidates
+						? existing
+						: {
+							type: shotType,
+							display_name: promptObject.display_name,
+							prompt,
+							camera: promptObject.camera,
+							status: 'failed',
+							error: error.message,
+						};
 
 					// Update or add to visuals array
-					const existingIndex = visuals.findIndex((v: any) => v.type === shotType);
 					if (existingIndex >= 0) {
 						visuals[existingIndex] = failedVisual;
 					} else {
 						visuals.push(failedVisual);
 					}
+					if (!existing?.candidates) {
+						await this.visualVersionsService.record(generationId, visuals.length - 1, failedVisual, VisualVersionSource.GENERATION, userId);
+					}
 
 					// Emit failure event
 					this.emitVisualFailed(generationId, userId, visualIndex, error.message);
@@ -775,6 +853,7 @@ export class GenerationsService {
 			// 5. Final save
 			generation.visuals = visuals;
 			generation.generated_images = generatedImages;
+			this.refreshReviewStatus(generation);
 			generation.current_step = 'completed';
 			generation.progress_percent = 100;
 			generation.completed_at = new Date();
@@ -800,6 +879,8 @@ export class GenerationsService {
 
 			this.logger.log(`✅ Generation ${generationId} completed: ${successCount}/${totalShots} images`);
 
+			this.scheduleVisualQa(generationId, userId);
+
 			// Return with fresh data
 			return this.generationsRepository.findOne({
 				where: { id: generationId },
@@ -817,6 +898,31 @@ export class GenerationsService {
 		}
 	}
 
+	/**
+	 * Ends a synchronous run that was cancelled between images
+	 */
+	private async stopSyncRun(
+		generation: Generation,
+		visuals: any[],
+		generatedImages: Record<string, string>,
+	): Promise<Generation> {
+		generation.visuals = visuals;
+		generation.generated_images = generatedImages;
+		generation.status = GenerationStatus.CANCELLED;
+		generation.current_step = GenerationStatus.CANCELLED;
+		this.refreshReviewStatus(generation);
+		await this.generationsRepository.save(generation);
+		await this.generationScheduler.clearControl(generation.id);
+
+		this.emitGenerationState(generation.id, generation.user_id, generation.status, 'cancelled');
+		this.logger.log(`🛑 Generation ${generation.id} cancelled`);
+
+		return this.generationsRepository.findOne({
+			where: { id: generation.id },
+			relations: ['product', 'da_preset'],
+		});
+	}
+
 	// ═══════════════════════════════════════════════════════════════════════════
 	// LEGACY METHODS (for backward compatibility)
 	// ═══════════════════════════════════════════════════════════════════════════
@@ -832,11 +938,9 @@ export class GenerationsService {
 			throw new NotFoundException(NotFoundMessage.PRODUCT_NOT_FOUND);
 		}
 
-		if (product.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.assertProductAccess(product, userId, WorkspaceRole.EDITOR);
 
-		// Validate collection exists and belongs to user
+		// Validate collection exists and the user can edit its brand
 		const collection = await this.collectionsRepository.findOne({
 			where: { id: dto.collection_id },
 			relations: ['brand'],
@@ -846,9 +950,10 @@ export class GenerationsService {
 			throw new NotFoundException(NotFoundMessage.COLLECTION_NOT_FOUND);
 		}
 
-		if (collection.brand?.user_id !== userId) {
+		if (!collection.brand) {
 			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
 		}
+		await this.workspaceAccess.assertBrandAccess(collection.brand, userId, WorkspaceRole.EDITOR);
 
 		// If product has no collection, assign it to the provided collection
 		// This supports the analyzeProductDirect flow where products are created without collection
@@ -977,9 +1082,9 @@ export class GenerationsService {
 			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
+
+		const catalog = await this.shotsService.resolveCatalogForGeneration(generation);
 
 		// Fetch final product JSON
 		if (!generation.product.final_product_json && !generation.product.analyzed_product_json) {
@@ -1032,6 +1137,8 @@ export class GenerationsService {
 				shot_options: input?.shot_options,
 				resolution,
 				aspect_ratio: aspectRatio,
+				catalog,
+				style_guide: await this.getBrandStyleGuide(generation),
 			},
 		});
 
@@ -1066,30 +1173,26 @@ export class GenerationsService {
 			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
 
 		if (!generation.merged_prompts) {
 			throw new BadRequestException('Prompts must be merged first');
 		}
 
-		// Merge updates
+		// Merge updates (keys are shot catalog codes already present in merged_prompts)
 		const currentPrompts = generation.merged_prompts as MergedPrompts;
-		const updatedPrompts: MergedPrompts = {
-			duo: prompts.duo ? { ...currentPrompts.duo, ...prompts.duo, last_edited_at: new Date().toISOString() } : currentPrompts.duo,
-			solo: prompts.solo ? { ...currentPrompts.solo, ...prompts.solo, last_edited_at: new Date().toISOString() } : currentPrompts.solo,
-			flatlay_front: prompts.flatlay_front ? { ...currentPrompts.flatlay_front, ...prompts.flatlay_front, last_edited_at: new Date().toISOString() } : currentPrompts.flatlay_front,
-			flatlay_back: prompts.flatlay_back ? { ...currentPrompts.flatlay_back, ...prompts.flatlay_back, last_edited_at: new Date().toISOString() } : currentPrompts.flatlay_back,
-			closeup_front: prompts.closeup_front ? { ...currentPrompts.closeup_front, ...prompts.closeup_front, last_edited_at: new Date().toISOString() } : currentPrompts.closeup_front,
-			closeup_back: prompts.closeup_back ? { ...currentPrompts.closeup_back, ...prompts.closeup_back, last_edited_at: new Date().toISOString() } : currentPrompts.closeup_back,
-		};
+		const updatedPrompts: MergedPrompts = {};
+		for (const [type, current] of Object.entries(currentPrompts)) {
+			updatedPrompts[type] = prompts[type]
+				? { ...current, ...prompts[type], last_edited_at: new Date().toISOString() }
+				: current;
+		}
 
 		generation.merged_prompts = updatedPrompts;
 
 		// Create/update visuals array from merged prompts so generation can find them
 		// This fixes the "No visuals found" error
-		const visualTypes = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'] as const;
+		const visualTypes = Object.keys(updatedPrompts);
 		generation.visuals = visualTypes
 			.filter(type => updatedPrompts[type]?.gemini_prompt || updatedPrompts[type]?.prompt) // Only include types with prompts
 			.map(type => ({
@@ -1104,6 +1207,15 @@ export class GenerationsService {
 
 		await this.generationsRepository.save(generation);
 
+		// Every edited prompt becomes a new version of its visual
+		for (const [index, visual] of generation.visuals.entries()) {
+			if (!prompts[visual.type]) continue;
+			await this.visualVersionsService.record(generationId, index, {
+				...visual,
+				negative_prompt: updatedPrompts[visual.type].negative_prompt,
+			}, VisualVersionSource.PROMPT_EDIT, userId);
+		}
+
 		return updatedPrompts;
 	}
 
@@ -1120,9 +1232,7 @@ export class GenerationsService {
 			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
 		}
 
-		if (generation.user_id !== userId) {
-			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
-		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.VIEWER);
 
 		// Calculate elapsed and remaining time
 		let elapsedSeconds = 0;
@@ -1156,10 +1266,20 @@ export class GenerationsService {
 		const limit = filters.limit && filters.limit > 0 ? filters.limit : 20;
 		const skip = (page - 1) * limit;
 
+		// Own generations plus everything in brands the user can access through a workspace
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+
 		const query = this.generationsRepository
 			.createQueryBuilder('generation')
 			.leftJoinAndSelect('generation.product', 'product')
-			.where('generation.user_id = :userId', { userId })
+			.leftJoin('generation.collection', 'collection')
+			.where(new Brackets((qb) => {
+				qb.where('generation.user_id = :userId', { userId });
+				if (brandIds.length > 0) {
+					qb.orWhere('collection.brand_id IN (:...brandIds)', { brandIds })
+						.orWhere('product.brand_id IN (:...brandIds)', { brandIds });
+				}
+			}))
 			.orderBy('generation.created_at', 'DESC')
 			.skip(skip)
 			.take(limit);
@@ -1192,15 +1312,17 @@ export class GenerationsService {
 		return { items, total, page, limit };
 	}
 
-	async findOne(id: string, userId: string): Promise<Generation> {
+	async findOne(id: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<Generation> {
 		const generation = await this.generationsRepository.findOne({
-			where: { id, user_id: userId },
+			where: { id },
 		});
 
 		if (!generation) {
 			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
 		}
 
+		await this.assertGenerationAccess(generation, userId, minRole);
+
 		return generation;
 	}
 
@@ -1211,7 +1333,7 @@ export class GenerationsService {
 	}
 
 	async updateLegacyPrompts(id: string, userId: string, dto: UpdateGenerationDto): Promise<Generation> {
-		const generation = await this.findOne(id, userId);
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (!dto.prompts || dto.prompts.length === 0) {
 			throw new BadRequestException(GenerationMessage.NO_VISUALS_FOUND);
@@ -1236,7 +1358,7 @@ export class GenerationsService {
 		} else {
 			// Create new visuals array from prompts
 			generation.visuals = dto.prompts.map((prompt: string, index: number) => ({
-				type: visualTypes ? visualTypes[index] : this.getVisualTypeFromIndex(index),
+				type: visualTypes ? visualTypes[index] : this.getVisualTypeFromIndex(index, Object.keys(generation.merged_prompts || {})),
 				prompt,
 				status: 'pending',
 				index,
@@ -1249,23 +1371,28 @@ export class GenerationsService {
 		return this.generationsRepository.save(generation);
 	}
 
-	private getVisualTypeFromIndex(index: number): string {
-		const types = ['duo', 'solo', 'flatlay_front', 'flatlay_back', 'closeup_front', 'closeup_back'];
+	private getVisualTypeFromIndex(index: number, catalogOrder: string[]): string {
+		const types = catalogOrder.length ? catalogOrder : BUILTIN_SHOT_CODES;
 		return types[index] || `visual_${index + 1}`;
 	}
 
 	async generate(id: string, userId: string, dto: GenerateDto): Promise<Generation> {
-		const generation = await this.findOne(id, userId);
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (generation.status === GenerationStatus.PROCESSING) {
 			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
 		}
+		if (generation.status === GenerationStatus.PAUSED) {
+			throw new BadRequestException(GenerationMessage.GENERATION_PAUSED);
+		}
 
 		// Daily generation limit removed - no restrictions
 
 		// Update resolution and aspect ratio if provided
 		if (dto.resolution) generation.resolution = dto.resolution;
 		if (dto.aspect_ratio) generation.aspect_ratio = dto.aspect_ratio;
+		if (dto.candidates) generation.candidates_per_shot = dto.candidates;
+		generation.image_provider = await this.resolveImageProvider(generation, dto.provider);
 		await this.generationsRepository.save(generation);
 
 
@@ -1328,39 +1455,44 @@ export class GenerationsService {
 		this.logger.log(`🚀 Starting generation job for ${id} with ${prompts.length} prompts`);
 		this.logger.debug(`Visual types: ${visualTypes?.join(', ') || 'index-based'}`);
 
-		// Add job to queue instead of processing synchronously
-		const job = await this.generationQueue.add(
+		// Re-runs and single-visual runs go ahead of regular work; batch generations go last
+		let priority = GenerationPriority.NORMAL;
+		if (generation.batch_id) {
+			priority = GenerationPriority.BULK;
+		} else if (generation.started_at || prompts.length === 1) {
+			priority = GenerationPriority.HIGH;
+		}
+
+		// Add job to queue (or defer it when the user / workspace is at its queue cap)
+		const jobId = await this.generationScheduler.submit(
+			generation,
 			{
-				generationId: id,
 				prompts,
 				visualTypes: visualTypes && visualTypes.length === prompts.length ? visualTypes : undefined,
 				model: dto.model,
+				provider: generation.image_provider,
+				priority,
+				workspace_id: await this.resolveWorkspaceId(generation),
+				forceFresh: dto.force_fresh || undefined,
 			},
-			{
-				jobId: `generation-${id}`,
-				removeOnComplete: false,
-				removeOnFail: false,
-			},
+			priority !== GenerationPriority.BULK,
 		);
 
-		// Update generation status to processing
-		generation.status = GenerationStatus.PROCESSING;
-		generation.completed_at = null;
-		await this.generationsRepository.save(generation);
-
-		// Return generation with job info
+		// Return generation with job info (job_id is null while deferred)
 		return {
 			...generation,
-			job_id: job.id.toString(),
-		} as Generation & { job_id: string };
+			job_id: jobId,
+		} as Generation & { job_id: string | null };
 	}
 
 	async resetGeneration(id: string, userId: string): Promise<Generation> {
-		const generation = await this.findOne(id, userId);
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		// Reset generation status
 		generation.status = GenerationStatus.PENDING;
 		generation.completed_at = null;
+		this.generationScheduler.clearDeferred(generation);
+		await this.generationScheduler.clearControl(generation.id);
 
 		// Clear any existing visuals progress
 		if (generation.visuals) {
@@ -1378,6 +1510,128 @@ export class GenerationsService {
 		return generation;
 	}
 
+	/**
+	 * Generation cache hit stats for the user's own and workspace brands
+	 */
+	async getCacheStats(userId: string, brandId?: string): Promise<GenerationCacheStats> {
+		return this.generationCache.getStats(userId, brandId);
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// CANCEL / PAUSE / RESUME
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * Cancel a queued, running or paused generation.
+	 * A queued job is removed right away; a running job (queued or synchronous) is
+	 * flagged and stops before the next visual (finished visuals are kept).
+	 */
+	async cancelGeneration(id: string, userId: string): Promise<Generation> {
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+
+		if (
+			generation.status !== GenerationStatus.PENDING &&
+			generation.status !== GenerationStatus.PROCESSING &&
+			generation.status !== GenerationStatus.PAUSED
+		) {
+			throw new BadRequestException(GenerationMessage.NOT_CANCELLABLE);
+		}
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			const removed = await this.generationScheduler.removeQueuedJob(generation);
+			const running =
+				generation.current_step === SYNC_RUN_STEP || (await this.generationScheduler.isRunning(generation.id));
+			if (!removed && running) {
+				await this.generationScheduler.requestControl(generation.id, 'cancel');
+				this.emitGenerationState(generation.id, generation.user_id, generation.status, 'cancel_requested');
+				this.logger.log(`🛑 Cancel requested for running generation ${id}`);
+				return generation;
+			}
+		}
+
+		this.generationScheduler.clearDeferred(generation);
+		generation.status = GenerationStatus.CANCELLED;
+		generation.current_step = GenerationStatus.CANCELLED;
+		generation.visuals = (generation.visuals || []).map((visual: any) =>
+			visual?.status === 'completed' || visual?.status === 'failed' ? visual : { ...visual, status: 'cancelled' },
+		);
+		this.refreshReviewStatus(generation);
+		await this.generationsRepository.save(generation);
+		await this.generationScheduler.clearControl(generation.id);
+
+		this.emitGenerationState(generation.id, generation.user_id, generation.status, 'cancelled');
+		this.logger.log(`🛑 Generation ${id} cancelled`);
+
+		// Its queue slot (if any) is free now
+		void this.generationScheduler.releaseDeferred();
+
+		return generation;
+	}
+
+	/**
+	 * Pause a queued or running generation. Queued work is held on the generation
+	 * (deferred_job); a running job stops before the next visual. A synchronous run
+	 * has no job to hold, so it can only be cancelled.
+	 */
+	async pauseGeneration(id: string, userId: string): Promise<Generation> {
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+
+		if (generation.status === GenerationStatus.PENDING && generation.deferred_job) {
+			generation.status = GenerationStatus.PAUSED;
+			generation.current_step = GenerationStatus.PAUSED;
+		} else if (generation.status === GenerationStatus.PROCESSING) {
+			const removed = await this.generationScheduler.removeQueuedJob(generation);
+			if (removed) {
+				generation.deferred_job = removed;
+				generation.status = GenerationStatus.PAUSED;
+				generation.current_step = GenerationStatus.PAUSED;
+			} else if (await this.generationScheduler.isRunning(generation.id)) {
+				await this.generationScheduler.requestControl(generation.id, 'pause');
+				this.emitGenerationState(generation.id, generation.user_id, generation.status, 'pause_requested');
+				this.logger.log(`⏸️ Pause requested for running generation ${id}`);
+				return generation;
+			} else {
+				throw new BadRequestException(GenerationMessage.NOT_PAUSABLE);
+			}
+		} else {
+			throw new BadRequestException(GenerationMessage.NOT_PAUSABLE);
+		}
+
+		await this.generationsRepository.save(generation);
+
+		this.emitGenerationState(generation.id, generation.user_id, generation.status, 'paused');
+		this.logger.log(`⏸️ Generation ${id} paused`);
+
+		void this.generationScheduler.releaseDeferred();
+
+		return generation;
+	}
+
+	/**
+	 * Resume a paused generation: its held job goes back through admission control
+	 */
+	async resumeGeneration(id: string, userId: string): Promise<Generation & { job_id: string | null }> {
+		const generation = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+
+		if (generation.status !== GenerationStatus.PAUSED || !generation.deferred_job) {
+			throw new BadRequestException(GenerationMessage.NOT_PAUSED);
+		}
+
+		const job = generation.deferred_job;
+		generation.deferred_job = null;
+		generation.current_step = null;
+
+		const jobId = await this.generationScheduler.submit(generation, job, job.priority !== GenerationPriority.BULK);
+
+		this.emitGenerationState(generation.id, generation.user_id, generation.status, 'resumed');
+		this.logger.log(`▶️ Generation ${id} resumed (${job.prompts.length} visuals)`);
+
+		return {
+			...generation,
+			job_id: jobId,
+		} as Generation & { job_id: string | null };
+	}
+
 	async debugConfig(): Promise<{
 		gemini_configured: boolean;
 		model: string;
@@ -1433,6 +1687,10 @@ export class GenerationsService {
 		};
 	}
 
+	getImageProviders() {
+		return this.vertexImagenService.listProviders();
+	}
+
 	async testJob(): Promise<{ message: string }> {
 		this.logger.log('🧪 Adding test job to queue...');
 
@@ -1490,6 +1748,7 @@ export class GenerationsService {
 		total: number;
 		elapsed_seconds?: number;
 		estimated_remaining_seconds?: number;
+		queue: GenerationQueuePosition | null;
 		visuals: Array<{ index: number; status: string; error?: string }>;
 	}> {
 		const generation = await this.findOne(id, userId);
@@ -1523,6 +1782,9 @@ export class GenerationsService {
 			total,
 			elapsed_seconds: elapsedSeconds,
 			estimated_remaining_seconds: estimatedRemainingSeconds,
+			queue: generation.status === GenerationStatus.PENDING || generation.status === GenerationStatus.PROCESSING
+				? await this.generationScheduler.getQueuePosition(generation)
+				: null,
 			visuals: visuals.map((v: any, index: number) => ({
 				index: v.index ?? index,
 				status: v.status || 'pending',
@@ -1553,6 +1815,11 @@ export class GenerationsService {
 				return; // Wait for all images
 			}
 
+			// The archive only holds approved images
+			if (!generation.visuals.some((v: any) => this.isVisualApproved(v))) {
+				return;
+			}
+
 			// Check if ZIP already exists
 			if (this.zipCache.has(generationId)) {
 				return; // Already generating or generated
@@ -1581,6 +1848,7 @@ export class GenerationsService {
 		await fs.mkdir(tempDir, { recursive: true });
 
 		const zipFilePath = path.join(tempDir, `${generationId}.zip`);
+		const visualTypeMap = await this.getShotFileNames(generation);
 		const output = require('fs').createWriteStream(zipFilePath);
 		const archive = archiver('zip', { zlib: { level: 1 } });
 
@@ -1619,19 +1887,10 @@ export class GenerationsService {
 			const sanitizedCollectionName = this.sanitizeFileName(collectionName);
 			const sanitizedProductName = this.sanitizeFileName(productName);
 
-			const visualTypeMap: Record<string, string> = {
-				duo: 'duo',
-				solo: 'solo',
-				flatlay_front: 'flatlay_front',
-				flatlay_back: 'flatlay_back',
-				closeup_front: 'closeup_front',
-				closeup_back: 'closeup_back',
-			};
-
 			// Process visuals in parallel
 			Promise.all(
 				visuals.map(async (visual: any, index: number) => {
-					if (!visual || visual.status !== 'completed') return null;
+					if (!this.isVisualApproved(visual)) return null;
 
 					let buffer: Buffer;
 					let ext: string;
@@ -1756,6 +2015,9 @@ export class GenerationsService {
 		if (!visuals.length) {
 			throw new BadRequestException(GenerationMessage.NO_VISUALS_FOUND);
 		}
+		if (!visuals.some((visual: any) => this.isVisualApproved(visual))) {
+			throw new BadRequestException(ReviewMessage.NO_APPROVED_VISUALS);
+		}
 
 		// Get product and collection for folder structure
 		const product = await this.productsRepository.findOne({
@@ -1774,19 +2036,29 @@ export class GenerationsService {
 		const sanitizedCollectionName = this.sanitizeFileName(collectionName);
 		const sanitizedProductName = this.sanitizeFileName(productName);
 
-		// Visual type mapping
-		const visualTypeMap: Record<string, string> = {
-			duo: 'duo',
-			solo: 'solo',
-			flatlay_front: 'flatlay_front',
-			flatlay_back: 'flatlay_back',
-			closeup_front: 'closeup_front',
-			closeup_back: 'closeup_back',
+		await this.appendApprovedVisuals(archive, generation, `ROMIMI/${sanitizedCollectionName}/${sanitizedProductName}`);
+
+		archive.finalize();
+
+		return {
+			archive,
+			filename: `ROMIMI_${sanitizedCollectionName}_${sanitizedProductName}_${generation.id.slice(0, 8)}.zip`,
 		};
+	}
+
+	/**
+	 * Append the approved visuals of a generation to a ZIP archive under `folder`
+	 * (local file first, then base64 / URL). Returns the number of files added.
+	 */
+	async appendApprovedVisuals(archive: archiver.Archiver, generation: Generation, folder: string): Promise<number> {
+		const visuals = generation.visuals || [];
+
+		// Visual type mapping (one file name per shot in the generation's catalog)
+		const visualTypeMap = await this.getShotFileNames(generation);
 
 		// Process visuals in PARALLEL for faster download
 		const processVisual = async (visual: any, index: number): Promise<{ buffer: Buffer; filePath: string } | null> => {
-			if (!visual || visual.status !== 'completed') {
+			if (!this.isVisualApproved(visual)) {
 				return null;
 			}
 
@@ -1833,7 +2105,7 @@ export class GenerationsService {
 						ext = visual.image_filename.split('.').pop() || 'jpg';
 						const visualType = visual.type || `visual_${index + 1}`;
 						const fileName = visualTypeMap[visualType] || `visual_${index + 1}`;
-						const filePath = `ROMIMI/${sanitizedCollectionName}/${sanitizedProductName}/${fileName}.${ext}`;
+						const filePath = `${folder}/${fileName}.${ext}`;
 
 						return { buffer, filePath };
 					}
@@ -1884,7 +2156,7 @@ export class GenerationsService {
 			// Generate filename based on visual type
 			const visualType = visual.type || `visual_${index + 1}`;
 			const fileName = visualTypeMap[visualType] || `visual_${index + 1}`;
-			const filePath = `ROMIMI/${sanitizedCollectionName}/${sanitizedProductName}/${fileName}.${ext}`;
+			const filePath = `${folder}/${fileName}.${ext}`;
 
 			return { buffer, filePath };
 		};
@@ -1895,21 +2167,36 @@ export class GenerationsService {
 		);
 
 		// Add all successfully fetched images to archive
+		let added = 0;
 		for (const result of results) {
 			if (result) {
 				archive.append(result.buffer, { name: result.filePath });
+				added++;
 			}
 		}
 
-		archive.finalize();
+		return added;
+	}
 
-		return {
-			archive,
-			filename: `ROMIMI_${sanitizedCollectionName}_${sanitizedProductName}_${generation.id.slice(0, 8)}.zip`,
-		};
+	/**
+	 * ZIP file names keyed by visual type, from the generation's shot catalog
+	 * plus any shot already present in merged_prompts (e.g. since removed from the catalog)
+	 */
+	private async getShotFileNames(generation: Generation): Promise<Record<string, string>> {
+		const catalog = await this.shotsService.resolveCatalogForGeneration(generation);
+		const codes = new Set([
+			...catalog.map(shot => shot.code),
+			...Object.keys(generation.merged_prompts || {}),
+		]);
+
+		const fileNames: Record<string, string> = {};
+		for (const code of codes) {
+			fileNames[code] = this.sanitizeFileName(code);
+		}
+		return fileNames;
 	}
 
-	private sanitizeFileName(name: string): string {
+	sanitizeFileName(name: string): string {
 		return name
 			.replace(/[^a-zA-Z0-9_-]/g, '_')
 			.replace(/_{2,}/g, '_')
@@ -2002,7 +2289,9 @@ export class GenerationsService {
 				status: visual.status,
 				image_url: visual.image_url, // This MUST NOT be null
 				generated_at: visual.generated_at,
-				prompt: visual.prompt
+				prompt: visual.prompt,
+				selected_candidate_id: visual.selected_candidate_id,
+				candidates_count: visual.candidates?.length || 0
 			}
 		};
 
@@ -2068,85 +2357,1109 @@ export class GenerationsService {
 	}
 
 	/**
-	 * Retry generating a single visual
+	 * Emit generation_state over SSE and socket (pause / resume / cancel)
 	 */
-	async retryVisual(generationId: string, userId: string, visualIndex: number, model?: string): Promise<Generation> {
-		const generation = await this.findOne(generationId, userId);
+	emitGenerationState(generationId: string, userId: string, status: GenerationStatus, action: GenerationStateAction): void {
+		this.emitGenerationUpdate(generationId, {
+			type: 'generation_state',
+			userId,
+			status,
+			action,
+		});
+		this.generationGateway.emitGenerationState(generationId, { status, action });
+	}
 
-		if (!generation.visuals || !generation.visuals[visualIndex]) {
-			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
-		}
+	/**
+	 * Emit visual_reviewed event so the creator sees reviewer feedback live
+	 */
+	emitVisualReviewed(generationId: string, userId: string, visualIndex: number, review: VisualReview, reviewStatus: GenerationReviewStatus): void {
+		this.emitGenerationUpdate(generationId, {
+			type: 'visual_reviewed',
+			userId,
+			visualIndex,
+			review_status: review.status,
+			comment: review.comment,
+			generation_review_status: reviewStatus,
+		});
+	}
 
-		const visual = generation.visuals[visualIndex];
-		const prompt = visual.prompt || this.extractPrompts([visual])[0];
+	/**
+	 * Emit visual_qa event with the QA / color check results of a visual
+	 */
+	emitVisualQa(generationId: string, userId: string, visualIndex: number, results: { color_check?: VisualColorCheck; qa?: VisualQaResult }): void {
+		this.emitGenerationUpdate(generationId, {
+			type: 'visual_qa',
+			userId,
+			visualIndex,
+			qa: results.qa
+				? {
+					score: results.qa.score,
+					passed: results.qa.passed,
+					violations: results.qa.violations,
+					retries: results.qa.retries,
+				}
+				: undefined,
+			color_check: results.color_check,
+		});
+	}
 
-		if (!prompt) {
-			throw new BadRequestException(`No prompt found for visual at index ${visualIndex}`);
-		}
+	// ═══════════════════════════════════════════════════════════════════════════
+	// QA (vision check of generated visuals against the product JSON)
+	// ═══════════════════════════════════════════════════════════════════════════
 
-		this.logger.log(`🔄 Retrying visual ${visualIndex} for generation ${generationId}`);
+	/**
+	 * Run QA in the background after a synchronous generation
+	 */
+	private scheduleVisualQa(generationId: string, userId: string): void {
+		if (!this.isVisualQaEnabled()) return;
 
-		// Emit processing event
-		this.emitVisualProcessing(generationId, userId, visualIndex, visual.type || `visual_${visualIndex}`);
+		this.runVisualQa(generationId, userId).catch((error) => {
+			this.logger.warn(`⚠️ QA failed for generation ${generationId}: ${error.message}`);
+		});
+	}
 
-		try {
-			// Generate image with generation aspect_ratio and resolution
-			const result = await this.vertexImagenService.generateImage(
-				prompt,
-				model,
-				generation.aspect_ratio,
-				generation.resolution,
-			);
+	/**
+	 * True when either the AI QA or the pixel color check is switched on
+	 */
+	isVisualQaEnabled(): boolean {
+		return this.visualQaService.isEnabled() || this.visualColorService.isEnabled();
+	}
 
-			// Save to storage
-			let imageUrl: string | null = null;
-			if (result.data) {
-				try {
-					const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
-					imageUrl = storedFile.url;
-					this.logger.log(`💾 Saved retry image to: ${imageUrl}`);
-				} catch (fileError: any) {
-					this.logger.error(`❌ Failed to save retry image: ${fileError.message}`);
-					throw fileError;
-				}
-			}
+	/**
+	 * Check completed visuals and store the results on each visual:
+	 * - visual.color_check: deterministic Delta-E of sampled pixels vs product hex_code
+	 *   and DA background_hex / floor_hex (scene regions only for human model shots)
+	 * - visual.qa: vision check against the product's final_product_json
+	 *
+	 * With qa.autoRetry, shots whose AI QA score is below qa.minScore are
+	 * regenerated (up to qa.maxRetries) and checked again.
+	 *
+	 * @param visualIndices - Only check these visuals (default: all completed)
+	 */
+	async runVisualQa(generationId: string, userId: string, visualIndices?: number[]): Promise<Generation> {
+		UsageContext.assign({ generation_id: generationId });
 
-			// Update visual
-			generation.visuals[visualIndex] = {
-				...visual,
-				prompt,
-				mimeType: result.mimeType,
-				data: result.data, // Keep base64 for backup
-				status: 'completed',
-				image_url: imageUrl,
-				generated_at: new Date().toISOString(),
-				error: undefined, // Clear any previous error
-			};
+		let generation = await this.generationsRepository.findOne({
+			where: { id: generationId },
+			relations: ['product', 'da_preset'],
+		});
+
+		if (!generation) {
+			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
+		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
+
+		const { product, da_preset: daPreset } = generation;
+		const productJson = product?.final_product_json || product?.analyzed_product_json;
+		const garmentHex = productJson?.visual_specs?.hex_code || productJson?.color_hex || null;
+
+		const aiQaEnabled = this.visualQaService.isEnabled() && !!productJson;
+		const colorCheckEnabled = this.visualColorService.isEnabled();
+		if (!aiQaEnabled && !colorCheckEnabled) {
+			this.logger.warn(`⚠️ QA skipped for generation ${generationId}: nothing to check`);
+			return generation;
+		}
+
+		const autoRetry = this.configService.get<boolean>('qa.autoRetry') === true;
+		const maxRetries = this.configService.get<number>('qa.maxRetries') ?? 1;
+		const indices = visualIndices ?? (generation.visuals || []).map((_: any, index: number) => index);
+
+		for (const index of indices) {
+			let retries = 0;
+
+			while (true) {
+				const visual = generation.visuals?.[index];
+				if (!visual || visual.status !== 'completed' || !visual.image_url) break;
+
+				const visualType = visual.type || `visual_${index + 1}`;
+				const results: { color_check?: VisualColorCheck; qa?: VisualQaResult } = {};
+
+				if (colorCheckEnabled) {
+					// The DA scene is only in frame on human model shots
+					const isSceneShot = PromptBuilder.isHumanModelShot(visualType, generation.merged_prompts?.[visualType]?.requires_human);
+					try {
+						results.color_check = await this.visualColorService.check(visual.image_url, {
+							garment_hex: garmentHex,
+							background_hex: isSceneShot ? daPreset?.background_hex : null,
+							floor_hex: isSceneShot ? daPreset?.floor_hex : null,
+						});
+					} catch (error: any) {
+						this.logger.warn(`⚠️ Color check failed for visual ${index} of ${generationId}: ${error.message}`);
+					}
+				}
+
+				if (aiQaEnabled) {
+					try {
+						results.qa = await this.visualQaService.evaluate(visual.image_url, visualType, productJson, retries);
+					} catch (error: any) {
+						this.logger.warn(`⚠️ QA check failed for visual ${index} of ${generationId}: ${error.message}`);
+					}
+				}
+
+				if (!results.color_check && !results.qa) break;
+
+				// Re-read so QA never overwrites changes made while the checks ran
+				const fresh = await this.generationsRepository.findOne({ where: { id: generationId } });
+				if (!fresh?.visuals?.[index] || fresh.visuals[index].image_url !== visual.image_url) break;
+
+				const visuals = [...fresh.visuals];
+				visuals[index] = { ...visuals[index], ...results };
+				fresh.visuals = visuals;
+				await this.generationsRepository.save(fresh);
+				generation = { ...fresh, product, da_preset: daPreset } as Generation;
+
+				this.emitVisualQa(generationId, userId, index, results);
+
+				const qa = results.qa;
+				if (!qa || qa.passed || !autoRetry || retries >= maxRetries) break;
+
+				retries++;
+				this.logger.log(`🔁 QA score ${qa.score} below threshold - regenerating visual ${index} (attempt ${retries}/${maxRetries})`);
+				try {
+					// A cached image would be the same low-scoring take
+					const retried = await this.retryVisual(generationId, userId, index, undefined, undefined, undefined, undefined, true);
+					generation = { ...retried, product, da_preset: daPreset } as Generation;
+				} catch (error: any) {
+					this.logger.warn(`⚠️ QA auto-retry failed for visual ${index}: ${error.message}`);
+					break;
+				}
+			}
+		}
+
+		return generation;
+	}
+
+	/**
+	 * Retry generating a single visual.
+	 * Selected comment threads are appended to the prompt as reviewer feedback.
+	 */
+	async retryVisual(
+		generationId: string,
+		userId: string,
+		visualIndex: number,
+		model?: string,
+		provider?: string,
+		candidates?: number,
+		feedbackSelection?: VisualFeedbackSelection,
+		forceFresh?: boolean,
+	): Promise<Generation> {
+		UsageContext.assign({ generation_id: generationId });
+
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.EDITOR);
+
+		if (!generation.visuals || !generation.visuals[visualIndex]) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+
+		const visual = generation.visuals[visualIndex];
+		const prompt = visual.prompt || this.extractPrompts([visual])[0];
+
+		if (!prompt) {
+			throw new BadRequestException(`No prompt found for visual at index ${visualIndex}`);
+		}
+
+		// The visual keeps its base prompt; feedback only shapes this run
+		const feedback = await this.visualCommentsService.buildFeedback(generationId, visualIndex, feedbackSelection);
+		const runPrompt = feedback ? `${prompt}\n\n${feedback}` : prompt;
+
+		// Retry keeps the visual's original provider unless a different one is requested
+		const imageProvider = await this.resolveImageProvider(generation, provider || visual.provider);
+
+		this.logger.log(`🔄 Retrying visual ${visualIndex} for generation ${generationId} (provider=${imageProvider})`);
+
+		// Emit processing event
+		this.emitVisualProcessing(generationId, userId, visualIndex, visual.type || `visual_${visualIndex}`);
+
+		// Retry adds new candidates to the visual's history instead of overwriting its image
+		const newCandidates = await this.generateCandidates(runPrompt, candidates || generation.candidates_per_shot, {
+			aspectRatio: generation.aspect_ratio,
+			resolution: generation.resolution,
+			provider: imageProvider,
+			model,
+			cache: await this.getCacheOptions(generation, forceFresh),
+		});
+
+		generation.visuals[visualIndex] = this.applyCandidates({ ...visual, prompt }, newCandidates);
+		generation.visuals = [...generation.visuals];
+
+		if (!newCandidates.some(c => c.status === 'completed')) {
+			const message = generation.visuals[visualIndex].error || 'Unknown error';
+			this.logger.error(`❌ Retry failed for visual ${visualIndex}: ${message}`);
 
 			await this.generationsRepository.save(generation);
+			await this.visualVersionsService.record(generationId, visualIndex, generation.visuals[visualIndex], VisualVersionSource.RETRY, userId);
 
-			// Emit completion event
-			this.emitVisualCompleted(generationId, userId, visualIndex, generation.visuals[visualIndex]);
+			// Emit failure event
+			this.emitVisualFailed(generationId, userId, visualIndex, message);
 
-			this.logger.log(`✅ Successfully retried visual ${visualIndex} for generation ${generationId}`);
+			throw new InternalServerErrorException(`Retry failed: ${message}`);
+		}
 
-			return generation;
-		} catch (error: any) {
-			this.logger.error(`❌ Retry failed for visual ${visualIndex}: ${error.message}`);
+		const selected = generation.visuals[visualIndex];
+		this.refreshReviewStatus(generation);
+		generation.generated_images = {
+			...(generation.generated_images || {}),
+			[selected.type || `visual_${visualIndex + 1}`]: selected.image_url,
+		};
+
+		await this.generationsRepository.save(generation);
+		await this.syncProductImage(generation, selected.type || `visual_${visualIndex + 1}`, selected);
+		await this.visualVersionsService.record(generationId, visualIndex, selected, VisualVersionSource.RETRY, userId);
+		this.cleanupZip(generationId);
+
+		// Emit completion event
+		this.emitVisualCompleted(generationId, userId, visualIndex, selected);
+
+		this.logger.log(`✅ Successfully retried visual ${visualIndex} for generation ${generationId} (${newCandidates.length} candidate(s))`);
+
+		return generation;
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// CANDIDATES (N takes per shot + pick-the-best)
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * Generate `count` candidate images for one shot.
+	 * Failed takes are recorded on the candidate instead of thrown, so callers
+	 * decide what happens when no take succeeded.
+	 */
+	async generateCandidates(
+		prompt: string,
+		count: number,
+		options: {
+			aspectRatio?: string;
+			resolution?: string;
+			provider?: string;
+			model?: string;
+			referenceImages?: string[];
+			/** Generation cache (IMAGE_CACHE_ENABLED); omitted = always call the provider */
+			cache?: GenerationCacheOptions;
+		},
+	): Promise<VisualCandidate[]> {
+		const total = Math.min(Math.max(count || 1, 1), MAX_CANDIDATES_PER_SHOT);
+		const candidates: VisualCandidate[] = [];
+
+		// Reference calls always run the provider's default model
+		const cacheKey = options.cache && this.generationCache.isEnabled()
+			? this.generationCache.buildKey(options.cache.scope, {
+				prompt,
+				...options,
+				provider: this.vertexImagenService.getProviderName(options.provider),
+				model: (!options.referenceImages?.length && options.model)
+					|| this.vertexImagenService.getModelName(options.provider),
+			})
+			: null;
+		let cacheStored = false;
+
+		for (let i = 0; i < total; i++) {
+			// The cached image is offered as the first take; further takes are generated
+			if (i === 0 && cacheKey && !options.cache?.forceFresh) {
+				const cached = await this.generationCache.lookup(cacheKey, prompt);
+				if (cached) {
+					candidates.push(cached);
+					cacheStored = true;
+					continue;
+				}
+			}
+
+			const id = randomUUID();
+			try {
+				const result = options.referenceImages?.length
+					? await this.vertexImagenService.generateImageWithReference(
+						prompt,
+						options.referenceImages,
+						options.aspectRatio,
+						options.resolution,
+						undefined,
+						options.provider,
+					)
+					: await this.vertexImagenService.generateImage(
+						prompt,
+						options.model,
+						options.aspectRatio,
+						options.resolution,
+						undefined,
+						options.provider,
+					);
+
+				let imageUrl: string | null = null;
+				let imageFilename: string | null = null;
+				if (result.data) {
+					try {
+						const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
+						imageUrl = storedFile.url;
+						imageFilename = storedFile.filename;
+					} catch (fileError: any) {
+						this.logger.error(`❌ Save failed for candidate ${i + 1}/${total}: ${fileError.message}`);
+						imageUrl = `data:${result.mimeType};base64,${result.data}`;
+					}
+				}
 
-			// Mark as failed
-			generation.visuals[visualIndex] = {
+				candidates.push({
+					id,
+					status: 'completed',
+					image_url: imageUrl,
+					image_filename: imageFilename,
+					mimeType: result.mimeType,
+					provider: result.provider,
+					model: result.model,
+					prompt,
+					generated_at: new Date().toISOString(),
+				});
+
+				if (cacheKey && !cacheStored && options.cache) {
+					await this.generationCache.store(cacheKey, options.cache.scope, candidates[candidates.length - 1]);
+					cacheStored = true;
+				}
+			} catch (error: any) {
+				this.logger.warn(`⚠️ Candidate ${i + 1}/${total} failed: ${error?.message}`);
+				candidates.push({
+					id,
+					status: 'failed',
+					prompt,
+					error: error?.message || 'Unknown error',
+					generated_at: new Date().toISOString(),
+				});
+			}
+		}
+
+		return candidates;
+	}
+
+	/**
+	 * Append new candidates to a visual's history and select the first successful one.
+	 * When every new take failed, a previously selected image is kept.
+	 */
+	applyCandidates(visual: any, candidates: VisualCandidate[]): any {
+		const history: VisualCandidate[] = [...this.getCandidateHistory(visual), ...candidates];
+		const best = candidates.find(c => c.status === 'completed');
+
+		if (!best) {
+			const lastError = candidates[candidates.length - 1]?.error || 'Unknown error';
+			const hasSelection = visual?.status === 'completed' && !!visual?.image_url;
+			return {
 				...visual,
-				status: 'failed',
-				error: error?.message || 'Unknown error',
+				candidates: history,
+				status: hasSelection ? 'completed' : 'failed',
+				error: lastError,
 			};
+		}
 
-			await this.generationsRepository.save(generation);
+		return {
+			...visual,
+			...this.candidateImageFields(best),
+			candidates: history,
+			selected_candidate_id: best.id,
+			status: 'completed',
+			error: undefined,
+			qa: undefined, // QA belongs to the previous image
+			color_check: undefined,
+			review: this.pendingReview(visual),
+		};
+	}
 
-			// Emit failure event
-			this.emitVisualFailed(generationId, userId, visualIndex, error?.message || 'Unknown error');
+	/**
+	 * Mark one candidate as the selected image of a visual.
+	 * The selection feeds generated_images and, once approved, Product.generated_images and the ZIP download.
+	 */
+	async selectVisualCandidate(
+		generationId: string,
+		userId: string,
+		visualIndex: number,
+		candidateId: string,
+	): Promise<Generation> {
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.EDITOR);
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
+		}
+
+		const visual = generation.visuals?.[visualIndex];
+		if (!visual) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+
+		const candidates = this.getCandidateHistory(visual);
+		const candidate = candidates.find(c => c.id === candidateId);
+		if (!candidate) {
+			throw new NotFoundException(GenerationMessage.CANDIDATE_NOT_FOUND);
+		}
+		if (candidate.status !== 'completed' || !candidate.image_url) {
+			throw new BadRequestException(GenerationMessage.CANDIDATE_NOT_SELECTABLE);
+		}
+
+		const visuals = [...generation.visuals];
+		visuals[visualIndex] = {
+			...visual,
+			...this.candidateImageFields(candidate),
+			candidates,
+			selected_candidate_id: candidate.id,
+			status: 'completed',
+			error: undefined,
+			qa: undefined,
+			color_check: undefined,
+			review: this.pendingReview(visual),
+		};
+		generation.visuals = visuals;
+		generation.completed_visuals_count = visuals.filter((v: any) => v?.status === 'completed').length;
+		this.refreshReviewStatus(generation);
+
+		const visualType = visual.type || `visual_${visualIndex + 1}`;
+		generation.generated_images = {
+			...(generation.generated_images || {}),
+			[visualType]: candidate.image_url,
+		};
+
+		await this.generationsRepository.save(generation);
+
+		await this.syncProductImage(generation, visualType, visuals[visualIndex]);
+
+		await this.visualVersionsService.record(generationId, visualIndex, visuals[visualIndex], VisualVersionSource.SELECTION, userId);
+
+		// Any pre-generated ZIP now holds the previous pick
+		this.cleanupZip(generationId);
+
+		this.emitVisualCompleted(generationId, userId, visualIndex, visuals[visualIndex]);
+
+		this.logger.log(`🎯 Selected candidate ${candidateId} for visual ${visualIndex} (${visualType}) of generation ${generationId}`);
+
+		return generation;
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// VERSION HISTORY (immutable snapshots + rollback)
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * List every recorded version of a visual, newest first
+	 */
+	async getVisualVersions(generationId: string, userId: string, visualIndex: number): Promise<VisualVersion[]> {
+		await this.findOne(generationId, userId);
+		return this.visualVersionsService.list(generationId, visualIndex);
+	}
+
+	/**
+	 * Restore a visual to an earlier version.
+	 * Rollback never deletes history: the restored state is recorded as a new version.
+	 */
+	async rollbackVisual(
+		generationId: string,
+		userId: string,
+		visualIndex: number,
+		versionId: string,
+	): Promise<Generation> {
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.EDITOR);
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
+		}
+
+		const visual = generation.visuals?.[visualIndex];
+		if (!visual) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+
+		const version = await this.visualVersionsService.findOne(generationId, visualIndex, versionId);
+
+		// Keep the candidate history; point the selection at the restored image if it is one of them
+		const candidates = this.getCandidateHistory(visual);
+		const matchingCandidate = version.image_url
+			? candidates.find(c => c.image_url === version.image_url)
+			: undefined;
+
+		const restored = {
+			...visual,
+			prompt: version.prompt ?? visual.prompt,
+			negative_prompt: version.negative_prompt ?? undefined,
+			model: version.model ?? undefined,
+			provider: version.provider ?? undefined,
+			image_url: version.image_url ?? undefined,
+			image_filename: version.image_filename ?? undefined,
+			status: version.status || (version.image_url ? 'completed' : 'pending'),
+			error: version.error ?? undefined,
+			candidates: candidates.length ? candidates : visual.candidates,
+			selected_candidate_id: matchingCandidate?.id,
+			qa: undefined,
+			color_check: undefined,
+			review: this.pendingReview(visual),
+		};
+		if (visual.gemini_prompt) {
+			restored.gemini_prompt = restored.prompt;
+		}
+
+		const visuals = [...generation.visuals];
+		visuals[visualIndex] = restored;
+		generation.visuals = visuals;
+		generation.completed_visuals_count = visuals.filter((v: any) => v?.status === 'completed').length;
+		this.refreshReviewStatus(generation);
+
+		const visualType = visual.type || `visual_${visualIndex + 1}`;
+		const generatedImages = { ...(generation.generated_images || {}) };
+		if (restored.status === 'completed' && restored.image_url) {
+			generatedImages[visualType] = restored.image_url;
+		} else {
+			delete generatedImages[visualType];
+		}
+		generation.generated_images = generatedImages;
+
+		await this.generationsRepository.save(generation);
+
+		await this.syncProductImage(generation, visualType, restored);
+
+		await this.visualVersionsService.record(generationId, visualIndex, restored, VisualVersionSource.ROLLBACK, userId, { restoredVersionId: version.id });
+
+		this.cleanupZip(generationId);
+
+		if (restored.status === 'completed') {
+			this.emitVisualCompleted(generationId, userId, visualIndex, restored);
+		}
+
+		this.logger.log(`⏪ Rolled back visual ${visualIndex} (${visualType}) of generation ${generationId} to version ${version.version_number}`);
+
+		return generation;
+	}
+
+	/**
+	 * ✏️ Edit a generated visual with a text instruction (image-to-image).
+	 * The edited image is added as a new candidate and selected, and recorded as
+	 * a new version - the original image stays available for rollback.
+	 * Selected comment threads are appended to the instruction as reviewer feedback.
+	 */
+	async editVisual(
+		generationId: string,
+		userId: string,
+		visualIndex: number,
+		instruction: string,
+		provider?: string,
+		feedbackSelection?: VisualFeedbackSelection,
+	): Promise<Generation> {
+		UsageContext.assign({ generation_id: generationId });
+
+		const generation = await this.generationsRepository.findOne({
+			where: { id: generationId },
+			relations: ['product'],
+		});
+
+		if (!generation) {
+			throw new NotFoundException(NotFoundMessage.GENERATION_NOT_FOUND);
+		}
+		await this.assertGenerationAccess(generation, userId, WorkspaceRole.EDITOR);
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
+		}
+
+		const visual = generation.visuals?.[visualIndex];
+		if (!visual) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+		if (visual.status !== 'completed' || !visual.image_url) {
+			throw new BadRequestException(GenerationMessage.VISUAL_NOT_EDITABLE);
+		}
+
+		const imageProvider = await this.resolveImageProvider(generation, provider || visual.provider);
+		const visualType = visual.type || `visual_${visualIndex + 1}`;
+
+		// Product photos keep logos and colors exact while editing
+		const productImages = [generation.product?.front_image_url, generation.product?.back_image_url]
+			.filter((url): url is string => !!url);
 
-			throw error;
+		const feedback = await this.visualCommentsService.buildFeedback(generationId, visualIndex, feedbackSelection);
+		if (feedback) {
+			instruction = `${instruction}\n\n${feedback}`;
 		}
+
+		this.logger.log(`✏️ Editing visual ${visualIndex} (${visualType}) of generation ${generationId}: "${instruction}"`);
+
+		this.emitVisualProcessing(generationId, userId, visualIndex, visualType);
+
+		let candidate: VisualCandidate;
+		try {
+			const result = await this.vertexImagenService.editImage(
+				visual.image_url,
+				instruction,
+				productImages,
+				generation.aspect_ratio,
+				generation.resolution,
+				undefined,
+				imageProvider,
+			);
+
+			let imageUrl: string;
+			let imageFilename: string | null = null;
+			try {
+				const storedFile = await this.filesService.storeBase64Image(result.data, result.mimeType);
+				imageUrl = storedFile.url;
+				imageFilename = storedFile.filename;
+			} catch (fileError: any) {
+				this.logger.error(`❌ Save failed for edited visual ${visualIndex}: ${fileError.message}`);
+				imageUrl = `data:${result.mimeType};base64,${result.data}`;
+			}
+
+			candidate = {
+				id: randomUUID(),
+				status: 'completed',
+				image_url: imageUrl,
+				image_filename: imageFilename,
+				mimeType: result.mimeType,
+				provider: result.provider,
+				model: result.model,
+				prompt: visual.prompt,
+				edit_instruction: instruction,
+				edited_from_candidate_id: visual.selected_candidate_id || null,
+				generated_at: new Date().toISOString(),
+			};
+		} catch (error: any) {
+			this.logger.error(`❌ Edit failed for visual ${visualIndex}: ${error.message}`);
+
+			// The visual itself is unchanged - put the UI back on the current image
+			this.emitVisualCompleted(generationId, userId, visualIndex, visual);
+
+			throw new InternalServerErrorException(`Edit failed: ${error.message}`);
+		}
+
+		const edited = this.applyCandidates(visual, [candidate]);
+		const visuals = [...generation.visuals];
+		visuals[visualIndex] = edited;
+		generation.visuals = visuals;
+		this.refreshReviewStatus(generation);
+		generation.generated_images = {
+			...(generation.generated_images || {}),
+			[visualType]: edited.image_url,
+		};
+
+		await this.generationsRepository.save(generation);
+
+		await this.syncProductImage(generation, visualType, edited);
+
+		await this.visualVersionsService.record(generationId, visualIndex, edited, VisualVersionSource.EDIT, userId, { instruction });
+
+		this.cleanupZip(generationId);
+
+		this.emitVisualCompleted(generationId, userId, visualIndex, edited);
+
+		this.logger.log(`✅ Edited visual ${visualIndex} (${visualType}) of generation ${generationId}`);
+
+		return generation;
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// COMMENTS (pinned threads on visuals)
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * Comment threads of a generation, optionally for one visual
+	 */
+	async listVisualComments(
+		generationId: string,
+		userId: string,
+		visualIndex?: number,
+		includeResolved: boolean = true,
+	): Promise<VisualCommentThread[]> {
+		await this.findOne(generationId, userId);
+		return this.visualCommentsService.listThreads(generationId, visualIndex, includeResolved);
+	}
+
+	/**
+	 * Start a thread on a visual (optionally pinned to a point / rectangle) or reply to one
+	 */
+	async addVisualComment(
+		generationId: string,
+		userId: string,
+		visualIndex: number,
+		dto: CreateVisualCommentDto,
+	): Promise<VisualCommentView> {
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.REVIEWER);
+
+		const visual = generation.visuals?.[visualIndex];
+		if (!visual) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+
+		return this.visualCommentsService.create(generationId, visualIndex, visual, userId, dto);
+	}
+
+	async setVisualCommentResolved(
+		generationId: string,
+		userId: string,
+		commentId: string,
+		resolved: boolean,
+	): Promise<VisualCommentView> {
+		await this.findOne(generationId, userId, WorkspaceRole.REVIEWER);
+		return this.visualCommentsService.setResolved(generationId, commentId, userId, resolved);
+	}
+
+	async deleteVisualComment(generationId: string, userId: string, commentId: string): Promise<void> {
+		await this.findOne(generationId, userId, WorkspaceRole.REVIEWER);
+		await this.visualCommentsService.remove(generationId, commentId, userId);
+	}
+
+	// ═══════════════════════════════════════════════════════════════════════════
+	// REVIEW / SIGN-OFF (only approved visuals are published)
+	// ═══════════════════════════════════════════════════════════════════════════
+
+	/**
+	 * Approve, reject or request changes on a visual's current image.
+	 * Rejected / needs_changes require a comment so the creator knows what to fix.
+	 */
+	async reviewVisual(generationId: string, userId: string, visualIndex: number, dto: ReviewVisualDto): Promise<Generation> {
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.REVIEWER);
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
+		}
+
+		const visual = generation.visuals?.[visualIndex];
+		if (!visual) {
+			throw new BadRequestException(`Visual at index ${visualIndex} not found`);
+		}
+		if (visual.status !== 'completed' || !visual.image_url) {
+			throw new BadRequestException(ReviewMessage.VISUAL_NOT_REVIEWABLE);
+		}
+
+		const comment = dto.comment?.trim() || null;
+		if ((dto.status === VisualReviewStatus.REJECTED || dto.status === VisualReviewStatus.NEEDS_CHANGES) && !comment) {
+			throw new BadRequestException(ReviewMessage.COMMENT_REQUIRED);
+		}
+
+		const entry: VisualReviewEntry = {
+			status: dto.status,
+			comment,
+			reviewed_by: userId,
+			reviewed_at: new Date().toISOString(),
+			image_url: visual.image_url,
+		};
+		const review: VisualReview = {
+			status: entry.status,
+			comment: entry.comment,
+			reviewed_by: entry.reviewed_by,
+			reviewed_at: entry.reviewed_at,
+			history: [...(visual.review?.history || []), entry],
+		};
+
+		const visuals = [...generation.visuals];
+		visuals[visualIndex] = { ...visual, review };
+		generation.visuals = visuals;
+		this.refreshReviewStatus(generation);
+
+		await this.generationsRepository.save(generation);
+
+		const visualType = visual.type || `visual_${visualIndex + 1}`;
+		await this.syncProductImage(generation, visualType, visuals[visualIndex]);
+
+		// The archive content depends on which visuals are approved
+		this.cleanupZip(generationId);
+
+		this.emitVisualReviewed(generationId, userId, visualIndex, review, generation.review_status);
+
+		this.logger.log(`📝 Visual ${visualIndex} (${visualType}) of generation ${generationId} reviewed: ${dto.status}`);
+
+		return generation;
+	}
+
+	/**
+	 * Sign off the whole generation. Every completed visual must be approved or
+	 * rejected (rejected ones are simply not published), with at least one approved.
+	 */
+	async signOffGeneration(generationId: string, userId: string, comment?: string): Promise<Generation> {
+		const generation = await this.findOne(generationId, userId, WorkspaceRole.REVIEWER);
+
+		if (generation.status === GenerationStatus.PROCESSING) {
+			throw new BadRequestException(GenerationMessage.GENERATION_IN_PROGRESS);
+		}
+
+		const statuses = (generation.visuals || [])
+			.filter((v: any) => v?.status === 'completed')
+			.map((v: any) => this.getVisualReviewStatus(v));
+
+		if (statuses.includes(VisualReviewStatus.PENDING_REVIEW)) {
+			throw new BadRequestException(ReviewMessage.PENDING_VISUALS);
+		}
+		if (statuses.includes(VisualReviewStatus.NEEDS_CHANGES)) {
+			throw new BadRequestException(ReviewMessage.CHANGES_REQUESTED);
+		}
+		if (!statuses.includes(VisualReviewStatus.APPROVED)) {
+			throw new BadRequestException(ReviewMessage.NO_APPROVED_VISUALS);
+		}
+
+		generation.review_status = GenerationReviewStatus.APPROVED;
+		generation.signed_off_by = userId;
+		generation.signed_off_at = new Date();
+		generation.sign_off_comment = comment?.trim() || null;
+
+		await this.generationsRepository.save(generation);
+
+		this.preGenerateZipArchive(generationId).catch((err) => {
+			this.logger.warn(`⚠️ ZIP pre-generation failed for ${generationId}: ${err.message}`);
+		});
+
+		this.logger.log(`✅ Generation ${generationId} signed off by ${userId}`);
+
+		return generation;
+	}
+
+	/**
+	 * Review state and feedback of every visual, for the creator and reviewers
+	 */
+	async getReviewSummary(generationId: string, userId: string): Promise<GenerationReviewSummary> {
+		const generation = await this.findOne(generationId, userId);
+
+		const counts = Object.values(VisualReviewStatus).reduce(
+			(acc, status) => ({ ...acc, [status]: 0 }),
+			{} as Record<VisualReviewStatus, number>,
+		);
+
+		const visuals = (generation.visuals || [])
+			.map((visual: any, index: number) => ({ visual, index }))
+			.filter(({ visual }) => visual?.status === 'completed')
+			.map(({ visual, index }) => {
+				const reviewStatus = this.getVisualReviewStatus(visual);
+				counts[reviewStatus]++;
+				return {
+					index,
+					type: visual.type || `visual_${index + 1}`,
+					image_url: visual.image_url,
+					review_status: reviewStatus,
+					comment: visual.review?.comment ?? null,
+					reviewed_by: visual.review?.reviewed_by ?? null,
+					reviewed_at: visual.review?.reviewed_at ?? null,
+					history: visual.review?.history || [],
+				};
+			});
+
+		return {
+			generation_id: generation.id,
+			review_status: generation.review_status,
+			signed_off_by: generation.signed_off_by,
+			signed_off_at: generation.signed_off_at,
+			sign_off_comment: generation.sign_off_comment,
+			counts,
+			visuals,
+		};
+	}
+
+	/**
+	 * Review status of a visual (visuals never reviewed are pending)
+	 */
+	getVisualReviewStatus(visual: any): VisualReviewStatus {
+		return visual?.review?.status || VisualReviewStatus.PENDING_REVIEW;
+	}
+
+	/**
+	 * Only approved, completed visuals reach the ZIP download and Product.generated_images
+	 */
+	isVisualApproved(visual: any): boolean {
+		return visual?.status === 'completed' && !!visual?.image_url
+			&& this.getVisualReviewStatus(visual) === VisualReviewStatus.APPROVED;
+	}
+
+	/**
+	 * Recompute generation.review_status from its visuals.
+	 * A sign-off only holds while no visual is pending or needs changes - a new image revokes it.
+	 */
+	refreshReviewStatus(generation: Generation): void {
+		const statuses = (generation.visuals || [])
+			.filter((v: any) => v?.status === 'completed')
+			.map((v: any) => this.getVisualReviewStatus(v));
+
+		const open = statuses.includes(VisualReviewStatus.PENDING_REVIEW) || statuses.includes(VisualReviewStatus.NEEDS_CHANGES);
+		if (generation.review_status === GenerationReviewStatus.APPROVED && !open && statuses.includes(VisualReviewStatus.APPROVED)) {
+			return;
+		}
+
+		generation.signed_off_by = null;
+		generation.signed_off_at = null;
+		generation.sign_off_comment = null;
+		generation.review_status = statuses.includes(VisualReviewStatus.REJECTED) || statuses.includes(VisualReviewStatus.NEEDS_CHANGES)
+			? GenerationReviewStatus.CHANGES_REQUESTED
+			: GenerationReviewStatus.PENDING_REVIEW;
+	}
+
+	/**
+	 * Fresh review for a new image; earlier decisions stay in history as feedback
+	 */
+	private pendingReview(visual: any): VisualReview {
+		return {
+			status: VisualReviewStatus.PENDING_REVIEW,
+			history: visual?.review?.history || [],
+		};
+	}
+
+	/**
+	 * Mirror a visual's image onto Product.generated_images.
+	 * Only approved images are published; anything else removes the entry.
+	 */
+	private async syncProductImage(generation: Generation, visualType: string, visual: any): Promise<void> {
+		if (!generation.product_id) return;
+
+		const imageFilename: string | null = this.isVisualApproved(visual) ? visual.image_filename || null : null;
+
+		const product = await this.productsRepository.findOne({ where: { id: generation.product_id } });
+		if (!product) return;
+
+		const productImages = { ...(product.generated_images || {}) };
+		if (imageFilename) {
+			productImages[visualType] = imageFilename;
+		} else {
+			delete productImages[visualType];
+		}
+		product.generated_images = productImages;
+		await this.productsRepository.save(product);
+	}
+
+	/**
+	 * Candidate history of a visual. Visuals created before candidates existed
+	 * get their current image wrapped as the first candidate so it is not lost.
+	 */
+	private getCandidateHistory(visual: any): VisualCandidate[] {
+		if (Array.isArray(visual?.candidates)) {
+			return visual.candidates;
+		}
+		if (visual?.status === 'completed' && visual?.image_url) {
+			return [{
+				id: randomUUID(),
+				status: 'completed',
+				image_url: visual.image_url,
+				image_filename: visual.image_filename,
+				mimeType: visual.mimeType,
+				provider: visual.provider,
+				model: visual.model,
+				prompt: visual.prompt,
+				generated_at: visual.generated_at || new Date().toISOString(),
+			}];
+		}
+		return [];
+	}
+
+	private candidateImageFields(candidate: VisualCandidate): Record<string, any> {
+		return {
+			image_url: candidate.image_url,
+			image_filename: candidate.image_filename,
+			mimeType: candidate.mimeType,
+			provider: candidate.provider,
+			model: candidate.model,
+			generated_at: candidate.generated_at,
+		};
+	}
+
+	/**
+	 * Check the user's workspace role on the generation's brand.
+	 * Generations without a brand stay accessible to their creator only.
+	 */
+	private async assertGenerationAccess(
+		generation: Generation,
+		userId: string,
+		minRole: WorkspaceRole = WorkspaceRole.VIEWER,
+	): Promise<void> {
+		const brandId = await this.resolveBrandId(generation);
+
+		if (!brandId) {
+			if (generation.user_id !== userId) {
+				throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+			}
+			return;
+		}
+
+		await this.workspaceAccess.assertBrandAccess(brandId, userId, minRole);
+	}
+
+	/**
+	 * Same as assertGenerationAccess for a product (brand from its collection, else product.brand_id)
+	 */
+	private async assertProductAccess(product: Product, userId: string, minRole: WorkspaceRole): Promise<void> {
+		const brandId = product.collection?.brand_id || product.brand_id;
+
+		if (!brandId) {
+			if (product.user_id !== userId) {
+				throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+			}
+			return;
+		}
+
+		await this.workspaceAccess.assertBrandAccess(brandId, userId, minRole);
+	}
+
+	/**
+	 * Style guide of the generation's brand (merged into every prompt)
+	 */
+	private async getBrandStyleGuide(generation: Generation): Promise<BrandStyleGuide | null> {
+		const brandId = await this.resolveBrandId(generation);
+		if (!brandId) return null;
+
+		const brand = await this.brandsRepository.findOne({
+			where: { id: brandId },
+			select: ['id', 'style_guide'],
+		});
+		return brand?.style_guide || null;
+	}
+
+	private async resolveBrandId(generation: Generation): Promise<string | null> {
+		if (generation.collection?.brand_id) {
+			return generation.collection.brand_id;
+		}
+		if (generation.collection_id) {
+			const collection = await this.collectionsRepository.findOne({
+				where: { id: generation.collection_id },
+				select: ['id', 'brand_id'],
+			});
+			if (collection?.brand_id) {
+				return collection.brand_id;
+			}
+		}
+		if (generation.product?.brand_id) {
+			return generation.product.brand_id;
+		}
+		if (generation.product_id) {
+			const product = await this.productsRepository.findOne({
+				where: { id: generation.product_id },
+				select: ['id', 'brand_id'],
+			});
+			return product?.brand_id || null;
+		}
+		return null;
+	}
+
+	/**
+	 * Generation cache options for a generation's image calls (scoped to its brand, else its owner)
+	 */
+	async getCacheOptions(generation: Generation, forceFresh?: boolean): Promise<GenerationCacheOptions> {
+		return {
+			scope: { brand_id: await this.resolveBrandId(generation), user_id: generation.user_id },
+			forceFresh: !!forceFresh,
+		};
+	}
+
+	/**
+	 * Workspace of the generation's brand (null = personal), used for queue caps
+	 */
+	async resolveWorkspaceId(generation: Generation): Promise<string | null> {
+		const brandId = await this.resolveBrandId(generation);
+		if (!brandId) return null;
+
+		const brand = await this.brandsRepository.findOne({
+			where: { id: brandId },
+			select: ['id', 'workspace_id'],
+		});
+		return brand?.workspace_id || null;
+	}
+
+	/**
+	 * Resolve which image provider a generation should use.
+	 * Order: explicit request → generation's stored provider → user preference → IMAGE_PROVIDER config.
+	 */
+	private async resolveImageProvider(generation: Generation, requested?: string): Promise<string> {
+		let name = requested || generation.image_provider;
+
+		if (!name) {
+			const user = await this.usersRepository.findOne({
+				where: { id: generation.user_id },
+				select: ['id', 'image_provider'],
+			});
+			name = user?.image_provider;
+		}
+
+		// Validates the name (throws BadRequest for unknown providers) and applies the default
+		return this.vertexImagenService.getProviderName(name);
 	}
 }
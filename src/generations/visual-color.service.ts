@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sharp from 'sharp';
+import { ColorUtil } from '../common/utils/color.util';
+import { VisualColorCheck, VisualColorSample } from '../common/interfaces/visual-qa.interface';
+
+/** Images are downscaled to this size before sampling */
+const SAMPLE_SIZE = 96;
+/** Channel quantization step used to group similar pixels */
+const BUCKET_STEP = 16;
+/** Number of dominant colors compared per region */
+const REGION_PALETTE_SIZE = 3;
+
+type Rgb = { r: number; g: number; b: number };
+
+/** Region of the image as fractions of width / height */
+interface SampleRegion {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Regions sampled per check. The garment sits in the middle of every shot;
+ * scene shots have the wall at the top and the floor at the bottom.
+ */
+const REGIONS: Record<VisualColorSample['region'], SampleRegion> = {
+	garment: { left: 0.3, top: 0.3, width: 0.4, height: 0.4 },
+	background: { left: 0, top: 0, width: 1, height: 0.15 },
+	floor: { left: 0, top: 0.88, width: 1, height: 0.12 },
+};
+
+/**
+ * Deterministic color fidelity check (no AI).
+ *
+ * Downscales the generated image with sharp, finds the dominant colors of the
+ * garment / background / floor regions and measures Delta-E against the product
+ * hex_code and the DA preset background_hex / floor_hex. The same image always
+ * gives the same result.
+ */
+@Injectable()
+export class VisualColorService {
+	private readonly logger = new Logger(VisualColorService.name);
+
+	constructor(private readonly configService: ConfigService) {}
+
+	isEnabled(): boolean {
+		return this.configService.get<boolean>('qa.colorCheck.enabled') !== false;
+	}
+
+	/**
+	 * @param expected - Hex colors to compare against; missing ones are skipped
+	 */
+	async check(
+		imageUrl: string,
+		expected: { garment_hex?: string | null; background_hex?: string | null; floor_hex?: string | null },
+	): Promise<VisualColorCheck> {
+		const buffer = await this.loadImage(imageUrl);
+		const { data, info } = await sharp(buffer)
+			.resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+			.removeAlpha()
+			.raw()
+			.toBuffer({ resolveWithObject: true });
+
+		const maxGarmentDeltaE = this.configService.get<number>('qa.colorCheck.maxGarmentDeltaE') ?? 12;
+		const maxSceneDeltaE = this.configService.get<number>('qa.colorCheck.maxSceneDeltaE') ?? 20;
+
+		const targets: Array<{ region: VisualColorSample['region']; hex?: string | null; max: number }> = [
+			{ region: 'garment', hex: expected.garment_hex, max: maxGarmentDeltaE },
+			{ region: 'background', hex: expected.background_hex, max: maxSceneDeltaE },
+			{ region: 'floor', hex: expected.floor_hex, max: maxSceneDeltaE },
+		];
+
+		const samples: VisualColorSample[] = [];
+		for (const target of targets) {
+			if (!ColorUtil.hexToRgb(target.hex)) continue;
+
+			const palette = this.dominantColors(data, info.width, info.height, REGIONS[target.region], REGION_PALETTE_SIZE);
+
+			// The region may also hold skin, logos or props - compare with its closest dominant color
+			let sampledHex: string | null = null;
+			let deltaE: number | null = null;
+			for (const color of palette) {
+				const distance = ColorUtil.deltaE(target.hex, color);
+				if (distance !== null && (deltaE === null || distance < deltaE)) {
+					deltaE = distance;
+					sampledHex = color;
+				}
+			}
+
+			samples.push({
+				region: target.region,
+				expected_hex: ColorUtil.rgbToHex(ColorUtil.hexToRgb(target.hex)),
+				sampled_hex: sampledHex,
+				delta_e: deltaE !== null ? Math.round(deltaE * 10) / 10 : null,
+				max_delta_e: target.max,
+				passed: deltaE !== null && deltaE <= target.max,
+			});
+		}
+
+		const passed = samples.every((sample) => sample.passed);
+		this.logger.log(
+			`🎨 Color check: ${samples.map((s) => `${s.region} ΔE=${s.delta_e ?? '-'}`).join(', ') || 'nothing to compare'} → ${passed ? 'passed' : 'FAILED'}`,
+		);
+
+		return {
+			passed,
+			samples,
+			palette: this.dominantColors(data, info.width, info.height, { left: 0, top: 0, width: 1, height: 1 }, 5),
+			checked_at: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Most frequent quantized colors of a region (average of the pixels in each bucket)
+	 */
+	private dominantColors(data: Buffer, width: number, height: number, region: SampleRegion, count: number): string[] {
+		const x0 = Math.floor(region.left * width);
+		const y0 = Math.floor(region.top * height);
+		const x1 = Math.min(width, Math.ceil((region.left + region.width) * width));
+		const y1 = Math.min(height, Math.ceil((region.top + region.height) * height));
+
+		const buckets = new Map<number, { count: number; sum: Rgb }>();
+		for (let y = y0; y < y1; y++) {
+			for (let x = x0; x < x1; x++) {
+				const offset = (y * width + x) * 3;
+				const r = data[offset];
+				const g = data[offset + 1];
+				const b = data[offset + 2];
+				const key =
+					(Math.floor(r / BUCKET_STEP) << 16) | (Math.floor(g / BUCKET_STEP) << 8) | Math.floor(b / BUCKET_STEP);
+
+				const bucket = buckets.get(key) || { count: 0, sum: { r: 0, g: 0, b: 0 } };
+				bucket.count++;
+				bucket.sum.r += r;
+				bucket.sum.g += g;
+				bucket.sum.b += b;
+				buckets.set(key, bucket);
+			}
+		}
+
+		// Ties are broken by bucket key so the order never depends on pixel iteration
+		return [...buckets.entries()]
+			.sort((a, b) => b[1].count - a[1].count || a[0] - b[0])
+			.slice(0, count)
+			.map(([, bucket]) =>
+				ColorUtil.rgbToHex({
+					r: bucket.sum.r / bucket.count,
+					g: bucket.sum.g / bucket.count,
+					b: bucket.sum.b / bucket.count,
+				}),
+			);
+	}
+
+	/**
+	 * Read an image from our uploads, a data URL or a remote URL
+	 */
+	private async loadImage(imageUrl: string): Promise<Buffer> {
+		if (imageUrl.startsWith('data:')) {
+			return Buffer.from(imageUrl.split(',')[1] || '', 'base64');
+		}
+
+		const uploadBaseUrl = this.configService.get<string>('upload.baseUrl') || '';
+		const localCandidate =
+			uploadBaseUrl && imageUrl.startsWith(uploadBaseUrl)
+				? path.join(process.cwd(), imageUrl.replace(uploadBaseUrl, '').replace(/^\/+/, ''))
+				: !/^https?:\/\//.test(imageUrl)
+					? path.join(process.cwd(), imageUrl.replace(/^\/+/, ''))
+					: null;
+
+		// Our own upload - read from disk instead of going over the network
+		if (localCandidate && fs.existsSync(localCandidate)) {
+			return fs.promises.readFile(localCandidate);
+		}
+
+		const response = await fetch(imageUrl);
+		if (!response.ok) {
+			throw new Error(`Failed to fetch image (${response.status})`);
+		}
+		return Buffer.from(await response.arrayBuffer());
+	}
+}
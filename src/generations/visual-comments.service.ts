@@ -0,0 +1,270 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { VisualComment } from '../database/entities/visual-comment.entity';
+import { CreateVisualCommentDto } from '../libs/dto';
+import { CommentMessage, NotFoundMessage, PermissionMessage } from '../libs/enums';
+import { VisualCommentAnchor, VisualFeedbackSelection } from '../common/interfaces/visual-comment.interface';
+import { GenerationGateway } from './generation.gateway';
+
+export interface VisualCommentView {
+	id: string;
+	visual_index: number;
+	visual_type: string | null;
+	parent_id: string | null;
+	body: string;
+	anchor: VisualCommentAnchor | null;
+	image_url: string | null;
+	resolved: boolean;
+	resolved_by: string | null;
+	resolved_at: Date | null;
+	author: { id: string; name: string | null };
+	created_at: Date;
+	updated_at: Date;
+}
+
+export interface VisualCommentThread extends VisualCommentView {
+	replies: VisualCommentView[];
+}
+
+/**
+ * Review comment threads pinned on generation visuals.
+ * Access checks happen in GenerationsService; this service owns storage,
+ * live updates and turning threads into prompt feedback.
+ */
+@Injectable()
+export class VisualCommentsService {
+	private readonly logger = new Logger(VisualCommentsService.name);
+
+	constructor(
+		@InjectRepository(VisualComment)
+		private readonly commentsRepository: Repository<VisualComment>,
+		private readonly generationGateway: GenerationGateway,
+	) {}
+
+	/**
+	 * Threads of a generation (optionally one visual), oldest first, replies nested
+	 */
+	async listThreads(generationId: string, visualIndex?: number, includeResolved: boolean = true): Promise<VisualCommentThread[]> {
+		const where: Record<string, any> = { generation_id: generationId };
+		if (visualIndex !== undefined) {
+			where.visual_index = visualIndex;
+		}
+
+		const comments = await this.commentsRepository.find({
+			where,
+			relations: ['user'],
+			order: { created_at: 'ASC' },
+		});
+
+		const threads = new Map<string, VisualCommentThread>();
+		for (const comment of comments.filter((c) => !c.parent_id)) {
+			if (!includeResolved && comment.resolved) continue;
+			threads.set(comment.id, { ...this.toView(comment), replies: [] });
+		}
+		for (const reply of comments.filter((c) => !!c.parent_id)) {
+			threads.get(reply.parent_id as string)?.replies.push(this.toView(reply));
+		}
+
+		return [...threads.values()];
+	}
+
+	/**
+	 * Start a thread (optionally pinned) or reply to one
+	 */
+	async create(
+		generationId: string,
+		visualIndex: number,
+		visual: any,
+		userId: string,
+		dto: CreateVisualCommentDto,
+	): Promise<VisualCommentView> {
+		let parentId: string | null = null;
+
+		if (dto.parent_id) {
+			if (dto.anchor) {
+				throw new BadRequestException(CommentMessage.REPLY_ANCHOR_NOT_ALLOWED);
+			}
+			const parent = await this.findOne(generationId, dto.parent_id);
+			if (parent.visual_index !== visualIndex) {
+				throw new BadRequestException(CommentMessage.PARENT_MISMATCH);
+			}
+			// Replies always hang off the thread root
+			parentId = parent.parent_id || parent.id;
+		}
+
+		const comment = this.commentsRepository.create({
+			generation_id: generationId,
+			visual_index: visualIndex,
+			visual_type: visual?.type || null,
+			parent_id: parentId,
+			user_id: userId,
+			body: dto.body.trim(),
+			anchor: dto.anchor ? this.normalizeAnchor(dto.anchor) : null,
+			image_url: visual?.image_url || null,
+		});
+		const saved = await this.commentsRepository.save(comment);
+
+		const view = this.toView(await this.findOne(generationId, saved.id));
+		this.generationGateway.emitVisualComment(generationId, {
+			action: 'created',
+			visual_index: visualIndex,
+			comment_id: view.id,
+			parent_id: view.parent_id,
+			comment: view,
+		});
+
+		return view;
+	}
+
+	/**
+	 * Resolve or reopen a thread
+	 */
+	async setResolved(generationId: string, commentId: string, userId: string, resolved: boolean): Promise<VisualCommentView> {
+		const comment = await this.findOne(generationId, commentId);
+		if (comment.parent_id) {
+			throw new BadRequestException(CommentMessage.NOT_THREAD_ROOT);
+		}
+
+		comment.resolved = resolved;
+		comment.resolved_by = resolved ? userId : null;
+		comment.resolved_at = resolved ? new Date() : null;
+		await this.commentsRepository.save(comment);
+
+		const view = this.toView(comment);
+		this.generationGateway.emitVisualComment(generationId, {
+			action: resolved ? 'resolved' : 'reopened',
+			visual_index: comment.visual_index,
+			comment_id: comment.id,
+			parent_id: null,
+			comment: view,
+		});
+
+		return view;
+	}
+
+	/**
+	 * Delete a comment (author only). Deleting a root removes its replies.
+	 */
+	async remove(generationId: string, commentId: string, userId: string): Promise<void> {
+		const comment = await this.findOne(generationId, commentId);
+		if (comment.user_id !== userId) {
+			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+		}
+
+		await this.commentsRepository.remove(comment);
+
+		this.generationGateway.emitVisualComment(generationId, {
+			action: 'deleted',
+			visual_index: comment.visual_index,
+			comment_id: commentId,
+			parent_id: comment.parent_id,
+		});
+	}
+
+	/**
+	 * Turn the selected threads of a visual into a prompt block, e.g.
+	 *   Reviewer feedback to address:
+	 *   - At the top-left (x 20%, y 15%): logo too low here
+	 * Returns null when nothing is selected.
+	 */
+	async buildFeedback(generationId: string, visualIndex: number, selection?: VisualFeedbackSelection): Promise<string | null> {
+		const ids = selection?.comment_ids || [];
+		if (!ids.length && !selection?.apply_open_comments) {
+			return null;
+		}
+
+		const threads = await this.listThreads(generationId, visualIndex);
+		const selected = threads.filter((thread) =>
+			ids.includes(thread.id)
+			|| thread.replies.some((reply) => ids.includes(reply.id))
+			|| (selection?.apply_open_comments && !thread.resolved),
+		);
+
+		const missing = ids.filter((id) => !threads.some((t) => t.id === id || t.replies.some((r) => r.id === id)));
+		if (missing.length) {
+			throw new NotFoundException(NotFoundMessage.COMMENT_NOT_FOUND);
+		}
+		if (!selected.length) {
+			return null;
+		}
+
+		const lines = selected.map((thread) => {
+			const text = [thread.body, ...thread.replies.map((reply) => reply.body)].join(' / ');
+			return `- ${this.describeAnchor(thread.anchor)}: ${text}`;
+		});
+
+		this.logger.log(`💬 Using ${selected.length} comment thread(s) as feedback for visual ${visualIndex} of ${generationId}`);
+
+		return `Reviewer feedback to address:\n${lines.join('\n')}`;
+	}
+
+	private async findOne(generationId: string, commentId: string): Promise<VisualComment> {
+		const comment = await this.commentsRepository.findOne({
+			where: { id: commentId, generation_id: generationId },
+			relations: ['user'],
+		});
+
+		if (!comment) {
+			throw new NotFoundException(NotFoundMessage.COMMENT_NOT_FOUND);
+		}
+
+		return comment;
+	}
+
+	/**
+	 * Rectangles must stay inside the image
+	 */
+	private normalizeAnchor(anchor: CreateVisualCommentDto['anchor']): VisualCommentAnchor {
+		if (anchor!.type === 'point') {
+			return { type: 'point', x: anchor!.x, y: anchor!.y };
+		}
+
+		const width = anchor!.width ?? 0;
+		const height = anchor!.height ?? 0;
+		if (width <= 0 || height <= 0 || anchor!.x + width > 1 || anchor!.y + height > 1) {
+			throw new BadRequestException(CommentMessage.INVALID_ANCHOR);
+		}
+
+		return { type: 'rect', x: anchor!.x, y: anchor!.y, width, height };
+	}
+
+	/**
+	 * Human-readable position for prompts ("at the top-left (x 20%, y 15%)")
+	 */
+	private describeAnchor(anchor: VisualCommentAnchor | null): string {
+		if (!anchor) {
+			return 'Whole image';
+		}
+
+		const pct = (value: number) => `${Math.round(value * 100)}%`;
+		const centerX = anchor.type === 'rect' ? anchor.x + anchor.width / 2 : anchor.x;
+		const centerY = anchor.type === 'rect' ? anchor.y + anchor.height / 2 : anchor.y;
+		const vertical = centerY < 1 / 3 ? 'top' : centerY > 2 / 3 ? 'bottom' : 'middle';
+		const horizontal = centerX < 1 / 3 ? 'left' : centerX > 2 / 3 ? 'right' : 'center';
+		const area = vertical === 'middle' && horizontal === 'center' ? 'center' : `${vertical}-${horizontal}`;
+
+		if (anchor.type === 'rect') {
+			return `In the ${area} area (x ${pct(anchor.x)}-${pct(anchor.x + anchor.width)}, y ${pct(anchor.y)}-${pct(anchor.y + anchor.height)})`;
+		}
+		return `At the ${area} (x ${pct(anchor.x)}, y ${pct(anchor.y)})`;
+	}
+
+	private toView(comment: VisualComment): VisualCommentView {
+		return {
+			id: comment.id,
+			visual_index: comment.visual_index,
+			visual_type: comment.visual_type,
+			parent_id: comment.parent_id,
+			body: comment.body,
+			anchor: comment.anchor,
+			image_url: comment.image_url,
+			resolved: comment.resolved,
+			resolved_by: comment.resolved_by,
+			resolved_at: comment.resolved_at,
+			author: { id: comment.user_id, name: comment.user?.name ?? null },
+			created_at: comment.created_at,
+			updated_at: comment.updated_at,
+		};
+	}
+}
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClaudeService } from '../ai/claude.service';
+import { ColorUtil } from '../common/utils/color.util';
+import {
+	VisualQaExpectations,
+	VisualQaObservation,
+	VisualQaResult,
+	VisualQaViolation,
+} from '../common/interfaces/visual-qa.interface';
+
+/** Score deducted per violation severity */
+const SEVERITY_PENALTY: Record<VisualQaViolation['severity'], number> = {
+	low: 5,
+	medium: 15,
+	high: 30,
+};
+
+/**
+ * Post-generation QA of generated visuals.
+ *
+ * A vision model reports what is visible in the image (ClaudeService.inspectGeneratedImage),
+ * then the report is compared here with the product JSON. Checks the shot cannot show
+ * (null in the observation, e.g. pockets on a close-up) are skipped, not failed.
+ */
+@Injectable()
+export class VisualQaService {
+	private readonly logger = new Logger(VisualQaService.name);
+
+	constructor(
+		private readonly claudeService: ClaudeService,
+		private readonly configService: ConfigService,
+	) { }
+
+	isEnabled(): boolean {
+		return this.configService.get<boolean>('qa.enabled') !== false;
+	}
+
+	getMinScore(): number {
+		return this.configService.get<number>('qa.minScore') ?? 70;
+	}
+
+	/**
+	 * Inspect one generated image and score it against the product JSON
+	 */
+	async evaluate(imageUrl: string, shotType: string, productJson: Record<string, any>, retries: number = 0): Promise<VisualQaResult> {
+		const observation = await this.claudeService.inspectGeneratedImage(imageUrl, shotType);
+		const violations = this.compare(observation, this.extractExpectations(productJson));
+
+		const score = Math.max(0, 100 - violations.reduce((sum, v) => sum + SEVERITY_PENALTY[v.severity], 0));
+		const passed = score >= this.getMinScore();
+
+		this.logger.log(`🔎 QA ${shotType}: score=${score} ${passed ? 'passed' : 'FAILED'} (${violations.length} violation(s))`);
+
+		return {
+			score,
+			passed,
+			violations,
+			observation,
+			retries,
+			checked_at: new Date().toISOString(),
+			model: this.claudeService.getModel(),
+		};
+	}
+
+	/**
+	 * Pull the checkable values out of final_product_json.
+	 * Supports the direct analysis shape (visual_specs / design_front / garment_details)
+	 * and the legacy AnalyzedProductJSON shape (color_hex / details).
+	 */
+	extractExpectations(productJson: Record<string, any>): VisualQaExpectations {
+		const json = productJson || {};
+		const designFront = json.design_front || {};
+		const garment = json.garment_details || {};
+
+		const logoText = designFront.has_logo !== false && typeof designFront.logo_text === 'string' && designFront.logo_text.trim()
+			? designFront.logo_text.trim()
+			: null;
+
+		let pocketCount: number | null = null;
+		if (Array.isArray(garment.pockets_array)) {
+			pocketCount = garment.pockets_array.length;
+		} else if (garment.lower_pockets?.count !== undefined || garment.chest_pocket?.count !== undefined) {
+			pocketCount = (garment.lower_pockets?.count || 0) + (garment.chest_pocket?.count || 0);
+		}
+
+		const buttonCount = Number.isInteger(garment.buttons?.front_closure_count)
+			? garment.buttons.front_closure_count
+			: null;
+
+		const closureText = [garment.closure_details, json.details?.closure, json.details?.zip]
+			.filter((v) => typeof v === 'string')
+			.join(' ');
+		const zipperPresent = closureText ? /zip/i.test(closureText) && !/\bno zip/i.test(closureText) : null;
+
+		return {
+			logo_text: logoText,
+			hex: json.visual_specs?.hex_code || json.color_hex || null,
+			pocket_count: pocketCount,
+			button_count: buttonCount,
+			zipper_present: zipperPresent,
+		};
+	}
+
+	/**
+	 * Compare what was seen with what was expected
+	 */
+	compare(observation: VisualQaObservation, expected: VisualQaExpectations): VisualQaViolation[] {
+		const violations: VisualQaViolation[] = [];
+
+		if (!observation.product_visible) {
+			violations.push({
+				check: 'product',
+				severity: 'high',
+				message: 'Garment is not clearly visible',
+			});
+			return violations;
+		}
+
+		// Logo text is only comparable when the front of the garment is visible
+		if (expected.logo_text && observation.logo_text && observation.view !== 'back') {
+			if (this.normalizeText(observation.logo_text) !== this.normalizeText(expected.logo_text)) {
+				violations.push({
+					check: 'logo_text',
+					severity: 'high',
+					message: `Logo reads "${observation.logo_text}" instead of "${expected.logo_text}"`,
+					expected: expected.logo_text,
+					actual: observation.logo_text,
+				});
+			}
+		}
+
+		const deltaE = ColorUtil.deltaE(expected.hex, observation.garment_hex);
+		const maxDeltaE = this.configService.get<number>('qa.maxColorDeltaE') ?? 15;
+		if (deltaE !== null && deltaE > maxDeltaE) {
+			violations.push({
+				check: 'color',
+				severity: deltaE > maxDeltaE * 2 ? 'high' : 'medium',
+				message: `Garment color ${observation.garment_hex} is off from ${expected.hex} (ΔE ${deltaE.toFixed(1)})`,
+				expected: expected.hex,
+				actual: observation.garment_hex,
+			});
+		}
+
+		// Counts are only meaningful for front views
+		if (observation.view === 'front') {
+			if (expected.pocket_count !== null && observation.pocket_count !== null && observation.pocket_count !== expected.pocket_count) {
+				violations.push({
+					check: 'pocket_count',
+					severity: 'medium',
+					message: `${observation.pocket_count} pocket(s) visible, product has ${expected.pocket_count}`,
+					expected: expected.pocket_count,
+					actual: observation.pocket_count,
+				});
+			}
+
+			if (expected.button_count !== null && observation.button_count !== null && observation.button_count !== expected.button_count) {
+				violations.push({
+					check: 'button_count',
+					severity: 'medium',
+					message: `${observation.button_count} button(s) visible, product has ${expected.button_count}`,
+					expected: expected.button_count,
+					actual: observation.button_count,
+				});
+			}
+
+			if (expected.zipper_present !== null && observation.zipper_present !== null && observation.zipper_present !== expected.zipper_present) {
+				violations.push({
+					check: 'zipper',
+					severity: 'medium',
+					message: expected.zipper_present ? 'Zipper is missing' : 'Unexpected zipper on the garment',
+					expected: expected.zipper_present,
+					actual: observation.zipper_present,
+				});
+			}
+		}
+
+		for (const issue of observation.issues) {
+			violations.push({
+				check: 'artifact',
+				severity: 'low',
+				message: issue,
+			});
+		}
+
+		return violations;
+	}
+
+	private normalizeText(text: string): string {
+		return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+	}
+}
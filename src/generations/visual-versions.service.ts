@@ -0,0 +1,87 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { VisualVersion } from '../database/entities/visual-version.entity';
+import { GenerationMessage, VisualVersionSource } from '../libs/enums';
+
+/**
+ * Append-only history of generation visuals.
+ * Every change to generations.visuals[i] is snapshotted here so an approved
+ * image can always be traced back (and rolled back) to what produced it.
+ */
+@Injectable()
+export class VisualVersionsService {
+	private readonly logger = new Logger(VisualVersionsService.name);
+
+	constructor(
+		@InjectRepository(VisualVersion)
+		private readonly versionsRepository: Repository<VisualVersion>,
+	) {}
+
+	/**
+	 * Snapshot a visual. Failures are logged, never thrown -
+	 * a history write must not fail the generation that produced the image.
+	 */
+	async record(
+		generationId: string,
+		visualIndex: number,
+		visual: any,
+		source: VisualVersionSource,
+		triggeredBy?: string | null,
+		details: { restoredVersionId?: string; instruction?: string } = {},
+	): Promise<VisualVersion | null> {
+		try {
+			const latest = await this.versionsRepository.findOne({
+				where: { generation_id: generationId, visual_index: visualIndex },
+				order: { version_number: 'DESC' },
+				select: ['id', 'version_number'],
+			});
+
+			const version = this.versionsRepository.create({
+				generation_id: generationId,
+				visual_index: visualIndex,
+				visual_type: visual?.type || null,
+				version_number: (latest?.version_number || 0) + 1,
+				source,
+				prompt: visual?.prompt || visual?.gemini_prompt || null,
+				negative_prompt: visual?.negative_prompt || null,
+				model: visual?.model || null,
+				provider: visual?.provider || null,
+				image_url: visual?.image_url || null,
+				image_filename: visual?.image_filename || null,
+				status: visual?.status || null,
+				error: visual?.error || null,
+				instruction: details.instruction || null,
+				restored_version_id: details.restoredVersionId || null,
+				triggered_by: triggeredBy || null,
+			});
+
+			return await this.versionsRepository.save(version);
+		} catch (error: any) {
+			this.logger.warn(`⚠️ Failed to record ${source} version for visual ${visualIndex} of ${generationId}: ${error.message}`);
+			return null;
+		}
+	}
+
+	/**
+	 * All versions of one visual, newest first
+	 */
+	async list(generationId: string, visualIndex: number): Promise<VisualVersion[]> {
+		return this.versionsRepository.find({
+			where: { generation_id: generationId, visual_index: visualIndex },
+			order: { version_number: 'DESC' },
+		});
+	}
+
+	async findOne(generationId: string, visualIndex: number, versionId: string): Promise<VisualVersion> {
+		const version = await this.versionsRepository.findOne({
+			where: { id: versionId, generation_id: generationId, visual_index: visualIndex },
+		});
+
+		if (!version) {
+			throw new NotFoundException(GenerationMessage.VERSION_NOT_FOUND);
+		}
+
+		return version;
+	}
+}
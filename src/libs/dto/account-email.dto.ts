@@ -0,0 +1,45 @@
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ValidationMessage } from '../enums';
+import { IsPasswordStrong } from './register.dto';
+
+export class VerifyEmailDto {
+	@ApiProperty({
+		description: 'Token from the verification link',
+		example: 'Jx9QmVb3...',
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	token: string;
+}
+
+export class ForgotPasswordDto {
+	@ApiProperty({
+		description: 'Email address of the account',
+		example: 'john.doe@company.com',
+		format: 'email',
+	})
+	@IsEmail({}, { message: ValidationMessage.EMAIL_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	email: string;
+}
+
+export class ResetPasswordDto {
+	@ApiProperty({
+		description: 'Token from the password reset link',
+		example: 'Jx9QmVb3...',
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	token: string;
+
+	@ApiProperty({
+		description: 'New strong password (min 8 chars, uppercase, lowercase, number)',
+		example: 'MyNewSecurePass123',
+		minLength: 8,
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsPasswordStrong({ message: 'Password must be at least 8 characters with uppercase, lowercase and a number' })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	password: string;
+}
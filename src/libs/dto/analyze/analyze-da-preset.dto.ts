@@ -1,4 +1,5 @@
-import { IsOptional, IsString } from 'class-validator';
+import { IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { DAPresetVisibility, ValidationMessage } from '../../enums';
 
 /**
  * DTO for DA Reference Analysis endpoint
@@ -8,6 +9,15 @@ export class AnalyzeDAPresetDto {
 	@IsOptional()
 	@IsString()
 	preset_name?: string;
+
+	/** Save the analyzed preset into this brand (shared with the brand by default) */
+	@IsOptional()
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	brand_id?: string;
+
+	@IsOptional()
+	@IsEnum(DAPresetVisibility, { message: ValidationMessage.FIELD_INVALID })
+	visibility?: DAPresetVisibility;
 }
 
 /**
@@ -30,6 +30,18 @@ export class AuthResponseDto {
 	})
 	access_token: string;
 
+	@ApiProperty({
+		description: 'Refresh token for POST /auth/refresh (single use - every refresh returns a new one)',
+		example: '3f1c2a9e-5b7d-4e8f-9a0b-1c2d3e4f5a6b.Jx9Qm...',
+	})
+	refresh_token: string;
+
+	@ApiProperty({
+		description: 'When the refresh token (session) expires',
+		example: '2026-02-23T15:42:08.300Z',
+	})
+	refresh_expires_at: Date;
+
 	@ApiProperty({
 		description: 'User information',
 		type: UserInfo,
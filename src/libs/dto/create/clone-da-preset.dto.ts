@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { DAPresetVisibility, ValidationMessage } from '../../enums';
+
+/**
+ * DTO for POST /api/da/presets/:id/clone
+ */
+export class CloneDAPresetDto {
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	brand_id?: string;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@MaxLength(255, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	name?: string;
+
+	@IsEnum(DAPresetVisibility, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	visibility?: DAPresetVisibility;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional, IsNotEmpty, IsUUID } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { ValidationMessage } from '../../enums';
 
@@ -20,4 +20,12 @@ export class CreateBrandDto {
 	@IsString({ message: ValidationMessage.FIELD_INVALID })
 	@IsOptional()
 	brand_brief?: string;
+
+	@ApiProperty({
+		description: 'Workspace that owns the brand (defaults to your personal workspace)',
+		required: false,
+	})
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	workspace_id?: string;
 }
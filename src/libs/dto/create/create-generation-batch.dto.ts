@@ -0,0 +1,68 @@
+import {
+	ArrayMaxSize,
+	ArrayNotEmpty,
+	ArrayUnique,
+	IsArray,
+	IsEnum,
+	IsIn,
+	IsObject,
+	IsOptional,
+	IsString,
+	IsUUID,
+	MaxLength,
+} from 'class-validator';
+import { ImageProvider, ValidationMessage } from '../../enums';
+import { ShotOptions } from '../../../common/interfaces/shot-options.interface';
+
+/**
+ * DTO for POST /api/generations/batches/create
+ * One generation per product × DA preset; products come from product_ids or a whole collection.
+ */
+export class CreateGenerationBatchDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@MaxLength(255, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	name?: string;
+
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@ArrayUnique({ message: ValidationMessage.FIELD_INVALID })
+	@IsUUID('4', { each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	product_ids?: string[];
+
+	/** Use every product of this collection (combined with product_ids when both are given) */
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	collection_id?: string;
+
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@ArrayNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@ArrayUnique({ message: ValidationMessage.FIELD_INVALID })
+	@ArrayMaxSize(20, { message: ValidationMessage.FIELD_INVALID })
+	@IsUUID('4', { each: true, message: ValidationMessage.FIELD_INVALID })
+	da_preset_ids: string[];
+
+	/** Shared per-shot options (same format as POST /api/generations/:id/merge) */
+	@IsObject({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	shot_options?: ShotOptions;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsIn(['adult', 'kid'], { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	model_type?: 'adult' | 'kid';
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsIn(['1:1', '4:5', '9:16', '16:9'], { message: 'Aspect ratio must be one of: 1:1, 4:5, 9:16, 16:9' })
+	@IsOptional()
+	aspect_ratio?: string;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsIn(['2K', '4K'], { message: 'Resolution must be one of: 2K, 4K' })
+	@IsOptional()
+	resolution?: '2K' | '4K';
+
+	@IsEnum(ImageProvider, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	provider?: ImageProvider;
+}
@@ -0,0 +1,45 @@
+import {
+	ArrayNotEmpty,
+	ArrayUnique,
+	IsArray,
+	IsEnum,
+	IsInt,
+	IsNotEmpty,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Max,
+	MaxLength,
+	Min,
+} from 'class-validator';
+import { TokenScope, ValidationMessage } from '../../enums';
+
+/**
+ * DTO for POST /api/auth/tokens/create
+ * The token acts as its creator within `scopes` and, when given, only on `brand_id`.
+ */
+export class CreatePersonalAccessTokenDto {
+	/** What the token is for, e.g. "PIM sync" */
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@MaxLength(100, { message: ValidationMessage.FIELD_INVALID })
+	name: string;
+
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@ArrayNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@ArrayUnique({ message: ValidationMessage.FIELD_INVALID })
+	@IsEnum(TokenScope, { each: true, message: ValidationMessage.FIELD_INVALID })
+	scopes: TokenScope[];
+
+	/** Restrict the token to one brand the user can access */
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	brand_id?: string;
+
+	/** Lifetime in days; omit for a token that does not expire */
+	@IsInt({ message: ValidationMessage.FIELD_INVALID })
+	@Min(1, { message: ValidationMessage.FIELD_INVALID })
+	@Max(365, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	expires_in_days?: number;
+}
@@ -0,0 +1,110 @@
+import {
+	IsString,
+	IsOptional,
+	IsNotEmpty,
+	IsBoolean,
+	IsIn,
+	IsInt,
+	IsNumber,
+	IsUUID,
+	Matches,
+	ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ValidationMessage } from '../../enums';
+import { ShotOptionType } from '../../../common/interfaces/shot-catalog.interface';
+
+export class ShotCameraDto {
+	@ApiProperty({ description: 'Focal length in mm', example: 35 })
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	focal_length_mm: number;
+
+	@ApiProperty({ description: 'Aperture (f-number)', example: 2.8 })
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	aperture: number;
+
+	@ApiProperty({ description: 'Focus target', example: 'subject' })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	focus: string;
+
+	@ApiProperty({ description: 'Camera angle', example: 'low angle', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	angle?: string;
+}
+
+export class CreateShotDefinitionDto {
+	@ApiProperty({
+		description: 'Shot code (lowercase, digits, underscores). Reusing a built-in code overrides it in this scope.',
+		example: 'lifestyle_walk',
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@Matches(/^[a-z][a-z0-9_]{1,99}$/, { message: ValidationMessage.FIELD_INVALID })
+	code: string;
+
+	@ApiProperty({ description: 'Display name', example: 'Lifestyle Walk' })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	display_name: string;
+
+	@ApiProperty({ required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	description?: string;
+
+	@ApiProperty({ type: ShotCameraDto })
+	@ValidateNested()
+	@Type(() => ShotCameraDto)
+	camera: ShotCameraDto;
+
+	@ApiProperty({
+		description: 'Prompt template. Placeholders: {{product_name}}, {{color_name}}, {{category}}, {{subject}}, {{size}}, {{scene}}, {{styling}}, {{camera}}, {{mood}}, {{lighting}}, {{quality}}',
+		example: 'Photorealistic {{subject}} model walking through {{scene}}. {{styling}}. Wearing {{color_name}} {{product_name}}. Shot on {{camera}}.',
+		required: false,
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	prompt_template?: string;
+
+	@ApiProperty({ description: 'Extra negative prompt terms', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	negative_prompt?: string;
+
+	@ApiProperty({ description: 'Human model in frame', default: false, required: false })
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	requires_human?: boolean;
+
+	@ApiProperty({ enum: ['none', 'subject', 'size'], default: 'none', required: false })
+	@IsIn(['none', 'subject', 'size'], { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	option_type?: ShotOptionType;
+
+	@ApiProperty({ default: true, required: false })
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	default_enabled?: boolean;
+
+	@ApiProperty({ description: 'Position in the catalog', required: false })
+	@IsInt({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	sort_order?: number;
+
+	@ApiProperty({ description: 'false = hide this code in the scope', default: true, required: false })
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	is_active?: boolean;
+
+	@ApiProperty({ description: 'Brand scope (owned brand)', required: false })
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	brand_id?: string;
+
+	@ApiProperty({ description: 'DA preset scope (user preset)', required: false })
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	da_preset_id?: string;
+}
@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ValidationMessage } from '../../enums';
+
+export class CreateWorkspaceDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@MaxLength(255, { message: ValidationMessage.FIELD_INVALID })
+	name: string;
+}
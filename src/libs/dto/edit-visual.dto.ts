@@ -0,0 +1,19 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ImageProvider, ValidationMessage } from '../enums';
+import { VisualFeedbackDto } from './visual-comment.dto';
+
+/**
+ * DTO for POST /api/generations/:generationId/visual/:index/edit
+ */
+export class EditVisualDto extends VisualFeedbackDto {
+	/** What to change, e.g. "remove the lamp on the left" */
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@MaxLength(2000, { message: ValidationMessage.FIELD_INVALID })
+	instruction: string;
+
+	/** Defaults to the provider that produced the visual */
+	@IsEnum(ImageProvider, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	provider?: ImageProvider;
+}
@@ -1,5 +1,6 @@
-import { IsArray, IsIn, IsOptional, IsString } from 'class-validator';
-import { ValidationMessage } from '../enums';
+import { IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ImageProvider, ValidationMessage } from '../enums';
+import { MAX_CANDIDATES_PER_SHOT } from '../../common/interfaces/visual.interface';
 
 /**
  * DTO for POST /api/generations/:id/generate (Generate Product Visuals).
@@ -20,6 +21,11 @@ export class GenerateDto {
 	@IsOptional()
 	model?: string;
 
+	/** Image provider for this run; falls back to the user's preference, then IMAGE_PROVIDER */
+	@IsEnum(ImageProvider, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	provider?: ImageProvider;
+
 	@IsString({ message: ValidationMessage.FIELD_INVALID })
 	@IsIn(['2K', '4K'], { message: 'Resolution must be one of: 2K, 4K' })
 	@IsOptional()
@@ -29,4 +35,16 @@ export class GenerateDto {
 	@IsIn(['1:1', '4:5', '9:16', '16:9'], { message: 'Aspect ratio must be one of: 1:1, 4:5, 9:16, 16:9' })
 	@IsOptional()
 	aspect_ratio?: string;
+
+	/** Number of candidate images per shot (default: generation.candidates_per_shot, initially 1) */
+	@IsInt({ message: ValidationMessage.FIELD_INVALID })
+	@Min(1, { message: ValidationMessage.FIELD_INVALID })
+	@Max(MAX_CANDIDATES_PER_SHOT, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	candidates?: number;
+
+	/** Call the provider even when the generation cache has this exact request (IMAGE_CACHE_ENABLED) */
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	force_fresh?: boolean;
 }
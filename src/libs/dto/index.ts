@@ -2,13 +2,23 @@
 export * from './register.dto';
 export * from './login.dto';
 export * from './auth-response.dto';
+export * from './refresh-token.dto';
+export * from './account-email.dto';
+export * from './create/create-personal-access-token.dto';
 
 // Users DTOs
 export * from './update/update-user.dto';
+export * from './update/update-api-key.dto';
+
+// Workspaces DTOs
+export * from './create/create-workspace.dto';
+export * from './workspace-invite.dto';
+export * from './update/update-workspace-member.dto';
 
 // Brands DTOs
 export * from './create/create-brand.dto';
 export * from './update/update-brand.dto';
+export * from './update/update-brand-style-guide.dto';
 
 // Collections DTOs
 export * from './fixed-elements.dto';
@@ -31,6 +41,12 @@ export * from './update/update-generation.dto';
 export * from './generate.dto';
 export * from './merge-prompts.dto';
 export * from './update/update-merged-prompts.dto';
+export * from './select-candidate.dto';
+export * from './rollback-visual.dto';
+export * from './edit-visual.dto';
+export * from './review-visual.dto';
+export * from './visual-comment.dto';
+export * from './create/create-generation-batch.dto';
 
 // Ad Recreation DTOs
 export * from './create/create-ad-recreation.dto';
@@ -40,5 +56,11 @@ export * from './generate-variations.dto';
 // File Upload DTOs
 export * from './upload-file.dto';
 
+// Shot Catalog DTOs
+export * from './create/create-shot-definition.dto';
+export * from './update/update-shot-definition.dto';
+
 // DA (Art Direction) DTOs
 export * from './analyze/analyze-da-preset.dto';
+export * from './create/clone-da-preset.dto';
+export * from './update/update-da-preset-sharing.dto';
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ValidationMessage } from '../enums';
+
+export class RefreshTokenDto {
+	@ApiProperty({
+		description: 'Refresh token from login / register / the previous refresh',
+		example: '3f1c2a9e-5b7d-4e8f-9a0b-1c2d3e4f5a6b.Jx9Qm...',
+	})
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	refresh_token: string;
+}
@@ -35,7 +35,7 @@ function IsBusinessEmail(validationOptions?: ValidationOptions) {
 	};
 }
 
-function IsPasswordStrong(validationOptions?: ValidationOptions) {
+export function IsPasswordStrong(validationOptions?: ValidationOptions) {
 	return function (object: object, propertyName: string) {
 		registerDecorator({
 			name: 'isPasswordStrong',
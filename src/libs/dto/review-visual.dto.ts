@@ -0,0 +1,27 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ValidationMessage, VisualReviewStatus } from '../enums';
+
+/**
+ * DTO for POST /api/generations/:generationId/visual/:index/review
+ */
+export class ReviewVisualDto {
+	@IsEnum(VisualReviewStatus, { message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	status: VisualReviewStatus;
+
+	/** Feedback for the creator; required for rejected / needs_changes */
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	@MaxLength(2000, { message: ValidationMessage.FIELD_INVALID })
+	comment?: string;
+}
+
+/**
+ * DTO for POST /api/generations/:generationId/sign-off
+ */
+export class SignOffGenerationDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	@MaxLength(2000, { message: ValidationMessage.FIELD_INVALID })
+	comment?: string;
+}
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+import { ValidationMessage } from '../enums';
+
+/**
+ * DTO for POST /api/generations/:generationId/visual/:index/rollback
+ */
+export class RollbackVisualDto {
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	version_id: string;
+}
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ValidationMessage } from '../enums';
+
+/**
+ * DTO for POST /api/generations/:generationId/visual/:index/select
+ */
+export class SelectCandidateDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	candidate_id: string;
+}
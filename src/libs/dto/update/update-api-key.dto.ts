@@ -0,0 +1,22 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ValidationMessage } from '../../enums';
+import { ProviderKeyType } from '../../../common/interfaces/provider-key.interface';
+
+const PROVIDER_KEY_TYPES: ProviderKeyType[] = ['openai', 'anthropic', 'gemini'];
+
+/**
+ * DTO for POST /api/users/verifyApiKey
+ */
+export class VerifyApiKeyDto {
+	@IsIn(PROVIDER_KEY_TYPES, { message: ValidationMessage.FIELD_INVALID })
+	keyType: ProviderKeyType;
+}
+
+/**
+ * DTO for POST /api/users/updateApiKey (null / empty apiKey removes the key)
+ */
+export class UpdateApiKeyDto extends VerifyApiKeyDto {
+	@IsString()
+	@IsOptional()
+	apiKey: string | null;
+}
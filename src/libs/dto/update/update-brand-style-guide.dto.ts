@@ -0,0 +1,93 @@
+import {
+	IsArray,
+	IsNotEmpty,
+	IsOptional,
+	IsString,
+	Matches,
+	MaxLength,
+	ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { ValidationMessage } from '../../enums';
+
+export class BrandPaletteColorDto {
+	@ApiProperty({ example: 'Navy' })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	name: string;
+
+	@ApiProperty({ example: '#1B2A41' })
+	@Matches(/^#[0-9A-Fa-f]{6}$/, { message: ValidationMessage.FIELD_INVALID })
+	hex: string;
+
+	@ApiProperty({ example: 'accents', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	usage?: string;
+}
+
+export class BrandModelCastingDto {
+	@ApiProperty({ example: '25-35', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	age_range?: string;
+
+	@ApiProperty({ example: 'mixed ethnicities across the collection', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	ethnicity_diversity?: string;
+
+	@ApiProperty({ example: 'athletic and regular builds', required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	body_types?: string;
+
+	@ApiProperty({ required: false })
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	@MaxLength(500, { message: ValidationMessage.FIELD_INVALID })
+	notes?: string;
+}
+
+/**
+ * DTO for POST /api/brands/updateStyleGuide/:id (replaces the whole guide)
+ */
+export class UpdateBrandStyleGuideDto {
+	@ApiProperty({ type: [BrandPaletteColorDto], required: false })
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@ValidateNested({ each: true })
+	@Type(() => BrandPaletteColorDto)
+	@IsOptional()
+	palette?: BrandPaletteColorDto[];
+
+	@ApiProperty({ example: ['sunglasses', 'visible competitor logos'], required: false })
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@IsString({ each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	forbidden_elements?: string[];
+
+	@ApiProperty({ type: BrandModelCastingDto, required: false })
+	@ValidateNested()
+	@Type(() => BrandModelCastingDto)
+	@IsOptional()
+	model_casting?: BrandModelCastingDto;
+
+	@ApiProperty({ example: ['neon lighting', 'heavy makeup'], required: false })
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@IsString({ each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	negative_terms?: string[];
+
+	@ApiProperty({ example: ['logo never cropped', 'keep clear space around the logo'], required: false })
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@IsString({ each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	logo_usage_rules?: string[];
+
+	@ApiProperty({ example: ['calm', 'warm', 'timeless'], required: false })
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@IsString({ each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	tone_words?: string[];
+}
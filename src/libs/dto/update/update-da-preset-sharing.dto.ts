@@ -0,0 +1,15 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { DAPresetVisibility, ValidationMessage } from '../../enums';
+
+/**
+ * DTO for PUT /api/da/presets/:id/sharing
+ */
+export class UpdateDAPresetSharingDto {
+	@IsEnum(DAPresetVisibility, { message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	visibility: DAPresetVisibility;
+
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	brand_id?: string;
+}
@@ -0,0 +1,48 @@
+import { IsString, IsOptional, IsBoolean, IsIn, IsInt, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ValidationMessage } from '../../enums';
+import { ShotCameraDto } from '../create/create-shot-definition.dto';
+import { ShotOptionType } from '../../../common/interfaces/shot-catalog.interface';
+
+export class UpdateShotDefinitionDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	display_name?: string;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	description?: string;
+
+	@ValidateNested()
+	@Type(() => ShotCameraDto)
+	@IsOptional()
+	camera?: ShotCameraDto;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	prompt_template?: string;
+
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	negative_prompt?: string;
+
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	requires_human?: boolean;
+
+	@IsIn(['none', 'subject', 'size'], { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	option_type?: ShotOptionType;
+
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	default_enabled?: boolean;
+
+	@IsInt({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	sort_order?: number;
+
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	is_active?: boolean;
+}
@@ -1,5 +1,5 @@
-import { IsString, IsOptional, IsEmail, IsBoolean } from 'class-validator';
-import { ValidationMessage } from '../../enums';
+import { IsString, IsOptional, IsEmail, IsBoolean, IsEnum } from 'class-validator';
+import { ImageProvider, ValidationMessage } from '../../enums';
 
 export class UpdateUserDto {
 	@IsEmail({}, { message: ValidationMessage.EMAIL_INVALID })
@@ -34,6 +34,10 @@ export class UpdateUserDto {
 	@IsOptional()
 	gemini_model?: string;
 
+	@IsEnum(ImageProvider, { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	image_provider?: ImageProvider;
+
 	@IsString()
 	@IsOptional()
 	language?: string;
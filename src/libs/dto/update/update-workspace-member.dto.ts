@@ -0,0 +1,11 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { ValidationMessage, WorkspaceRole } from '../../enums';
+
+/**
+ * DTO for POST /api/workspaces/:id/members/:userId/role
+ */
+export class UpdateWorkspaceMemberDto {
+	@IsEnum(WorkspaceRole, { message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	role: WorkspaceRole;
+}
@@ -0,0 +1,84 @@
+import {
+	IsArray,
+	IsBoolean,
+	IsIn,
+	IsNotEmpty,
+	IsNumber,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Max,
+	MaxLength,
+	Min,
+	ValidateIf,
+	ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ValidationMessage } from '../enums';
+
+/**
+ * Pin on the image, normalized 0-1 from the top-left corner.
+ * width / height are required for type "rect".
+ */
+export class VisualCommentAnchorDto {
+	@IsIn(['point', 'rect'], { message: ValidationMessage.FIELD_INVALID })
+	type: 'point' | 'rect';
+
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	@Min(0, { message: ValidationMessage.FIELD_INVALID })
+	@Max(1, { message: ValidationMessage.FIELD_INVALID })
+	x: number;
+
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	@Min(0, { message: ValidationMessage.FIELD_INVALID })
+	@Max(1, { message: ValidationMessage.FIELD_INVALID })
+	y: number;
+
+	@ValidateIf((o) => o.type === 'rect')
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	@Min(0, { message: ValidationMessage.FIELD_INVALID })
+	@Max(1, { message: ValidationMessage.FIELD_INVALID })
+	width?: number;
+
+	@ValidateIf((o) => o.type === 'rect')
+	@IsNumber({}, { message: ValidationMessage.FIELD_INVALID })
+	@Min(0, { message: ValidationMessage.FIELD_INVALID })
+	@Max(1, { message: ValidationMessage.FIELD_INVALID })
+	height?: number;
+}
+
+/**
+ * DTO for POST /api/generations/:generationId/visual/:index/comments
+ */
+export class CreateVisualCommentDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	@MaxLength(2000, { message: ValidationMessage.FIELD_INVALID })
+	body: string;
+
+	/** Omit for a comment on the whole visual; not allowed on replies */
+	@ValidateNested()
+	@Type(() => VisualCommentAnchorDto)
+	@IsOptional()
+	anchor?: VisualCommentAnchorDto;
+
+	/** Reply to this thread */
+	@IsUUID('4', { message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	parent_id?: string;
+}
+
+/**
+ * Comment threads fed into a retry / edit prompt
+ */
+export class VisualFeedbackDto {
+	@IsArray({ message: ValidationMessage.FIELD_INVALID })
+	@IsUUID('4', { each: true, message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	comment_ids?: string[];
+
+	/** Use every unresolved thread on the visual */
+	@IsBoolean({ message: ValidationMessage.FIELD_INVALID })
+	@IsOptional()
+	apply_open_comments?: boolean;
+}
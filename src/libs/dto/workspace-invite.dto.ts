@@ -0,0 +1,24 @@
+import { IsEmail, IsEnum, IsNotEmpty, IsString } from 'class-validator';
+import { ValidationMessage, WorkspaceRole } from '../enums';
+
+/**
+ * DTO for POST /api/workspaces/:id/invite
+ */
+export class InviteWorkspaceMemberDto {
+	@IsEmail({}, { message: ValidationMessage.EMAIL_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	email: string;
+
+	@IsEnum(WorkspaceRole, { message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	role: WorkspaceRole;
+}
+
+/**
+ * DTO for POST /api/workspaces/invites/accept
+ */
+export class AcceptWorkspaceInviteDto {
+	@IsString({ message: ValidationMessage.FIELD_INVALID })
+	@IsNotEmpty({ message: ValidationMessage.FIELD_REQUIRED })
+	token: string;
+}
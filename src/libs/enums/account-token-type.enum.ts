@@ -0,0 +1,9 @@
+/**
+ * Purpose of a single-use account token (sent by email)
+ * - email_verification: confirms the address after registration
+ * - password_reset: lets the owner of the address choose a new password
+ */
+export enum AccountTokenType {
+	EMAIL_VERIFICATION = 'email_verification',
+	PASSWORD_RESET = 'password_reset',
+}
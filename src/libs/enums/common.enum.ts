@@ -5,6 +5,11 @@ export enum AuthMessage {
 	UNAUTHORIZED = 'Unauthorized access',
 	TOKEN_EXPIRED = 'Token has expired',
 	TOKEN_INVALID = 'Invalid token',
+	REFRESH_TOKEN_INVALID = 'Invalid or expired refresh token',
+	SESSION_REVOKED = 'Session has been revoked or has expired',
+	LINK_INVALID = 'This link is invalid, expired or has already been used',
+	EMAIL_ALREADY_VERIFIED = 'Email is already verified',
+	ACCESS_TOKEN_INVALID = 'Invalid, expired or revoked personal access token',
 }
 
 // Validation Errors
@@ -23,12 +28,27 @@ export enum NotFoundMessage {
 	COLLECTION_NOT_FOUND = 'Collection not found',
 	PRODUCT_NOT_FOUND = 'Product not found',
 	GENERATION_NOT_FOUND = 'Generation not found',
+	SHOT_NOT_FOUND = 'Shot definition not found',
+	DA_PRESET_NOT_FOUND = 'DA Preset not found',
+	WORKSPACE_NOT_FOUND = 'Workspace not found',
+	MEMBER_NOT_FOUND = 'Workspace member not found',
+	INVITE_NOT_FOUND = 'Invite not found',
+	COMMENT_NOT_FOUND = 'Comment not found',
+	BATCH_NOT_FOUND = 'Generation batch not found',
+	SESSION_NOT_FOUND = 'Session not found',
+	ACCESS_TOKEN_NOT_FOUND = 'Personal access token not found',
 }
 
 // Permission Errors
 export enum PermissionMessage {
 	FORBIDDEN = 'You do not have permission to access this resource',
 	NOT_OWNER = 'You are not the owner of this resource',
+	NOT_MEMBER = 'You are not a member of this workspace',
+	INSUFFICIENT_ROLE = 'Your workspace role does not allow this action',
+	TOKEN_SCOPE_MISSING = 'This access token does not have the scope required for this action',
+	TOKEN_BRAND_RESTRICTED = 'This access token is restricted to another brand',
+	TOKEN_NOT_ALLOWED = 'Personal access tokens cannot perform this action',
+	TOKEN_BRAND_SCOPED = 'Brand-restricted access tokens cannot perform this action',
 }
 
 // File Upload Errors
@@ -48,6 +68,12 @@ export enum AIMessage {
 	PROMPT_GENERATION_FAILED = 'Prompt generation failed',
 	IMAGE_GENERATION_FAILED = 'Image generation failed',
 	API_KEY_MISSING = 'AI API key is missing',
+	IMAGE_PROVIDER_UNKNOWN = 'Unknown image provider',
+	IMAGE_PROVIDER_NOT_CONFIGURED = 'Image provider is not configured',
+	API_KEY_ENCRYPTION_NOT_CONFIGURED = 'API key encryption is not configured',
+	API_KEY_INVALID = 'API key verification failed',
+	API_KEY_NOT_SET = 'No API key saved for this provider',
+	MODEL_NOT_AVAILABLE = 'Model is not available for this API key',
 }
 
 // Generation Errors
@@ -57,6 +83,65 @@ export enum GenerationMessage {
 	GENERATION_NOT_READY = 'Generation is not ready yet',
 	NO_VISUALS_FOUND = 'No visuals found for this generation',
 	INVALID_GENERATION_TYPE = 'Invalid generation type',
+	CANDIDATE_NOT_FOUND = 'Candidate not found for this visual',
+	CANDIDATE_NOT_SELECTABLE = 'Only completed candidates can be selected',
+	VERSION_NOT_FOUND = 'Version not found for this visual',
+	VISUAL_NOT_EDITABLE = 'Only completed visuals with an image can be edited',
+	GENERATION_PAUSED = 'Generation is paused, resume or cancel it first',
+	NOT_CANCELLABLE = 'Only queued, processing or paused generations can be cancelled',
+	NOT_PAUSABLE = 'Only queued or processing generations can be paused',
+	NOT_PAUSED = 'Generation is not paused',
+}
+
+// Review / Sign-off Errors
+export enum ReviewMessage {
+	VISUAL_NOT_REVIEWABLE = 'Only completed visuals with an image can be reviewed',
+	COMMENT_REQUIRED = 'A comment is required when rejecting or requesting changes',
+	PENDING_VISUALS = 'Every visual must be reviewed before sign-off',
+	CHANGES_REQUESTED = 'Visuals with requested changes must be resolved before sign-off',
+	NO_APPROVED_VISUALS = 'No approved visuals in this generation',
+}
+
+// Visual Comment Errors
+export enum CommentMessage {
+	INVALID_ANCHOR = 'Comment anchor must lie inside the image',
+	REPLY_ANCHOR_NOT_ALLOWED = 'Replies cannot carry an anchor',
+	PARENT_MISMATCH = 'Parent comment belongs to a different visual',
+	NOT_THREAD_ROOT = 'Only the first comment of a thread can be resolved',
+}
+
+// Generation Batch Errors
+export enum BatchMessage {
+	NO_PRODUCTS = 'Provide product_ids or a collection_id with products',
+	PRODUCTS_NOT_ANALYZED = 'Every product must be analyzed first',
+	TOO_MANY_GENERATIONS = 'Too many generations in one batch',
+	MIXED_BRANDS = 'All products of a batch must belong to the same brand',
+	NOT_CANCELLABLE = 'Only a processing batch can be cancelled',
+}
+
+// Generation Queue Errors
+export enum QueueMessage {
+	USER_QUOTA_EXCEEDED = 'You have too many generations waiting in the queue, try again when some have finished',
+	QUEUE_BUSY = 'The generation queue is busy, try again shortly',
+	JOB_INTERRUPTED = 'The job was interrupted by a server restart, please try again',
+}
+
+// Workspace Errors
+export enum WorkspaceMessage {
+	ALREADY_MEMBER = 'User is already a member of this workspace',
+	INVITE_EXPIRED = 'Invite has expired',
+	INVITE_NOT_PENDING = 'Invite is no longer pending',
+	INVITE_EMAIL_MISMATCH = 'Invite was sent to a different email address',
+	INVITE_EMAIL_UNVERIFIED = 'Verify your email address before accepting an invite',
+	LAST_OWNER = 'A workspace must keep at least one owner',
+}
+
+// DA Preset Errors
+export enum DAPresetMessage {
+	SYSTEM_PRESET_READONLY = 'System presets cannot be modified',
+	SYSTEM_PRESET_UNDELETABLE = 'System presets cannot be deleted',
+	PUBLIC_NOT_ALLOWED = 'Only system presets can be public',
+	BRAND_REQUIRED = 'brand_id is required for brand visibility',
 }
 
 // Database Errors
@@ -92,4 +177,9 @@ export enum SuccessMessage {
 	GENERATION_STARTED = 'Generation started successfully',
 	GENERATION_COMPLETED = 'Generation completed successfully',
 	FILE_UPLOADED = 'File uploaded successfully',
+	EMAIL_VERIFIED = 'Email verified successfully',
+	VERIFICATION_EMAIL_SENT = 'Verification email sent',
+	PASSWORD_RESET_REQUESTED = 'If this email is registered, a password reset link has been sent',
+	PASSWORD_RESET = 'Password has been reset, please log in again',
+	ACCESS_TOKEN_REVOKED = 'Personal access token revoked',
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+export enum DAPresetVisibility {
+	PRIVATE = 'private',
+	BRAND = 'brand',
+	PUBLIC = 'public',
+}
@@ -0,0 +1,15 @@
+/**
+ * State of a generation batch (derived from its generations until cancelled)
+ * - processing: generations are still waiting or running
+ * - completed: every generation completed
+ * - partially_failed: finished, some generations failed
+ * - failed: finished, every generation failed
+ * - cancelled: stopped by the user, queued generations were dropped
+ */
+export enum GenerationBatchStatus {
+	PROCESSING = 'processing',
+	COMPLETED = 'completed',
+	PARTIALLY_FAILED = 'partially_failed',
+	FAILED = 'failed',
+	CANCELLED = 'cancelled',
+}
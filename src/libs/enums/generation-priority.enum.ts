@@ -0,0 +1,11 @@
+/**
+ * Bull job priority of generation jobs (1 = highest)
+ * - high: re-runs of an existing generation and single-visual runs
+ * - normal: a regular generation
+ * - bulk: generations of a batch
+ */
+export enum GenerationPriority {
+	HIGH = 1,
+	NORMAL = 5,
+	BULK = 10,
+}
@@ -3,4 +3,6 @@ export enum GenerationStatus {
 	PROCESSING = 'processing',
 	COMPLETED = 'completed',
 	FAILED = 'failed',
+	PAUSED = 'paused',
+	CANCELLED = 'cancelled',
 }
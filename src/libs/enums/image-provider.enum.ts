@@ -0,0 +1,5 @@
+export enum ImageProvider {
+	GEMINI = 'gemini',
+	OPENAI = 'openai',
+	FAKE = 'fake',
+}
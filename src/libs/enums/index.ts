@@ -1,3 +1,12 @@
 export * from './generation-type.enum';
 export * from './generation-status.enum';
-export * from './common.enum';
\ No newline at end of file
+export * from './generation-batch-status.enum';
+export * from './generation-priority.enum';
+export * from './image-provider.enum';
+export * from './visual-version-source.enum';
+export * from './da-preset-visibility.enum';
+export * from './workspace-role.enum';
+export * from './account-token-type.enum';
+export * from './token-scope.enum';
+export * from './review-status.enum';
+export * from './common.enum';
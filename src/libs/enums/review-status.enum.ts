@@ -0,0 +1,21 @@
+/**
+ * Review state of one generated visual
+ * - pending_review: new image, waiting for a reviewer
+ * - approved: cleared for the ZIP download and Product.generated_images
+ * - rejected / needs_changes: reviewer feedback, the image stays unpublished
+ */
+export enum VisualReviewStatus {
+	PENDING_REVIEW = 'pending_review',
+	APPROVED = 'approved',
+	REJECTED = 'rejected',
+	NEEDS_CHANGES = 'needs_changes',
+}
+
+/**
+ * Review state of a whole generation (derived from its visuals until signed off)
+ */
+export enum GenerationReviewStatus {
+	PENDING_REVIEW = 'pending_review',
+	CHANGES_REQUESTED = 'changes_requested',
+	APPROVED = 'approved',
+}
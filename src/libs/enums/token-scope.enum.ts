@@ -0,0 +1,12 @@
+/**
+ * What a personal access token may do
+ * - read-only: read (GET) endpoints only
+ * - products:write: read, create, update and analyze products
+ * - generations:execute: create, run and retry generations and batches, and read them
+ * Write scopes only read what they write; account data is closed to every token.
+ */
+export enum TokenScope {
+	READ_ONLY = 'read-only',
+	PRODUCTS_WRITE = 'products:write',
+	GENERATIONS_EXECUTE = 'generations:execute',
+}
@@ -0,0 +1,8 @@
+export enum VisualVersionSource {
+	GENERATION = 'generation',
+	RETRY = 'retry',
+	PROMPT_EDIT = 'prompt_edit',
+	SELECTION = 'selection',
+	ROLLBACK = 'rollback',
+	EDIT = 'edit',
+}
@@ -0,0 +1,19 @@
+/**
+ * Workspace member roles, from most to least privileged
+ * - owner: manage members and delete brands
+ * - editor: create and change brands, collections, products and generations
+ * - reviewer: read everything, review and comment
+ * - viewer: read only
+ */
+export enum WorkspaceRole {
+	OWNER = 'owner',
+	EDITOR = 'editor',
+	REVIEWER = 'reviewer',
+	VIEWER = 'viewer',
+}
+
+export enum WorkspaceInviteStatus {
+	PENDING = 'pending',
+	ACCEPTED = 'accepted',
+	REVOKED = 'revoked',
+}
@@ -26,6 +26,10 @@ export type AnalyzeCompetitorAdInput = {
     image: string;
     brandBrief?: string;
     notes?: string;
+    /** Aspects to analyze in extra depth (e.g. color_scheme, typography, layout, messaging) */
+    focusAreas?: string[];
+    targetAudience?: string;
+    brandPositioning?: string;
 };
 
 
@@ -0,0 +1,19 @@
+import { emailVerificationMail, passwordResetMail } from './mail-templates';
+
+describe('mail templates', () => {
+	it('escapes user-supplied values in the HTML body', () => {
+		const mail = emailVerificationMail('<a href="https://evil.example">Eve</a>', 'http://app/verify?token=a&b="c"', 48);
+
+		expect(mail.html).not.toContain('<a href="https://evil.example">');
+		expect(mail.html).toContain('&lt;a href=&quot;https://evil.example&quot;&gt;Eve&lt;/a&gt;');
+		expect(mail.html).toContain('href="http://app/verify?token=a&amp;b=&quot;c&quot;"');
+		expect(mail.text).toContain('http://app/verify?token=a&b="c"');
+	});
+
+	it('greets without a name', () => {
+		const mail = passwordResetMail(null, 'http://app/reset-password?token=t', 60);
+
+		expect(mail.html.startsWith('<p>Hi,</p>')).toBe(true);
+		expect(mail.text).toContain('valid for 60 minutes');
+	});
+});
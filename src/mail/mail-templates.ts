@@ -0,0 +1,58 @@
+import { MailMessage } from './transports/mail-transport.interface';
+
+type MailContent = Omit<MailMessage, 'to'>;
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+};
+
+/**
+ * User-supplied values (name) and links go into markup escaped, so they cannot inject HTML
+ */
+function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export function emailVerificationMail(name: string | null, link: string, ttlHours: number): MailContent {
+	const greeting = name ? `Hi ${name},` : 'Hi,';
+	return {
+		subject: 'Confirm your email address',
+		text: [
+			greeting,
+			'',
+			'Please confirm your email address by opening this link:',
+			link,
+			'',
+			`The link is valid for ${ttlHours} hours and can be used once.`,
+			'If you did not create an account, ignore this email.',
+		].join('\n'),
+		html: `<p>${escapeHtml(greeting)}</p>
+<p>Please confirm your email address:</p>
+<p><a href="${escapeHtml(link)}">Confirm email</a></p>
+<p>The link is valid for ${ttlHours} hours and can be used once.<br>If you did not create an account, ignore this email.</p>`,
+	};
+}
+
+export function passwordResetMail(name: string | null, link: string, ttlMinutes: number): MailContent {
+	const greeting = name ? `Hi ${name},` : 'Hi,';
+	return {
+		subject: 'Reset your password',
+		text: [
+			greeting,
+			'',
+			'Someone asked to reset the password of your account. To choose a new password open this link:',
+			link,
+			'',
+			`The link is valid for ${ttlMinutes} minutes and can be used once.`,
+			'If it was not you, ignore this email - your password stays the same.',
+		].join('\n'),
+		html: `<p>${escapeHtml(greeting)}</p>
+<p>Someone asked to reset the password of your account.</p>
+<p><a href="${escapeHtml(link)}">Choose a new password</a></p>
+<p>The link is valid for ${ttlMinutes} minutes and can be used once.<br>If it was not you, ignore this email - your password stays the same.</p>`,
+	};
+}
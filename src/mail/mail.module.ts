@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Module({
+	imports: [ConfigModule],
+	providers: [MailService, SmtpMailTransport, FileMailTransport],
+	exports: [MailService],
+})
+export class MailModule { }
@@ -0,0 +1,53 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailMessage, MailTransport } from './transports/mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+/**
+ * MailService - sends mail through the transport named by MAIL_TRANSPORT (smtp | file)
+ */
+@Injectable()
+export class MailService implements OnModuleInit {
+	private readonly transports = new Map<string, MailTransport>();
+
+	constructor(
+		private readonly configService: ConfigService,
+		smtpTransport: SmtpMailTransport,
+		fileTransport: FileMailTransport,
+	) {
+		[smtpTransport, fileTransport].forEach((transport) => this.transports.set(transport.name, transport));
+	}
+
+	/**
+	 * Fail startup rather than silently writing live reset links to disk in production
+	 */
+	onModuleInit(): void {
+		this.getTransport();
+	}
+
+	async send(message: MailMessage): Promise<void> {
+		await this.getTransport().send({ ...message, from: this.configService.get<string>('mail.from') as string });
+	}
+
+	/**
+	 * Frontend URL for a page with the token in the query string
+	 */
+	buildLink(pagePath: string, token: string): string {
+		const appUrl = (this.configService.get<string>('mail.appUrl') || '').replace(/\/+$/, '');
+		return `${appUrl}${pagePath}?token=${encodeURIComponent(token)}`;
+	}
+
+	private getTransport(): MailTransport {
+		const name = this.configService.get<string>('mail.transport');
+		if (!name) {
+			throw new Error('MAIL_TRANSPORT is not set (smtp | file); only development and test default to file');
+		}
+
+		const transport = this.transports.get(name);
+		if (!transport) {
+			throw new Error(`Unknown mail transport: ${name}`);
+		}
+		return transport;
+	}
+}
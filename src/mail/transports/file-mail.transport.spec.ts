@@ -0,0 +1,41 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMailTransport } from './file-mail.transport';
+
+describe('FileMailTransport', () => {
+	let dir: string;
+	let transport: FileMailTransport;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-outbox-'));
+		transport = new FileMailTransport({ get: jest.fn().mockReturnValue(dir) } as unknown as ConfigService);
+	});
+
+	afterEach(async () => {
+		jest.restoreAllMocks();
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('writes the mail to the outbox without logging its body', async () => {
+		const log = jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+		const link = 'http://localhost:4000/reset-password?token=secret-token';
+
+		await transport.send({
+			from: 'ROMIMI <no-reply@romimi.local>',
+			to: 'user@example.com',
+			subject: 'Reset your password',
+			text: `Open ${link}`,
+		});
+
+		const [file] = await fs.readdir(dir);
+		const stored = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as { to: string; text: string };
+		expect(stored.to).toBe('user@example.com');
+		expect(stored.text).toContain(link);
+
+		expect(log).toHaveBeenCalledTimes(1);
+		expect(String(log.mock.calls[0][0])).not.toContain('secret-token');
+	});
+});
@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Local transport for development and tests.
+ *
+ * Nothing leaves the machine: every mail is written as JSON to MAIL_FILE_DIR,
+ * where verification / reset links can be copied or read by a test. Only the
+ * file name is logged - mail bodies carry live tokens.
+ */
+@Injectable()
+export class FileMailTransport implements MailTransport {
+	readonly name = 'file';
+	private readonly logger = new Logger(FileMailTransport.name);
+
+	constructor(private readonly configService: ConfigService) { }
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		const dir = path.resolve(process.cwd(), this.configService.get<string>('mail.fileDir') || 'mail-outbox');
+		await fs.mkdir(dir, { recursive: true });
+
+		const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().substring(0, 8)}.json`;
+		await fs.writeFile(
+			path.join(dir, filename),
+			JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2),
+		);
+
+		this.logger.log(`📧 [file] "${message.subject}" → ${message.to} (${path.join(dir, filename)})`);
+	}
+}
@@ -0,0 +1,19 @@
+/**
+ * Mail transport abstraction.
+ *
+ * MailService picks the implementation from MAIL_TRANSPORT; adding a transport
+ * (e.g. an HTTP API provider) means implementing this and registering it in MailService.
+ */
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+export interface MailTransport {
+	/** Name used in MAIL_TRANSPORT */
+	readonly name: string;
+
+	send(message: MailMessage & { from: string }): Promise<void>;
+}
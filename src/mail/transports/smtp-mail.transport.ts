@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * SMTP transport (production) - SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS
+ */
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+	readonly name = 'smtp';
+	private readonly logger = new Logger(SmtpMailTransport.name);
+	private transporter: Transporter | null = null;
+
+	constructor(private readonly configService: ConfigService) { }
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		const info = await this.getTransporter().sendMail(message);
+		this.logger.log(`📧 Mail "${message.subject}" sent to ${message.to} (${info.messageId})`);
+	}
+
+	private getTransporter(): Transporter {
+		if (this.transporter) {
+			return this.transporter;
+		}
+
+		const smtp = this.configService.get('mail.smtp');
+		if (!smtp?.host) {
+			throw new Error('SMTP_HOST is not set');
+		}
+
+		this.transporter = nodemailer.createTransport({
+			host: smtp.host,
+			port: smtp.port,
+			secure: smtp.secure,
+			auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+		});
+		return this.transporter;
+	}
+}
@@ -18,16 +18,19 @@ import 'multer';
 import { ProductsService } from './products.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
 import { CreateProductDto, UpdateProductDto, UploadProductDto, AnalyzeImagesDto, UpdateProductJsonDto, AnalyzeProductDirectDto, AnalyzeProductDirectResponse } from '../libs/dto';
 import { AnalyzedProductJSON } from '../common/interfaces/product-json.interface';
 import { User } from '../database/entities/user.entity';
 import { Product } from '../database/entities/product.entity';
 import { FilesService } from '../files/files.service';
+import { TokenScope } from '../libs/enums';
 import { ProductAnalysisResponse, ProductJsonResponse, ProductListResponse, ProductResponse } from 'src/libs/types/product/product.type';
 import { FILE_SIZE_LIMIT, FRONT_BACK_REFERENCE_IMAGES } from 'src/libs/config';
 
 @Controller('products')
 @UseGuards(JwtAuthGuard)
+@RequireScopes(TokenScope.PRODUCTS_WRITE)
 export class ProductsController {
 	constructor(
 		private readonly productsService: ProductsService,
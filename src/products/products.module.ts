@@ -7,12 +7,14 @@ import { Collection } from '../database/entities/collection.entity';
 import { Generation } from '../database/entities/generation.entity';
 import { FilesModule } from '../files/files.module';
 import { AiModule } from '../ai/ai.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
 
 @Module({
 	imports: [
 		TypeOrmModule.forFeature([Product, Collection, Generation]),
 		FilesModule,
 		AiModule,
+		WorkspacesModule,
 	],
 	controllers: [ProductsController],
 	providers: [ProductsService],
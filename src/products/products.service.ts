@@ -15,9 +15,12 @@ import {
 	FileMessage,
 	NotFoundMessage,
 	PermissionMessage,
+	WorkspaceRole,
 } from '../libs/enums';
 import { AnalyzedProductJSON } from '../common/interfaces/product-json.interface';
 import { AnalyzeProductDirectResponse } from '../libs/dto/analyze/analyze-product-direct.dto';
+import { UsageContext } from '../usage/usage-context';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
 
 @Injectable()
 export class ProductsService {
@@ -29,6 +32,7 @@ export class ProductsService {
 		@InjectRepository(Generation)
 		private generationsRepository: Repository<Generation>,
 		private readonly claudeService: ClaudeService,
+		private readonly workspaceAccess: WorkspaceAccessService,
 	) { }
 
 
@@ -47,9 +51,11 @@ export class ProductsService {
 			throw new NotFoundException(NotFoundMessage.COLLECTION_NOT_FOUND);
 		}
 
-		if (!collection.brand || collection.brand.user_id !== userId) {
+		if (!collection.brand) {
 			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
 		}
+		await this.workspaceAccess.assertBrandAccess(collection.brand, userId, WorkspaceRole.EDITOR);
+
 		const result = {
 			name: createProductDto.name,
 			collection_id: createProductDto.collection_id,
@@ -79,11 +85,16 @@ export class ProductsService {
 		const limit = filters.limit && filters.limit > 0 ? filters.limit : 20;
 		const skip = (page - 1) * limit;
 
+		const brandIds = await this.workspaceAccess.getAccessibleBrandIds(userId);
+		if (brandIds.length === 0) {
+			return { items: [], total: 0, page, limit };
+		}
+
 		const query = this.productsRepository
 			.createQueryBuilder('product')
 			.leftJoinAndSelect('product.collection', 'collection')
 			.leftJoinAndSelect('collection.brand', 'brand')
-			.where('brand.user_id = :userId', { userId })
+			.where('brand.id IN (:...brandIds)', { brandIds })
 			.orderBy('product.created_at', 'DESC')
 			.skip(skip)
 			.take(limit);
@@ -99,7 +110,7 @@ export class ProductsService {
 		return { items, total, page, limit };
 	}
 
-	async findOne(id: string, userId: string): Promise<Product> {
+	async findOne(id: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<Product> {
 		const product = await this.productsRepository.findOne({
 			where: { id },
 			relations: ['collection', 'collection.brand'],
@@ -109,11 +120,10 @@ export class ProductsService {
 			throw new NotFoundException(NotFoundMessage.PRODUCT_NOT_FOUND);
 		}
 
-		// Check ownership: Either direct owner (user_id) OR via collection (brand.user_id)
-		const isDirectOwner = product.user_id === userId;
-		const isCollectionOwner = product.collection?.brand?.user_id === userId;
-
-		if (!isDirectOwner && !isCollectionOwner) {
+		// Check access: via the brand's workspace, or direct owner (user_id) for products without a brand
+		if (product.collection?.brand) {
+			await this.workspaceAccess.assertBrandAccess(product.collection.brand, userId, minRole);
+		} else if (product.user_id !== userId) {
 			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
 		}
 
@@ -125,7 +135,7 @@ export class ProductsService {
 		userId: string,
 		updateProductDto: UpdateProductDto,
 	): Promise<Product> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (
 			updateProductDto.collection_id &&
@@ -140,9 +150,10 @@ export class ProductsService {
 				throw new NotFoundException(NotFoundMessage.COLLECTION_NOT_FOUND);
 			}
 
-			if (!collection.brand || collection.brand.user_id !== userId) {
+			if (!collection.brand) {
 				throw new ForbiddenException(PermissionMessage.NOT_OWNER);
 			}
+			await this.workspaceAccess.assertBrandAccess(collection.brand, userId, WorkspaceRole.EDITOR);
 
 			product.collection_id = updateProductDto.collection_id;
 		}
@@ -200,7 +211,8 @@ export class ProductsService {
 	 * STEP 1: Analyze product images with Claude AI
 	 */
 	async analyzeProduct(id: string, userId: string): Promise<AnalyzedProductJSON> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+		UsageContext.assign({ product_id: product.id });
 
 		const images = [
 			product.front_image_url,
@@ -246,7 +258,7 @@ export class ProductsService {
 		userId: string,
 		overrides: Partial<AnalyzedProductJSON>
 	): Promise<AnalyzedProductJSON> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (!product.analyzed_product_json) {
 			throw new BadRequestException('Product must be analyzed first');
@@ -286,7 +298,7 @@ export class ProductsService {
 	 * Clears manual overrides and resets final_product_json to analyzed_product_json
 	 */
 	async resetProductJson(id: string, userId: string): Promise<Product> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		if (!product.analyzed_product_json) {
 			throw new BadRequestException('Product has not been analyzed yet');
@@ -312,7 +324,7 @@ export class ProductsService {
 		userId: string,
 		analysisData: AnalyzeProductDirectResponse
 	): Promise<Product> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		// Update analyzed_product_json with new data
 		product.analyzed_product_json = analysisData as unknown as Record<string, any>;
@@ -377,7 +389,7 @@ export class ProductsService {
 	}
 
 	async remove(id: string, userId: string): Promise<{ message: string }> {
-		const product = await this.findOne(id, userId);
+		const product = await this.findOne(id, userId, WorkspaceRole.EDITOR);
 
 		// First, delete all related generations to avoid foreign key constraint errors
 		const relatedGenerations = await this.generationsRepository.find({
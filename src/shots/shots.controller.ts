@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { ShotsService } from './shots.service';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateShotDefinitionDto, UpdateShotDefinitionDto } from '../libs/dto';
+import { User } from '../database/entities/user.entity';
+import { ShotDefinition } from '../database/entities/shot-definition.entity';
+import { ShotCatalogEntry } from '../common/interfaces/shot-catalog.interface';
+
+@Controller('shots')
+export class ShotsController {
+	constructor(private readonly shotsService: ShotsService) {}
+
+	/**
+	 * Effective catalog (defaults + system + brand + DA preset overrides)
+	 * GET /api/shots/getCatalog?brand_id=...&da_preset_id=...
+	 */
+	@Get('getCatalog')
+	async getCatalog(
+		@CurrentUser() user: User,
+		@Query('brand_id') brandId?: string,
+		@Query('da_preset_id') daPresetId?: string,
+	): Promise<ShotCatalogEntry[]> {
+		return this.shotsService.getCatalog(user.id, { brandId, daPresetId });
+	}
+
+	/**
+	 * Stored shot definitions for exactly one scope (system when no query given)
+	 */
+	@Get('getAllShots')
+	async getAllShots(
+		@CurrentUser() user: User,
+		@Query('brand_id') brandId?: string,
+		@Query('da_preset_id') daPresetId?: string,
+	): Promise<ShotDefinition[]> {
+		return this.shotsService.findAll(user.id, { brandId, daPresetId });
+	}
+
+	@Get('getShot/:id')
+	async getShot(@Param('id') id: string, @CurrentUser() user: User): Promise<ShotDefinition> {
+		return this.shotsService.findOne(id, user.id);
+	}
+
+	@Post('createShot')
+	async createShot(@CurrentUser() user: User, @Body() dto: CreateShotDefinitionDto): Promise<ShotDefinition> {
+		return this.shotsService.create(user.id, dto);
+	}
+
+	@Post('updateShot/:id')
+	async updateShot(
+		@Param('id') id: string,
+		@CurrentUser() user: User,
+		@Body() dto: UpdateShotDefinitionDto,
+	): Promise<ShotDefinition> {
+		return this.shotsService.update(id, user.id, dto);
+	}
+
+	@Post('deleteShot/:id')
+	async deleteShot(@Param('id') id: string, @CurrentUser() user: User): Promise<{ message: string }> {
+		return this.shotsService.remove(id, user.id);
+	}
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShotsService } from './shots.service';
+import { ShotsController } from './shots.controller';
+import { ShotDefinition } from '../database/entities/shot-definition.entity';
+import { Collection } from '../database/entities/collection.entity';
+import { DAModule } from '../da/da.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+
+@Module({
+	imports: [TypeOrmModule.forFeature([ShotDefinition, Collection]), DAModule, WorkspacesModule],
+	controllers: [ShotsController],
+	providers: [ShotsService],
+	exports: [ShotsService],
+})
+export class ShotsModule {}
@@ -0,0 +1,235 @@
+import {
+	Injectable,
+	Logger,
+	NotFoundException,
+	BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, Repository } from 'typeorm';
+import { ShotDefinition } from '../database/entities/shot-definition.entity';
+import { Collection } from '../database/entities/collection.entity';
+import { Generation } from '../database/entities/generation.entity';
+import { CreateShotDefinitionDto, UpdateShotDefinitionDto } from '../libs/dto';
+import { NotFoundMessage, WorkspaceRole } from '../libs/enums';
+import { DEFAULT_SHOT_CATALOG, ShotCatalogEntry } from '../common/interfaces/shot-catalog.interface';
+import { DAService } from '../da/da.service';
+import { WorkspaceAccessService } from '../workspaces/workspace-access.service';
+
+export interface ShotCatalogScope {
+	brandId?: string | null;
+	daPresetId?: string | null;
+}
+
+@Injectable()
+export class ShotsService {
+	private readonly logger = new Logger(ShotsService.name);
+
+	constructor(
+		@InjectRepository(ShotDefinition)
+		private readonly shotsRepository: Repository<ShotDefinition>,
+		@InjectRepository(Collection)
+		private readonly collectionsRepository: Repository<Collection>,
+		private readonly daService: DAService,
+		private readonly workspaceAccess: WorkspaceAccessService,
+	) {}
+
+	// ═══════════════════════════════════════════════════════════
+	// CATALOG RESOLUTION
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Resolve the effective shot catalog for a brand / DA preset.
+	 * Built-in defaults → system rows → brand rows → DA preset rows, merged by code.
+	 * A row with is_active=false removes that code from the catalog.
+	 */
+	async resolveCatalog(scope: ShotCatalogScope = {}): Promise<ShotCatalogEntry[]> {
+		const where: FindOptionsWhere<ShotDefinition>[] = [
+			{ brand_id: IsNull(), da_preset_id: IsNull() },
+		];
+		if (scope.brandId) {
+			where.push({ brand_id: scope.brandId, da_preset_id: IsNull() });
+		}
+		if (scope.daPresetId) {
+			where.push({ brand_id: IsNull(), da_preset_id: scope.daPresetId });
+		}
+
+		const rows = await this.shotsRepository.find({ where });
+
+		const layers: ShotDefinition[][] = [
+			rows.filter((row) => !row.brand_id && !row.da_preset_id),
+			rows.filter((row) => !!row.brand_id),
+			rows.filter((row) => !!row.da_preset_id),
+		];
+
+		const catalog = new Map<string, ShotCatalogEntry>(
+			DEFAULT_SHOT_CATALOG.map((entry) => [entry.code, { ...entry }]),
+		);
+
+		for (const layer of layers) {
+			for (const row of layer) {
+				if (!row.is_active) {
+					catalog.delete(row.code);
+					continue;
+				}
+				catalog.set(row.code, row.toCatalogEntry());
+			}
+		}
+
+		const entries = Array.from(catalog.values()).sort(
+			(a, b) => a.sort_order - b.sort_order || a.code.localeCompare(b.code),
+		);
+
+		if (entries.length === 0) {
+			this.logger.warn(`⚠️ Shot catalog is empty for scope ${JSON.stringify(scope)} - falling back to built-in shots`);
+			return DEFAULT_SHOT_CATALOG.map((entry) => ({ ...entry }));
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Resolve the catalog on behalf of a user (brand scope must be owned, DA preset visible)
+	 */
+	async getCatalog(userId: string, scope: ShotCatalogScope): Promise<ShotCatalogEntry[]> {
+		if (scope.brandId) {
+			await this.workspaceAccess.assertBrandAccess(scope.brandId, userId);
+		}
+		if (scope.daPresetId) {
+			await this.daService.findOne(scope.daPresetId, userId);
+		}
+		return this.resolveCatalog(scope);
+	}
+
+	/**
+	 * Resolve the catalog for a generation (brand from collection/product, plus its DA preset)
+	 */
+	async resolveCatalogForGeneration(generation: Generation): Promise<ShotCatalogEntry[]> {
+		let brandId = generation.collection?.brand_id || generation.product?.brand_id || null;
+
+		if (!brandId && generation.collection_id) {
+			const collection = await this.collectionsRepository.findOne({
+				where: { id: generation.collection_id },
+				select: ['id', 'brand_id'],
+			});
+			brandId = collection?.brand_id || null;
+		}
+
+		return this.resolveCatalog({ brandId, daPresetId: generation.da_preset_id });
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// CRUD
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * List stored shot definitions for a scope (system rows when no scope given)
+	 */
+	async findAll(userId: string, scope: ShotCatalogScope = {}): Promise<ShotDefinition[]> {
+		if (scope.brandId) {
+			await this.workspaceAccess.assertBrandAccess(scope.brandId, userId);
+		}
+		if (scope.daPresetId) {
+			await this.daService.findOne(scope.daPresetId, userId);
+		}
+
+		return this.shotsRepository.find({
+			where: {
+				brand_id: scope.brandId ? scope.brandId : IsNull(),
+				da_preset_id: scope.daPresetId ? scope.daPresetId : IsNull(),
+			},
+			order: { sort_order: 'ASC', code: 'ASC' },
+		});
+	}
+
+	async findOne(id: string, userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<ShotDefinition> {
+		const shot = await this.shotsRepository.findOne({ where: { id } });
+
+		if (!shot) {
+			throw new NotFoundException(NotFoundMessage.SHOT_NOT_FOUND);
+		}
+
+		if (shot.brand_id) {
+			await this.workspaceAccess.assertBrandAccess(shot.brand_id, userId, minRole);
+		}
+		if (shot.da_preset_id) {
+			await this.daService.findOne(shot.da_preset_id, userId);
+		}
+
+		return shot;
+	}
+
+	/**
+	 * Create a brand- or DA-preset-scoped shot.
+	 * System shots are managed by the seed only.
+	 */
+	async create(userId: string, dto: CreateShotDefinitionDto): Promise<ShotDefinition> {
+		const { brand_id, da_preset_id, ...fields } = dto;
+
+		if (!brand_id === !da_preset_id) {
+			throw new BadRequestException('Exactly one of brand_id or da_preset_id is required');
+		}
+
+		if (brand_id) {
+			await this.workspaceAccess.assertBrandAccess(brand_id, userId, WorkspaceRole.EDITOR);
+		} else {
+			await this.daService.findEditable(da_preset_id!, userId);
+		}
+
+		const existing = await this.shotsRepository.findOne({
+			where: {
+				code: dto.code,
+				brand_id: brand_id || IsNull(),
+				da_preset_id: da_preset_id || IsNull(),
+			},
+		});
+		if (existing) {
+			throw new BadRequestException(`Shot with code "${dto.code}" already exists in this scope`);
+		}
+
+		const builtin = DEFAULT_SHOT_CATALOG.find((entry) => entry.code === dto.code);
+		const shot = this.shotsRepository.create({
+			...fields,
+			sort_order: fields.sort_order ?? builtin?.sort_order ?? DEFAULT_SHOT_CATALOG.length + 1,
+			is_builtin: false,
+			brand_id: brand_id || null,
+			da_preset_id: da_preset_id || null,
+		});
+
+		const saved = await this.shotsRepository.save(shot);
+		this.logger.log(`✅ Created shot "${saved.code}" (${brand_id ? `brand ${brand_id}` : `preset ${da_preset_id}`})`);
+
+		return saved;
+	}
+
+	async update(id: string, userId: string, dto: UpdateShotDefinitionDto): Promise<ShotDefinition> {
+		const shot = await this.findEditable(id, userId);
+
+		Object.assign(shot, dto);
+		return this.shotsRepository.save(shot);
+	}
+
+	async remove(id: string, userId: string): Promise<{ message: string }> {
+		const shot = await this.findEditable(id, userId);
+
+		await this.shotsRepository.remove(shot);
+
+		return { message: `Shot "${shot.code}" deleted successfully` };
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// HELPERS
+	// ═══════════════════════════════════════════════════════════
+
+	private async findEditable(id: string, userId: string): Promise<ShotDefinition> {
+		const shot = await this.findOne(id, userId, WorkspaceRole.EDITOR);
+
+		if (!shot.brand_id && !shot.da_preset_id) {
+			throw new BadRequestException('System shots cannot be modified');
+		}
+		if (shot.da_preset_id) {
+			await this.daService.findEditable(shot.da_preset_id, userId);
+		}
+
+		return shot;
+	}
+}
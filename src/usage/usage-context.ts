@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who / what an AI call is attributed to
+ */
+export interface UsageContextData {
+	user_id?: string | null;
+	brand_id?: string | null;
+	collection_id?: string | null;
+	product_id?: string | null;
+	generation_id?: string | null;
+}
+
+const storage = new AsyncLocalStorage<UsageContextData>();
+
+/**
+ * Request-scoped attribution for AI usage records.
+ *
+ * AI services sit several calls below the code that knows which user / generation
+ * they work for, so instead of threading ids through every signature the entry
+ * points (HTTP requests, queue jobs) open a context and services fill in ids as
+ * they load entities. UsageService reads it when recording a call.
+ */
+export class UsageContext {
+	/**
+	 * Run `fn` with a context (merged over the current one, if any)
+	 */
+	static run<T>(data: UsageContextData, fn: () => T): T {
+		return storage.run({ ...(storage.getStore() || {}), ...data }, fn);
+	}
+
+	static get(): UsageContextData {
+		return storage.getStore() || {};
+	}
+
+	/**
+	 * Add ids to the current context. No-op outside a context.
+	 */
+	static assign(data: UsageContextData): void {
+		const store = storage.getStore();
+		if (!store) return;
+
+		for (const [key, value] of Object.entries(data)) {
+			if (value) {
+				store[key as keyof UsageContextData] = value;
+			}
+		}
+	}
+}
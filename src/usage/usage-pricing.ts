@@ -0,0 +1,51 @@
+/**
+ * List prices used to estimate AI spend (USD).
+ * Estimates only - the provider invoice is the source of truth.
+ * Keys are matched as model-name prefixes, longest first.
+ */
+export interface ModelPrice {
+	/** Per 1M input tokens */
+	input_per_mtok?: number;
+	/** Per 1M output tokens */
+	output_per_mtok?: number;
+	/** Per generated image, used when the call reports no token usage */
+	per_image?: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+	// Anthropic
+	'claude-opus': { input_per_mtok: 15, output_per_mtok: 75 },
+	'claude-sonnet': { input_per_mtok: 3, output_per_mtok: 15 },
+	'claude-3-5-sonnet': { input_per_mtok: 3, output_per_mtok: 15 },
+	'claude-3-7-sonnet': { input_per_mtok: 3, output_per_mtok: 15 },
+	'claude-haiku': { input_per_mtok: 0.8, output_per_mtok: 4 },
+	'claude-3-5-haiku': { input_per_mtok: 0.8, output_per_mtok: 4 },
+
+	// Google (image output is billed as output tokens)
+	'gemini-3-pro-image': { input_per_mtok: 2, output_per_mtok: 120, per_image: 0.134 },
+	'gemini-2.5-flash-image': { input_per_mtok: 0.3, output_per_mtok: 30, per_image: 0.039 },
+	'gemini-2.5-flash': { input_per_mtok: 0.3, output_per_mtok: 2.5 },
+
+	// OpenAI
+	'gpt-image-1': { input_per_mtok: 10, output_per_mtok: 40, per_image: 0.167 },
+};
+
+const PRICING_KEYS = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+/**
+ * Estimated cost of one call. Token usage wins over per-image pricing when reported.
+ */
+export function estimateCost(model: string, usage: { input_tokens?: number; output_tokens?: number; image_count?: number }): number {
+	const key = PRICING_KEYS.find((prefix) => (model || '').startsWith(prefix));
+	if (!key) return 0;
+
+	const price = MODEL_PRICING[key];
+	const inputTokens = usage.input_tokens || 0;
+	const outputTokens = usage.output_tokens || 0;
+
+	if (inputTokens || outputTokens) {
+		return (inputTokens * (price.input_per_mtok || 0) + outputTokens * (price.output_per_mtok || 0)) / 1_000_000;
+	}
+
+	return (usage.image_count || 0) * (price.per_image || 0);
+}
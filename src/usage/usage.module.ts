@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AiUsage } from '../database/entities/ai-usage.entity';
+import { Collection } from '../database/entities/collection.entity';
+import { Generation } from '../database/entities/generation.entity';
+import { Product } from '../database/entities/product.entity';
+import { UsageService } from './usage.service';
+
+@Module({
+	imports: [TypeOrmModule.forFeature([AiUsage, Generation, Product, Collection])],
+	providers: [UsageService],
+	exports: [UsageService],
+})
+export class UsageModule { }
@@ -0,0 +1,253 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AiUsage } from '../database/entities/ai-usage.entity';
+import { Brand } from '../database/entities/brand.entity';
+import { Collection } from '../database/entities/collection.entity';
+import { Generation } from '../database/entities/generation.entity';
+import { Product } from '../database/entities/product.entity';
+import { ValidationMessage } from '../libs/enums';
+import { UsageContext, UsageContextData } from './usage-context';
+import { estimateCost } from './usage-pricing';
+
+/** Identifies one AI API call */
+export interface UsageCall {
+	provider: string;
+	model: string;
+	operation: string;
+}
+
+/** Metrics read from a provider response */
+export interface UsageMetrics {
+	input_tokens?: number;
+	output_tokens?: number;
+	image_count?: number;
+	/** false when the API answered but produced nothing usable (e.g. no image) */
+	success?: boolean;
+	error?: string;
+}
+
+export interface UsageTotals {
+	calls: number;
+	failed_calls: number;
+	input_tokens: number;
+	output_tokens: number;
+	image_count: number;
+	cost_usd: number;
+	avg_latency_ms: number;
+}
+
+export interface UsageSummary {
+	from: string;
+	to: string;
+	totals: UsageTotals;
+	by_day: Array<UsageTotals & { day: string }>;
+	by_model: Array<UsageTotals & { provider: string; model: string }>;
+	by_brand: Array<UsageTotals & { brand_id: string | null; brand_name: string | null }>;
+	/** Generations with the most calls - where runaway retries show up */
+	top_generations: Array<UsageTotals & { generation_id: string }>;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * AI usage metering.
+ * AI services wrap every external API call in `track()`; the row is attributed
+ * using the current UsageContext and written without blocking the caller.
+ */
+@Injectable()
+export class UsageService {
+	private readonly logger = new Logger(UsageService.name);
+
+	constructor(
+		@InjectRepository(AiUsage)
+		private readonly usageRepository: Repository<AiUsage>,
+		@InjectRepository(Generation)
+		private readonly generationsRepository: Repository<Generation>,
+		@InjectRepository(Product)
+		private readonly productsRepository: Repository<Product>,
+		@InjectRepository(Collection)
+		private readonly collectionsRepository: Repository<Collection>,
+	) { }
+
+	/**
+	 * Run one AI API call and record it (success or failure). Errors are rethrown untouched.
+	 *
+	 * @param extract - Reads token / image counts from the response
+	 */
+	async track<T>(call: UsageCall, fn: () => Promise<T>, extract?: (result: T) => UsageMetrics): Promise<T> {
+		const startedAt = Date.now();
+
+		try {
+			const result = await fn();
+			let metrics: UsageMetrics = {};
+			try {
+				metrics = extract ? extract(result) : {};
+			} catch (error: any) {
+				this.logger.warn(`⚠️ Could not read usage from ${call.provider} response: ${error.message}`);
+			}
+			this.record(call, { success: true, ...metrics }, Date.now() - startedAt);
+			return result;
+		} catch (error: any) {
+			this.record(call, { success: false, error: error?.message || String(error) }, Date.now() - startedAt);
+			throw error;
+		}
+	}
+
+	/**
+	 * Write a usage row in the background - metering must never fail or slow down an AI call
+	 */
+	record(call: UsageCall, metrics: UsageMetrics, latencyMs: number): void {
+		const context = { ...UsageContext.get() };
+
+		this.resolveAttribution(context)
+			.then((attribution) =>
+				this.usageRepository.insert({
+					...attribution,
+					provider: call.provider,
+					model: call.model || 'unknown',
+					operation: call.operation,
+					input_tokens: metrics.input_tokens || 0,
+					output_tokens: metrics.output_tokens || 0,
+					image_count: metrics.image_count || 0,
+					latency_ms: latencyMs,
+					success: metrics.success !== false,
+					error: metrics.error ? metrics.error.substring(0, 1000) : null,
+					cost_usd: estimateCost(call.model, metrics),
+				}),
+			)
+			.catch((error) => {
+				this.logger.warn(`⚠️ Failed to record ${call.provider} usage (${call.operation}): ${error.message}`);
+			});
+	}
+
+	/**
+	 * Usage of one user, aggregated by day, model and brand
+	 */
+	async getUsageSummary(userId: string, filters: { from?: string; to?: string; brand_id?: string }): Promise<UsageSummary> {
+		const to = filters.to ? new Date(filters.to) : new Date();
+		const from = filters.from ? new Date(filters.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+		if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+			throw new BadRequestException(ValidationMessage.FIELD_INVALID);
+		}
+
+		const base = () => {
+			const query = this.usageRepository
+				.createQueryBuilder('usage')
+				.where('usage.user_id = :userId', { userId })
+				.andWhere('usage.created_at BETWEEN :from AND :to', { from, to });
+			if (filters.brand_id) {
+				query.andWhere('usage.brand_id = :brandId', { brandId: filters.brand_id });
+			}
+			return this.selectTotals(query);
+		};
+
+		const [totals, byDay, byModel, byBrand, topGenerations] = await Promise.all([
+			base().getRawOne(),
+			base()
+				.addSelect(`TO_CHAR(DATE_TRUNC('day', usage.created_at), 'YYYY-MM-DD')`, 'day')
+				.groupBy('day')
+				.orderBy('day', 'ASC')
+				.getRawMany(),
+			base()
+				.addSelect('usage.provider', 'provider')
+				.addSelect('usage.model', 'model')
+				.groupBy('usage.provider')
+				.addGroupBy('usage.model')
+				.orderBy('cost_usd', 'DESC')
+				.getRawMany(),
+			base()
+				.leftJoin(Brand, 'brand', 'brand.id = usage.brand_id')
+				.addSelect('usage.brand_id', 'brand_id')
+				.addSelect('brand.name', 'brand_name')
+				.groupBy('usage.brand_id')
+				.addGroupBy('brand.name')
+				.orderBy('cost_usd', 'DESC')
+				.getRawMany(),
+			base()
+				.andWhere('usage.generation_id IS NOT NULL')
+				.addSelect('usage.generation_id', 'generation_id')
+				.groupBy('usage.generation_id')
+				.orderBy('calls', 'DESC')
+				.limit(10)
+				.getRawMany(),
+		]);
+
+		return {
+			from: from.toISOString(),
+			to: to.toISOString(),
+			totals: this.toTotals(totals),
+			by_day: byDay.map((row) => ({ day: row.day, ...this.toTotals(row) })),
+			by_model: byModel.map((row) => ({ provider: row.provider, model: row.model, ...this.toTotals(row) })),
+			by_brand: byBrand.map((row) => ({ brand_id: row.brand_id, brand_name: row.brand_name, ...this.toTotals(row) })),
+			top_generations: topGenerations.map((row) => ({ generation_id: row.generation_id, ...this.toTotals(row) })),
+		};
+	}
+
+	private selectTotals(query: SelectQueryBuilder<AiUsage>): SelectQueryBuilder<AiUsage> {
+		return query
+			.select('COUNT(*)', 'calls')
+			.addSelect('COUNT(*) FILTER (WHERE usage.success = false)', 'failed_calls')
+			.addSelect('COALESCE(SUM(usage.input_tokens), 0)', 'input_tokens')
+			.addSelect('COALESCE(SUM(usage.output_tokens), 0)', 'output_tokens')
+			.addSelect('COALESCE(SUM(usage.image_count), 0)', 'image_count')
+			.addSelect('COALESCE(SUM(usage.cost_usd), 0)', 'cost_usd')
+			.addSelect('COALESCE(AVG(usage.latency_ms), 0)', 'avg_latency_ms');
+	}
+
+	/** Postgres returns aggregates as strings */
+	private toTotals(row: any): UsageTotals {
+		return {
+			calls: parseInt(row?.calls || '0', 10),
+			failed_calls: parseInt(row?.failed_calls || '0', 10),
+			input_tokens: parseInt(row?.input_tokens || '0', 10),
+			output_tokens: parseInt(row?.output_tokens || '0', 10),
+			image_count: parseInt(row?.image_count || '0', 10),
+			cost_usd: Math.round(parseFloat(row?.cost_usd || '0') * 10000) / 10000,
+			avg_latency_ms: Math.round(parseFloat(row?.avg_latency_ms || '0')),
+		};
+	}
+
+	/**
+	 * Fill in missing ids from what is known: generation → product / collection → brand
+	 */
+	private async resolveAttribution(context: UsageContextData): Promise<Required<UsageContextData>> {
+		const attribution: Required<UsageContextData> = {
+			user_id: context.user_id || null,
+			brand_id: context.brand_id || null,
+			collection_id: context.collection_id || null,
+			product_id: context.product_id || null,
+			generation_id: context.generation_id || null,
+		};
+
+		if (attribution.generation_id && (!attribution.product_id || !attribution.collection_id)) {
+			const generation = await this.generationsRepository.findOne({
+				where: { id: attribution.generation_id },
+				select: ['id', 'user_id', 'product_id', 'collection_id'],
+			});
+			attribution.user_id = attribution.user_id || generation?.user_id || null;
+			attribution.product_id = attribution.product_id || generation?.product_id || null;
+			attribution.collection_id = attribution.collection_id || generation?.collection_id || null;
+		}
+
+		if (!attribution.brand_id && attribution.product_id) {
+			const product = await this.productsRepository.findOne({
+				where: { id: attribution.product_id },
+				select: ['id', 'brand_id', 'collection_id'],
+			});
+			attribution.brand_id = product?.brand_id || null;
+			attribution.collection_id = attribution.collection_id || product?.collection_id || null;
+		}
+
+		if (!attribution.brand_id && attribution.collection_id) {
+			const collection = await this.collectionsRepository.findOne({
+				where: { id: attribution.collection_id },
+				select: ['id', 'brand_id'],
+			});
+			attribution.brand_id = collection?.brand_id || null;
+		}
+
+		return attribution;
+	}
+}
@@ -1,19 +1,24 @@
-import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Query, UseGuards } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { UpdateUserDto } from '../libs/dto';
+import { NoAccessTokens } from '../common/decorators/access-tokens.decorator';
+import { UpdateUserDto, UpdateApiKeyDto, VerifyApiKeyDto } from '../libs/dto';
 import { User } from '../database/entities/user.entity';
 import { ClaudeService } from '../ai/claude.service';
 import { GeminiService } from '../ai/gemini.service';
+import { UsageService, UsageSummary } from '../usage/usage.service';
+import { ProviderKeyVerification } from '../common/interfaces/provider-key.interface';
 
 @Controller('users')
 @UseGuards(JwtAuthGuard)
+@NoAccessTokens()
 export class UsersController {
 	constructor(
 		private readonly usersService: UsersService,
 		private readonly claudeService: ClaudeService,
 		private readonly geminiService: GeminiService,
+		private readonly usageService: UsageService,
 	) { }
 
 	@Get('getUser')
@@ -34,18 +39,32 @@ export class UsersController {
 		return this.usersService.update(user.id, updateUserDto);
 	}
 
+	/**
+	 * Save (after a test call with the key) or remove a provider API key
+	 */
 	@Post('updateApiKey')
 	async updateApiKey(
 		@CurrentUser() user: User,
-		@Body() body: { keyType: 'openai' | 'anthropic' | 'gemini'; apiKey: string | null },
-	): Promise<{ success: boolean; message: string }> {
-		return this.usersService.updateApiKey(user.id, body.keyType, body.apiKey);
+		@Body() body: UpdateApiKeyDto,
+	): Promise<{ success: boolean; message: string; verification: ProviderKeyVerification | null }> {
+		return this.usersService.updateApiKey(user.id, body.keyType, body.apiKey || null);
+	}
+
+	/**
+	 * Re-check a saved provider API key: status, last verified time, available models
+	 */
+	@Post('verifyApiKey')
+	async verifyApiKey(
+		@CurrentUser() user: User,
+		@Body() body: VerifyApiKeyDto,
+	): Promise<ProviderKeyVerification> {
+		return this.usersService.verifyApiKey(user.id, body.keyType);
 	}
 
 	@Get('getApiKeyStatus')
 	async getApiKeyStatus(@CurrentUser() user: User): Promise<{
-		anthropic: { hasSystemKey: boolean; hasUserKey: boolean; activeSource: string; model: string };
-		gemini: { configured: boolean; hasUserKey: boolean; activeSource: string; model: string };
+		anthropic: { hasSystemKey: boolean; hasUserKey: boolean; activeSource: string; model: string; verification: ProviderKeyVerification | null };
+		gemini: { configured: boolean; hasUserKey: boolean; activeSource: string; model: string; verification: ProviderKeyVerification | null };
 	}> {
 		const userSettings = await this.usersService.getUserApiKeys(user.id);
 		const anthropicStatus = this.claudeService.getApiKeyStatus();
@@ -59,14 +78,29 @@ export class UsersController {
 				hasUserKey: !!userSettings.api_key_anthropic,
 				activeSource: userSettings.api_key_anthropic ? 'user' : (anthropicStatus.hasSystemKey ? 'system' : 'none'),
 				model: anthropicModel,
+				verification: userSettings.api_key_verification.anthropic || null,
 			},
 			gemini: {
 				configured: geminiStatus.hasSystemKey,
 				hasUserKey: !!userSettings.api_key_gemini,
 				activeSource: userSettings.api_key_gemini ? 'user' : (geminiStatus.hasSystemKey ? 'system' : 'none'),
 				model: geminiModel,
+				verification: userSettings.api_key_verification.gemini || null,
 			},
 		};
 	}
-}
 
+	/**
+	 * AI usage and estimated cost for the current user
+	 * Optional filters: from / to (ISO dates), brand_id
+	 */
+	@Get('getUsage')
+	async getUsage(
+		@CurrentUser() user: User,
+		@Query('from') from?: string,
+		@Query('to') to?: string,
+		@Query('brand_id') brandId?: string,
+	): Promise<UsageSummary> {
+		return this.usageService.getUsageSummary(user.id, { from, to, brand_id: brandId });
+	}
+}
@@ -4,9 +4,11 @@ import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { User } from '../database/entities/user.entity';
 import { AiModule } from '../ai/ai.module';
+import { UsageModule } from '../usage/usage.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-	imports: [TypeOrmModule.forFeature([User]), AiModule],
+	imports: [TypeOrmModule.forFeature([User]), AiModule, UsageModule, AuthModule],
 	controllers: [UsersController],
 	providers: [UsersService],
 	exports: [UsersService],
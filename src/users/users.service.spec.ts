@@ -0,0 +1,62 @@
+import { ConflictException } from '@nestjs/common';
+import { UsersService } from './users.service';
+import { User } from '../database/entities/user.entity';
+import { ApiKeyCipherService } from '../ai/api-key-cipher.service';
+import { ProviderKeyVerifierService } from '../ai/provider-key-verifier.service';
+import { AuthService } from '../auth/auth.service';
+import { InMemoryRepository } from '../../test/utils/in-memory-repository';
+
+describe('UsersService email change', () => {
+	let users: InMemoryRepository<User>;
+	let auth: { revokeEmailVerification: jest.Mock; sendVerificationEmail: jest.Mock };
+	let service: UsersService;
+	let user: User;
+
+	beforeEach(async () => {
+		users = new InMemoryRepository<User>();
+		auth = {
+			revokeEmailVerification: jest.fn().mockResolvedValue(undefined),
+			sendVerificationEmail: jest.fn().mockResolvedValue(undefined),
+		};
+		service = new UsersService(
+			users.asRepository(),
+			{} as ApiKeyCipherService,
+			{} as ProviderKeyVerifierService,
+			auth as unknown as AuthService,
+		);
+		user = await users.save({ email: 'owner@example.com', name: 'Owner', email_verified_at: new Date() } as User);
+	});
+
+	it('unverifies a changed address, revokes old links and mails the new address', async () => {
+		const updated = await service.update(user.id, { email: 'invited@example.com' });
+
+		expect(updated.email).toBe('invited@example.com');
+		expect(users.rows[0].email_verified_at).toBeNull();
+		expect(auth.revokeEmailVerification).toHaveBeenCalledWith(user.id);
+		expect(auth.sendVerificationEmail).toHaveBeenCalledWith(expect.objectContaining({ email: 'invited@example.com' }));
+	});
+
+	it('keeps the verification when the address does not change', async () => {
+		await service.update(user.id, { name: 'Renamed', email: 'owner@example.com' });
+
+		expect(users.rows[0].email_verified_at).not.toBeNull();
+		expect(auth.revokeEmailVerification).not.toHaveBeenCalled();
+		expect(auth.sendVerificationEmail).not.toHaveBeenCalled();
+	});
+
+	it('still saves the change when the mail cannot be sent', async () => {
+		auth.sendVerificationEmail.mockRejectedValue(new Error('smtp down'));
+
+		await expect(service.update(user.id, { email: 'new@example.com' })).resolves.toMatchObject({
+			email: 'new@example.com',
+		});
+		expect(users.rows[0].email_verified_at).toBeNull();
+	});
+
+	it('rejects an address that belongs to another user', async () => {
+		await users.save({ email: 'taken@example.com' } as User);
+
+		await expect(service.update(user.id, { email: 'taken@example.com' })).rejects.toThrow(ConflictException);
+		expect(auth.revokeEmailVerification).not.toHaveBeenCalled();
+	});
+});
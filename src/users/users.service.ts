@@ -1,22 +1,101 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, InternalServerErrorException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from '../database/entities/user.entity';
 import { UpdateUserDto } from '../libs/dto';
-import { NotFoundMessage, AuthMessage } from '../libs/enums';
+import { NotFoundMessage, AuthMessage, AIMessage } from '../libs/enums';
+import { ApiKeyCipherService } from '../ai/api-key-cipher.service';
+import { ProviderKeyVerifierService } from '../ai/provider-key-verifier.service';
+import { AuthService } from '../auth/auth.service';
+import { ProviderKeyCheck, ProviderKeyType, ProviderKeyVerification, ProviderKeyVerifications } from '../common/interfaces/provider-key.interface';
+
+const API_KEY_FIELDS: Record<ProviderKeyType, 'api_key_openai' | 'api_key_anthropic' | 'api_key_gemini'> = {
+	openai: 'api_key_openai',
+	anthropic: 'api_key_anthropic',
+	gemini: 'api_key_gemini',
+};
+
+// Model overrides and the provider whose key must be able to use them
+const MODEL_FIELDS: Record<'claude_model' | 'gemini_model', ProviderKeyType> = {
+	claude_model: 'anthropic',
+	gemini_model: 'gemini',
+};
 
 @Injectable()
 export class UsersService {
+	private readonly logger = new Logger(UsersService.name);
+
 	constructor(
 		@InjectRepository(User)
 		private usersRepository: Repository<User>,
+		private apiKeyCipher: ApiKeyCipherService,
+		private keyVerifier: ProviderKeyVerifierService,
+		private authService: AuthService,
 	) {}
 
-	// Helper to mask API keys for security
+	// Helper to mask API keys for security (stored keys are encrypted, so only presence is shown)
 	private maskApiKey(key: string | null): string | null {
 		if (!key) return null;
-		if (key.length <= 8) return '****';
-		return key.substring(0, 4) + '****' + key.substring(key.length - 4);
+		return '****';
+	}
+
+	// Encrypt a provider API key before it is stored
+	private sealApiKey(apiKey: string): string {
+		if (!this.apiKeyCipher.isConfigured()) {
+			throw new InternalServerErrorException(AIMessage.API_KEY_ENCRYPTION_NOT_CONFIGURED);
+		}
+		return this.apiKeyCipher.seal(apiKey);
+	}
+
+	// Test call with a new key; an invalid key is rejected and never stored
+	private async assertKeyValid(keyType: ProviderKeyType, apiKey: string): Promise<ProviderKeyCheck> {
+		const check = await this.keyVerifier.verify(keyType, apiKey);
+		if (!check.valid) {
+			throw new BadRequestException(`${AIMessage.API_KEY_INVALID}: ${check.error}`);
+		}
+		return check;
+	}
+
+	// Keep the result of the last test call on the user (null = forget it, key removed)
+	private recordVerification(user: User, keyType: ProviderKeyType, check: ProviderKeyCheck | null): ProviderKeyVerification | null {
+		const verifications = { ...(user.api_key_verification || {}) };
+		const verification: ProviderKeyVerification | null = check
+			? {
+				status: check.valid ? 'valid' : 'invalid',
+				verified_at: new Date().toISOString(),
+				models: check.models,
+				error: check.error || null,
+			}
+			: null;
+
+		if (verification) {
+			verifications[keyType] = verification;
+		} else {
+			delete verifications[keyType];
+		}
+		user.api_key_verification = verifications;
+		return verification;
+	}
+
+	// Reject a model override the key in use (the user's, else the system key) cannot access
+	private async assertModelAvailable(user: User, keyType: ProviderKeyType, model: string): Promise<void> {
+		const apiKey = user[API_KEY_FIELDS[keyType]];
+		const stored = user.api_key_verification?.[keyType];
+
+		let models: string[];
+		if (apiKey && stored?.status === 'valid') {
+			models = stored.models;
+		} else {
+			const check = await this.keyVerifier.verify(keyType, apiKey || null);
+			if (!check.valid) {
+				throw new BadRequestException(`${AIMessage.API_KEY_INVALID}: ${check.error}`);
+			}
+			models = check.models;
+		}
+
+		if (!models.includes(model)) {
+			throw new BadRequestException(`${AIMessage.MODEL_NOT_AVAILABLE}: ${model}`);
+		}
 	}
 
 	async findOne(id: string): Promise<User> {
@@ -26,12 +105,14 @@ export class UsersService {
 				'id',
 				'email',
 				'name',
+				'email_verified_at',
 				'brand_brief',
 				'api_key_openai',
 				'api_key_anthropic',
 				'api_key_gemini',
 				'claude_model',
 				'gemini_model',
+				'image_provider',
 				'language',
 				'theme',
 				'notifications_enabled',
@@ -66,15 +147,17 @@ export class UsersService {
 					'api_key_openai',
 					'api_key_anthropic',
 					'api_key_gemini',
+					'api_key_verification',
 					'claude_model',
 					'gemini_model',
+					'image_provider',
 					'language',
 					'theme',
 					'notifications_enabled',
 				],
 			});
 		} catch {
-			// Columns claude_model/gemini_model may not exist yet (migration not run)
+			// Columns claude_model/gemini_model/image_provider/api_key_verification may not exist yet (migration not run)
 			user = await this.usersRepository.findOne({
 				where: { id },
 				select: [
@@ -93,6 +176,8 @@ export class UsersService {
 			if (user) {
 				(user as Partial<User>).claude_model = null;
 				(user as Partial<User>).gemini_model = null;
+				(user as Partial<User>).image_provider = null;
+				(user as Partial<User>).api_key_verification = null;
 			}
 		}
 
@@ -118,7 +203,8 @@ export class UsersService {
 		}
 
 		// Check if email is being changed and if it's already taken
-		if (updateUserDto.email && updateUserDto.email !== user.email) {
+		const emailChanged = !!updateUserDto.email && updateUserDto.email !== user.email;
+		if (emailChanged) {
 			const existingUser = await this.usersRepository.findOne({
 				where: { email: updateUserDto.email },
 			});
@@ -128,10 +214,49 @@ export class UsersService {
 			}
 		}
 
+		// API keys are verified and stored encrypted; a masked value sent back by the client keeps the stored key
+		const updates: UpdateUserDto = { ...updateUserDto };
+		for (const [keyType, field] of Object.entries(API_KEY_FIELDS) as [ProviderKeyType, (typeof API_KEY_FIELDS)[ProviderKeyType]][]) {
+			const value = updates[field];
+			if (value === undefined) continue;
+			if (value && value.includes('****')) {
+				delete updates[field];
+			} else if (value) {
+				this.recordVerification(user, keyType, await this.assertKeyValid(keyType, value));
+				updates[field] = this.sealApiKey(value);
+			} else {
+				this.recordVerification(user, keyType, null);
+			}
+		}
+
 		// Update user
-		Object.assign(user, updateUserDto);
+		const previousModels = { claude_model: user.claude_model, gemini_model: user.gemini_model };
+		Object.assign(user, updates);
+
+		for (const [field, keyType] of Object.entries(MODEL_FIELDS) as [keyof typeof MODEL_FIELDS, ProviderKeyType][]) {
+			const model = user[field];
+			if (model && model !== previousModels[field]) {
+				await this.assertModelAvailable(user, keyType, model);
+			}
+		}
+
+		// A new address is unverified until its owner opens the link mailed to it
+		if (emailChanged) {
+			await this.authService.revokeEmailVerification(user.id);
+			user.email_verified_at = null;
+		}
+
 		const updatedUser = await this.usersRepository.save(user);
 
+		if (emailChanged) {
+			// A mail outage must not block the update; the user can ask for the mail again
+			try {
+				await this.authService.sendVerificationEmail(updatedUser);
+			} catch (error: any) {
+				this.logger.error(`❌ Verification email to ${updatedUser.email} failed: ${error.message}`);
+			}
+		}
+
 		// Return without password_hash and with masked API keys
 		const { password_hash, ...result } = updatedUser;
 		return {
@@ -144,9 +269,9 @@ export class UsersService {
 
 	async updateApiKey(
 		id: string,
-		keyType: 'openai' | 'anthropic' | 'gemini',
+		keyType: ProviderKeyType,
 		apiKey: string | null,
-	): Promise<{ success: boolean; message: string }> {
+	): Promise<{ success: boolean; message: string; verification: ProviderKeyVerification | null }> {
 		const user = await this.usersRepository.findOne({
 			where: { id },
 		});
@@ -155,23 +280,44 @@ export class UsersService {
 			throw new NotFoundException(NotFoundMessage.USER_NOT_FOUND);
 		}
 
-		const fieldMap = {
-			openai: 'api_key_openai',
-			anthropic: 'api_key_anthropic',
-			gemini: 'api_key_gemini',
-		};
+		const check = apiKey ? await this.assertKeyValid(keyType, apiKey) : null;
 
-		user[fieldMap[keyType]] = apiKey;
+		user[API_KEY_FIELDS[keyType]] = apiKey ? this.sealApiKey(apiKey) : null;
+		const verification = this.recordVerification(user, keyType, check);
 		await this.usersRepository.save(user);
 
 		return {
 			success: true,
 			message: apiKey ? `${keyType} API key updated` : `${keyType} API key removed`,
+			verification,
 		};
 	}
 
 	/**
-	 * Get user's raw API keys (not masked) - for internal use only
+	 * Re-run the test call for a saved key and record the result (an invalid key is kept, marked invalid)
+	 */
+	async verifyApiKey(id: string, keyType: ProviderKeyType): Promise<ProviderKeyVerification> {
+		const user = await this.usersRepository.findOne({
+			where: { id },
+		});
+
+		if (!user) {
+			throw new NotFoundException(NotFoundMessage.USER_NOT_FOUND);
+		}
+
+		const apiKey = user[API_KEY_FIELDS[keyType]];
+		if (!apiKey) {
+			throw new BadRequestException(AIMessage.API_KEY_NOT_SET);
+		}
+
+		const verification = this.recordVerification(user, keyType, await this.keyVerifier.verify(keyType, apiKey)) as ProviderKeyVerification;
+		await this.usersRepository.save(user);
+		return verification;
+	}
+
+	/**
+	 * Get user's stored API keys (encrypted, not masked) - for internal use only.
+	 * Pass them to the AI services as they are; only those decrypt them.
 	 */
 	async getUserApiKeys(id: string): Promise<{
 		api_key_openai: string | null;
@@ -179,12 +325,13 @@ export class UsersService {
 		api_key_gemini: string | null;
 		claude_model: string | null;
 		gemini_model: string | null;
+		api_key_verification: ProviderKeyVerifications;
 	}> {
-		let user: { api_key_openai?: string | null; api_key_anthropic?: string | null; api_key_gemini?: string | null; claude_model?: string | null; gemini_model?: string | null } | null = null;
+		let user: { api_key_openai?: string | null; api_key_anthropic?: string | null; api_key_gemini?: string | null; claude_model?: string | null; gemini_model?: string | null; api_key_verification?: ProviderKeyVerifications | null } | null = null;
 		try {
 			user = await this.usersRepository.findOne({
 				where: { id },
-				select: ['api_key_openai', 'api_key_anthropic', 'api_key_gemini', 'claude_model', 'gemini_model'],
+				select: ['api_key_openai', 'api_key_anthropic', 'api_key_gemini', 'claude_model', 'gemini_model', 'api_key_verification'],
 			});
 		} catch {
 			user = await this.usersRepository.findOne({
@@ -194,6 +341,7 @@ export class UsersService {
 			if (user) {
 				user.claude_model = null;
 				user.gemini_model = null;
+				user.api_key_verification = null;
 			}
 		}
 
@@ -207,6 +355,7 @@ export class UsersService {
 			api_key_gemini: user.api_key_gemini || null,
 			claude_model: user.claude_model ?? null,
 			gemini_model: user.gemini_model ?? null,
+			api_key_verification: user.api_key_verification || {},
 		};
 	}
 }
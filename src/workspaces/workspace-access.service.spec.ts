@@ -0,0 +1,85 @@
+import { ForbiddenException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { WorkspaceAccessService } from './workspace-access.service';
+import { AccessTokenContext } from '../auth/access-token-context';
+import { Brand } from '../database/entities/brand.entity';
+import { Workspace } from '../database/entities/workspace.entity';
+import { WorkspaceMember } from '../database/entities/workspace-member.entity';
+import { User } from '../database/entities/user.entity';
+import { PermissionMessage, TokenScope, WorkspaceRole } from '../libs/enums';
+import { InMemoryRepository } from '../../test/utils/in-memory-repository';
+
+describe('WorkspaceAccessService brand restriction', () => {
+	const userId = '9b7f4c1e-3c2a-4a8e-9f55-0d6c8f1e2a10';
+	const ownBrand = { id: 'brand-1', user_id: userId, workspace_id: null } as Brand;
+	const otherBrand = { id: 'brand-2', user_id: userId, workspace_id: null } as Brand;
+	let service: WorkspaceAccessService;
+
+	beforeEach(() => {
+		service = new WorkspaceAccessService(
+			new InMemoryRepository<Workspace>().asRepository(),
+			new InMemoryRepository<WorkspaceMember>().asRepository(),
+			new InMemoryRepository<Brand>().asRepository(),
+			new InMemoryRepository<User>().asRepository(),
+		);
+	});
+
+	const withToken = <T>(brandId: string | null, fn: () => T): T =>
+		AccessTokenContext.run({ token_id: 'token-1', scopes: [TokenScope.READ_ONLY], brand_id: brandId }, fn);
+
+	it('reaches every brand of the user outside a token request and with an unrestricted token', async () => {
+		await expect(service.assertBrandAccess(otherBrand, userId)).resolves.toBe(otherBrand);
+		await expect(withToken(null, () => service.assertBrandAccess(otherBrand, userId))).resolves.toBe(otherBrand);
+	});
+
+	it('only reaches the token brand with a brand-restricted token', async () => {
+		await expect(withToken('brand-1', () => service.assertBrandAccess(ownBrand, userId))).resolves.toBe(ownBrand);
+		await expect(withToken('brand-1', () => service.assertBrandAccess(otherBrand, userId))).rejects.toThrow(
+			new ForbiddenException(PermissionMessage.TOKEN_BRAND_RESTRICTED),
+		);
+		await expect(withToken('brand-1', () => service.getBrandRole(otherBrand, userId))).resolves.toBeNull();
+		await expect(withToken('brand-1', () => service.getBrandRole(ownBrand, userId))).resolves.toBe(WorkspaceRole.OWNER);
+	});
+});
+
+describe('WorkspaceAccessService personal workspace', () => {
+	const userId = '9b7f4c1e-3c2a-4a8e-9f55-0d6c8f1e2a10';
+	let workspaces: InMemoryRepository<Workspace>;
+	let members: InMemoryRepository<WorkspaceMember>;
+	let service: WorkspaceAccessService;
+
+	beforeEach(async () => {
+		workspaces = new InMemoryRepository<Workspace>();
+		members = new InMemoryRepository<WorkspaceMember>();
+		const users = new InMemoryRepository<User>();
+		await users.save({ id: userId, email: 'owner@example.com' } as User);
+		service = new WorkspaceAccessService(
+			workspaces.asRepository(),
+			members.asRepository(),
+			new InMemoryRepository<Brand>().asRepository(),
+			users.asRepository(),
+		);
+	});
+
+	it('creates the personal workspace once with an owner membership', async () => {
+		const created = await service.getPersonalWorkspace(userId);
+
+		expect(await service.getPersonalWorkspace(userId)).toMatchObject({ id: created.id });
+		expect(workspaces.rows).toHaveLength(1);
+		expect(members.rows).toEqual([expect.objectContaining({ workspace_id: created.id, role: WorkspaceRole.OWNER })]);
+	});
+
+	it('returns the concurrent winner when its insert hits the unique index', async () => {
+		const winner = await workspaces.save({ owner_id: userId, is_personal: true, name: 'winner' } as Workspace);
+		// The first read happens before the other request has inserted its row
+		jest.spyOn(workspaces, 'findOne').mockResolvedValueOnce(null);
+		jest
+			.spyOn(workspaces, 'save')
+			.mockRejectedValueOnce(
+				new QueryFailedError('INSERT', [], Object.assign(new Error('duplicate key'), { code: '23505' })),
+			);
+
+		await expect(service.getPersonalWorkspace(userId)).resolves.toMatchObject({ id: winner.id });
+		expect(members.rows).toHaveLength(0);
+	});
+});
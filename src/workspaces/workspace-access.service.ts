@@ -0,0 +1,183 @@
+import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, IsNull, QueryFailedError, Repository } from 'typeorm';
+import { Brand } from '../database/entities/brand.entity';
+import { Workspace } from '../database/entities/workspace.entity';
+import { WorkspaceMember } from '../database/entities/workspace-member.entity';
+import { User } from '../database/entities/user.entity';
+import { NotFoundMessage, PermissionMessage, WorkspaceRole } from '../libs/enums';
+import { AccessTokenContext } from '../auth/access-token-context';
+
+/**
+ * Higher rank = more privileges
+ */
+export const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+	[WorkspaceRole.VIEWER]: 1,
+	[WorkspaceRole.REVIEWER]: 2,
+	[WorkspaceRole.EDITOR]: 3,
+	[WorkspaceRole.OWNER]: 4,
+};
+
+/**
+ * WorkspaceAccessService
+ *
+ * Single place for "may this user touch this brand?" checks.
+ * Brands belong to a workspace; access to collections, products and
+ * generations follows from the member's role in the brand's workspace.
+ * Legacy brands without a workspace are only accessible to brand.user_id.
+ * Requests made with a brand-restricted personal access token only reach that brand.
+ */
+@Injectable()
+export class WorkspaceAccessService {
+	private readonly logger = new Logger(WorkspaceAccessService.name);
+
+	constructor(
+		@InjectRepository(Workspace)
+		private readonly workspacesRepository: Repository<Workspace>,
+		@InjectRepository(WorkspaceMember)
+		private readonly membersRepository: Repository<WorkspaceMember>,
+		@InjectRepository(Brand)
+		private readonly brandsRepository: Repository<Brand>,
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
+	) {}
+
+	hasRole(role: WorkspaceRole | null, minRole: WorkspaceRole): boolean {
+		return !!role && WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[minRole];
+	}
+
+	async getRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+		const member = await this.membersRepository.findOne({
+			where: { workspace_id: workspaceId, user_id: userId },
+		});
+		return member?.role ?? null;
+	}
+
+	/**
+	 * Throws unless the user is a member of the workspace with at least minRole
+	 */
+	async assertRole(workspaceId: string, userId: string, minRole: WorkspaceRole): Promise<WorkspaceRole> {
+		const role = await this.getRole(workspaceId, userId);
+
+		if (!role) {
+			throw new ForbiddenException(PermissionMessage.NOT_MEMBER);
+		}
+		if (!this.hasRole(role, minRole)) {
+			throw new ForbiddenException(PermissionMessage.INSUFFICIENT_ROLE);
+		}
+
+		return role;
+	}
+
+	/**
+	 * Role of a user for a brand (null = no access)
+	 */
+	async getBrandRole(brand: Brand, userId: string): Promise<WorkspaceRole | null> {
+		if (!AccessTokenContext.allowsBrand(brand.id)) {
+			return null;
+		}
+		if (!brand.workspace_id) {
+			return brand.user_id === userId ? WorkspaceRole.OWNER : null;
+		}
+		return this.getRole(brand.workspace_id, userId);
+	}
+
+	/**
+	 * Load a brand (when given an id) and check the user's role on it
+	 */
+	async assertBrandAccess(
+		brandOrId: Brand | string,
+		userId: string,
+		minRole: WorkspaceRole = WorkspaceRole.VIEWER,
+	): Promise<Brand> {
+		const brand = typeof brandOrId === 'string'
+			? await this.brandsRepository.findOne({ where: { id: brandOrId } })
+			: brandOrId;
+
+		if (!brand) {
+			throw new NotFoundException(NotFoundMessage.BRAND_NOT_FOUND);
+		}
+		if (!AccessTokenContext.allowsBrand(brand.id)) {
+			throw new ForbiddenException(PermissionMessage.TOKEN_BRAND_RESTRICTED);
+		}
+
+		const role = await this.getBrandRole(brand, userId);
+		if (!role) {
+			throw new ForbiddenException(PermissionMessage.NOT_OWNER);
+		}
+		if (!this.hasRole(role, minRole)) {
+			throw new ForbiddenException(PermissionMessage.INSUFFICIENT_ROLE);
+		}
+
+		return brand;
+	}
+
+	/**
+	 * IDs of all brands the user can access with at least minRole
+	 */
+	async getAccessibleBrandIds(userId: string, minRole: WorkspaceRole = WorkspaceRole.VIEWER): Promise<string[]> {
+		const memberships = await this.membersRepository.find({ where: { user_id: userId } });
+		const workspaceIds = memberships
+			.filter((member) => this.hasRole(member.role, minRole))
+			.map((member) => member.workspace_id);
+
+		const where: FindOptionsWhere<Brand>[] = [{ user_id: userId, workspace_id: IsNull() }];
+		if (workspaceIds.length > 0) {
+			where.push({ workspace_id: In(workspaceIds) });
+		}
+
+		const brands = await this.brandsRepository.find({ where, select: ['id'] });
+		return brands.map((brand) => brand.id).filter((brandId) => AccessTokenContext.allowsBrand(brandId));
+	}
+
+	/**
+	 * The user's personal workspace, created on first use.
+	 * Concurrent first requests race on IDX_workspaces_personal_owner; the loser reads the winner's row.
+	 */
+	async getPersonalWorkspace(userId: string): Promise<Workspace> {
+		const existing = await this.workspacesRepository.findOne({
+			where: { owner_id: userId, is_personal: true },
+		});
+		if (existing) {
+			return existing;
+		}
+
+		const user = await this.usersRepository.findOne({ where: { id: userId } });
+		if (!user) {
+			throw new NotFoundException(NotFoundMessage.USER_NOT_FOUND);
+		}
+
+		let workspace: Workspace;
+		try {
+			workspace = await this.workspacesRepository.save(
+				this.workspacesRepository.create({
+					name: `${user.name || user.email}'s workspace`,
+					owner_id: userId,
+					is_personal: true,
+				}),
+			);
+		} catch (error) {
+			// 23505 = unique_violation
+			const duplicate = error instanceof QueryFailedError && (error.driverError as { code?: string }).code === '23505';
+			const winner = duplicate
+				? await this.workspacesRepository.findOne({ where: { owner_id: userId, is_personal: true } })
+				: null;
+			if (!winner) {
+				throw error;
+			}
+			return winner;
+		}
+
+		await this.membersRepository.save(
+			this.membersRepository.create({
+				workspace_id: workspace.id,
+				user_id: userId,
+				role: WorkspaceRole.OWNER,
+			}),
+		);
+
+		this.logger.log(`🏠 Created personal workspace ${workspace.id} for user ${userId}`);
+
+		return workspace;
+	}
+}
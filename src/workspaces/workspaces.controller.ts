@@ -0,0 +1,104 @@
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { WorkspacesService, WorkspaceDetails, WorkspaceMemberSummary, WorkspaceWithRole } from './workspaces.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import {
+	AcceptWorkspaceInviteDto,
+	CreateWorkspaceDto,
+	InviteWorkspaceMemberDto,
+	UpdateWorkspaceMemberDto,
+} from '../libs/dto';
+import { User } from '../database/entities/user.entity';
+import { Workspace } from '../database/entities/workspace.entity';
+import { WorkspaceInvite } from '../database/entities/workspace-invite.entity';
+
+@Controller('workspaces')
+@UseGuards(JwtAuthGuard)
+export class WorkspacesController {
+	constructor(private readonly workspacesService: WorkspacesService) {}
+
+	@Get('getAllWorkspaces')
+	async getAllWorkspaces(@CurrentUser() user: User): Promise<WorkspaceWithRole[]> {
+		return this.workspacesService.findAll(user.id);
+	}
+
+	@Get('getWorkspace/:id')
+	async getWorkspace(
+		@Param('id') id: string,
+		@CurrentUser() user: User,
+	): Promise<WorkspaceDetails> {
+		return this.workspacesService.findOne(id, user.id);
+	}
+
+	@Post('createWorkspace')
+	async createWorkspace(@CurrentUser() user: User, @Body() dto: CreateWorkspaceDto): Promise<Workspace> {
+		return this.workspacesService.create(user.id, dto);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// INVITES
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Invite an email with a role (owners only)
+	 * POST /api/workspaces/:id/invite
+	 */
+	@Post(':id/invite')
+	async invite(
+		@Param('id') id: string,
+		@CurrentUser() user: User,
+		@Body() dto: InviteWorkspaceMemberDto,
+	): Promise<WorkspaceInvite> {
+		return this.workspacesService.invite(id, user.id, dto);
+	}
+
+	@Get(':id/invites')
+	async getInvites(@Param('id') id: string, @CurrentUser() user: User): Promise<WorkspaceInvite[]> {
+		return this.workspacesService.listInvites(id, user.id);
+	}
+
+	@Post(':id/invites/revoke/:inviteId')
+	async revokeInvite(
+		@Param('id') id: string,
+		@Param('inviteId') inviteId: string,
+		@CurrentUser() user: User,
+	): Promise<{ message: string }> {
+		return this.workspacesService.revokeInvite(id, inviteId, user.id);
+	}
+
+	/**
+	 * Accept an invite with its token (logged-in email must match)
+	 * POST /api/workspaces/invites/accept
+	 */
+	@Post('invites/accept')
+	async acceptInvite(@CurrentUser() user: User, @Body() dto: AcceptWorkspaceInviteDto): Promise<WorkspaceWithRole> {
+		return this.workspacesService.acceptInvite(user.id, dto.token);
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// MEMBERS
+	// ═══════════════════════════════════════════════════════════
+
+	@Post(':id/members/:userId/role')
+	async updateMemberRole(
+		@Param('id') id: string,
+		@Param('userId') memberUserId: string,
+		@CurrentUser() user: User,
+		@Body() dto: UpdateWorkspaceMemberDto,
+	): Promise<WorkspaceMemberSummary[]> {
+		return this.workspacesService.updateMemberRole(id, memberUserId, user.id, dto.role);
+	}
+
+	/**
+	 * Remove a member (owners) or leave the workspace (own user id)
+	 * POST /api/workspaces/:id/members/remove/:userId
+	 */
+	@Post(':id/members/remove/:userId')
+	async removeMember(
+		@Param('id') id: string,
+		@Param('userId') memberUserId: string,
+		@CurrentUser() user: User,
+	): Promise<{ message: string }> {
+		return this.workspacesService.removeMember(id, memberUserId, user.id);
+	}
+}
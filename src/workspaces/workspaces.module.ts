@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkspacesService } from './workspaces.service';
+import { WorkspaceAccessService } from './workspace-access.service';
+import { WorkspacesController } from './workspaces.controller';
+import { Workspace } from '../database/entities/workspace.entity';
+import { WorkspaceMember } from '../database/entities/workspace-member.entity';
+import { WorkspaceInvite } from '../database/entities/workspace-invite.entity';
+import { Brand } from '../database/entities/brand.entity';
+import { User } from '../database/entities/user.entity';
+
+@Module({
+	imports: [TypeOrmModule.forFeature([Workspace, WorkspaceMember, WorkspaceInvite, Brand, User])],
+	controllers: [WorkspacesController],
+	providers: [WorkspacesService, WorkspaceAccessService],
+	exports: [WorkspacesService, WorkspaceAccessService],
+})
+export class WorkspacesModule {}
@@ -0,0 +1,326 @@
+import {
+	Injectable,
+	Logger,
+	NotFoundException,
+	ForbiddenException,
+	BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Workspace } from '../database/entities/workspace.entity';
+import { WorkspaceMember } from '../database/entities/workspace-member.entity';
+import { WorkspaceInvite } from '../database/entities/workspace-invite.entity';
+import { User } from '../database/entities/user.entity';
+import { CreateWorkspaceDto, InviteWorkspaceMemberDto } from '../libs/dto';
+import {
+	NotFoundMessage,
+	WorkspaceInviteStatus,
+	WorkspaceMessage,
+	WorkspaceRole,
+} from '../libs/enums';
+import { WorkspaceAccessService } from './workspace-access.service';
+
+const INVITE_TTL_DAYS = 7;
+
+export interface WorkspaceMemberSummary {
+	user_id: string;
+	email: string;
+	name: string | null;
+	role: WorkspaceRole;
+	joined_at: Date;
+}
+
+export interface WorkspaceWithRole extends Workspace {
+	role: WorkspaceRole;
+}
+
+export interface WorkspaceDetails extends Omit<Workspace, 'members'> {
+	role: WorkspaceRole;
+	members: WorkspaceMemberSummary[];
+}
+
+@Injectable()
+export class WorkspacesService {
+	private readonly logger = new Logger(WorkspacesService.name);
+
+	constructor(
+		@InjectRepository(Workspace)
+		private readonly workspacesRepository: Repository<Workspace>,
+		@InjectRepository(WorkspaceMember)
+		private readonly membersRepository: Repository<WorkspaceMember>,
+		@InjectRepository(WorkspaceInvite)
+		private readonly invitesRepository: Repository<WorkspaceInvite>,
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
+		private readonly workspaceAccess: WorkspaceAccessService,
+	) {}
+
+	// ═══════════════════════════════════════════════════════════
+	// WORKSPACES
+	// ═══════════════════════════════════════════════════════════
+
+	async create(userId: string, dto: CreateWorkspaceDto): Promise<Workspace> {
+		const workspace = await this.workspacesRepository.save(
+			this.workspacesRepository.create({
+				name: dto.name.trim(),
+				owner_id: userId,
+				is_personal: false,
+			}),
+		);
+
+		await this.membersRepository.save(
+			this.membersRepository.create({
+				workspace_id: workspace.id,
+				user_id: userId,
+				role: WorkspaceRole.OWNER,
+			}),
+		);
+
+		this.logger.log(`🏢 Workspace created: ${workspace.id} (${workspace.name})`);
+
+		return workspace;
+	}
+
+	/**
+	 * Workspaces the user belongs to, with the user's role in each
+	 */
+	async findAll(userId: string): Promise<WorkspaceWithRole[]> {
+		await this.workspaceAccess.getPersonalWorkspace(userId);
+
+		const memberships = await this.membersRepository.find({
+			where: { user_id: userId },
+			relations: ['workspace'],
+			order: { created_at: 'ASC' },
+		});
+
+		return memberships.map((member) => ({ ...member.workspace, role: member.role }));
+	}
+
+	async findOne(id: string, userId: string): Promise<WorkspaceDetails> {
+		const workspace = await this.getWorkspace(id);
+		const role = await this.workspaceAccess.assertRole(id, userId, WorkspaceRole.VIEWER);
+
+		return {
+			...workspace,
+			role,
+			members: await this.listMembers(id),
+		};
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// MEMBERS
+	// ═══════════════════════════════════════════════════════════
+
+	async listMembers(workspaceId: string): Promise<WorkspaceMemberSummary[]> {
+		const members = await this.membersRepository
+			.createQueryBuilder('member')
+			.innerJoin('member.user', 'user')
+			.select(['member.user_id', 'member.role', 'member.created_at', 'user.id', 'user.email', 'user.name'])
+			.where('member.workspace_id = :workspaceId', { workspaceId })
+			.orderBy('member.created_at', 'ASC')
+			.getMany();
+
+		return members.map((member) => ({
+			user_id: member.user_id,
+			email: member.user.email,
+			name: member.user.name || null,
+			role: member.role,
+			joined_at: member.created_at,
+		}));
+	}
+
+	/**
+	 * Change a member's role (owners only)
+	 */
+	async updateMemberRole(
+		workspaceId: string,
+		memberUserId: string,
+		userId: string,
+		role: WorkspaceRole,
+	): Promise<WorkspaceMemberSummary[]> {
+		await this.getWorkspace(workspaceId);
+		await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+		const member = await this.findMember(workspaceId, memberUserId);
+
+		if (member.role === WorkspaceRole.OWNER && role !== WorkspaceRole.OWNER) {
+			await this.assertNotLastOwner(workspaceId);
+		}
+
+		member.role = role;
+		await this.membersRepository.save(member);
+		this.logger.log(`👥 Workspace ${workspaceId}: ${memberUserId} is now ${role}`);
+
+		return this.listMembers(workspaceId);
+	}
+
+	/**
+	 * Remove a member (owners only) or leave the workspace (any member removing themselves)
+	 */
+	async removeMember(workspaceId: string, memberUserId: string, userId: string): Promise<{ message: string }> {
+		await this.getWorkspace(workspaceId);
+
+		if (memberUserId !== userId) {
+			await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+		}
+
+		const member = await this.findMember(workspaceId, memberUserId);
+
+		if (member.role === WorkspaceRole.OWNER) {
+			await this.assertNotLastOwner(workspaceId);
+		}
+
+		await this.membersRepository.remove(member);
+		this.logger.log(`👋 Workspace ${workspaceId}: removed member ${memberUserId}`);
+
+		return { message: 'Member removed successfully' };
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// INVITES
+	// ═══════════════════════════════════════════════════════════
+
+	/**
+	 * Invite an email into the workspace (owners only).
+	 * Re-inviting a pending email refreshes its role, token and expiry.
+	 */
+	async invite(workspaceId: string, userId: string, dto: InviteWorkspaceMemberDto): Promise<WorkspaceInvite> {
+		await this.getWorkspace(workspaceId);
+		await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+		const email = dto.email.trim().toLowerCase();
+
+		const existingUser = await this.usersRepository
+			.createQueryBuilder('user')
+			.where('LOWER(user.email) = :email', { email })
+			.getOne();
+		if (existingUser && (await this.workspaceAccess.getRole(workspaceId, existingUser.id))) {
+			throw new BadRequestException(WorkspaceMessage.ALREADY_MEMBER);
+		}
+
+		const invite = await this.invitesRepository.findOne({
+			where: { workspace_id: workspaceId, email, status: WorkspaceInviteStatus.PENDING },
+		}) || this.invitesRepository.create({ workspace_id: workspaceId, email });
+
+		invite.role = dto.role;
+		invite.token = randomBytes(32).toString('hex');
+		invite.invited_by = userId;
+		invite.expires_at = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+		const saved = await this.invitesRepository.save(invite);
+		this.logger.log(`✉️ Workspace ${workspaceId}: invited ${email} as ${dto.role}`);
+
+		return saved;
+	}
+
+	async listInvites(workspaceId: string, userId: string): Promise<WorkspaceInvite[]> {
+		await this.getWorkspace(workspaceId);
+		await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+		return this.invitesRepository.find({
+			where: { workspace_id: workspaceId, status: WorkspaceInviteStatus.PENDING },
+			order: { created_at: 'DESC' },
+		});
+	}
+
+	async revokeInvite(workspaceId: string, inviteId: string, userId: string): Promise<{ message: string }> {
+		await this.workspaceAccess.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+		const invite = await this.invitesRepository.findOne({
+			where: { id: inviteId, workspace_id: workspaceId },
+		});
+		if (!invite) {
+			throw new NotFoundException(NotFoundMessage.INVITE_NOT_FOUND);
+		}
+		if (invite.status !== WorkspaceInviteStatus.PENDING) {
+			throw new BadRequestException(WorkspaceMessage.INVITE_NOT_PENDING);
+		}
+
+		invite.status = WorkspaceInviteStatus.REVOKED;
+		await this.invitesRepository.save(invite);
+
+		return { message: 'Invite revoked successfully' };
+	}
+
+	/**
+	 * Accept an invite as the logged-in user (verified email must match the invite)
+	 */
+	async acceptInvite(userId: string, token: string): Promise<WorkspaceWithRole> {
+		const invite = await this.invitesRepository.findOne({ where: { token } });
+		if (!invite) {
+			throw new NotFoundException(NotFoundMessage.INVITE_NOT_FOUND);
+		}
+		if (invite.status !== WorkspaceInviteStatus.PENDING) {
+			throw new BadRequestException(WorkspaceMessage.INVITE_NOT_PENDING);
+		}
+		if (invite.expires_at.getTime() < Date.now()) {
+			throw new BadRequestException(WorkspaceMessage.INVITE_EXPIRED);
+		}
+
+		const user = await this.usersRepository.findOne({ where: { id: userId } });
+		if (!user) {
+			throw new NotFoundException(NotFoundMessage.USER_NOT_FOUND);
+		}
+		if (user.email.toLowerCase() !== invite.email) {
+			throw new ForbiddenException(WorkspaceMessage.INVITE_EMAIL_MISMATCH);
+		}
+		// Anyone can register with the invited address; only its owner can verify it
+		if (!user.email_verified_at) {
+			throw new ForbiddenException(WorkspaceMessage.INVITE_EMAIL_UNVERIFIED);
+		}
+
+		let role = await this.workspaceAccess.getRole(invite.workspace_id, userId);
+		if (!role) {
+			await this.membersRepository.save(
+				this.membersRepository.create({
+					workspace_id: invite.workspace_id,
+					user_id: userId,
+					role: invite.role,
+					invited_by: invite.invited_by,
+				}),
+			);
+			role = invite.role;
+		}
+
+		invite.status = WorkspaceInviteStatus.ACCEPTED;
+		invite.accepted_at = new Date();
+		await this.invitesRepository.save(invite);
+
+		this.logger.log(`✅ User ${userId} joined workspace ${invite.workspace_id} as ${role}`);
+
+		const workspace = await this.getWorkspace(invite.workspace_id);
+		return { ...workspace, role };
+	}
+
+	// ═══════════════════════════════════════════════════════════
+	// HELPERS
+	// ═══════════════════════════════════════════════════════════
+
+	private async getWorkspace(id: string): Promise<Workspace> {
+		const workspace = await this.workspacesRepository.findOne({ where: { id } });
+		if (!workspace) {
+			throw new NotFoundException(NotFoundMessage.WORKSPACE_NOT_FOUND);
+		}
+		return workspace;
+	}
+
+	private async findMember(workspaceId: string, userId: string): Promise<WorkspaceMember> {
+		const member = await this.membersRepository.findOne({
+			where: { workspace_id: workspaceId, user_id: userId },
+		});
+		if (!member) {
+			throw new NotFoundException(NotFoundMessage.MEMBER_NOT_FOUND);
+		}
+		return member;
+	}
+
+	private async assertNotLastOwner(workspaceId: string): Promise<void> {
+		const owners = await this.membersRepository.count({
+			where: { workspace_id: workspaceId, role: WorkspaceRole.OWNER },
+		});
+		if (owners <= 1) {
+			throw new BadRequestException(WorkspaceMessage.LAST_OWNER);
+		}
+	}
+}
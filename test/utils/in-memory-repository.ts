@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import { FindOperator, ObjectLiteral, Repository } from 'typeorm';
+
+type Where<T> = Partial<Record<keyof T, unknown>>;
+
+/**
+ * Minimal stand-in for a TypeORM Repository in unit tests.
+ *
+ * Supports the calls the services under test make (create, save, find, findOne,
+ * exists, count, update, delete) and the IsNull / Not / MoreThan / LessThan / In
+ * operators in `where`. Arrays in `where` are OR-ed, as in TypeORM.
+ */
+export class InMemoryRepository<T extends { id?: string }> {
+	rows: T[] = [];
+
+	/** This fake typed as the repository a service expects */
+	asRepository(): Repository<T & ObjectLiteral> {
+		return this as unknown as Repository<T & ObjectLiteral>;
+	}
+
+	create(values: Partial<T>): T {
+		return { ...values } as T;
+	}
+
+	save(entity: T): Promise<T> {
+		const now = new Date();
+		const row = entity as T & { id?: string; created_at?: Date; updated_at?: Date };
+		row.id = row.id || randomUUID();
+		row.created_at = row.created_at || now;
+		row.updated_at = now;
+
+		const index = this.rows.findIndex((existing) => existing.id === row.id);
+		if (index >= 0) this.rows[index] = { ...row };
+		else this.rows.push({ ...row });
+		return Promise.resolve(row);
+	}
+
+	find(
+		options: { where?: Where<T> | Where<T>[]; order?: Partial<Record<keyof T, 'ASC' | 'DESC'>> } = {},
+	): Promise<T[]> {
+		const rows = this.rows.filter((row) => this.matches(row, options.where)).map((row) => ({ ...row }));
+		const [orderKey, direction] = (Object.entries(options.order || {})[0] || []) as [keyof T, string];
+		if (orderKey) {
+			rows.sort((a, b) => {
+				const diff = a[orderKey] < b[orderKey] ? -1 : a[orderKey] > b[orderKey] ? 1 : 0;
+				return direction === 'DESC' ? -diff : diff;
+			});
+		}
+		return Promise.resolve(rows);
+	}
+
+	async findOne(options: { where?: Where<T> | Where<T>[] }): Promise<T | null> {
+		return (await this.find(options))[0] || null;
+	}
+
+	async exists(options: { where?: Where<T> | Where<T>[] }): Promise<boolean> {
+		return (await this.find(options)).length > 0;
+	}
+
+	async count(options: { where?: Where<T> | Where<T>[] } = {}): Promise<number> {
+		return (await this.find(options)).length;
+	}
+
+	update(where: Where<T> | string, values: Partial<T>): Promise<{ affected: number }> {
+		const criteria = (typeof where === 'string' ? { id: where } : where) as Where<T>;
+		const matched = this.rows.filter((row) => this.matches(row, criteria));
+		matched.forEach((row) => Object.assign(row, values));
+		return Promise.resolve({ affected: matched.length });
+	}
+
+	delete(where: Where<T>): Promise<{ affected: number }> {
+		const before = this.rows.length;
+		this.rows = this.rows.filter((row) => !this.matches(row, where));
+		return Promise.resolve({ affected: before - this.rows.length });
+	}
+
+	private matches(row: T, where?: Where<T> | Where<T>[]): boolean {
+		if (!where) return true;
+		if (Array.isArray(where)) return where.some((criteria) => this.matches(row, criteria));
+
+		return Object.entries(where).every(([key, expected]) => this.matchesValue(row[key as keyof T], expected));
+	}
+
+	private matchesValue(actual: unknown, expected: unknown): boolean {
+		if (!(expected instanceof FindOperator)) {
+			return actual instanceof Date && expected instanceof Date
+				? actual.getTime() === expected.getTime()
+				: actual === expected;
+		}
+
+		const operator = expected as FindOperator<unknown>;
+		const value: unknown = operator.value;
+		switch (operator.type) {
+			case 'isNull':
+				return actual === null || actual === undefined;
+			case 'not':
+				return !this.matchesValue(actual, value);
+			case 'moreThan':
+				return actual !== null && actual !== undefined && (actual as number) > (value as number);
+			case 'lessThan':
+				return actual !== null && actual !== undefined && (actual as number) < (value as number);
+			case 'in':
+				return (value as unknown[]).includes(actual);
+			default:
+				throw new Error(`InMemoryRepository: unsupported operator ${operator.type}`);
+		}
+	}
+}